@@ -0,0 +1,60 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add grouping and sorting to report templates
+ * Version: 1.0.10
+ *
+ * This migration adds:
+ * - report_templates.group_by: Splits report rows into sections with
+ *   subtotals (none, billTo, driver or day)
+ * - report_templates.sort_spec: JSONB { field, direction } used to order
+ *   runs within the report (and within each section)
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Adding grouping and sorting to report_templates table...');
+
+  try {
+    await db.query(`
+      ALTER TABLE report_templates
+      ADD COLUMN IF NOT EXISTS group_by VARCHAR(20) NOT NULL DEFAULT 'none',
+      ADD COLUMN IF NOT EXISTS sort_spec JSONB NOT NULL
+        DEFAULT '{"field": "scheduledTime", "direction": "asc"}'::jsonb
+    `);
+
+    console.log('✅ Added group_by and sort_spec columns');
+
+    await db.query(`
+      ALTER TABLE report_templates
+      ADD CONSTRAINT chk_report_templates_group_by
+        CHECK (group_by IN ('none', 'billTo', 'driver', 'day'))
+    `);
+
+    console.log('✅ Added group_by check constraint');
+    console.log('🎉 Migration 1.0.10 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.10 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Rolling back report template grouping and sorting...');
+
+  try {
+    await db.query(`
+      ALTER TABLE report_templates
+      DROP CONSTRAINT IF EXISTS chk_report_templates_group_by,
+      DROP COLUMN IF EXISTS group_by,
+      DROP COLUMN IF EXISTS sort_spec
+    `);
+
+    console.log('✅ Dropped group_by and sort_spec columns');
+    console.log('🎉 Migration 1.0.10 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.10 rollback failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,107 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add report_schedules table
+ * Version: 1.0.11
+ *
+ * This migration creates the report_schedules table used by the API server's
+ * report scheduler. Each schedule generates a report from a template on a
+ * weekly or monthly cadence and emails it to its recipients. next_run_at is
+ * advanced every time the scheduler claims a schedule, so a schedule is only
+ * generated once per period even with several servers running.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Creating report_schedules table...');
+
+  try {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS report_schedules (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(255) NOT NULL,
+        organization_id VARCHAR(255) NOT NULL,
+        template_id UUID NOT NULL,
+        frequency VARCHAR(20) NOT NULL DEFAULT 'weekly',
+        day_of_week SMALLINT NOT NULL DEFAULT 1,
+        day_of_month SMALLINT NOT NULL DEFAULT 1,
+        hour SMALLINT NOT NULL DEFAULT 6,
+        timezone VARCHAR(100) NOT NULL DEFAULT 'UTC',
+        format VARCHAR(10),
+        recipients JSONB NOT NULL DEFAULT '[]',
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        last_run_at TIMESTAMP WITH TIME ZONE,
+        last_report_id UUID,
+        last_error TEXT,
+        created_by VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+        -- Deleting a template removes its schedules
+        CONSTRAINT fk_report_schedules_template_id
+          FOREIGN KEY (template_id)
+          REFERENCES report_templates(id)
+          ON DELETE CASCADE,
+
+        CONSTRAINT fk_report_schedules_last_report_id
+          FOREIGN KEY (last_report_id)
+          REFERENCES reports(id)
+          ON DELETE SET NULL,
+
+        -- Constraints
+        CONSTRAINT chk_report_schedules_frequency CHECK (frequency IN ('weekly', 'monthly')),
+        CONSTRAINT chk_report_schedules_day_of_week CHECK (day_of_week BETWEEN 0 AND 6),
+        CONSTRAINT chk_report_schedules_day_of_month CHECK (day_of_month BETWEEN 1 AND 28),
+        CONSTRAINT chk_report_schedules_hour CHECK (hour BETWEEN 0 AND 23),
+        CONSTRAINT chk_report_schedules_format CHECK (format IS NULL OR format IN ('csv', 'pdf', 'xlsx')),
+        CONSTRAINT chk_report_schedules_name_not_empty CHECK (name != ''),
+        CONSTRAINT chk_report_schedules_organization_id_not_empty CHECK (organization_id != ''),
+        CONSTRAINT chk_report_schedules_created_by_not_empty CHECK (created_by != '')
+      );
+    `);
+
+    console.log('✅ Created report_schedules table');
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS idx_report_schedules_organization_id
+        ON report_schedules(organization_id);
+      CREATE INDEX IF NOT EXISTS idx_report_schedules_template_id
+        ON report_schedules(template_id);
+      CREATE INDEX IF NOT EXISTS idx_report_schedules_due
+        ON report_schedules(next_run_at)
+        WHERE is_active = TRUE;
+    `);
+
+    await db.query(`
+      DROP TRIGGER IF EXISTS update_report_schedules_updated_at ON report_schedules;
+      CREATE TRIGGER update_report_schedules_updated_at
+        BEFORE UPDATE ON report_schedules
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+    `);
+
+    console.log('✅ Added report_schedules indexes and trigger');
+    console.log('🎉 Migration 1.0.11 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.11 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Dropping report_schedules table...');
+
+  try {
+    await db.query(`
+      DROP TRIGGER IF EXISTS update_report_schedules_updated_at ON report_schedules;
+    `);
+    await db.query('DROP TABLE IF EXISTS report_schedules CASCADE;');
+
+    console.log('✅ Dropped report_schedules table');
+    console.log('🎉 Migration 1.0.11 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.11 rollback failed:', error);
+    throw error;
+  }
+}
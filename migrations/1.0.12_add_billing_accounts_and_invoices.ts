@@ -0,0 +1,191 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add billing accounts and invoices
+ * Version: 1.0.12
+ *
+ * This migration adds billing to runs:
+ * - billing_accounts maps a run's two-character bill_to code to a customer
+ *   and the rates it is billed at (unique per organization)
+ * - invoices holds one invoice per account and period, numbered sequentially
+ *   per organization and year using invoice_counters
+ * - invoice_line_items holds one billed run per row. run_id is unique so a
+ *   run can only appear on one invoice; deleting an unpaid invoice releases
+ *   its runs to be invoiced again
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Creating billing tables...');
+
+  try {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS billing_accounts (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        organization_id VARCHAR(255) NOT NULL,
+        bill_to VARCHAR(2) NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        contact_email VARCHAR(255),
+        rate_per_run NUMERIC(12, 2),
+        surcharge_percent NUMERIC(5, 2) NOT NULL DEFAULT 0,
+        payment_terms_days SMALLINT NOT NULL DEFAULT 30,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+        CONSTRAINT uq_billing_accounts_organization_bill_to
+          UNIQUE (organization_id, bill_to),
+
+        -- Constraints
+        CONSTRAINT chk_billing_accounts_bill_to CHECK (bill_to ~ '^[A-Z0-9]{2}$'),
+        CONSTRAINT chk_billing_accounts_rate_per_run CHECK (rate_per_run IS NULL OR rate_per_run > 0),
+        CONSTRAINT chk_billing_accounts_surcharge_percent CHECK (surcharge_percent BETWEEN 0 AND 100),
+        CONSTRAINT chk_billing_accounts_payment_terms_days CHECK (payment_terms_days BETWEEN 0 AND 365),
+        CONSTRAINT chk_billing_accounts_name_not_empty CHECK (name != ''),
+        CONSTRAINT chk_billing_accounts_organization_id_not_empty CHECK (organization_id != ''),
+        CONSTRAINT chk_billing_accounts_created_by_not_empty CHECK (created_by != '')
+      );
+    `);
+
+    console.log('✅ Created billing_accounts table');
+
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS invoice_counters (
+        organization_id VARCHAR(255) NOT NULL,
+        year SMALLINT NOT NULL,
+        last_number INTEGER NOT NULL DEFAULT 0,
+
+        PRIMARY KEY (organization_id, year)
+      );
+    `);
+
+    console.log('✅ Created invoice_counters table');
+
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS invoices (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        organization_id VARCHAR(255) NOT NULL,
+        billing_account_id UUID NOT NULL,
+        invoice_number VARCHAR(50) NOT NULL,
+        bill_to VARCHAR(2) NOT NULL,
+        customer_name VARCHAR(255) NOT NULL,
+        period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+        period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+        issued_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'unpaid',
+        paid_at TIMESTAMP WITH TIME ZONE,
+        run_count INTEGER NOT NULL DEFAULT 0,
+        subtotal NUMERIC(12, 2) NOT NULL DEFAULT 0,
+        surcharge_percent NUMERIC(5, 2) NOT NULL DEFAULT 0,
+        surcharge NUMERIC(12, 2) NOT NULL DEFAULT 0,
+        total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+        created_by VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+        -- Accounts with invoices are deactivated rather than deleted
+        CONSTRAINT fk_invoices_billing_account_id
+          FOREIGN KEY (billing_account_id)
+          REFERENCES billing_accounts(id)
+          ON DELETE RESTRICT,
+
+        CONSTRAINT uq_invoices_organization_invoice_number
+          UNIQUE (organization_id, invoice_number),
+
+        -- Constraints
+        CONSTRAINT chk_invoices_status CHECK (status IN ('unpaid', 'paid')),
+        CONSTRAINT chk_invoices_paid_at CHECK ((status = 'paid') = (paid_at IS NOT NULL)),
+        CONSTRAINT chk_invoices_period CHECK (period_end >= period_start),
+        CONSTRAINT chk_invoices_organization_id_not_empty CHECK (organization_id != ''),
+        CONSTRAINT chk_invoices_created_by_not_empty CHECK (created_by != '')
+      );
+    `);
+
+    console.log('✅ Created invoices table');
+
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS invoice_line_items (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        invoice_id UUID NOT NULL,
+        run_id TEXT,
+        description TEXT NOT NULL,
+        service_date TIMESTAMP WITH TIME ZONE NOT NULL,
+        amount NUMERIC(12, 2) NOT NULL,
+
+        CONSTRAINT fk_invoice_line_items_invoice_id
+          FOREIGN KEY (invoice_id)
+          REFERENCES invoices(id)
+          ON DELETE CASCADE,
+
+        -- Keep the billed line if the run is deleted later
+        CONSTRAINT fk_invoice_line_items_run_id
+          FOREIGN KEY (run_id)
+          REFERENCES runs(id)
+          ON DELETE SET NULL,
+
+        -- A run is only ever billed once
+        CONSTRAINT uq_invoice_line_items_run_id UNIQUE (run_id)
+      );
+    `);
+
+    console.log('✅ Created invoice_line_items table');
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS idx_billing_accounts_organization_id
+        ON billing_accounts(organization_id);
+      CREATE INDEX IF NOT EXISTS idx_invoices_organization_id
+        ON invoices(organization_id);
+      CREATE INDEX IF NOT EXISTS idx_invoices_billing_account_id
+        ON invoices(billing_account_id);
+      CREATE INDEX IF NOT EXISTS idx_invoices_status
+        ON invoices(organization_id, status);
+      CREATE INDEX IF NOT EXISTS idx_invoice_line_items_invoice_id
+        ON invoice_line_items(invoice_id);
+      CREATE INDEX IF NOT EXISTS idx_runs_bill_to
+        ON runs(UPPER(bill_to));
+    `);
+
+    await db.query(`
+      DROP TRIGGER IF EXISTS update_billing_accounts_updated_at ON billing_accounts;
+      CREATE TRIGGER update_billing_accounts_updated_at
+        BEFORE UPDATE ON billing_accounts
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+      DROP TRIGGER IF EXISTS update_invoices_updated_at ON invoices;
+      CREATE TRIGGER update_invoices_updated_at
+        BEFORE UPDATE ON invoices
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+    `);
+
+    console.log('✅ Added billing indexes and triggers');
+    console.log('🎉 Migration 1.0.12 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.12 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Dropping billing tables...');
+
+  try {
+    await db.query(`
+      DROP TRIGGER IF EXISTS update_invoices_updated_at ON invoices;
+      DROP TRIGGER IF EXISTS update_billing_accounts_updated_at ON billing_accounts;
+    `);
+    await db.query('DROP INDEX IF EXISTS idx_runs_bill_to;');
+    await db.query('DROP TABLE IF EXISTS invoice_line_items CASCADE;');
+    await db.query('DROP TABLE IF EXISTS invoices CASCADE;');
+    await db.query('DROP TABLE IF EXISTS invoice_counters CASCADE;');
+    await db.query('DROP TABLE IF EXISTS billing_accounts CASCADE;');
+
+    console.log('✅ Dropped billing tables');
+    console.log('🎉 Migration 1.0.12 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.12 rollback failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,74 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add driver_pay_settings table
+ * Version: 1.0.13
+ *
+ * This migration creates the driver_pay_settings table used to calculate
+ * driver earnings statements. Each organization has at most one row choosing
+ * between a commission on the run price and a flat rate per completed run,
+ * and the pay period (weekly, biweekly or monthly) statements cover.
+ * Organizations without a row use the application defaults.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Creating driver_pay_settings table...');
+
+  try {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS driver_pay_settings (
+        organization_id VARCHAR(255) PRIMARY KEY,
+        pay_type VARCHAR(20) NOT NULL DEFAULT 'commission',
+        commission_percent NUMERIC(5, 2) NOT NULL DEFAULT 25,
+        flat_rate NUMERIC(12, 2) NOT NULL DEFAULT 0,
+        pay_period VARCHAR(20) NOT NULL DEFAULT 'weekly',
+        period_anchor DATE NOT NULL DEFAULT '2025-01-06',
+        timezone VARCHAR(100) NOT NULL DEFAULT 'UTC',
+        updated_by VARCHAR(255),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+        -- Constraints
+        CONSTRAINT chk_driver_pay_settings_pay_type CHECK (pay_type IN ('commission', 'flatRate')),
+        CONSTRAINT chk_driver_pay_settings_commission_percent CHECK (commission_percent BETWEEN 0 AND 100),
+        CONSTRAINT chk_driver_pay_settings_flat_rate CHECK (flat_rate >= 0),
+        CONSTRAINT chk_driver_pay_settings_pay_period CHECK (pay_period IN ('weekly', 'biweekly', 'monthly')),
+        CONSTRAINT chk_driver_pay_settings_organization_id_not_empty CHECK (organization_id != '')
+      );
+    `);
+
+    console.log('✅ Created driver_pay_settings table');
+
+    await db.query(`
+      DROP TRIGGER IF EXISTS update_driver_pay_settings_updated_at ON driver_pay_settings;
+      CREATE TRIGGER update_driver_pay_settings_updated_at
+        BEFORE UPDATE ON driver_pay_settings
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+    `);
+
+    console.log('✅ Added driver_pay_settings trigger');
+    console.log('🎉 Migration 1.0.13 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.13 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Dropping driver_pay_settings table...');
+
+  try {
+    await db.query(`
+      DROP TRIGGER IF EXISTS update_driver_pay_settings_updated_at ON driver_pay_settings;
+    `);
+    await db.query('DROP TABLE IF EXISTS driver_pay_settings CASCADE;');
+
+    console.log('✅ Dropped driver_pay_settings table');
+    console.log('🎉 Migration 1.0.13 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.13 rollback failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,96 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Store run prices as integer cents with a currency
+ * Version: 1.0.14
+ *
+ * This migration replaces the text price column on runs with:
+ * - price_cents: price in integer cents (existing prices such as "85" or
+ *   "$85.50" are converted; unparseable values become 0)
+ * - currency: ISO 4217 currency code, defaulting to USD
+ * - line_items: JSONB array of tips, tolls and surcharges billed on top of
+ *   the price ({ type, description, amountCents })
+ *
+ * Rolling back restores price as a whole-dollar string; line items are lost.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Converting run prices to integer cents...');
+
+  try {
+    await db.query(`
+      ALTER TABLE runs
+      ADD COLUMN IF NOT EXISTS price_cents INTEGER,
+      ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+      ADD COLUMN IF NOT EXISTS line_items JSONB NOT NULL DEFAULT '[]'::jsonb
+    `);
+
+    console.log('✅ Added price_cents, currency and line_items columns');
+
+    // Strip "$" and thousands separators, then convert dollars to cents
+    const result = await db.query(`
+      UPDATE runs
+      SET price_cents = CASE
+        WHEN regexp_replace(COALESCE(price, ''), '[$,\\s]', '', 'g') ~ '^[0-9]+(\\.[0-9]+)?$'
+          THEN ROUND(regexp_replace(price, '[$,\\s]', '', 'g')::numeric * 100)::integer
+        ELSE 0
+      END
+      WHERE price_cents IS NULL
+    `);
+
+    console.log(`✅ Converted prices for ${result.rowCount ?? 0} runs`);
+
+    await db.query(`
+      ALTER TABLE runs
+      ALTER COLUMN price_cents SET DEFAULT 0,
+      ALTER COLUMN price_cents SET NOT NULL,
+      ADD CONSTRAINT chk_runs_price_cents CHECK (price_cents >= 0),
+      ADD CONSTRAINT chk_runs_currency_format CHECK (currency ~ '^[A-Z]{3}$'),
+      ADD CONSTRAINT chk_runs_line_items_array CHECK (jsonb_typeof(line_items) = 'array')
+    `);
+
+    console.log('✅ Added price constraints');
+
+    await db.query('ALTER TABLE runs DROP COLUMN IF EXISTS price');
+
+    console.log('✅ Dropped text price column');
+    console.log('🎉 Migration 1.0.14 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.14 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Restoring text run prices...');
+
+  try {
+    await db.query(`
+      ALTER TABLE runs ADD COLUMN IF NOT EXISTS price text NOT NULL DEFAULT '0'
+    `);
+
+    await db.query(`
+      UPDATE runs SET price = ROUND(price_cents / 100.0)::integer::text
+    `);
+
+    console.log('✅ Restored price column');
+
+    await db.query(`
+      ALTER TABLE runs
+      DROP CONSTRAINT IF EXISTS chk_runs_price_cents,
+      DROP CONSTRAINT IF EXISTS chk_runs_currency_format,
+      DROP CONSTRAINT IF EXISTS chk_runs_line_items_array,
+      DROP COLUMN IF EXISTS price_cents,
+      DROP COLUMN IF EXISTS currency,
+      DROP COLUMN IF EXISTS line_items
+    `);
+
+    console.log('✅ Dropped price_cents, currency and line_items columns');
+    console.log('🎉 Migration 1.0.14 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.14 rollback failed:', error);
+    throw error;
+  }
+}
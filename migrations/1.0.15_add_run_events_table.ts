@@ -0,0 +1,62 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add run_events table
+ * Version: 1.0.15
+ *
+ * This migration creates the run_events table, an audit log of every change
+ * made to a run: who made it, when, and the fields that changed with their
+ * values before and after. Events are not removed when their run is deleted,
+ * so run_id has no foreign key.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Creating run_events table...');
+
+  try {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS run_events (
+        id UUID PRIMARY KEY,
+        run_id VARCHAR(255) NOT NULL,
+        actor_id VARCHAR(255) NOT NULL,
+        type VARCHAR(20) NOT NULL,
+        changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+        -- Constraints
+        CONSTRAINT chk_run_events_type CHECK (type IN ('created', 'updated', 'statusChanged', 'deleted')),
+        CONSTRAINT chk_run_events_changes_array CHECK (jsonb_typeof(changes) = 'array')
+      );
+    `);
+
+    console.log('✅ Created run_events table');
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS idx_run_events_run_id_created_at
+        ON run_events (run_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_run_events_actor_id ON run_events (actor_id);
+    `);
+
+    console.log('✅ Added run_events indexes');
+    console.log('🎉 Migration 1.0.15 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.15 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Dropping run_events table...');
+
+  try {
+    await db.query('DROP TABLE IF EXISTS run_events CASCADE;');
+
+    console.log('✅ Dropped run_events table');
+    console.log('🎉 Migration 1.0.15 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.15 rollback failed:', error);
+    throw error;
+  }
+}
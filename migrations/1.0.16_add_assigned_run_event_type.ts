@@ -0,0 +1,48 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Allow assigned run events
+ * Version: 1.0.16
+ *
+ * This migration adds 'assigned' to the event types allowed in run_events so
+ * the dispatch board can record when an admin hands a run to another driver.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Adding assigned run event type...');
+
+  try {
+    await db.query(`
+      ALTER TABLE run_events
+      DROP CONSTRAINT IF EXISTS chk_run_events_type,
+      ADD CONSTRAINT chk_run_events_type CHECK (type IN ('created', 'updated', 'statusChanged', 'assigned', 'deleted'))
+    `);
+
+    console.log('✅ Updated run_events type constraint');
+    console.log('🎉 Migration 1.0.16 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.16 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Removing assigned run event type...');
+
+  try {
+    await db.query(`DELETE FROM run_events WHERE type = 'assigned'`);
+    await db.query(`
+      ALTER TABLE run_events
+      DROP CONSTRAINT IF EXISTS chk_run_events_type,
+      ADD CONSTRAINT chk_run_events_type CHECK (type IN ('created', 'updated', 'statusChanged', 'deleted'))
+    `);
+
+    console.log('✅ Restored run_events type constraint');
+    console.log('🎉 Migration 1.0.16 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.16 rollback failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,88 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add run_series table
+ * Version: 1.0.17
+ *
+ * This migration creates the run_series table for recurring runs. A series
+ * stores its recurrence as an RRULE string (e.g. "FREQ=WEEKLY;BYDAY=MO,WE"),
+ * the time of day runs start and the run fields every occurrence is created
+ * with. Occurrences are created ahead of time as ordinary runs, linked back
+ * through runs.series_id and runs.series_occurrence; dates removed from the
+ * series are kept in exdates so they aren't created again.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Creating run_series table...');
+
+  try {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS run_series (
+        id UUID PRIMARY KEY,
+        user_id VARCHAR(255) NOT NULL,
+        rrule TEXT NOT NULL,
+        start_date DATE NOT NULL,
+        start_time VARCHAR(5) NOT NULL,
+        template JSONB NOT NULL,
+        exdates JSONB NOT NULL DEFAULT '[]'::jsonb,
+        materialized_through DATE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+        -- Constraints
+        CONSTRAINT chk_run_series_start_time CHECK (start_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+        CONSTRAINT chk_run_series_template_object CHECK (jsonb_typeof(template) = 'object'),
+        CONSTRAINT chk_run_series_exdates_array CHECK (jsonb_typeof(exdates) = 'array')
+      );
+    `);
+
+    console.log('✅ Created run_series table');
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS idx_run_series_user_id ON run_series (user_id);
+      DROP TRIGGER IF EXISTS update_run_series_updated_at ON run_series;
+      CREATE TRIGGER update_run_series_updated_at
+        BEFORE UPDATE ON run_series
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+    `);
+
+    console.log('✅ Added run_series index and trigger');
+
+    await db.query(`
+      ALTER TABLE runs
+        ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES run_series(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS series_occurrence DATE;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_runs_series_occurrence
+        ON runs (series_id, series_occurrence)
+        WHERE series_id IS NOT NULL;
+    `);
+
+    console.log('✅ Added series columns to runs');
+    console.log('🎉 Migration 1.0.17 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.17 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Dropping run_series table...');
+
+  try {
+    await db.query(`
+      DROP INDEX IF EXISTS idx_runs_series_occurrence;
+      ALTER TABLE runs
+        DROP COLUMN IF EXISTS series_occurrence,
+        DROP COLUMN IF EXISTS series_id;
+    `);
+    await db.query('DROP TABLE IF EXISTS run_series CASCADE;');
+
+    console.log('✅ Dropped run_series table');
+    console.log('🎉 Migration 1.0.17 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.17 rollback failed:', error);
+    throw error;
+  }
+}
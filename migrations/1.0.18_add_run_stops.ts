@@ -0,0 +1,53 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add stops to runs
+ * Version: 1.0.18
+ *
+ * This migration adds a stops column to runs holding the stops a run makes
+ * between its pickup and dropoff, in order. Each stop has a location, an
+ * optional planned time, a passenger count and the time the driver marked
+ * it done. Existing runs get no stops.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Adding stops to runs...');
+
+  try {
+    await db.query(`
+      ALTER TABLE runs
+      ADD COLUMN IF NOT EXISTS stops JSONB NOT NULL DEFAULT '[]'::jsonb
+    `);
+    await db.query(`
+      ALTER TABLE runs
+      DROP CONSTRAINT IF EXISTS chk_runs_stops_array,
+      ADD CONSTRAINT chk_runs_stops_array CHECK (jsonb_typeof(stops) = 'array')
+    `);
+
+    console.log('✅ Added stops column to runs');
+    console.log('🎉 Migration 1.0.18 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.18 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Removing stops from runs...');
+
+  try {
+    await db.query(`
+      ALTER TABLE runs
+      DROP CONSTRAINT IF EXISTS chk_runs_stops_array,
+      DROP COLUMN IF EXISTS stops
+    `);
+
+    console.log('✅ Removed stops column from runs');
+    console.log('🎉 Migration 1.0.18 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.18 rollback failed:', error);
+    throw error;
+  }
+}
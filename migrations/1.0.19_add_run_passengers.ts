@@ -0,0 +1,75 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add run_passengers table
+ * Version: 1.0.19
+ *
+ * This migration creates the run_passengers table holding each run's
+ * passenger manifest: who is travelling, a contact phone, how many are in
+ * the party, their luggage and any special needs. Passengers are listed in
+ * the order given by position and are removed with their run. Passenger
+ * details on existing runs stay in the run's notes.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Creating run_passengers table...');
+
+  try {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS run_passengers (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        run_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        phone VARCHAR(20),
+        passenger_count INTEGER NOT NULL DEFAULT 1,
+        luggage INTEGER NOT NULL DEFAULT 0,
+        special_needs VARCHAR(200),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+        CONSTRAINT fk_run_passengers_run_id
+          FOREIGN KEY (run_id)
+          REFERENCES runs(id)
+          ON DELETE CASCADE,
+
+        -- Constraints
+        CONSTRAINT chk_run_passengers_count CHECK (passenger_count BETWEEN 1 AND 60),
+        CONSTRAINT chk_run_passengers_luggage CHECK (luggage BETWEEN 0 AND 99)
+      );
+    `);
+
+    console.log('✅ Created run_passengers table');
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS idx_run_passengers_run_id
+        ON run_passengers (run_id, position);
+      DROP TRIGGER IF EXISTS update_run_passengers_updated_at ON run_passengers;
+      CREATE TRIGGER update_run_passengers_updated_at
+        BEFORE UPDATE ON run_passengers
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+    `);
+
+    console.log('✅ Added run_passengers index and trigger');
+    console.log('🎉 Migration 1.0.19 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.19 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Dropping run_passengers table...');
+
+  try {
+    await db.query('DROP TABLE IF EXISTS run_passengers');
+
+    console.log('✅ Dropped run_passengers table');
+    console.log('🎉 Migration 1.0.19 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.19 rollback failed:', error);
+    throw error;
+  }
+}
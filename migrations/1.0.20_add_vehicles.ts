@@ -0,0 +1,80 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add vehicles table
+ * Version: 1.0.20
+ *
+ * This migration creates the vehicles table for each organization's fleet:
+ * a name, licence plate, passenger capacity and type (van, car or bus).
+ * Plates are unique within an organization. Runs gain a vehicle_id column
+ * for the vehicle they're driven in, cleared if the vehicle is deleted.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Creating vehicles table...');
+
+  try {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS vehicles (
+        id UUID PRIMARY KEY,
+        organization_id VARCHAR(255) NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        plate VARCHAR(15) NOT NULL,
+        capacity INTEGER NOT NULL,
+        type VARCHAR(10) NOT NULL,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+        -- Constraints
+        CONSTRAINT uq_vehicles_organization_plate UNIQUE (organization_id, plate),
+        CONSTRAINT chk_vehicles_capacity CHECK (capacity BETWEEN 1 AND 60),
+        CONSTRAINT chk_vehicles_type CHECK (type IN ('van', 'car', 'bus'))
+      );
+    `);
+
+    console.log('✅ Created vehicles table');
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS idx_vehicles_organization_id ON vehicles (organization_id);
+      DROP TRIGGER IF EXISTS update_vehicles_updated_at ON vehicles;
+      CREATE TRIGGER update_vehicles_updated_at
+        BEFORE UPDATE ON vehicles
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+    `);
+
+    console.log('✅ Added vehicles index and trigger');
+
+    await db.query(`
+      ALTER TABLE runs
+        ADD COLUMN IF NOT EXISTS vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL;
+      CREATE INDEX IF NOT EXISTS idx_runs_vehicle_id ON runs (vehicle_id);
+    `);
+
+    console.log('✅ Added vehicle_id column to runs');
+    console.log('🎉 Migration 1.0.20 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.20 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Dropping vehicles table...');
+
+  try {
+    await db.query(`
+      DROP INDEX IF EXISTS idx_runs_vehicle_id;
+      ALTER TABLE runs DROP COLUMN IF EXISTS vehicle_id;
+      DROP TABLE IF EXISTS vehicles;
+    `);
+
+    console.log('✅ Dropped vehicles table and runs.vehicle_id');
+    console.log('🎉 Migration 1.0.20 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.20 rollback failed:', error);
+    throw error;
+  }
+}
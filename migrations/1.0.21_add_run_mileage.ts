@@ -0,0 +1,65 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add run mileage and mileage reimbursement rate
+ * Version: 1.0.21
+ *
+ * This migration adds a distance_miles column to runs for the miles driven
+ * from pickup to dropoff, recorded when a run is completed, and a
+ * mileage_rate column to driver_pay_settings for the amount drivers using
+ * their own vehicles are reimbursed per mile. Existing runs have no
+ * distance; existing settings get the default rate of $0.70.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Adding run mileage...');
+
+  try {
+    await db.query(`
+      ALTER TABLE runs
+      ADD COLUMN IF NOT EXISTS distance_miles NUMERIC(8, 2)
+    `);
+    await db.query(`
+      ALTER TABLE runs
+      DROP CONSTRAINT IF EXISTS chk_runs_distance_miles,
+      ADD CONSTRAINT chk_runs_distance_miles CHECK (distance_miles >= 0)
+    `);
+
+    console.log('✅ Added distance_miles column to runs');
+
+    await db.query(`
+      ALTER TABLE driver_pay_settings
+      ADD COLUMN IF NOT EXISTS mileage_rate NUMERIC(6, 3) NOT NULL DEFAULT 0.7
+    `);
+
+    console.log('✅ Added mileage_rate column to driver_pay_settings');
+    console.log('🎉 Migration 1.0.21 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.21 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Removing run mileage...');
+
+  try {
+    await db.query(`
+      ALTER TABLE driver_pay_settings
+      DROP COLUMN IF EXISTS mileage_rate
+    `);
+    await db.query(`
+      ALTER TABLE runs
+      DROP CONSTRAINT IF EXISTS chk_runs_distance_miles,
+      DROP COLUMN IF EXISTS distance_miles
+    `);
+
+    console.log('✅ Removed run mileage columns');
+    console.log('🎉 Migration 1.0.21 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.21 rollback failed:', error);
+    throw error;
+  }
+}
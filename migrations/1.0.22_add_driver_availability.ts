@@ -0,0 +1,86 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add driver availability table
+ * Version: 1.0.22
+ *
+ * This migration creates the driver_availability table for the shifts, days
+ * off and blackout windows drivers declare. Shifts repeat weekly on a weekday
+ * between two times of day in the block's timezone; days off and blackouts
+ * cover a fixed window between starts_at and ends_at.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Creating driver_availability table...');
+
+  try {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS driver_availability (
+        id UUID PRIMARY KEY,
+        organization_id VARCHAR(255) NOT NULL,
+        driver_id VARCHAR(255) NOT NULL,
+        kind VARCHAR(10) NOT NULL,
+        weekday SMALLINT,
+        start_time VARCHAR(5),
+        end_time VARCHAR(5),
+        starts_at TIMESTAMP WITH TIME ZONE,
+        ends_at TIMESTAMP WITH TIME ZONE,
+        timezone VARCHAR(100) NOT NULL DEFAULT 'UTC',
+        note VARCHAR(200),
+        created_by VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+        -- Constraints
+        CONSTRAINT chk_driver_availability_kind CHECK (kind IN ('shift', 'dayOff', 'blackout')),
+        CONSTRAINT chk_driver_availability_shift CHECK (
+          kind <> 'shift' OR (
+            weekday BETWEEN 0 AND 6 AND start_time IS NOT NULL AND end_time IS NOT NULL
+          )
+        ),
+        CONSTRAINT chk_driver_availability_time_off CHECK (
+          kind = 'shift' OR (
+            starts_at IS NOT NULL AND ends_at IS NOT NULL AND ends_at > starts_at
+          )
+        )
+      );
+    `);
+
+    console.log('✅ Created driver_availability table');
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS idx_driver_availability_organization_driver
+        ON driver_availability (organization_id, driver_id);
+      CREATE INDEX IF NOT EXISTS idx_driver_availability_ends_at
+        ON driver_availability (ends_at);
+      DROP TRIGGER IF EXISTS update_driver_availability_updated_at ON driver_availability;
+      CREATE TRIGGER update_driver_availability_updated_at
+        BEFORE UPDATE ON driver_availability
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+    `);
+
+    console.log('✅ Added driver_availability indexes and trigger');
+    console.log('🎉 Migration 1.0.22 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.22 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Dropping driver_availability table...');
+
+  try {
+    await db.query(`
+      DROP TABLE IF EXISTS driver_availability;
+    `);
+
+    console.log('✅ Dropped driver_availability table');
+    console.log('🎉 Migration 1.0.22 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.22 rollback failed:', error);
+    throw error;
+  }
+}
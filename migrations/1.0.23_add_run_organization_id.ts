@@ -0,0 +1,77 @@
+import { clerk } from '../src/lib/api/clerk-client';
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add organization_id to runs
+ * Version: 1.0.23
+ *
+ * This migration adds an organization_id column to runs so organization
+ * admins can manage their drivers' runs without looking up every member.
+ * Existing runs are backfilled with their owner's current Clerk
+ * organization; runs of users who aren't in one are left without.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Adding organization_id column to runs...');
+
+  try {
+    await db.query(`
+      ALTER TABLE runs
+        ADD COLUMN IF NOT EXISTS organization_id VARCHAR(255);
+      CREATE INDEX IF NOT EXISTS idx_runs_organization_id
+        ON runs (organization_id, scheduled_time);
+    `);
+
+    console.log('✅ Added organization_id column to runs');
+
+    const owners = await db.query(
+      'SELECT DISTINCT user_id FROM runs WHERE organization_id IS NULL'
+    );
+    console.log(`🔄 Backfilling runs for ${owners.rows.length} users...`);
+
+    let backfilledRuns = 0;
+    for (const { user_id: userId } of owners.rows) {
+      const memberships = await clerk.users.getOrganizationMembershipList({
+        userId,
+      });
+
+      // Single organization model
+      if (memberships.data.length === 0) {
+        console.log(`⚠️ User ${userId} is not in an organization, skipping`);
+        continue;
+      }
+
+      const result = await db.query(
+        `UPDATE runs SET organization_id = $1
+         WHERE user_id = $2 AND organization_id IS NULL`,
+        [memberships.data[0].organization.id, userId]
+      );
+      backfilledRuns += result.rowCount ?? 0;
+    }
+
+    console.log(`✅ Backfilled organization_id on ${backfilledRuns} runs`);
+    console.log('🎉 Migration 1.0.23 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.23 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Removing organization_id column from runs...');
+
+  try {
+    await db.query(`
+      DROP INDEX IF EXISTS idx_runs_organization_id;
+      ALTER TABLE runs DROP COLUMN IF EXISTS organization_id;
+    `);
+
+    console.log('✅ Removed organization_id column from runs');
+    console.log('🎉 Migration 1.0.23 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.23 rollback failed:', error);
+    throw error;
+  }
+}
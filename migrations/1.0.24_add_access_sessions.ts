@@ -0,0 +1,77 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add access sessions and password failures tables
+ * Version: 1.0.24
+ *
+ * This migration moves the password gate's sessions out of server memory so
+ * they survive restarts and can be revoked. Each session stores a SHA-256
+ * hash of its cookie token, never the token itself, along with when it
+ * expires, when it was last seen and the IP address and user agent it was
+ * opened from. Failed password attempts are recorded per IP address to rate
+ * limit and lock out guessing.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Creating access_sessions and password_failures tables...');
+
+  try {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS access_sessions (
+        id UUID PRIMARY KEY,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        ip_address VARCHAR(100),
+        user_agent TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        revoked_at TIMESTAMP WITH TIME ZONE,
+        revoked_by VARCHAR(255)
+      );
+    `);
+
+    console.log('✅ Created access_sessions table');
+
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS password_failures (
+        id UUID PRIMARY KEY,
+        ip_address VARCHAR(100) NOT NULL,
+        attempted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    console.log('✅ Created password_failures table');
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS idx_access_sessions_expires_at
+        ON access_sessions (expires_at);
+      CREATE INDEX IF NOT EXISTS idx_password_failures_ip_address
+        ON password_failures (ip_address, attempted_at);
+    `);
+
+    console.log('✅ Added access session and password failure indexes');
+    console.log('🎉 Migration 1.0.24 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.24 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Dropping access_sessions and password_failures tables...');
+
+  try {
+    await db.query(`
+      DROP TABLE IF EXISTS password_failures;
+      DROP TABLE IF EXISTS access_sessions;
+    `);
+
+    console.log('✅ Dropped access_sessions and password_failures tables');
+    console.log('🎉 Migration 1.0.24 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.24 rollback failed:', error);
+    throw error;
+  }
+}
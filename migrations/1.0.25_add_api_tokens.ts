@@ -0,0 +1,63 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add api_tokens table
+ * Version: 1.0.25
+ *
+ * This migration adds API tokens that let other systems, such as a booking
+ * system, call the /api/v1 surface on an organization's behalf. Only a
+ * SHA-256 hash of each token is stored, with its first characters to tell
+ * tokens apart, the scopes it grants, who created it and when it was last
+ * used. Revoked tokens are kept for the record.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Creating api_tokens table...');
+
+  try {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id UUID PRIMARY KEY,
+        organization_id VARCHAR(255) NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        token_prefix VARCHAR(20) NOT NULL,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        scopes JSONB NOT NULL DEFAULT '[]',
+        created_by VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        last_used_at TIMESTAMP WITH TIME ZONE,
+        revoked_at TIMESTAMP WITH TIME ZONE,
+        revoked_by VARCHAR(255)
+      );
+    `);
+
+    console.log('✅ Created api_tokens table');
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS idx_api_tokens_organization_id
+        ON api_tokens (organization_id);
+    `);
+
+    console.log('✅ Added api_tokens organization index');
+    console.log('🎉 Migration 1.0.25 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.25 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Dropping api_tokens table...');
+
+  try {
+    await db.query('DROP TABLE IF EXISTS api_tokens;');
+
+    console.log('✅ Dropped api_tokens table');
+    console.log('🎉 Migration 1.0.25 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.25 rollback failed:', error);
+    throw error;
+  }
+}
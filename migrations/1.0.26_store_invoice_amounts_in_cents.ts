@@ -0,0 +1,122 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Store invoice amounts as integer cents with a currency
+ * Version: 1.0.26
+ *
+ * This migration replaces the NUMERIC dollar amounts on invoices with:
+ * - subtotal_cents, surcharge_cents and total_cents on invoices
+ * - amount_cents on invoice_line_items
+ * - currency: ISO 4217 code of the invoiced runs. Existing invoices were
+ *   all billed in USD.
+ *
+ * Rolling back restores the NUMERIC columns; the currency is lost.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Converting invoice amounts to integer cents...');
+
+  try {
+    await db.query(`
+      ALTER TABLE invoices
+      ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+      ADD COLUMN IF NOT EXISTS subtotal_cents INTEGER,
+      ADD COLUMN IF NOT EXISTS surcharge_cents INTEGER,
+      ADD COLUMN IF NOT EXISTS total_cents INTEGER
+    `);
+    await db.query(`
+      ALTER TABLE invoice_line_items
+      ADD COLUMN IF NOT EXISTS amount_cents INTEGER
+    `);
+
+    console.log('✅ Added currency and cents columns');
+
+    const invoices = await db.query(`
+      UPDATE invoices
+      SET subtotal_cents = ROUND(subtotal * 100)::integer,
+        surcharge_cents = ROUND(surcharge * 100)::integer,
+        total_cents = ROUND(total * 100)::integer
+      WHERE subtotal_cents IS NULL
+    `);
+    const lineItems = await db.query(`
+      UPDATE invoice_line_items
+      SET amount_cents = ROUND(amount * 100)::integer
+      WHERE amount_cents IS NULL
+    `);
+
+    console.log(
+      `✅ Converted ${invoices.rowCount ?? 0} invoices and ${lineItems.rowCount ?? 0} line items`
+    );
+
+    await db.query(`
+      ALTER TABLE invoices
+      ALTER COLUMN subtotal_cents SET NOT NULL,
+      ALTER COLUMN surcharge_cents SET NOT NULL,
+      ALTER COLUMN total_cents SET NOT NULL,
+      ADD CONSTRAINT chk_invoices_currency_format CHECK (currency ~ '^[A-Z]{3}$'),
+      DROP COLUMN IF EXISTS subtotal,
+      DROP COLUMN IF EXISTS surcharge,
+      DROP COLUMN IF EXISTS total
+    `);
+    await db.query(`
+      ALTER TABLE invoice_line_items
+      ALTER COLUMN amount_cents SET NOT NULL,
+      DROP COLUMN IF EXISTS amount
+    `);
+
+    console.log('✅ Dropped dollar amount columns');
+    console.log('🎉 Migration 1.0.26 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.26 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Restoring invoice dollar amounts...');
+
+  try {
+    await db.query(`
+      ALTER TABLE invoices
+      ADD COLUMN IF NOT EXISTS subtotal NUMERIC(12, 2) NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS surcharge NUMERIC(12, 2) NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS total NUMERIC(12, 2) NOT NULL DEFAULT 0
+    `);
+    await db.query(`
+      ALTER TABLE invoice_line_items
+      ADD COLUMN IF NOT EXISTS amount NUMERIC(12, 2) NOT NULL DEFAULT 0
+    `);
+
+    await db.query(`
+      UPDATE invoices
+      SET subtotal = subtotal_cents / 100.0,
+        surcharge = surcharge_cents / 100.0,
+        total = total_cents / 100.0
+    `);
+    await db.query(`
+      UPDATE invoice_line_items SET amount = amount_cents / 100.0
+    `);
+
+    console.log('✅ Restored dollar amount columns');
+
+    await db.query(`
+      ALTER TABLE invoices
+      DROP CONSTRAINT IF EXISTS chk_invoices_currency_format,
+      DROP COLUMN IF EXISTS currency,
+      DROP COLUMN IF EXISTS subtotal_cents,
+      DROP COLUMN IF EXISTS surcharge_cents,
+      DROP COLUMN IF EXISTS total_cents
+    `);
+    await db.query(`
+      ALTER TABLE invoice_line_items DROP COLUMN IF EXISTS amount_cents
+    `);
+
+    console.log('✅ Dropped currency and cents columns');
+    console.log('🎉 Migration 1.0.26 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.26 rollback failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,46 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add a timezone to run series
+ * Version: 1.0.27
+ *
+ * This migration adds:
+ * - run_series.timezone: IANA timezone the series' start time is in, the
+ *   creator's. Occurrences are scheduled at that wall-clock time there
+ *   rather than in the server's timezone. Existing series are set to UTC.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Adding timezone to run_series table...');
+
+  try {
+    await db.query(`
+      ALTER TABLE run_series
+      ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC'
+    `);
+
+    console.log('✅ Added timezone column');
+    console.log('🎉 Migration 1.0.27 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.27 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Rolling back run series timezone...');
+
+  try {
+    await db.query(`
+      ALTER TABLE run_series DROP COLUMN IF EXISTS timezone
+    `);
+
+    console.log('✅ Dropped timezone column');
+    console.log('🎉 Migration 1.0.27 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.27 rollback failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,74 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add output formats to report templates and reports
+ * Version: 1.0.8
+ *
+ * This migration adds:
+ * - report_templates.default_format: Output format preselected when generating
+ *   a report from the template (csv, pdf or xlsx)
+ * - reports.format: Output format the report file was generated in
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Adding output format columns to report tables...');
+
+  try {
+    await db.query(`
+      ALTER TABLE report_templates
+      ADD COLUMN IF NOT EXISTS default_format VARCHAR(10) NOT NULL DEFAULT 'csv'
+    `);
+
+    await db.query(`
+      ALTER TABLE reports
+      ADD COLUMN IF NOT EXISTS format VARCHAR(10) NOT NULL DEFAULT 'csv'
+    `);
+
+    console.log('✅ Added format columns');
+
+    await db.query(`
+      ALTER TABLE report_templates
+      ADD CONSTRAINT chk_report_templates_default_format
+        CHECK (default_format IN ('csv', 'pdf', 'xlsx'))
+    `);
+
+    await db.query(`
+      ALTER TABLE reports
+      ADD CONSTRAINT chk_reports_format
+        CHECK (format IN ('csv', 'pdf', 'xlsx'))
+    `);
+
+    console.log('✅ Added format check constraints');
+
+    console.log('🎉 Migration 1.0.8 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.8 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Rolling back report output format columns...');
+
+  try {
+    await db.query(`
+      ALTER TABLE report_templates
+      DROP CONSTRAINT IF EXISTS chk_report_templates_default_format,
+      DROP COLUMN IF EXISTS default_format
+    `);
+
+    await db.query(`
+      ALTER TABLE reports
+      DROP CONSTRAINT IF EXISTS chk_reports_format,
+      DROP COLUMN IF EXISTS format
+    `);
+
+    console.log('✅ Dropped format columns');
+    console.log('🎉 Migration 1.0.8 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.8 rollback failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,49 @@
+import { getDatabase } from '../src/lib/db/index';
+
+/**
+ * Migration: Add footer aggregates to report templates
+ * Version: 1.0.9
+ *
+ * This migration adds report_templates.footer_aggregates, a JSONB array of
+ * summary values (sumPrice, countByType, averageActualDuration) rendered in
+ * the report footer. Existing templates keep the price total they had.
+ *
+ * Computed columns need no schema change: they are stored alongside the raw
+ * columns in column_config.
+ */
+
+export async function up(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Adding footer aggregates to report_templates table...');
+
+  try {
+    await db.query(`
+      ALTER TABLE report_templates
+      ADD COLUMN IF NOT EXISTS footer_aggregates JSONB NOT NULL DEFAULT '["sumPrice"]'::jsonb
+    `);
+
+    console.log('✅ Added footer_aggregates column');
+    console.log('🎉 Migration 1.0.9 completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.9 failed:', error);
+    throw error;
+  }
+}
+
+export async function down(): Promise<void> {
+  const db = getDatabase();
+  console.log('🔄 Rolling back report template footer aggregates...');
+
+  try {
+    await db.query(`
+      ALTER TABLE report_templates
+      DROP COLUMN IF EXISTS footer_aggregates
+    `);
+
+    console.log('✅ Dropped footer_aggregates column');
+    console.log('🎉 Migration 1.0.9 rollback completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration 1.0.9 rollback failed:', error);
+    throw error;
+  }
+}
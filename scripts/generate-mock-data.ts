@@ -4,7 +4,13 @@ import { getDatabase } from '../src/lib/db/index';
 import { createNotification as createNotificationDb } from '../src/lib/db/notifications';
 import { createReportTemplate } from '../src/lib/db/report-templates';
 import { createRun } from '../src/lib/db/runs';
-import { type ReportTemplateForm, ReportType } from '../src/lib/schema';
+import {
+  ReportAggregateType,
+  ReportFormat,
+  ReportGroupBy,
+  type ReportTemplateForm,
+  ReportType,
+} from '../src/lib/schema';
 
 // Get user ID from command line arguments
 const userId = process.argv[2];
@@ -52,7 +58,9 @@ const generateMockRuns = (reportTemplateId: string) => {
       scheduledTime: new Date(now.getTime() + 4 * 60 * 60 * 1000).toISOString(), // 4 hours from now
       type: 'pickup' as const,
       estimatedDuration: 45,
-      price: '85',
+      priceCents: 8500,
+      currency: 'USD',
+      lineItems: [],
       notes: 'Guest has ski equipment - extra time needed for loading',
     },
     {
@@ -68,7 +76,9 @@ const generateMockRuns = (reportTemplateId: string) => {
       scheduledTime: new Date(now.getTime() + 6 * 60 * 60 * 1000).toISOString(), // 6 hours from now
       type: 'dropoff' as const,
       estimatedDuration: 35,
-      price: '75',
+      priceCents: 7500,
+      currency: 'USD',
+      lineItems: [],
       notes: 'Early morning flight - confirm pickup time with guest',
     },
     {
@@ -85,7 +95,9 @@ const generateMockRuns = (reportTemplateId: string) => {
       scheduledTime: new Date(now.getTime() + 8 * 60 * 60 * 1000).toISOString(), // 8 hours from now
       type: 'pickup' as const,
       estimatedDuration: 60,
-      price: '120',
+      priceCents: 12000,
+      currency: 'USD',
+      lineItems: [],
       notes: 'VIP guest - luxury vehicle requested',
     },
     {
@@ -104,7 +116,9 @@ const generateMockRuns = (reportTemplateId: string) => {
       ).toISOString(), // 12 hours from now
       type: 'pickup' as const,
       estimatedDuration: 55,
-      price: '95',
+      priceCents: 9500,
+      currency: 'USD',
+      lineItems: [],
       notes: 'Family with 2 children - car seats available on request',
     },
     {
@@ -123,7 +137,9 @@ const generateMockRuns = (reportTemplateId: string) => {
       ).toISOString(), // 18 hours from now
       type: 'dropoff' as const,
       estimatedDuration: 50,
-      price: '90',
+      priceCents: 9000,
+      currency: 'USD',
+      lineItems: [],
       notes: 'Guest requested early pickup due to weather concerns',
     },
     // Completed runs (in the past)
@@ -141,7 +157,9 @@ const generateMockRuns = (reportTemplateId: string) => {
       scheduledTime: new Date(now.getTime() - 2 * 60 * 60 * 1000).toISOString(), // 2 hours ago
       type: 'pickup' as const,
       estimatedDuration: 40,
-      price: '110',
+      priceCents: 11000,
+      currency: 'USD',
+      lineItems: [],
       notes: 'Completed successfully - guest very satisfied',
     },
     {
@@ -157,7 +175,9 @@ const generateMockRuns = (reportTemplateId: string) => {
       scheduledTime: new Date(now.getTime() - 4 * 60 * 60 * 1000).toISOString(), // 4 hours ago
       type: 'dropoff' as const,
       estimatedDuration: 45,
-      price: '60',
+      priceCents: 6000,
+      currency: 'USD',
+      lineItems: [],
       notes: 'Standard dropoff completed on time',
     },
   ];
@@ -192,6 +212,10 @@ async function generateMockData() {
       description: 'Generated report template for mock data runs',
       organizationId: 'mock_org', // You may need to replace this with a real org ID
       reportType: ReportType.run,
+      defaultFormat: ReportFormat.csv,
+      footerAggregates: [ReportAggregateType.sumPrice],
+      groupBy: ReportGroupBy.none,
+      sort: { field: 'scheduledTime', direction: 'asc' },
       isDefault: true,
       columnConfig: [
         {
@@ -0,0 +1,124 @@
+#!/usr/bin/env bun
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+// Mint a Clerk-style session token signed by a local key set, for calling the
+// API without Clerk. Point the API server at the key set with CLERK_JWKS_FILE.
+const [userId, organizationId, organizationRole = 'org:admin'] =
+  process.argv.slice(2);
+
+if (!userId) {
+  console.error('❌ Error: User ID is required');
+  console.error(
+    'Usage: bun run generate-test-jwks.ts <user-id> [org-id] [org-role]'
+  );
+  console.error(
+    'Example: bun run generate-test-jwks.ts user_2abc123def456 org_2xyz org:dispatcher'
+  );
+  process.exit(1);
+}
+
+// The instance and origin the API server expects (CLERK_ISSUER and the first
+// of CLERK_AUTHORIZED_PARTIES), with local defaults
+const issuer = process.env.CLERK_ISSUER || 'https://clerk.test.local';
+const authorizedParty =
+  (process.env.CLERK_AUTHORIZED_PARTIES || '').split(',')[0].trim() ||
+  'http://localhost:3000';
+
+const keysDir =
+  process.env.TEST_JWKS_DIR || join(process.cwd(), 'storage', 'test-jwks');
+const privateKeyPath = join(keysDir, 'private-key.json');
+const jwksPath = join(keysDir, 'jwks.json');
+
+const algorithm = {
+  name: 'RSASSA-PKCS1-v1_5',
+  hash: 'SHA-256',
+};
+
+// Reuse the key pair from an earlier run so its tokens stay valid
+async function loadOrCreatePrivateKey(): Promise<JsonWebKey & { kid: string }> {
+  try {
+    return JSON.parse(await readFile(privateKeyPath, 'utf8'));
+  } catch {
+    const keyPair = await crypto.subtle.generateKey(
+      {
+        ...algorithm,
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+      },
+      true,
+      ['sign', 'verify']
+    );
+    const kid = `ins_test_${crypto.randomUUID()}`;
+    const privateJwk = await crypto.subtle.exportKey('jwk', keyPair.privateKey);
+    const publicJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+
+    await mkdir(keysDir, { recursive: true });
+    await writeFile(privateKeyPath, JSON.stringify({ ...privateJwk, kid }));
+    await writeFile(
+      jwksPath,
+      JSON.stringify(
+        { keys: [{ ...publicJwk, kid, use: 'sig', alg: 'RS256' }] },
+        null,
+        2
+      )
+    );
+
+    console.log(`🔑 Created test key set: ${jwksPath}`);
+    return { ...privateJwk, kid };
+  }
+}
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+async function main() {
+  const privateJwk = await loadOrCreatePrivateKey();
+  const privateKey = await crypto.subtle.importKey(
+    'jwk',
+    privateJwk,
+    algorithm,
+    false,
+    ['sign']
+  );
+
+  const now = Math.floor(Date.now() / 1000);
+  const header = encodeSegment({
+    alg: 'RS256',
+    typ: 'JWT',
+    kid: privateJwk.kid,
+  });
+  const claims = encodeSegment({
+    iss: issuer,
+    azp: authorizedParty,
+    sub: userId,
+    sid: `sess_test_${crypto.randomUUID()}`,
+    iat: now,
+    nbf: now,
+    exp: now + 60 * 60,
+    ...(organizationId
+      ? { org_id: organizationId, org_role: organizationRole }
+      : {}),
+  });
+  const signature = await crypto.subtle.sign(
+    algorithm.name,
+    privateKey,
+    new TextEncoder().encode(`${header}.${claims}`)
+  );
+
+  console.log(`✅ Session token for ${userId} (valid for 1 hour):\n`);
+  console.log(
+    `${header}.${claims}.${Buffer.from(signature).toString('base64url')}\n`
+  );
+  console.log(
+    `Start the API server with CLERK_JWKS_FILE=${jwksPath} CLERK_ISSUER=${issuer} CLERK_AUTHORIZED_PARTIES=${authorizedParty}`
+  );
+  console.log('and send the token as "Authorization: Bearer <token>".');
+}
+
+main().catch(error => {
+  console.error('❌ Failed to generate test token:', error);
+  process.exit(1);
+});
@@ -54,6 +54,13 @@ else
     print_error "AVIATIONSTACK_API_KEY is not set"
 fi
 
+# Check TomTom API Key (completed runs' mileage is measured with it)
+if [[ -n "$TOMTOM_API_KEY" ]]; then
+    print_success "TomTom API key is configured"
+else
+    print_error "TOMTOM_API_KEY is not set - completed runs won't record mileage"
+fi
+
 # Check Database Configuration
 if [[ -n "$TURSO_DATABASE_URL" && -n "$TURSO_AUTH_TOKEN" ]]; then
     print_success "Turso database configuration is set"
@@ -9,8 +9,12 @@ import { createReportTemplate } from '../src/lib/db/report-templates';
 import { createRunsBatch } from '../src/lib/db/runs';
 import {
   type NewRunForm,
+  ReportAggregateType,
+  ReportFormat,
+  ReportGroupBy,
   type ReportTemplateForm,
   ReportType,
+  RunLineItemType,
 } from '../src/lib/schema';
 
 // Get user ID from command line arguments
@@ -45,6 +49,10 @@ async function seedDatabase() {
       description: 'Simple report template for basic run tracking',
       organizationId: 'sample_org', // You may need to replace this with a real org ID
       reportType: ReportType.run,
+      defaultFormat: ReportFormat.csv,
+      footerAggregates: [ReportAggregateType.sumPrice],
+      groupBy: ReportGroupBy.none,
+      sort: { field: 'scheduledTime', direction: 'asc' },
       isDefault: true,
       columnConfig: [
         {
@@ -91,7 +99,9 @@ async function seedDatabase() {
         scheduledTime: new Date('2024-01-15T10:30:00Z').toISOString(),
         estimatedDuration: 90,
         type: 'pickup',
-        price: '150',
+        priceCents: 15000,
+        currency: 'USD',
+        lineItems: [{ type: RunLineItemType.tip, amountCents: 2000 }],
         notes: 'Sample pickup run',
       },
       {
@@ -107,7 +117,9 @@ async function seedDatabase() {
         scheduledTime: new Date('2024-01-16T14:45:00Z').toISOString(),
         estimatedDuration: 85,
         type: 'dropoff',
-        price: '145',
+        priceCents: 14500,
+        currency: 'USD',
+        lineItems: [],
         notes: 'Sample dropoff run',
       },
     ];
@@ -28,6 +28,7 @@ import './index.css';
 import { useAppContext } from './lib/AppContextProvider';
 import { useMultipleRunsData } from './lib/hooks/use-api-data';
 import IconLogo from './lib/icons/icon-logo';
+import { DEFAULT_CURRENCY } from './lib/money';
 import { invalidateAllApiData, queryClient } from './lib/react-query-client';
 import {
   convertParsedRunToForm,
@@ -330,6 +331,9 @@ export default function App() {
         status: 'scheduled',
         createdAt: new Date(),
         airline: newRun.airline || '',
+        currency: newRun.currency || DEFAULT_CURRENCY,
+        lineItems: newRun.lineItems || [],
+        stops: newRun.stops || [],
         updatedAt: new Date(),
       };
 
@@ -407,6 +411,9 @@ export default function App() {
           createdAt: new Date(),
           updatedAt: new Date(),
           airline: formData.airline || '',
+          currency: formData.currency || DEFAULT_CURRENCY,
+          lineItems: formData.lineItems || [],
+          stops: formData.stops || [],
         };
         newRuns.push(run);
       });
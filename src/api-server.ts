@@ -1,19 +1,54 @@
 #!/usr/bin/env bun
 import { serve } from 'bun';
+import * as accessSessionsApi from './api/access-sessions';
+import * as apiTokensApi from './api/api-tokens';
 import * as authApi from './api/auth';
+import * as billingAccountsApi from './api/billing-accounts';
 import * as configApi from './api/config';
+import * as dispatchApi from './api/dispatch';
+import * as driverAvailabilityApi from './api/driver-availability';
+import * as driverEarningsApi from './api/driver-earnings';
+import * as driverMileageApi from './api/driver-mileage';
+import * as driverPaySettingsApi from './api/driver-pay-settings';
+import * as invoicesApi from './api/invoices';
 import * as notificationsApi from './api/notifications';
+import * as openApiApi from './api/openapi';
 import * as organizationsApi from './api/organizations';
 import * as preferencesApi from './api/preferences';
+import * as reportSchedulesApi from './api/report-schedules';
 import * as reportTemplatesApi from './api/report-templates';
+import * as reportsApi from './api/reports';
+import * as runPassengersApi from './api/run-passengers';
+import * as runSeriesApi from './api/run-series';
 import * as runsApi from './api/runs';
+import * as vehiclesApi from './api/vehicles';
 import * as seedApi from './api/seed';
+import { handleV1Request } from './api/v1';
 
+import { authenticateApiRequest } from './lib/api/api-token-auth';
+import { authenticateRequest } from './lib/api/session-auth';
 import { initializeDatabase } from './lib/db';
+import { withOpenApiValidation } from './lib/openapi/validation';
+import { reportScheduler } from './lib/services/report-scheduler';
+import { runSeriesScheduler } from './lib/services/run-series-scheduler';
+import { initializeTomTomService } from './lib/services/tomtom-service';
 
 // Initialize database
 initializeDatabase();
 
+// TomTom measures the miles driven when runs are completed
+initializeTomTomService();
+
+// Generate scheduled reports in the background
+if (process.env.REPORT_SCHEDULER_ENABLED !== 'false') {
+  reportScheduler.start();
+}
+
+// Keep recurring run series created a few weeks ahead
+if (process.env.RUN_SERIES_SCHEDULER_ENABLED !== 'false') {
+  runSeriesScheduler.start();
+}
+
 // CORS headers
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -23,13 +58,28 @@ const corsHeaders = {
 
 // Generic API routes
 const genericApiRoutes = {
+  '/api/access-sessions': accessSessionsApi,
+  '/api/api-tokens': apiTokensApi,
+  '/api/billing-accounts': billingAccountsApi,
   '/api/config': configApi,
+  '/api/dispatch': dispatchApi,
+  '/api/driver-availability': driverAvailabilityApi,
+  '/api/driver-earnings': driverEarningsApi,
+  '/api/driver-mileage': driverMileageApi,
+  '/api/driver-pay-settings': driverPaySettingsApi,
+  '/api/invoices': invoicesApi,
   '/api/notifications': notificationsApi,
+  '/api/openapi.json': openApiApi,
   '/api/organizations': organizationsApi,
   '/api/preferences': preferencesApi,
+  '/api/report-schedules': reportSchedulesApi,
   '/api/report-templates': reportTemplatesApi,
+  '/api/reports': reportsApi,
+  '/api/run-passengers': runPassengersApi,
+  '/api/run-series': runSeriesApi,
   '/api/runs': runsApi,
   '/api/seed': seedApi,
+  '/api/vehicles': vehiclesApi,
 };
 
 // Auth routes (these have custom path handling)
@@ -39,6 +89,9 @@ const authRoutes = {
   '/api/auth/logout': authApi.logoutHandler,
 };
 
+// Routes anyone can call; every other route needs a Clerk session token
+const publicRoutes = ['/api/config', '/api/openapi.json'];
+
 // Generic API route handler
 async function handleApiRoute(
   request: Request,
@@ -106,83 +159,107 @@ async function handleAuthRoute(
   }
 }
 
-// Create the server
-const server = serve({
-  port: process.env.API_PORT || 3001,
-  async fetch(request) {
-    const url = new URL(request.url);
-
-    // Handle OPTIONS requests for CORS
-    if (request.method === 'OPTIONS') {
-      return new Response(null, {
-        status: 200,
-        headers: corsHeaders,
+// Route a request to its handler
+async function handleRequest(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+
+  // Handle OPTIONS requests for CORS
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Check for auth routes first (special handling)
+    const authHandler = authRoutes[url.pathname as keyof typeof authRoutes];
+    if (authHandler) {
+      return await handleAuthRoute(request, authHandler);
+    }
+
+    // Versioned public API, which also takes organization API tokens
+    if (url.pathname.startsWith('/api/v1/')) {
+      const authenticated = await authenticateApiRequest(request);
+      let response: Response;
+      if ('response' in authenticated) {
+        response = authenticated.response;
+      } else {
+        (request as any).auth = authenticated;
+        response = await handleV1Request(request);
+      }
+      Object.entries(corsHeaders).forEach(([key, value]) => {
+        response.headers.set(key, value);
       });
+      return response;
     }
 
-    try {
-      // Check for auth routes first (special handling)
-      const authHandler = authRoutes[url.pathname as keyof typeof authRoutes];
-      if (authHandler) {
-        return await handleAuthRoute(request, authHandler);
+    // Verify the Clerk session token and hand handlers the user and active
+    // organization it names, so none trusts a user ID from the client
+    if (!publicRoutes.includes(url.pathname)) {
+      const authenticated = await authenticateRequest(request);
+      if ('response' in authenticated) {
+        Object.entries(corsHeaders).forEach(([key, value]) => {
+          authenticated.response.headers.set(key, value);
+        });
+        return authenticated.response;
       }
+      (request as any).auth = authenticated;
+    }
 
-      // Check for special sub-path routes
-      if (url.pathname === '/api/notifications/stats') {
-        if (
-          request.method === 'GET' &&
-          typeof notificationsApi.getStats === 'function'
-        ) {
-          const response = await notificationsApi.getStats(request);
-          response.headers.set('Access-Control-Allow-Origin', '*');
-          response.headers.set(
-            'Access-Control-Allow-Methods',
-            'GET, POST, PUT, DELETE, OPTIONS'
-          );
-          response.headers.set(
-            'Access-Control-Allow-Headers',
-            'Content-Type, Authorization'
-          );
-          return response;
-        } else {
-          return new Response(JSON.stringify({ error: 'Method not allowed' }), {
-            status: 405,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          });
-        }
+    // Check for special sub-path routes
+    if (url.pathname === '/api/notifications/stats') {
+      if (
+        request.method === 'GET' &&
+        typeof notificationsApi.getStats === 'function'
+      ) {
+        const response = await notificationsApi.getStats(request);
+        response.headers.set('Access-Control-Allow-Origin', '*');
+        response.headers.set(
+          'Access-Control-Allow-Methods',
+          'GET, POST, PUT, DELETE, OPTIONS'
+        );
+        response.headers.set(
+          'Access-Control-Allow-Headers',
+          'Content-Type, Authorization'
+        );
+        return response;
+      } else {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
+    }
 
-      if (url.pathname === '/api/runs/organization') {
-        if (
-          request.method === 'GET' &&
-          typeof runsApi.getOrganizationRuns === 'function'
-        ) {
-          const response = await runsApi.getOrganizationRuns(request);
-          response.headers.set('Access-Control-Allow-Origin', '*');
-          response.headers.set(
-            'Access-Control-Allow-Methods',
-            'GET, POST, PUT, DELETE, OPTIONS'
-          );
-          response.headers.set(
-            'Access-Control-Allow-Headers',
-            'Content-Type, Authorization'
-          );
-          return response;
-        } else {
-          return new Response(JSON.stringify({ error: 'Method not allowed' }), {
-            status: 405,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          });
-        }
+    if (url.pathname === '/api/reports/download') {
+      if (request.method === 'GET') {
+        const response = await reportsApi.download(request);
+        response.headers.set('Access-Control-Allow-Origin', '*');
+        response.headers.set(
+          'Access-Control-Allow-Methods',
+          'GET, POST, PUT, DELETE, OPTIONS'
+        );
+        response.headers.set(
+          'Access-Control-Allow-Headers',
+          'Content-Type, Authorization'
+        );
+        response.headers.set(
+          'Access-Control-Expose-Headers',
+          'Content-Disposition'
+        );
+        return response;
+      } else {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
+    }
 
-      // Check for organization sub-routes
-      const orgMembersMatch = url.pathname.match(
-        /^\/api\/organizations\/([^\/]+)\/members$/
-      );
-      if (orgMembersMatch && request.method === 'GET') {
-        (request as any).params = { orgId: orgMembersMatch[1] };
-        const response = await organizationsApi.getOrganizationMembers(request);
+    if (url.pathname === '/api/dispatch/availability') {
+      if (request.method === 'GET') {
+        const response = await dispatchApi.availability(request);
         response.headers.set('Access-Control-Allow-Origin', '*');
         response.headers.set(
           'Access-Control-Allow-Methods',
@@ -193,14 +270,113 @@ const server = serve({
           'Content-Type, Authorization'
         );
         return response;
+      } else {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
+    }
 
-      const orgUserRoleMatch = url.pathname.match(
-        /^\/api\/organizations\/([^\/]+)\/user-role$/
-      );
-      if (orgUserRoleMatch && request.method === 'GET') {
-        (request as any).params = { orgId: orgUserRoleMatch[1] };
-        const response = await organizationsApi.getUserRole(request);
+    if (url.pathname === '/api/dispatch/recommendations') {
+      if (request.method === 'GET') {
+        const response = await dispatchApi.recommendations(request);
+        response.headers.set('Access-Control-Allow-Origin', '*');
+        response.headers.set(
+          'Access-Control-Allow-Methods',
+          'GET, POST, PUT, DELETE, OPTIONS'
+        );
+        response.headers.set(
+          'Access-Control-Allow-Headers',
+          'Content-Type, Authorization'
+        );
+        return response;
+      } else {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    if (url.pathname === '/api/driver-earnings/export') {
+      if (request.method === 'GET') {
+        const response = await driverEarningsApi.exportStatement(request);
+        response.headers.set('Access-Control-Allow-Origin', '*');
+        response.headers.set(
+          'Access-Control-Allow-Methods',
+          'GET, POST, PUT, DELETE, OPTIONS'
+        );
+        response.headers.set(
+          'Access-Control-Allow-Headers',
+          'Content-Type, Authorization'
+        );
+        response.headers.set(
+          'Access-Control-Expose-Headers',
+          'Content-Disposition'
+        );
+        return response;
+      } else {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    if (url.pathname === '/api/driver-mileage/export') {
+      if (request.method === 'GET') {
+        const response = await driverMileageApi.exportMileageLog(request);
+        response.headers.set('Access-Control-Allow-Origin', '*');
+        response.headers.set(
+          'Access-Control-Allow-Methods',
+          'GET, POST, PUT, DELETE, OPTIONS'
+        );
+        response.headers.set(
+          'Access-Control-Allow-Headers',
+          'Content-Type, Authorization'
+        );
+        response.headers.set(
+          'Access-Control-Expose-Headers',
+          'Content-Disposition'
+        );
+        return response;
+      } else {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    if (url.pathname === '/api/invoices/download') {
+      if (request.method === 'GET') {
+        const response = await invoicesApi.download(request);
+        response.headers.set('Access-Control-Allow-Origin', '*');
+        response.headers.set(
+          'Access-Control-Allow-Methods',
+          'GET, POST, PUT, DELETE, OPTIONS'
+        );
+        response.headers.set(
+          'Access-Control-Allow-Headers',
+          'Content-Type, Authorization'
+        );
+        response.headers.set(
+          'Access-Control-Expose-Headers',
+          'Content-Disposition'
+        );
+        return response;
+      } else {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    if (url.pathname === '/api/report-schedules/run') {
+      if (request.method === 'POST') {
+        const response = await reportSchedulesApi.run(request);
         response.headers.set('Access-Control-Allow-Origin', '*');
         response.headers.set(
           'Access-Control-Allow-Methods',
@@ -211,13 +387,20 @@ const server = serve({
           'Content-Type, Authorization'
         );
         return response;
+      } else {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
+    }
 
+    if (url.pathname === '/api/runs/organization') {
       if (
-        url.pathname === '/api/organizations/check-permissions' &&
-        request.method === 'GET'
+        request.method === 'GET' &&
+        typeof runsApi.getOrganizationRuns === 'function'
       ) {
-        const response = await organizationsApi.checkPermissions(request);
+        const response = await runsApi.getOrganizationRuns(request);
         response.headers.set('Access-Control-Allow-Origin', '*');
         response.headers.set(
           'Access-Control-Allow-Methods',
@@ -228,41 +411,170 @@ const server = serve({
           'Content-Type, Authorization'
         );
         return response;
+      } else {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
+    }
 
-      // Check for standard API routes
-      const apiModule =
-        genericApiRoutes[url.pathname as keyof typeof genericApiRoutes];
-      if (apiModule) {
-        // Special handling for seed endpoint (development only)
-        if (
-          url.pathname === '/api/seed' &&
-          process.env.NODE_ENV === 'production'
-        ) {
-          return new Response(
-            JSON.stringify({ error: 'Not available in production' }),
-            {
-              status: 403,
-              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            }
-          );
-        }
-
-        return await handleApiRoute(request, apiModule);
+    if (url.pathname === '/api/runs/conflicts') {
+      if (request.method === 'POST') {
+        const response = await runsApi.checkConflicts(request);
+        response.headers.set('Access-Control-Allow-Origin', '*');
+        response.headers.set(
+          'Access-Control-Allow-Methods',
+          'GET, POST, PUT, DELETE, OPTIONS'
+        );
+        response.headers.set(
+          'Access-Control-Allow-Headers',
+          'Content-Type, Authorization'
+        );
+        return response;
+      } else {
+        return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
+    }
 
-      // No matching route found
-      return new Response(JSON.stringify({ error: 'Not found' }), {
-        status: 404,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    } catch (error) {
-      console.error('Server error:', error);
-      return new Response(JSON.stringify({ error: 'Internal server error' }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    const runEventsMatch = url.pathname.match(
+      /^\/api\/runs\/([^\/]+)\/events$/
+    );
+    if (runEventsMatch && request.method === 'GET') {
+      (request as any).params = { id: runEventsMatch[1] };
+      const response = await runsApi.getEvents(request);
+      response.headers.set('Access-Control-Allow-Origin', '*');
+      response.headers.set(
+        'Access-Control-Allow-Methods',
+        'GET, POST, PUT, DELETE, OPTIONS'
+      );
+      response.headers.set(
+        'Access-Control-Allow-Headers',
+        'Content-Type, Authorization'
+      );
+      return response;
+    }
+
+    // Loading, editing and deleting a single run
+    const runMatch = url.pathname.match(/^\/api\/runs\/([^\/]+)$/);
+    if (runMatch && request.method === 'GET') {
+      (request as any).params = { id: runMatch[1] };
+      const response = await runsApi.getRun(request);
+      Object.entries(corsHeaders).forEach(([key, value]) => {
+        response.headers.set(key, value);
       });
+      return response;
+    }
+    if (runMatch && (request.method === 'PUT' || request.method === 'DELETE')) {
+      (request as any).params = { id: runMatch[1] };
+      return await handleApiRoute(request, runsApi);
     }
+
+    // Check for organization sub-routes
+    const orgMembersMatch = url.pathname.match(
+      /^\/api\/organizations\/([^\/]+)\/members$/
+    );
+    if (orgMembersMatch && request.method === 'GET') {
+      (request as any).params = { orgId: orgMembersMatch[1] };
+      const response = await organizationsApi.getOrganizationMembers(request);
+      response.headers.set('Access-Control-Allow-Origin', '*');
+      response.headers.set(
+        'Access-Control-Allow-Methods',
+        'GET, POST, PUT, DELETE, OPTIONS'
+      );
+      response.headers.set(
+        'Access-Control-Allow-Headers',
+        'Content-Type, Authorization'
+      );
+      return response;
+    }
+
+    const orgUserRoleMatch = url.pathname.match(
+      /^\/api\/organizations\/([^\/]+)\/user-role$/
+    );
+    if (orgUserRoleMatch && request.method === 'GET') {
+      (request as any).params = { orgId: orgUserRoleMatch[1] };
+      const response = await organizationsApi.getUserRole(request);
+      response.headers.set('Access-Control-Allow-Origin', '*');
+      response.headers.set(
+        'Access-Control-Allow-Methods',
+        'GET, POST, PUT, DELETE, OPTIONS'
+      );
+      response.headers.set(
+        'Access-Control-Allow-Headers',
+        'Content-Type, Authorization'
+      );
+      return response;
+    }
+
+    if (
+      url.pathname === '/api/organizations/check-permissions' &&
+      request.method === 'GET'
+    ) {
+      const response = await organizationsApi.checkPermissions(request);
+      response.headers.set('Access-Control-Allow-Origin', '*');
+      response.headers.set(
+        'Access-Control-Allow-Methods',
+        'GET, POST, PUT, DELETE, OPTIONS'
+      );
+      response.headers.set(
+        'Access-Control-Allow-Headers',
+        'Content-Type, Authorization'
+      );
+      return response;
+    }
+
+    // Check for standard API routes
+    const apiModule =
+      genericApiRoutes[url.pathname as keyof typeof genericApiRoutes];
+    if (apiModule) {
+      // Special handling for seed endpoint (development only)
+      if (
+        url.pathname === '/api/seed' &&
+        process.env.NODE_ENV === 'production'
+      ) {
+        return new Response(
+          JSON.stringify({ error: 'Not available in production' }),
+          {
+            status: 403,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      return await handleApiRoute(request, apiModule);
+    }
+
+    // No matching route found
+    return new Response(JSON.stringify({ error: 'Not found' }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Server error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// Check documented routes against the OpenAPI document in development
+const routeRequest =
+  process.env.NODE_ENV === 'production'
+    ? handleRequest
+    : withOpenApiValidation(openApiApi.openApiDocument, handleRequest);
+
+// Create the server
+const server = serve({
+  port: process.env.API_PORT || 3001,
+  fetch(request, server) {
+    // The socket address, which the password gate rate limits by
+    (request as any).clientAddress = server.requestIP(request)?.address;
+    return routeRequest(request);
   },
 });
 
@@ -0,0 +1,76 @@
+import { authorizePlatformAdmin } from '../lib/access-control';
+import {
+  getActiveAccessSessions,
+  revokeAccessSession,
+} from '../lib/db/access-sessions';
+
+// GET /api/access-sessions
+// Password gate sessions that are still active, for platform admins to
+// review. The gate is in front of every organization, so no organization
+// admin may see them.
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const resolved = authorizePlatformAdmin(request);
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const sessions = await getActiveAccessSessions();
+
+    return new Response(JSON.stringify(sessions), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to fetch access sessions:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to fetch access sessions' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// DELETE /api/access-sessions?id=
+// Revoke a session, so its browser has to enter the password again
+export async function DELETE(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+
+    if (!id) {
+      return new Response(JSON.stringify({ error: 'Session ID is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const resolved = authorizePlatformAdmin(request);
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const success = await revokeAccessSession(id, resolved.userId);
+
+    if (!success) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to revoke access session:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to revoke access session' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
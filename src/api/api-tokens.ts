@@ -0,0 +1,127 @@
+import { authorize } from '../lib/access-control';
+import {
+  createApiToken,
+  getApiTokens,
+  revokeApiToken,
+} from '../lib/db/api-tokens';
+import { safeValidateApiTokenForm } from '../lib/schema';
+
+// GET /api/api-tokens
+// The organization's API tokens that haven't been revoked
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const resolved = await authorize(request, 'organization:manage');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const tokens = await getApiTokens(resolved.organizationId);
+
+    return new Response(JSON.stringify(tokens), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to fetch API tokens:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to fetch API tokens' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// POST /api/api-tokens
+// Create a token acting as the caller. The response is the only time the
+// token itself is shown.
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const resolved = await authorize(request, 'organization:manage');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const body = await request.json();
+    const validation = safeValidateApiTokenForm(body.tokenData);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid API token data',
+          details: validation.error.errors,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const created = await createApiToken(
+      resolved.organizationId,
+      validation.data,
+      resolved.userId
+    );
+
+    return new Response(JSON.stringify(created), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to create API token:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to create API token' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// DELETE /api/api-tokens?id=
+export async function DELETE(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+
+    if (!id) {
+      return new Response(JSON.stringify({ error: 'Token ID is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const resolved = await authorize(request, 'organization:manage');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const success = await revokeApiToken(
+      id,
+      resolved.organizationId,
+      resolved.userId
+    );
+
+    if (!success) {
+      return new Response(JSON.stringify({ error: 'API token not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to revoke API token:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to revoke API token' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
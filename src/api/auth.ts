@@ -5,14 +5,63 @@
  * This file only contains temporary password protection for development.
  */
 
-// Session storage for authenticated sessions (in production, use Redis or database)
-const authenticatedSessions = new Set<string>();
+import {
+  clearPasswordFailures,
+  createAccessSession,
+  deleteStaleAccessSessions,
+  recordPasswordAttempt,
+  revokeAccessSessionByToken,
+  touchAccessSession,
+} from '../lib/db/access-sessions';
+
+// How long a session lasts after the password is entered
+const SESSION_TTL_HOURS = parseInt(
+  process.env.ACCESS_SESSION_TTL_HOURS || '24'
+);
+
+// Wrong passwords allowed from one IP address before it's locked out, and
+// how long the lockout lasts after the last of them
+const MAX_PASSWORD_ATTEMPTS = parseInt(
+  process.env.PASSWORD_MAX_ATTEMPTS || '5'
+);
+const LOCKOUT_MINUTES = parseInt(process.env.PASSWORD_LOCKOUT_MINUTES || '15');
 
 // Generate a secure session token
 function generateSessionToken(): string {
   return crypto.randomUUID() + '-' + Date.now();
 }
 
+// The password gate's session cookie (not Clerk's __session cookie)
+function getSessionCookie(request: Request): string | null {
+  const cookies = request.headers.get('cookie') || '';
+  const sessionMatch = cookies.match(/(?:^|;\s*)session=([^;]+)/);
+  return sessionMatch ? sessionMatch[1] : null;
+}
+
+// Reverse proxies in front of the server (TRUSTED_PROXY_COUNT), each of which
+// appends the address it received the request from to X-Forwarded-For
+const TRUSTED_PROXY_COUNT = parseInt(process.env.TRUSTED_PROXY_COUNT || '0');
+
+// The client's address, for rate limiting. Without trusted proxies it's the
+// socket address the server attached to the request; behind them it's the
+// hop the outermost trusted proxy added, counting from the right, since
+// anything further left is whatever the client chose to send.
+function getClientIp(request: Request): string {
+  const socketAddress: string | undefined = (request as any).clientAddress;
+
+  if (TRUSTED_PROXY_COUNT > 0) {
+    const hops = (request.headers.get('x-forwarded-for') || '')
+      .split(',')
+      .map(hop => hop.trim())
+      .filter(Boolean);
+    if (hops.length >= TRUSTED_PROXY_COUNT) {
+      return hops[hops.length - TRUSTED_PROXY_COUNT];
+    }
+  }
+
+  return socketAddress || 'unknown';
+}
+
 // Validate temporary access password
 export async function validatePassword(password: string): Promise<boolean> {
   const correctPassword = process.env.TEMP_ENTRY_PASSWORD;
@@ -35,12 +84,58 @@ export const passwordValidationHandler = async (
 
   try {
     const { password } = await request.json();
+    const ipAddress = getClientIp(request);
+
+    // Refuse to check passwords from an address that keeps getting them
+    // wrong. The attempt is counted before the password is checked, so
+    // parallel requests can't slip past the limit.
+    const lockoutStart = new Date(Date.now() - LOCKOUT_MINUTES * 60 * 1000);
+    const attempt = await recordPasswordAttempt(
+      ipAddress,
+      lockoutStart,
+      MAX_PASSWORD_ATTEMPTS
+    );
+
+    if (!attempt.allowed) {
+      const lastAttemptAt = attempt.lastAttemptAt ?? new Date();
+      const retryAfterSeconds = Math.max(
+        1,
+        Math.ceil(
+          (new Date(lastAttemptAt).getTime() +
+            LOCKOUT_MINUTES * 60 * 1000 -
+            Date.now()) /
+            1000
+        )
+      );
+
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Too many failed attempts. Try again in ${Math.ceil(retryAfterSeconds / 60)} minutes`,
+        }),
+        {
+          status: 429,
+          headers: {
+            'Content-Type': 'application/json',
+            'Retry-After': String(retryAfterSeconds),
+          },
+        }
+      );
+    }
 
     const isValid = await validatePassword(password);
 
     if (isValid) {
       const sessionToken = generateSessionToken();
-      authenticatedSessions.add(sessionToken);
+
+      await clearPasswordFailures(ipAddress);
+      await deleteStaleAccessSessions();
+      await createAccessSession({
+        token: sessionToken,
+        ipAddress,
+        userAgent: request.headers.get('user-agent'),
+        expiresAt: new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000),
+      });
 
       const response = new Response(
         JSON.stringify({ success: true, message: 'Access granted' }),
@@ -53,7 +148,7 @@ export const passwordValidationHandler = async (
       // Set session cookie
       response.headers.set(
         'Set-Cookie',
-        `session=${sessionToken}; HttpOnly; Path=/; Max-Age=86400; SameSite=Strict`
+        `session=${sessionToken}; HttpOnly; Path=/; Max-Age=${SESSION_TTL_HOURS * 60 * 60}; SameSite=Strict`
       );
 
       return response;
@@ -88,12 +183,11 @@ export const checkAuthHandler = async (request: Request): Promise<Response> => {
   }
 
   try {
-    const cookies = request.headers.get('cookie') || '';
-    const sessionMatch = cookies.match(/session=([^;]+)/);
-    const sessionToken = sessionMatch ? sessionMatch[1] : null;
+    const sessionToken = getSessionCookie(request);
 
+    // Expired and revoked sessions don't count, so the gate shows again
     const authenticated = sessionToken
-      ? authenticatedSessions.has(sessionToken)
+      ? await touchAccessSession(sessionToken)
       : false;
 
     return new Response(JSON.stringify({ authenticated }), {
@@ -116,12 +210,10 @@ export const logoutHandler = async (request: Request): Promise<Response> => {
   }
 
   try {
-    const cookies = request.headers.get('cookie') || '';
-    const sessionMatch = cookies.match(/session=([^;]+)/);
-    const sessionToken = sessionMatch ? sessionMatch[1] : null;
+    const sessionToken = getSessionCookie(request);
 
     if (sessionToken) {
-      authenticatedSessions.delete(sessionToken);
+      await revokeAccessSessionByToken(sessionToken);
     }
 
     const response = new Response(
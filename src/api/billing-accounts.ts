@@ -0,0 +1,259 @@
+import { authorize } from '../lib/access-control';
+import {
+  createBillingAccount,
+  deleteBillingAccount,
+  getBillingAccountByBillTo,
+  getBillingAccounts,
+  updateBillingAccount,
+} from '../lib/db/billing-accounts';
+import { countInvoicesForBillingAccount } from '../lib/db/invoices';
+import {
+  type BillingAccountForm,
+  safeValidateBillingAccountForm,
+} from '../lib/schema';
+
+// Validate billing account form data for the user's organization, returning
+// the parsed account or an error response. Bill to codes must be unique
+// within the organization.
+async function validateAccountData(
+  accountData: unknown,
+  organizationId: string,
+  userId: string,
+  accountId?: string
+): Promise<{ account: BillingAccountForm } | { response: Response }> {
+  const validation = safeValidateBillingAccountForm({
+    ...(accountData as object),
+    organizationId,
+    createdBy: userId,
+  });
+
+  if (!validation.success) {
+    return {
+      response: new Response(
+        JSON.stringify({
+          error: 'Invalid billing account data',
+          details: validation.error.errors,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      ),
+    };
+  }
+
+  const existing = await getBillingAccountByBillTo(
+    validation.data.billTo,
+    organizationId
+  );
+  if (existing && existing.id !== accountId) {
+    return {
+      response: new Response(
+        JSON.stringify({
+          error: `Bill to code ${validation.data.billTo} is already used by ${existing.name}`,
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      ),
+    };
+  }
+
+  return { account: validation.data };
+}
+
+// GET /api/billing-accounts
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const resolved = await authorize(request, 'billing:view');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const accounts = await getBillingAccounts({
+      organizationId: resolved.organizationId,
+    });
+
+    return new Response(JSON.stringify(accounts), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get billing accounts:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to get billing accounts' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// POST /api/billing-accounts
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { accountData } = body as {
+      accountData: Partial<BillingAccountForm>;
+    };
+
+    const resolved = await authorize(request, 'billing:edit');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const validated = await validateAccountData(
+      accountData,
+      resolved.organizationId,
+      resolved.userId
+    );
+    if ('response' in validated) {
+      return validated.response;
+    }
+
+    const account = await createBillingAccount(validated.account);
+
+    return new Response(JSON.stringify(account), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to create billing account:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to create billing account' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// PUT /api/billing-accounts
+export async function PUT(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { id, accountData } = body as {
+      id: string;
+      accountData: Partial<BillingAccountForm>;
+    };
+
+    if (!id) {
+      return new Response(
+        JSON.stringify({ error: 'Billing account ID is required' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const resolved = await authorize(request, 'billing:edit');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const validated = await validateAccountData(
+      accountData,
+      resolved.organizationId,
+      resolved.userId,
+      id
+    );
+    if ('response' in validated) {
+      return validated.response;
+    }
+
+    const updatedAccount = await updateBillingAccount(
+      id,
+      validated.account,
+      resolved.organizationId
+    );
+
+    if (!updatedAccount) {
+      return new Response(
+        JSON.stringify({ error: 'Billing account not found' }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    return new Response(JSON.stringify(updatedAccount), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to update billing account:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update billing account' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// DELETE /api/billing-accounts
+export async function DELETE(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+
+    if (!id) {
+      return new Response(
+        JSON.stringify({ error: 'Billing account ID is required' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const resolved = await authorize(request, 'billing:edit');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    // Invoices keep a reference to their account
+    const invoiceCount = await countInvoicesForBillingAccount(id);
+    if (invoiceCount > 0) {
+      return new Response(
+        JSON.stringify({
+          error:
+            'This account has invoices and cannot be deleted. Deactivate it instead.',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const success = await deleteBillingAccount(id, resolved.organizationId);
+
+    if (!success) {
+      return new Response(
+        JSON.stringify({ error: 'Billing account not found' }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to delete billing account:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to delete billing account' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
@@ -0,0 +1,194 @@
+import { authorize } from '../lib/access-control';
+import {
+  DEFAULT_DISPATCH_DAYS,
+  isDriverAvailabilityFilter,
+} from '../lib/dispatch';
+import { recommendDrivers } from '../lib/services/assignment-service';
+import {
+  assignRunToDriver,
+  getDispatchBoard,
+} from '../lib/services/dispatch-service';
+import { getAvailableDriverIds } from '../lib/services/driver-availability-service';
+
+// Longest period the dispatch board can look ahead
+const MAX_DISPATCH_DAYS = 60;
+
+// GET /api/dispatch - upcoming scheduled and active runs across the
+// organization with the driver each is assigned to
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const resolved = await authorize(request, 'runs:view');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const daysParam = url.searchParams.get('days');
+    const days = daysParam ? parseInt(daysParam, 10) : DEFAULT_DISPATCH_DAYS;
+    if (isNaN(days) || days < 1 || days > MAX_DISPATCH_DAYS) {
+      return new Response(
+        JSON.stringify({
+          error: `Days must be between 1 and ${MAX_DISPATCH_DAYS}`,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const runs = await getDispatchBoard({
+      organizationId: resolved.organizationId,
+      days,
+    });
+
+    return new Response(JSON.stringify(runs), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get dispatch board:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to get dispatch board' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// PUT /api/dispatch - assign or reassign a run to an organization member
+export async function PUT(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { runId, driverId } = body as {
+      runId: string;
+      driverId: string;
+    };
+
+    const resolved = await authorize(request, 'runs:assign');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    if (!runId || !driverId) {
+      return new Response(
+        JSON.stringify({ error: 'Run ID and driver ID are required' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const result = await assignRunToDriver({
+      organizationId: resolved.organizationId,
+      runId,
+      driverId,
+      actorId: resolved.userId,
+    });
+
+    if ('error' in result) {
+      return new Response(JSON.stringify({ error: result.error }), {
+        status: result.status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify(result.run), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to assign run:', error);
+    return new Response(JSON.stringify({ error: 'Failed to assign run' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// GET /api/dispatch/availability - IDs of the organization's members who
+// match an availability filter
+export async function availability(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const resolved = await authorize(request, 'drivers:view');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const filter = url.searchParams.get('filter') || 'all';
+    if (!isDriverAvailabilityFilter(filter)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown availability filter: ${filter}` }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const driverIds = await getAvailableDriverIds({
+      organizationId: resolved.organizationId,
+      filter,
+    });
+
+    return new Response(JSON.stringify({ driverIds }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get driver availability:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to get driver availability' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// GET /api/dispatch/recommendations - drivers ranked by how well they fit a
+// scheduled run
+export async function recommendations(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const resolved = await authorize(request, 'runs:assign');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const runId = url.searchParams.get('runId');
+    if (!runId) {
+      return new Response(JSON.stringify({ error: 'Run ID is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const result = await recommendDrivers({
+      organizationId: resolved.organizationId,
+      runId,
+    });
+
+    if ('error' in result) {
+      return new Response(JSON.stringify({ error: result.error }), {
+        status: result.status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify(result.recommendations), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to recommend drivers:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to recommend drivers' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
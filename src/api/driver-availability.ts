@@ -0,0 +1,222 @@
+import {
+  type AuthorizedMember,
+  authorize,
+  permissionDeniedResponse,
+} from '../lib/access-control';
+import {
+  createDriverAvailabilityBlock,
+  deleteDriverAvailabilityBlock,
+  getDriverAvailabilityBlockById,
+  getDriverAvailabilityBlocks,
+} from '../lib/db/driver-availability';
+import {
+  type DriverAvailabilityBlockForm,
+  safeValidateDriverAvailabilityBlockForm,
+} from '../lib/schema';
+import type { Capability } from '../lib/permissions';
+import { getReportOrganizationContext } from '../lib/services/report-service';
+
+// Check the user can act on a driver's calendar: drivers their own, other
+// roles any organization member's when granted the capability
+async function checkDriverAccess(
+  driverId: string,
+  member: AuthorizedMember,
+  capability: Capability
+): Promise<Response | null> {
+  if (driverId !== member.userId && !member.can(capability)) {
+    return permissionDeniedResponse(capability);
+  }
+
+  const { memberUserIds } = await getReportOrganizationContext(
+    member.organizationId
+  );
+  if (!memberUserIds.includes(driverId)) {
+    return new Response(JSON.stringify({ error: 'Driver not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return null;
+}
+
+// Parse an optional date query parameter
+function parseDateParam(value: string | null): Date | null | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/driver-availability - a driver's shifts plus the time off
+// overlapping from-to. Members who can view drivers can omit driverId to get every member's.
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const resolved = await authorize(request);
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const from = parseDateParam(url.searchParams.get('from'));
+    const to = parseDateParam(url.searchParams.get('to'));
+    if (from === null || to === null) {
+      return new Response(JSON.stringify({ error: 'Invalid date range' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const driverId =
+      url.searchParams.get('driverId') ||
+      (resolved.can('drivers:view') ? undefined : resolved.userId);
+    if (driverId) {
+      const accessError = await checkDriverAccess(
+        driverId,
+        resolved,
+        'drivers:view'
+      );
+      if (accessError) {
+        return accessError;
+      }
+    }
+
+    const blocks = await getDriverAvailabilityBlocks({
+      organizationId: resolved.organizationId,
+      driverIds: driverId ? [driverId] : undefined,
+      from,
+      to,
+    });
+
+    return new Response(JSON.stringify(blocks), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get driver availability:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to get driver availability' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// POST /api/driver-availability - add a shift, day off or blackout
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { blockData } = body as {
+      blockData: Partial<DriverAvailabilityBlockForm>;
+    };
+
+    const resolved = await authorize(request);
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const validation = safeValidateDriverAvailabilityBlockForm({
+      ...blockData,
+      driverId: blockData?.driverId || resolved.userId,
+      organizationId: resolved.organizationId,
+      createdBy: resolved.userId,
+    });
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid availability data',
+          details: validation.error.errors,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const accessError = await checkDriverAccess(
+      validation.data.driverId,
+      resolved,
+      'drivers:schedule'
+    );
+    if (accessError) {
+      return accessError;
+    }
+
+    const block = await createDriverAvailabilityBlock(validation.data);
+
+    return new Response(JSON.stringify(block), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to create availability block:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to create availability block' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// DELETE /api/driver-availability
+export async function DELETE(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+
+    if (!id) {
+      return new Response(JSON.stringify({ error: 'Block ID is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const resolved = await authorize(request);
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const block = await getDriverAvailabilityBlockById(
+      id,
+      resolved.organizationId
+    );
+    if (!block) {
+      return new Response(
+        JSON.stringify({ error: 'Availability block not found' }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (
+      block.driverId !== resolved.userId &&
+      !resolved.can('drivers:schedule')
+    ) {
+      return permissionDeniedResponse('drivers:schedule');
+    }
+
+    await deleteDriverAvailabilityBlock(id, resolved.organizationId);
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to delete availability block:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to delete availability block' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
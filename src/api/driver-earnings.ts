@@ -0,0 +1,128 @@
+import { authorize, permissionDeniedResponse } from '../lib/access-control';
+import { type EarningsStatement } from '../lib/payroll/earnings';
+import {
+  getStatementFilename,
+  renderStatement,
+  STATEMENT_FORMATS,
+  type StatementFormat,
+} from '../lib/payroll/statement';
+import { REPORT_FORMATS } from '../lib/reports/formats';
+import { ReportFormat } from '../lib/schema';
+import { getEarningsStatement } from '../lib/services/earnings-service';
+
+// Load the statement requested by the query string. Roles that can view
+// payroll see any organization member's statement; drivers only their own.
+async function resolveStatement(
+  request: Request
+): Promise<{ statement: EarningsStatement } | { response: Response }> {
+  const resolved = await authorize(request);
+  if ('response' in resolved) {
+    return resolved;
+  }
+
+  const url = new URL(request.url);
+  const driverId = url.searchParams.get('driverId') || resolved.userId;
+  if (driverId !== resolved.userId && !resolved.can('payroll:view')) {
+    return { response: permissionDeniedResponse('payroll:view') };
+  }
+
+  const periodParam = url.searchParams.get('periodDate');
+  const periodDate = periodParam ? new Date(periodParam) : new Date();
+  if (isNaN(periodDate.getTime())) {
+    return {
+      response: new Response(
+        JSON.stringify({ error: 'Invalid pay period date' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      ),
+    };
+  }
+
+  const result = await getEarningsStatement({
+    organizationId: resolved.organizationId,
+    driverId,
+    periodDate,
+  });
+
+  if ('error' in result) {
+    return {
+      response: new Response(JSON.stringify({ error: result.error }), {
+        status: result.status,
+        headers: { 'Content-Type': 'application/json' },
+      }),
+    };
+  }
+
+  return { statement: result.statement };
+}
+
+// GET /api/driver-earnings - a driver's earnings statement for the pay
+// period containing periodDate (default: the current period)
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const resolved = await resolveStatement(request);
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    return new Response(JSON.stringify(resolved.statement), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get earnings statement:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to get earnings statement' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// GET /api/driver-earnings/export - download a statement as CSV or PDF
+export async function exportStatement(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const format = url.searchParams.get('format') || ReportFormat.csv;
+
+    if (!STATEMENT_FORMATS.includes(format as StatementFormat)) {
+      return new Response(
+        JSON.stringify({ error: `Unsupported statement format: ${format}` }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const resolved = await resolveStatement(request);
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const formatInfo = REPORT_FORMATS[format as StatementFormat];
+    const content = await renderStatement(
+      format as StatementFormat,
+      resolved.statement
+    );
+
+    return new Response(content, {
+      headers: {
+        'Content-Type': formatInfo.contentType,
+        'Content-Disposition': `attachment; filename="${getStatementFilename(resolved.statement, formatInfo.extension)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export earnings statement:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to export earnings statement' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
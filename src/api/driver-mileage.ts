@@ -0,0 +1,107 @@
+import { authorize, permissionDeniedResponse } from '../lib/access-control';
+import {
+  getMileageLogFilename,
+  type MileageLog,
+  renderMileageLogCSV,
+} from '../lib/payroll/mileage';
+import { REPORT_FORMATS } from '../lib/reports/formats';
+import { ReportFormat } from '../lib/schema';
+import { getMileageLog } from '../lib/services/mileage-service';
+
+// Load the mileage log requested by the query string. Roles that can view
+// payroll see any organization member's log; drivers only their own.
+async function resolveMileageLog(
+  request: Request
+): Promise<{ log: MileageLog } | { response: Response }> {
+  const resolved = await authorize(request);
+  if ('response' in resolved) {
+    return resolved;
+  }
+
+  const url = new URL(request.url);
+  const driverId = url.searchParams.get('driverId') || resolved.userId;
+  if (driverId !== resolved.userId && !resolved.can('payroll:view')) {
+    return { response: permissionDeniedResponse('payroll:view') };
+  }
+
+  const periodParam = url.searchParams.get('periodDate');
+  const periodDate = periodParam ? new Date(periodParam) : new Date();
+  if (isNaN(periodDate.getTime())) {
+    return {
+      response: new Response(
+        JSON.stringify({ error: 'Invalid pay period date' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      ),
+    };
+  }
+
+  const log = await getMileageLog({
+    organizationId: resolved.organizationId,
+    driverId,
+    periodDate,
+  });
+
+  if (!log) {
+    return {
+      response: new Response(JSON.stringify({ error: 'Driver not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      }),
+    };
+  }
+
+  return { log };
+}
+
+// GET /api/driver-mileage - a driver's mileage log for the pay period
+// containing periodDate (default: the current period)
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const resolved = await resolveMileageLog(request);
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    return new Response(JSON.stringify(resolved.log), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get mileage log:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to get mileage log' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// GET /api/driver-mileage/export - download a mileage log as CSV
+export async function exportMileageLog(request: Request): Promise<Response> {
+  try {
+    const resolved = await resolveMileageLog(request);
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    return new Response(renderMileageLogCSV(resolved.log), {
+      headers: {
+        'Content-Type': REPORT_FORMATS[ReportFormat.csv].contentType,
+        'Content-Disposition': `attachment; filename="${getMileageLogFilename(resolved.log)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export mileage log:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to export mileage log' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { authorize } from '../lib/access-control';
+import { saveDriverPaySettings } from '../lib/db/driver-pay-settings';
+import { safeValidateDriverPaySettingsForm } from '../lib/schema';
+import { getEffectiveDriverPaySettings } from '../lib/services/earnings-service';
+
+// Helper function to check that a timezone is a valid IANA name
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// GET /api/driver-pay-settings - the organization's driver pay settings,
+// or the defaults when none have been saved
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const resolved = await authorize(request);
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const settings = await getEffectiveDriverPaySettings(
+      resolved.organizationId
+    );
+
+    return new Response(JSON.stringify(settings), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get driver pay settings:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to get driver pay settings' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// PUT /api/driver-pay-settings - save the organization's driver pay settings
+export async function PUT(request: Request): Promise<Response> {
+  try {
+    const settingsData = await request.json();
+
+    const resolved = await authorize(request, 'payroll:edit');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const validation = safeValidateDriverPaySettingsForm({
+      ...settingsData,
+      organizationId: resolved.organizationId,
+      updatedBy: resolved.userId,
+    });
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid driver pay settings',
+          details: validation.error.errors,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (!isValidTimezone(validation.data.timezone)) {
+      return new Response(
+        JSON.stringify({
+          error: `Unknown timezone: ${validation.data.timezone}`,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const settings = await saveDriverPaySettings(validation.data);
+
+    return new Response(JSON.stringify(settings), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to save driver pay settings:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to save driver pay settings' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
@@ -0,0 +1,316 @@
+import { authorize } from '../lib/access-control';
+import { renderInvoicePDF } from '../lib/billing/invoice-pdf';
+import { getBillingAccountById } from '../lib/db/billing-accounts';
+import {
+  deleteInvoice,
+  getInvoiceById,
+  getInvoices,
+  updateInvoiceStatus,
+} from '../lib/db/invoices';
+import { type Invoice, InvoiceStatus } from '../lib/schema';
+import { generateInvoices } from '../lib/services/invoice-service';
+import { getReportOrganizationContext } from '../lib/services/report-service';
+
+// Parse a date parameter, returning null when missing or invalid
+function parseDateParam(value: unknown): Date | null {
+  if (typeof value !== 'string' || value.length === 0) {
+    return null;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Download filename for an invoice PDF, e.g. "invoice-inv-2025-0001.pdf"
+function getInvoiceFilename(invoice: Invoice): string {
+  return `invoice-${invoice.invoiceNumber.toLowerCase()}.pdf`;
+}
+
+// GET /api/invoices - list invoices, or a single invoice with its line items
+// when an id is given
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const resolved = await authorize(request, 'billing:view');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const id = url.searchParams.get('id');
+    if (id) {
+      const invoice = await getInvoiceById(id, resolved.organizationId);
+      if (!invoice) {
+        return new Response(JSON.stringify({ error: 'Invoice not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      return new Response(JSON.stringify(invoice), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const status = url.searchParams.get('status');
+    const invoices = await getInvoices({
+      organizationId: resolved.organizationId,
+      billingAccountId: url.searchParams.get('billingAccountId') || undefined,
+      status: Object.values(InvoiceStatus).includes(status as InvoiceStatus)
+        ? (status as InvoiceStatus)
+        : undefined,
+      limit: Number(url.searchParams.get('limit')) || 50,
+      offset: Number(url.searchParams.get('offset')) || 0,
+    });
+
+    return new Response(JSON.stringify(invoices), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get invoices:', error);
+    return new Response(JSON.stringify({ error: 'Failed to get invoices' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// POST /api/invoices - generate invoices for the organization's billing
+// accounts over a period
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { periodStart, periodEnd, billingAccountIds } = body as {
+      periodStart: string;
+      periodEnd: string;
+      billingAccountIds?: string[];
+    };
+
+    const resolved = await authorize(request, 'billing:edit');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const start = parseDateParam(periodStart);
+    const end = parseDateParam(periodEnd);
+
+    if (!start || !end) {
+      return new Response(
+        JSON.stringify({ error: 'Period start and end dates are required' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (end < start) {
+      return new Response(
+        JSON.stringify({ error: 'Period end must be after period start' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (billingAccountIds !== undefined && !Array.isArray(billingAccountIds)) {
+      return new Response(
+        JSON.stringify({ error: 'Billing account IDs must be an array' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const result = await generateInvoices({
+      organizationId: resolved.organizationId,
+      createdBy: resolved.userId,
+      periodStart: start,
+      periodEnd: end,
+      billingAccountIds,
+    });
+
+    return new Response(JSON.stringify(result), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to generate invoices:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to generate invoices' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// PUT /api/invoices - mark an invoice paid or unpaid
+export async function PUT(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { id, status } = body as {
+      id: string;
+      status: InvoiceStatus;
+    };
+
+    if (!id) {
+      return new Response(JSON.stringify({ error: 'Invoice ID is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!Object.values(InvoiceStatus).includes(status)) {
+      return new Response(
+        JSON.stringify({ error: `Invalid invoice status: ${status}` }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const resolved = await authorize(request, 'billing:edit');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const updatedInvoice = await updateInvoiceStatus(
+      id,
+      status,
+      resolved.organizationId
+    );
+
+    if (!updatedInvoice) {
+      return new Response(JSON.stringify({ error: 'Invoice not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify(updatedInvoice), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to update invoice:', error);
+    return new Response(JSON.stringify({ error: 'Failed to update invoice' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// DELETE /api/invoices - delete an unpaid invoice so its runs can be
+// invoiced again
+export async function DELETE(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+
+    if (!id) {
+      return new Response(JSON.stringify({ error: 'Invoice ID is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const resolved = await authorize(request, 'billing:edit');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const invoice = await getInvoiceById(id, resolved.organizationId);
+    if (!invoice) {
+      return new Response(JSON.stringify({ error: 'Invoice not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (invoice.status === InvoiceStatus.paid) {
+      return new Response(
+        JSON.stringify({ error: 'Paid invoices cannot be deleted' }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const success = await deleteInvoice(id, resolved.organizationId);
+
+    if (!success) {
+      return new Response(JSON.stringify({ error: 'Invoice not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to delete invoice:', error);
+    return new Response(JSON.stringify({ error: 'Failed to delete invoice' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// GET /api/invoices/download - render an invoice as a PDF
+export async function download(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+
+    const resolved = await authorize(request, 'billing:view');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    if (!id) {
+      return new Response(JSON.stringify({ error: 'Invoice ID is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const invoice = await getInvoiceById(id, resolved.organizationId);
+    if (!invoice) {
+      return new Response(JSON.stringify({ error: 'Invoice not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [account, { organizationName }] = await Promise.all([
+      getBillingAccountById(invoice.billingAccountId, resolved.organizationId),
+      getReportOrganizationContext(resolved.organizationId),
+    ]);
+
+    const content = renderInvoicePDF(invoice, {
+      organizationName,
+      account: account ?? undefined,
+    });
+
+    return new Response(content, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getInvoiceFilename(invoice)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to download invoice:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to download invoice' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
@@ -1,8 +1,8 @@
 import {
   checkNotificationOwnership,
   createErrorResponse,
-  requireAuth,
 } from '../lib/access-control';
+import { getRequestAuth } from '../lib/api/session-auth';
 import {
   createNotification,
   deleteNotification,
@@ -18,14 +18,7 @@ import {
 export async function GET(request: Request): Promise<Response> {
   try {
     const url = new URL(request.url);
-    const userId = url.searchParams.get('userId');
-
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+    const { userId } = getRequestAuth(request);
 
     // Parse query parameters
     const query: NotificationsQuery = {
@@ -81,17 +74,11 @@ export async function GET(request: Request): Promise<Response> {
 export async function POST(request: Request): Promise<Response> {
   try {
     const body = await request.json();
-    const { notificationData, userId } = body as {
+    const { notificationData } = body as {
       notificationData: NotificationForm;
-      userId: string;
     };
 
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+    const { userId } = getRequestAuth(request);
 
     // For creation, we don't need access control validation since the user is creating their own resource
     const notification = await createNotification(notificationData, userId);
@@ -116,19 +103,13 @@ export async function POST(request: Request): Promise<Response> {
 export async function PUT(request: Request): Promise<Response> {
   try {
     const body = await request.json();
-    const { action, id, isRead, userId } = body as {
+    const { action, id, isRead } = body as {
       action: 'mark_read' | 'mark_all_read';
       id?: string;
       isRead?: boolean;
-      userId: string;
     };
 
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+    const { userId } = getRequestAuth(request);
 
     let success = false;
 
@@ -146,8 +127,7 @@ export async function PUT(request: Request): Promise<Response> {
 
         // Validate that the user owns this notification before allowing updates
         try {
-          const authUserId = requireAuth(userId);
-          await checkNotificationOwnership(id, authUserId);
+          await checkNotificationOwnership(id, userId);
         } catch (error) {
           return createErrorResponse(
             error instanceof Error ? error : new Error(String(error))
@@ -194,7 +174,7 @@ export async function DELETE(request: Request): Promise<Response> {
   try {
     const url = new URL(request.url);
     const id = url.searchParams.get('id');
-    const userId = url.searchParams.get('userId');
+    const { userId } = getRequestAuth(request);
 
     if (!id) {
       return new Response(JSON.stringify({ error: 'Missing id parameter' }), {
@@ -203,17 +183,9 @@ export async function DELETE(request: Request): Promise<Response> {
       });
     }
 
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-
     // Validate that the user owns this notification before allowing deletion
     try {
-      const authUserId = requireAuth(userId);
-      await checkNotificationOwnership(id, authUserId);
+      await checkNotificationOwnership(id, userId);
     } catch (error) {
       return createErrorResponse(
         error instanceof Error ? error : new Error(String(error))
@@ -240,15 +212,7 @@ export async function DELETE(request: Request): Promise<Response> {
 // GET /api/notifications/stats
 export async function getStats(request: Request): Promise<Response> {
   try {
-    const url = new URL(request.url);
-    const userId = url.searchParams.get('userId');
-
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+    const { userId } = getRequestAuth(request);
 
     // Stats are user-specific by design, so we don't need additional access control
     const stats = await getNotificationsStats(userId);
@@ -0,0 +1,318 @@
+import { z } from 'zod';
+import {
+  type ApiRouteDefinition,
+  buildOpenApiDocument,
+} from '../lib/openapi/document';
+import {
+  NewRunFormSchema,
+  ReportFormat,
+  ReportResponseSchema,
+  ReportTemplateFormSchema,
+  ReportTemplateResponseSchema,
+  ReportType,
+  RunEventSchema,
+  RunResponseSchema,
+  RunStatusSchema,
+  VehicleFormSchema,
+  VehicleSchema,
+} from '../lib/schema';
+
+const PagingQuery = z.object({
+  limit: z.number().int().min(1).optional().describe('Defaults to 50'),
+  offset: z.number().int().min(0).optional(),
+});
+
+const IdQuery = z.object({ id: z.string().uuid() });
+
+const SuccessResponse = z.object({ success: z.boolean() });
+
+const RunUpdateBody = z.object({
+  action: z
+    .enum(['update_status', 'update_stop'])
+    .optional()
+    .describe('Omit to edit the run with runData'),
+  status: RunStatusSchema.optional(),
+  override: z
+    .boolean()
+    .optional()
+    .describe('Skip the status transition rules (runs:manage)'),
+  stopIndex: z.number().int().min(0).optional(),
+  completed: z.boolean().optional(),
+  runData: NewRunFormSchema.optional(),
+});
+
+const RunUpdateResponse = z.union([
+  RunResponseSchema,
+  z.object({ success: z.boolean(), updatedRun: RunResponseSchema.nullable() }),
+]);
+
+const ReportRequestBody = z.object({
+  templateId: z.string().uuid(),
+  startDate: z.string().datetime({ offset: true }),
+  endDate: z.string().datetime({ offset: true }),
+  name: z.string().optional(),
+  format: z.nativeEnum(ReportFormat).optional(),
+});
+
+const ReportsQuery = PagingQuery.extend({
+  status: z
+    .string()
+    .optional()
+    .describe('Comma-separated statuses, e.g. completed,failed'),
+  templateId: z.string().uuid().optional(),
+});
+
+const ReportTemplatesQuery = PagingQuery.extend({
+  reportType: z.nativeEnum(ReportType).optional(),
+  isDefault: z.enum(['true', 'false']).optional(),
+});
+
+const listRunsRoute: ApiRouteDefinition = {
+  method: 'GET',
+  path: '/api/runs/organization',
+  tag: 'Runs',
+  summary: "List the organization's runs",
+  description:
+    "Every member's runs for roles with runs:view, otherwise only your own; most recent first",
+  response: z.array(RunResponseSchema),
+};
+const createRunRoute: ApiRouteDefinition = {
+  method: 'POST',
+  path: '/api/runs',
+  tag: 'Runs',
+  summary: 'Create a run',
+  body: z.object({ runData: NewRunFormSchema }),
+  response: RunResponseSchema,
+  status: 201,
+};
+const getRunRoute: ApiRouteDefinition = {
+  method: 'GET',
+  path: '/api/runs/:id',
+  tag: 'Runs',
+  summary: 'Get a run',
+  description:
+    'Your own runs, or any run in the organization for roles with runs:view',
+  response: RunResponseSchema,
+};
+const updateRunRoute: ApiRouteDefinition = {
+  method: 'PUT',
+  path: '/api/runs/:id',
+  tag: 'Runs',
+  summary: "Edit a run, or change its status or a stop's",
+  body: RunUpdateBody,
+  response: RunUpdateResponse,
+};
+const deleteRunRoute: ApiRouteDefinition = {
+  method: 'DELETE',
+  path: '/api/runs/:id',
+  tag: 'Runs',
+  summary: 'Delete a run',
+  response: SuccessResponse,
+};
+const runEventsRoute: ApiRouteDefinition = {
+  method: 'GET',
+  path: '/api/runs/:id/events',
+  tag: 'Runs',
+  summary: "A run's change history, oldest first",
+  response: z.array(RunEventSchema),
+};
+const listReportsRoute: ApiRouteDefinition = {
+  method: 'GET',
+  path: '/api/reports',
+  tag: 'Reports',
+  summary: "List the organization's reports",
+  query: ReportsQuery,
+  response: z.array(ReportResponseSchema),
+};
+const createReportRoute: ApiRouteDefinition = {
+  method: 'POST',
+  path: '/api/reports',
+  tag: 'Reports',
+  summary: 'Start generating a report from a template and date range',
+  body: ReportRequestBody,
+  response: ReportResponseSchema,
+  status: 202,
+};
+const deleteReportRoute: ApiRouteDefinition = {
+  method: 'DELETE',
+  path: '/api/reports',
+  tag: 'Reports',
+  summary: 'Delete a report and its file',
+  query: IdQuery,
+  response: SuccessResponse,
+};
+const downloadReportRoute: ApiRouteDefinition = {
+  method: 'GET',
+  path: '/api/reports/download',
+  tag: 'Reports',
+  summary: "Download a completed report's file",
+  query: IdQuery,
+  responseContentType: 'application/octet-stream',
+};
+const listTemplatesRoute: ApiRouteDefinition = {
+  method: 'GET',
+  path: '/api/report-templates',
+  tag: 'Report Templates',
+  summary: "List the organization's report templates",
+  query: ReportTemplatesQuery,
+  response: z.array(ReportTemplateResponseSchema),
+};
+const createTemplateRoute: ApiRouteDefinition = {
+  method: 'POST',
+  path: '/api/report-templates',
+  tag: 'Report Templates',
+  summary: 'Create a report template',
+  body: z.object({ templateData: ReportTemplateFormSchema }),
+  response: ReportTemplateResponseSchema,
+  status: 201,
+};
+const updateTemplateRoute: ApiRouteDefinition = {
+  method: 'PUT',
+  path: '/api/report-templates',
+  tag: 'Report Templates',
+  summary: 'Edit a report template',
+  body: z.object({
+    id: z.string().uuid(),
+    templateData: ReportTemplateFormSchema,
+  }),
+  response: ReportTemplateResponseSchema,
+};
+const deleteTemplateRoute: ApiRouteDefinition = {
+  method: 'DELETE',
+  path: '/api/report-templates',
+  tag: 'Report Templates',
+  summary: 'Delete a report template',
+  query: IdQuery,
+  response: SuccessResponse,
+};
+
+// The same route under /api/v1, for API token callers
+function v1Route(
+  route: ApiRouteDefinition,
+  path: string,
+  scope: ApiRouteDefinition['scope']
+): ApiRouteDefinition {
+  return { ...route, path, scope, tag: `v1: ${route.tag}` };
+}
+
+// Documented API routes. They make up the OpenAPI document served at
+// /api/openapi.json, and in development requests to them and their
+// responses are checked against it.
+const apiRouteRegistry: ApiRouteDefinition[] = [
+  {
+    method: 'GET',
+    path: '/api/config',
+    tag: 'Config',
+    summary: "The app's public configuration",
+    isPublic: true,
+    response: z.object({ clerkPublishableKey: z.string() }),
+  },
+  {
+    method: 'GET',
+    path: '/api/runs',
+    tag: 'Runs',
+    summary: 'List your runs',
+    query: PagingQuery.extend({
+      status: z
+        .string()
+        .optional()
+        .describe('Comma-separated statuses, e.g. scheduled,active'),
+      orderBy: z
+        .enum(['scheduled_time', 'created_at', 'updated_at'])
+        .optional(),
+      orderDirection: z.enum(['ASC', 'DESC']).optional(),
+    }),
+    response: z.array(RunResponseSchema),
+  },
+  listRunsRoute,
+  createRunRoute,
+  getRunRoute,
+  updateRunRoute,
+  deleteRunRoute,
+  runEventsRoute,
+  listReportsRoute,
+  createReportRoute,
+  deleteReportRoute,
+  downloadReportRoute,
+  listTemplatesRoute,
+  createTemplateRoute,
+  updateTemplateRoute,
+  deleteTemplateRoute,
+  {
+    method: 'GET',
+    path: '/api/vehicles',
+    tag: 'Vehicles',
+    summary: "List the organization's vehicles",
+    query: z.object({ isActive: z.enum(['true']).optional() }),
+    response: z.array(VehicleSchema),
+  },
+  {
+    method: 'POST',
+    path: '/api/vehicles',
+    tag: 'Vehicles',
+    summary: 'Add a vehicle to the fleet',
+    body: z.object({
+      vehicleData: VehicleFormSchema.omit({ organizationId: true }),
+    }),
+    response: VehicleSchema,
+    status: 201,
+  },
+  {
+    method: 'PUT',
+    path: '/api/vehicles',
+    tag: 'Vehicles',
+    summary: 'Edit a vehicle',
+    body: z.object({
+      id: z.string().uuid(),
+      vehicleData: VehicleFormSchema.omit({ organizationId: true }),
+    }),
+    response: VehicleSchema,
+  },
+  {
+    method: 'DELETE',
+    path: '/api/vehicles',
+    tag: 'Vehicles',
+    summary: 'Delete a vehicle; its runs are kept without one',
+    query: IdQuery,
+    response: SuccessResponse,
+  },
+  v1Route(listRunsRoute, '/api/v1/runs', 'runs:read'),
+  v1Route(createRunRoute, '/api/v1/runs', 'runs:write'),
+  v1Route(updateRunRoute, '/api/v1/runs/:id', 'runs:write'),
+  v1Route(deleteRunRoute, '/api/v1/runs/:id', 'runs:write'),
+  v1Route(runEventsRoute, '/api/v1/runs/:id/events', 'runs:read'),
+  v1Route(listReportsRoute, '/api/v1/reports', 'reports:read'),
+  v1Route(createReportRoute, '/api/v1/reports', 'reports:write'),
+  v1Route(deleteReportRoute, '/api/v1/reports', 'reports:write'),
+  v1Route(downloadReportRoute, '/api/v1/reports/download', 'reports:read'),
+  v1Route(listTemplatesRoute, '/api/v1/report-templates', 'templates:read'),
+  v1Route(createTemplateRoute, '/api/v1/report-templates', 'templates:write'),
+  v1Route(updateTemplateRoute, '/api/v1/report-templates', 'templates:write'),
+  v1Route(deleteTemplateRoute, '/api/v1/report-templates', 'templates:write'),
+];
+
+export const openApiDocument = buildOpenApiDocument(
+  apiRouteRegistry,
+  {
+    Run: RunResponseSchema,
+    NewRunForm: NewRunFormSchema,
+    RunEvent: RunEventSchema,
+    Report: ReportResponseSchema,
+    ReportTemplate: ReportTemplateResponseSchema,
+    ReportTemplateForm: ReportTemplateFormSchema,
+    Vehicle: VehicleSchema,
+  },
+  {
+    title: 'Teton Tracker API',
+    version: '1.0.0',
+    description:
+      'Routes under /api/v1 are stable and accept organization API tokens; the others are used by the app and may change.',
+  }
+);
+
+// GET /api/openapi.json
+export async function GET(request: Request): Promise<Response> {
+  return new Response(JSON.stringify(openApiDocument), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
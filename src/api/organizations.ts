@@ -1,4 +1,8 @@
 import { createClerkClient } from '@clerk/clerk-sdk-node';
+import { type AuthorizedMember, authorize } from '../lib/access-control';
+import { getAllOrganizationMemberships } from '../lib/api/clerk-client';
+import { getRequestAuth } from '../lib/api/session-auth';
+import { isCapability, ROLE_CAPABILITIES } from '../lib/permissions';
 
 // Initialize Clerk with secret key
 if (!process.env.CLERK_SECRET_KEY) {
@@ -59,19 +63,38 @@ function handleClerkError(error: any, operation: string): Response {
   );
 }
 
+// The caller's membership from the shared authorize() guard, or a 401/403
+// response when they aren't signed in or orgId isn't their organization
+async function authorizeOrganization(
+  request: Request,
+  orgId: string
+): Promise<AuthorizedMember | { response: Response }> {
+  const resolved = await authorize(request);
+  if ('response' in resolved) {
+    return resolved;
+  }
+
+  if (resolved.organizationId !== orgId) {
+    return {
+      response: new Response(
+        JSON.stringify({
+          error: 'Access denied. User is not a member of this organization.',
+        }),
+        {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      ),
+    };
+  }
+
+  return resolved;
+}
+
 // GET /api/organizations - Get all organizations for the current user
 export async function GET(request: Request): Promise<Response> {
   try {
-    const url = new URL(request.url);
-
-    const userId = url.searchParams.get('userId');
-
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+    const { userId } = getRequestAuth(request);
 
     console.log(`🔍 Fetching organizations for user: ${userId}`);
 
@@ -122,9 +145,7 @@ export async function getOrganizationMembers(
   request: Request
 ): Promise<Response> {
   try {
-    const url = new URL(request.url);
     const orgId = (request as any).params?.orgId;
-    const requestingUserId = url.searchParams.get('userId');
 
     if (!orgId) {
       return new Response(
@@ -136,47 +157,20 @@ export async function getOrganizationMembers(
       );
     }
 
-    if (!requestingUserId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-
-    // Check if the requesting user is a member of the organization
-    const userMembershipList = await clerk.organizations
-      .getOrganizationMembershipList({
-        organizationId: orgId,
-      })
-      .catch(() => null);
-
-    const userMembership = userMembershipList?.data.find(
-      (m: any) => m.publicUserData.userId === requestingUserId
-    );
-
-    if (!userMembership) {
-      return new Response(
-        JSON.stringify({
-          error: 'Access denied. User is not a member of this organization.',
-        }),
-        {
-          status: 403,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
+    const resolved = await authorizeOrganization(request, orgId);
+    if ('response' in resolved) {
+      return resolved.response;
     }
 
     // Get organization details and all members
     const [organization, memberships] = await Promise.all([
       clerk.organizations.getOrganization({ organizationId: orgId }),
-      clerk.organizations.getOrganizationMembershipList({
-        organizationId: orgId,
-      }),
+      getAllOrganizationMemberships(orgId),
     ]);
 
     // Transform member data
     const members = await Promise.all(
-      memberships.data.map(async (membership: any) => {
+      memberships.map(async (membership: any) => {
         const user = await clerk.users.getUser(
           membership.publicUserData.userId
         );
@@ -206,7 +200,7 @@ export async function getOrganizationMembers(
         updatedAt: organization.updatedAt,
       },
       members,
-      requestingUserRole: userMembership.role,
+      requestingUserRole: resolved.role,
     };
 
     return new Response(JSON.stringify(response), {
@@ -221,9 +215,7 @@ export async function getOrganizationMembers(
 // GET /api/organizations/:orgId/user-role - Get user's role in a specific organization
 export async function getUserRole(request: Request): Promise<Response> {
   try {
-    const url = new URL(request.url);
     const orgId = (request as any).params?.orgId;
-    const userId = url.searchParams.get('userId');
 
     if (!orgId) {
       return new Response(
@@ -235,45 +227,15 @@ export async function getUserRole(request: Request): Promise<Response> {
       );
     }
 
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-
-    // Get user's membership in the organization
-    const membershipList = await clerk.organizations
-      .getOrganizationMembershipList({
-        organizationId: orgId,
-      })
-      .catch(() => null);
-
-    const membership = membershipList?.data.find(
-      (m: any) => m.publicUserData.userId === userId
-    );
-
-    if (!membership) {
-      return new Response(
-        JSON.stringify({
-          error: 'User is not a member of this organization',
-          isMember: false,
-          role: null,
-        }),
-        {
-          status: 404,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
+    const resolved = await authorizeOrganization(request, orgId);
+    if ('response' in resolved) {
+      return resolved.response;
     }
 
     const response = {
       isMember: true,
-      role: membership.role,
-      permissions: membership.permissions,
-      membershipId: membership.id,
-      membershipCreatedAt: membership.createdAt,
-      membershipUpdatedAt: membership.updatedAt,
+      role: resolved.role,
+      capabilities: ROLE_CAPABILITIES[resolved.role],
     };
 
     return new Response(JSON.stringify(response), {
@@ -285,18 +247,18 @@ export async function getUserRole(request: Request): Promise<Response> {
   }
 }
 
-// GET /api/organizations/check-permissions - Check if user has specific permissions
+// GET /api/organizations/check-permissions - Check if the user's role grants
+// a capability from the permission matrix, e.g. runs:assign
 export async function checkPermissions(request: Request): Promise<Response> {
   try {
     const url = new URL(request.url);
     const orgId = url.searchParams.get('orgId');
-    const userId = url.searchParams.get('userId');
     const permission = url.searchParams.get('permission');
 
-    if (!orgId || !userId || !permission) {
+    if (!orgId || !permission) {
       return new Response(
         JSON.stringify({
-          error: 'Organization ID, User ID, and permission are required',
+          error: 'Organization ID and permission are required',
         }),
         {
           status: 400,
@@ -305,38 +267,26 @@ export async function checkPermissions(request: Request): Promise<Response> {
       );
     }
 
-    // Get user's membership in the organization
-    const membershipList = await clerk.organizations
-      .getOrganizationMembershipList({
-        organizationId: orgId,
-      })
-      .catch(() => null);
-
-    const membership = membershipList?.data.find(
-      (m: any) => m.publicUserData.userId === userId
-    );
-
-    if (!membership) {
+    if (!isCapability(permission)) {
       return new Response(
-        JSON.stringify({
-          hasPermission: false,
-          isMember: false,
-          role: null,
-        }),
+        JSON.stringify({ error: `Unknown permission: ${permission}` }),
         {
+          status: 400,
           headers: { 'Content-Type': 'application/json' },
         }
       );
     }
 
-    // Check if user has the specific permission
-    const hasPermission = membership.permissions.includes(permission);
+    const resolved = await authorizeOrganization(request, orgId);
+    if ('response' in resolved) {
+      return resolved.response;
+    }
 
     const response = {
-      hasPermission,
+      hasPermission: resolved.can(permission),
       isMember: true,
-      role: membership.role,
-      permissions: membership.permissions,
+      role: resolved.role,
+      capabilities: ROLE_CAPABILITIES[resolved.role],
     };
 
     return new Response(JSON.stringify(response), {
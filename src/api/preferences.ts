@@ -1,22 +1,14 @@
-import {
-  checkPreferencesOwnership,
-  createErrorResponse,
-  requireAuth,
-} from '../lib/access-control';
+import { createErrorResponse } from '../lib/access-control';
+import { getRequestAuth } from '../lib/api/session-auth';
 import { getUserPreferences, saveUserPreferences } from '../lib/db/preferences';
 import { type UserPreferences } from '../lib/schema';
 
 // GET /api/preferences
 export async function GET(request: Request): Promise<Response> {
   try {
-    const url = new URL(request.url);
-    const userId = url.searchParams.get('userId');
-
-    // Check auth
-    const authUserId = requireAuth(userId);
-
-    // Get preferences (only returns user's own preferences anyway)
-    const preferences = await getUserPreferences(authUserId);
+    // Get the caller's own preferences
+    const { userId } = getRequestAuth(request);
+    const preferences = await getUserPreferences(userId);
 
     return new Response(JSON.stringify(preferences), {
       headers: { 'Content-Type': 'application/json' },
@@ -33,19 +25,13 @@ export async function GET(request: Request): Promise<Response> {
 export async function PUT(request: Request): Promise<Response> {
   try {
     const body = await request.json();
-    const { preferencesData, userId } = body as {
+    const { preferencesData } = body as {
       preferencesData: Partial<UserPreferences>;
-      userId: string;
     };
 
-    // Check auth
-    const authUserId = requireAuth(userId);
-
-    // Simple check: can only update your own preferences
-    checkPreferencesOwnership(userId, authUserId);
-
-    // Save preferences
-    const preferences = await saveUserPreferences(preferencesData, authUserId);
+    // Save the caller's own preferences
+    const { userId } = getRequestAuth(request);
+    const preferences = await saveUserPreferences(preferencesData, userId);
 
     return new Response(JSON.stringify(preferences), {
       headers: { 'Content-Type': 'application/json' },
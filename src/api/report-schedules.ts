@@ -0,0 +1,315 @@
+import { authorize } from '../lib/access-control';
+import {
+  createReportSchedule,
+  deleteReportSchedule,
+  getReportScheduleById,
+  getReportSchedules,
+  updateReportSchedule,
+} from '../lib/db/report-schedules';
+import { getReportTemplateById } from '../lib/db/report-templates';
+import {
+  type ReportScheduleForm,
+  safeValidateReportScheduleForm,
+} from '../lib/schema';
+import { runReportSchedule } from '../lib/services/report-scheduler';
+
+// Helper function to check that a timezone is a valid IANA name
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Validate schedule form data for the user's organization, returning the
+// parsed schedule or an error response
+async function validateScheduleData(
+  scheduleData: unknown,
+  organizationId: string,
+  userId: string
+): Promise<{ schedule: ReportScheduleForm } | { response: Response }> {
+  const validation = safeValidateReportScheduleForm({
+    ...(scheduleData as object),
+    organizationId,
+    createdBy: userId,
+  });
+
+  if (!validation.success) {
+    return {
+      response: new Response(
+        JSON.stringify({
+          error: 'Invalid schedule data',
+          details: validation.error.errors,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      ),
+    };
+  }
+
+  if (!isValidTimezone(validation.data.timezone)) {
+    return {
+      response: new Response(
+        JSON.stringify({
+          error: `Unknown timezone: ${validation.data.timezone}`,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      ),
+    };
+  }
+
+  // The template must belong to the same organization
+  const template = await getReportTemplateById(
+    validation.data.templateId,
+    organizationId
+  );
+  if (!template) {
+    return {
+      response: new Response(JSON.stringify({ error: 'Template not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      }),
+    };
+  }
+
+  return { schedule: validation.data };
+}
+
+// GET /api/report-schedules
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const resolved = await authorize(request, 'reports:schedule');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const schedules = await getReportSchedules({
+      organizationId: resolved.organizationId,
+      templateId: url.searchParams.get('templateId') || undefined,
+      limit: Number(url.searchParams.get('limit')) || 50,
+      offset: Number(url.searchParams.get('offset')) || 0,
+    });
+
+    return new Response(JSON.stringify(schedules), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get report schedules:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to get report schedules' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// POST /api/report-schedules
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { scheduleData } = body as {
+      scheduleData: Partial<ReportScheduleForm>;
+    };
+
+    const resolved = await authorize(request, 'reports:schedule');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const validated = await validateScheduleData(
+      scheduleData,
+      resolved.organizationId,
+      resolved.userId
+    );
+    if ('response' in validated) {
+      return validated.response;
+    }
+
+    const schedule = await createReportSchedule(validated.schedule);
+
+    return new Response(JSON.stringify(schedule), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to create report schedule:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to create report schedule' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// PUT /api/report-schedules
+export async function PUT(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { id, scheduleData } = body as {
+      id: string;
+      scheduleData: Partial<ReportScheduleForm>;
+    };
+
+    if (!id) {
+      return new Response(
+        JSON.stringify({ error: 'Schedule ID is required' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const resolved = await authorize(request, 'reports:schedule');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const validated = await validateScheduleData(
+      scheduleData,
+      resolved.organizationId,
+      resolved.userId
+    );
+    if ('response' in validated) {
+      return validated.response;
+    }
+
+    const updatedSchedule = await updateReportSchedule(
+      id,
+      validated.schedule,
+      resolved.organizationId
+    );
+
+    if (!updatedSchedule) {
+      return new Response(JSON.stringify({ error: 'Schedule not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify(updatedSchedule), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to update report schedule:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update report schedule' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// DELETE /api/report-schedules
+export async function DELETE(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+
+    if (!id) {
+      return new Response(
+        JSON.stringify({ error: 'Schedule ID is required' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const resolved = await authorize(request, 'reports:schedule');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const success = await deleteReportSchedule(id, resolved.organizationId);
+
+    if (!success) {
+      return new Response(JSON.stringify({ error: 'Schedule not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to delete report schedule:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to delete report schedule' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// POST /api/report-schedules/run - generate and send a schedule's report now
+// without changing its next scheduled run
+export async function run(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { id } = body as { id: string };
+
+    if (!id) {
+      return new Response(
+        JSON.stringify({ error: 'Schedule ID is required' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const resolved = await authorize(request, 'reports:schedule');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const schedule = await getReportScheduleById(id, resolved.organizationId);
+    if (!schedule) {
+      return new Response(JSON.stringify({ error: 'Schedule not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Covers the period the schedule was last due for
+    const report = await runReportSchedule(schedule);
+    const updatedSchedule = await getReportScheduleById(
+      id,
+      resolved.organizationId
+    );
+
+    return new Response(
+      JSON.stringify({ report, schedule: updatedSchedule ?? schedule }),
+      {
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Failed to run report schedule:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to run report schedule' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
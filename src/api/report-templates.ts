@@ -1,5 +1,4 @@
-import { requireAuth } from '../lib/access-control';
-import { clerk } from '../lib/api/clerk-client';
+import { authorize } from '../lib/access-control';
 import {
   createReportTemplate,
   deleteReportTemplate,
@@ -7,71 +6,24 @@ import {
   updateReportTemplate,
   type ReportTemplatesQuery,
 } from '../lib/db/report-templates';
-import { type ReportTemplateForm, type ReportType } from '../lib/schema';
-
-// Helper function to get user's organization ID
-async function getUserOrganizationId(userId: string): Promise<string | null> {
-  try {
-    const memberships = await clerk.users.getOrganizationMembershipList({
-      userId,
-    });
-
-    if (memberships.data.length === 0) {
-      return null;
-    }
-
-    return memberships.data[0].organization.id;
-  } catch (error) {
-    console.error('Error fetching user organization:', error);
-    return null;
-  }
-}
-
-// Helper function to check if user is admin
-async function checkAdminRole(
-  userId: string,
-  organizationId: string
-): Promise<boolean> {
-  try {
-    const memberships = await clerk.users.getOrganizationMembershipList({
-      userId,
-    });
-
-    const membership = memberships.data.find(
-      m => m.organization.id === organizationId
-    );
-
-    return membership?.role === 'org:admin';
-  } catch (error) {
-    console.error('Error checking admin role:', error);
-    return false;
-  }
-}
+import { DEFAULT_REPORT_SORT } from '../lib/reports/grouping';
+import {
+  ReportAggregateType,
+  ReportFormat,
+  ReportGroupBy,
+  type ReportTemplateForm,
+  type ReportType,
+} from '../lib/schema';
 
 // GET /api/report-templates
 export async function GET(request: Request): Promise<Response> {
   try {
     const url = new URL(request.url);
-    const userId = url.searchParams.get('userId');
-
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-
-    // Get user's organization
-    const organizationId = await getUserOrganizationId(userId);
-    if (!organizationId) {
-      return new Response(
-        JSON.stringify({ error: 'User not in organization' }),
-        {
-          status: 403,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
+    const resolved = await authorize(request);
+    if ('response' in resolved) {
+      return resolved.response;
     }
+    const { organizationId } = resolved;
 
     // Parse query parameters
     const query: ReportTemplatesQuery = {
@@ -106,47 +58,27 @@ export async function GET(request: Request): Promise<Response> {
 export async function POST(request: Request): Promise<Response> {
   try {
     const body = await request.json();
-    const { templateData, userId } = body as {
+    const { templateData } = body as {
       templateData: ReportTemplateForm;
-      userId: string;
     };
 
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-
-    // Validate auth
-    requireAuth(userId);
-
-    // Get user's organization
-    const organizationId = await getUserOrganizationId(userId);
-    if (!organizationId) {
-      return new Response(
-        JSON.stringify({ error: 'User not in organization' }),
-        {
-          status: 403,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
-    }
-
-    // Check if user is admin (only admins can create templates)
-    const isAdmin = await checkAdminRole(userId, organizationId);
-    if (!isAdmin) {
-      return new Response(JSON.stringify({ error: 'Admin access required' }), {
-        status: 403,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    const resolved = await authorize(request, 'templates:edit');
+    if ('response' in resolved) {
+      return resolved.response;
     }
+    const { organizationId } = resolved;
 
     // Ensure the template data has the correct organization and creator
     const completeTemplateData: ReportTemplateForm = {
       ...templateData,
+      defaultFormat: templateData.defaultFormat || ReportFormat.csv,
+      footerAggregates: templateData.footerAggregates || [
+        ReportAggregateType.sumPrice,
+      ],
+      groupBy: templateData.groupBy || ReportGroupBy.none,
+      sort: templateData.sort || DEFAULT_REPORT_SORT,
       organizationId,
-      createdBy: userId,
+      createdBy: resolved.userId,
     };
 
     const template = await createReportTemplate(completeTemplateData);
@@ -171,15 +103,14 @@ export async function POST(request: Request): Promise<Response> {
 export async function PUT(request: Request): Promise<Response> {
   try {
     const body = await request.json();
-    const { id, templateData, userId } = body as {
+    const { id, templateData } = body as {
       id: string;
       templateData: ReportTemplateForm;
-      userId: string;
     };
 
-    if (!userId || !id) {
+    if (!id) {
       return new Response(
-        JSON.stringify({ error: 'User ID and template ID are required' }),
+        JSON.stringify({ error: 'Template ID is required' }),
         {
           status: 400,
           headers: { 'Content-Type': 'application/json' },
@@ -187,35 +118,23 @@ export async function PUT(request: Request): Promise<Response> {
       );
     }
 
-    // Validate auth
-    requireAuth(userId);
-
-    // Get user's organization
-    const organizationId = await getUserOrganizationId(userId);
-    if (!organizationId) {
-      return new Response(
-        JSON.stringify({ error: 'User not in organization' }),
-        {
-          status: 403,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
-    }
-
-    // Check if user is admin (only admins can update templates)
-    const isAdmin = await checkAdminRole(userId, organizationId);
-    if (!isAdmin) {
-      return new Response(JSON.stringify({ error: 'Admin access required' }), {
-        status: 403,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    const resolved = await authorize(request, 'templates:edit');
+    if ('response' in resolved) {
+      return resolved.response;
     }
+    const { organizationId } = resolved;
 
     // Ensure the template data has the correct organization and creator
     const completeTemplateData: ReportTemplateForm = {
       ...templateData,
+      defaultFormat: templateData.defaultFormat || ReportFormat.csv,
+      footerAggregates: templateData.footerAggregates || [
+        ReportAggregateType.sumPrice,
+      ],
+      groupBy: templateData.groupBy || ReportGroupBy.none,
+      sort: templateData.sort || DEFAULT_REPORT_SORT,
       organizationId,
-      createdBy: userId,
+      createdBy: resolved.userId,
     };
 
     const updatedTemplate = await updateReportTemplate(
@@ -251,11 +170,10 @@ export async function DELETE(request: Request): Promise<Response> {
   try {
     const url = new URL(request.url);
     const id = url.searchParams.get('id');
-    const userId = url.searchParams.get('userId');
 
-    if (!id || !userId) {
+    if (!id) {
       return new Response(
-        JSON.stringify({ error: 'Template ID and User ID are required' }),
+        JSON.stringify({ error: 'Template ID is required' }),
         {
           status: 400,
           headers: { 'Content-Type': 'application/json' },
@@ -263,29 +181,11 @@ export async function DELETE(request: Request): Promise<Response> {
       );
     }
 
-    // Validate auth
-    requireAuth(userId);
-
-    // Get user's organization
-    const organizationId = await getUserOrganizationId(userId);
-    if (!organizationId) {
-      return new Response(
-        JSON.stringify({ error: 'User not in organization' }),
-        {
-          status: 403,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
-    }
-
-    // Check if user is admin (only admins can delete templates)
-    const isAdmin = await checkAdminRole(userId, organizationId);
-    if (!isAdmin) {
-      return new Response(JSON.stringify({ error: 'Admin access required' }), {
-        status: 403,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    const resolved = await authorize(request, 'templates:edit');
+    if ('response' in resolved) {
+      return resolved.response;
     }
+    const { organizationId } = resolved;
 
     const success = await deleteReportTemplate(id, organizationId);
 
@@ -0,0 +1,272 @@
+import { authorize } from '../lib/access-control';
+import { getReportTemplateById } from '../lib/db/report-templates';
+import {
+  deleteReport,
+  getReportById,
+  getReports,
+  type ReportsQuery,
+} from '../lib/db/reports';
+import { REPORT_FORMATS } from '../lib/reports/formats';
+import { deleteReportFile, readReportFile } from '../lib/reports/storage';
+import { type Report, ReportFormat } from '../lib/schema';
+import {
+  getReportOrganizationContext,
+  startReportGeneration,
+} from '../lib/services/report-service';
+
+// Parse a date parameter, returning null when missing or invalid
+function parseDateParam(value: unknown): Date | null {
+  if (typeof value !== 'string' || value.length === 0) {
+    return null;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Build a filesystem-safe download filename for a report
+function getReportFilename(report: Report): string {
+  const baseName = report.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${baseName || 'report'}.${REPORT_FORMATS[report.format].extension}`;
+}
+
+// GET /api/reports
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const resolved = await authorize(request, 'reports:read');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const statusParam = url.searchParams.get('status');
+    const query: ReportsQuery = {
+      organizationId: resolved.organizationId,
+      templateId: url.searchParams.get('templateId') || undefined,
+      status: statusParam
+        ? (statusParam.split(',') as Report['status'][])
+        : undefined,
+      limit: Number(url.searchParams.get('limit')) || 50,
+      offset: Number(url.searchParams.get('offset')) || 0,
+    };
+
+    const reports = await getReports(query);
+
+    return new Response(JSON.stringify(reports), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get reports:', error);
+    return new Response(JSON.stringify({ error: 'Failed to get reports' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// POST /api/reports - Start generating a report from a template and date range
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { templateId, startDate, endDate, name, format } = body as {
+      templateId: string;
+      startDate: string;
+      endDate: string;
+      name?: string;
+      format?: ReportFormat;
+    };
+
+    const resolved = await authorize(request, 'reports:generate');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const start = parseDateParam(startDate);
+    const end = parseDateParam(endDate);
+
+    if (!templateId || !start || !end) {
+      return new Response(
+        JSON.stringify({
+          error: 'Template ID, start date and end date are required',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (end < start) {
+      return new Response(
+        JSON.stringify({ error: 'End date must be after start date' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (format !== undefined && !Object.values(ReportFormat).includes(format)) {
+      return new Response(
+        JSON.stringify({ error: `Unsupported report format: ${format}` }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const template = await getReportTemplateById(
+      templateId,
+      resolved.organizationId
+    );
+    if (!template) {
+      return new Response(JSON.stringify({ error: 'Template not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { organizationName, driverNames } =
+      await getReportOrganizationContext(resolved.organizationId);
+
+    const report = await startReportGeneration({
+      name,
+      organizationId: resolved.organizationId,
+      organizationName,
+      createdBy: resolved.userId,
+      template,
+      format,
+      startDate: start,
+      endDate: end,
+      driverNames,
+    });
+
+    return new Response(JSON.stringify(report), {
+      status: 202,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to generate report:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to generate report' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// DELETE /api/reports
+export async function DELETE(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+
+    const resolved = await authorize(request, 'reports:delete');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    if (!id) {
+      return new Response(JSON.stringify({ error: 'Report ID is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Look up the report first so its file can be removed in the right format
+    const report = await getReportById(id, resolved.organizationId);
+    const success =
+      !!report && (await deleteReport(id, resolved.organizationId));
+
+    if (!report || !success) {
+      return new Response(JSON.stringify({ error: 'Report not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await deleteReportFile(id, REPORT_FORMATS[report.format].extension);
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to delete report:', error);
+    return new Response(JSON.stringify({ error: 'Failed to delete report' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// GET /api/reports/download - Download a previously generated report file
+export async function download(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+
+    const resolved = await authorize(request, 'reports:read');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    if (!id) {
+      return new Response(JSON.stringify({ error: 'Report ID is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const report = await getReportById(id, resolved.organizationId);
+    if (!report) {
+      return new Response(JSON.stringify({ error: 'Report not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (report.status !== 'completed') {
+      return new Response(
+        JSON.stringify({ error: `Report is ${report.status}` }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const formatInfo = REPORT_FORMATS[report.format];
+    const content = await readReportFile(report.id, formatInfo.extension);
+    if (!content) {
+      return new Response(
+        JSON.stringify({ error: 'Report file is no longer available' }),
+        {
+          status: 410,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    return new Response(content, {
+      headers: {
+        'Content-Type': formatInfo.contentType,
+        'Content-Disposition': `attachment; filename="${getReportFilename(report)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to download report:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to download report' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { checkRunAccess, createErrorResponse } from '../lib/access-control';
+import {
+  getRunPassengers,
+  replaceRunPassengers,
+} from '../lib/db/run-passengers';
+import { getRunById } from '../lib/db/runs';
+import { getVehicleById } from '../lib/db/vehicles';
+import { RunPassengerListSchema } from '../lib/schema';
+import {
+  getManifestPassengerCount,
+  VehicleCapacityError,
+} from '../lib/vehicles';
+
+function badRequest(error: string, details?: unknown): Response {
+  return new Response(JSON.stringify({ error, details }), {
+    status: 400,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// GET /api/run-passengers?runId= - A run's passenger manifest
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const runId = url.searchParams.get('runId');
+
+    if (!runId) {
+      return badRequest('Run ID is required');
+    }
+
+    try {
+      await checkRunAccess(runId, request, 'runs:view');
+    } catch (error) {
+      return createErrorResponse(
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+
+    const passengers = await getRunPassengers(runId);
+
+    return new Response(JSON.stringify(passengers), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get run passengers:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to get run passengers' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// PUT /api/run-passengers - Replace a run's passenger manifest
+export async function PUT(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { runId, passengers } = body as {
+      runId?: string;
+      passengers?: unknown;
+    };
+
+    if (!runId) {
+      return badRequest('Run ID is required');
+    }
+
+    try {
+      await checkRunAccess(runId, request);
+    } catch (error) {
+      return createErrorResponse(
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+
+    const validation = RunPassengerListSchema.safeParse(passengers);
+    if (!validation.success) {
+      return badRequest('Invalid passengers', validation.error.errors);
+    }
+
+    // The new manifest still has to fit in the run's vehicle
+    const run = await getRunById(runId);
+    const vehicle = run?.vehicleId ? await getVehicleById(run.vehicleId) : null;
+    const passengerCount = getManifestPassengerCount(validation.data);
+    if (vehicle && passengerCount > vehicle.capacity) {
+      return new Response(
+        JSON.stringify({
+          error: new VehicleCapacityError(vehicle, passengerCount).message,
+          type: 'vehicle_capacity',
+          capacity: vehicle.capacity,
+          passengerCount,
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const saved = await replaceRunPassengers(runId, validation.data);
+
+    return new Response(JSON.stringify(saved), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to update run passengers:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update run passengers' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import { getRequestAuth } from '../lib/api/session-auth';
+import { getRunSeriesById } from '../lib/db/run-series';
+import {
+  DATE_REGEX,
+  NewRunFormSchema,
+  safeValidateRunSeriesForm,
+} from '../lib/schema';
+import {
+  createRunSeriesWithRuns,
+  endRunSeries,
+  updateFutureOccurrences,
+} from '../lib/services/run-series-service';
+
+function badRequest(error: string, details?: unknown): Response {
+  return new Response(JSON.stringify({ error, details }), {
+    status: 400,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function seriesNotFound(): Response {
+  return new Response(JSON.stringify({ error: 'Run series not found' }), {
+    status: 404,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// GET /api/run-series?id= - One of the user's run series
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const { userId } = getRequestAuth(request);
+    const id = url.searchParams.get('id');
+
+    if (!id) {
+      return badRequest('Run series ID is required');
+    }
+
+    const series = await getRunSeriesById(id, userId);
+    if (!series) {
+      return seriesNotFound();
+    }
+
+    return new Response(JSON.stringify(series), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get run series:', error);
+    return new Response(JSON.stringify({ error: 'Failed to get run series' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// POST /api/run-series - Create a recurring run series and its first runs
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { seriesData } = body as {
+      seriesData: unknown;
+    };
+
+    const { userId } = getRequestAuth(request);
+
+    const validation = safeValidateRunSeriesForm(seriesData);
+    if (!validation.success) {
+      return badRequest('Invalid run series', validation.error.errors);
+    }
+
+    const result = await createRunSeriesWithRuns(validation.data, userId);
+
+    return new Response(JSON.stringify(result), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to create run series:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to create run series' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// PUT /api/run-series - Apply an edited run to an occurrence and every
+// later one in its series
+export async function PUT(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { id, fromOccurrence, runData } = body as {
+      id?: string;
+      fromOccurrence?: string;
+      runData?: unknown;
+    };
+
+    const { userId } = getRequestAuth(request);
+
+    if (!id) {
+      return badRequest('Run series ID is required');
+    }
+
+    if (!fromOccurrence || !DATE_REGEX.test(fromOccurrence)) {
+      return badRequest('A valid occurrence date is required');
+    }
+
+    const validation = NewRunFormSchema.safeParse(runData);
+    if (!validation.success) {
+      return badRequest('Invalid run data', validation.error.errors);
+    }
+
+    const result = await updateFutureOccurrences(
+      id,
+      fromOccurrence,
+      validation.data,
+      userId
+    );
+    if (!result) {
+      return seriesNotFound();
+    }
+
+    return new Response(JSON.stringify(result), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to update run series:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update run series' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// DELETE /api/run-series?id=&from= - End a series before an occurrence date,
+// cancelling its scheduled runs from that date on
+export async function DELETE(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const { userId } = getRequestAuth(request);
+    const id = url.searchParams.get('id');
+    const fromOccurrence = url.searchParams.get('from');
+
+    if (!id) {
+      return badRequest('Run series ID is required');
+    }
+
+    if (!fromOccurrence || !DATE_REGEX.test(fromOccurrence)) {
+      return badRequest('A valid occurrence date is required');
+    }
+
+    const result = await endRunSeries(id, fromOccurrence, userId);
+    if (!result) {
+      return seriesNotFound();
+    }
+
+    return new Response(JSON.stringify(result), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to end run series:', error);
+    return new Response(JSON.stringify({ error: 'Failed to end run series' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
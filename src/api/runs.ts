@@ -1,100 +1,169 @@
 import {
-  checkRunOwnership,
+  checkRunAccess,
   createErrorResponse,
-  requireAuth,
+  getRequestMembership,
+  permissionDeniedResponse,
+  type RunAccess,
 } from '../lib/access-control';
 import { clerk } from '../lib/api/clerk-client';
+import { getRequestAuth } from '../lib/api/session-auth';
+import { getRunEvents } from '../lib/db/run-events';
+import {
+  getRunPassengers,
+  replaceRunPassengers,
+} from '../lib/db/run-passengers';
 import {
   createRun,
   deleteRun,
+  getRunById,
+  getRunConflictMode,
+  getRunConflicts,
   getRuns,
   updateRun,
   type RunsQuery,
 } from '../lib/db/runs';
-import { type NewRunForm, type RunStatus } from '../lib/schema';
-
-// Helper function to get all organization member user IDs for an admin
-async function getOrganizationMemberIds(
-  adminUserId: string
-): Promise<string[]> {
-  try {
-    // Get admin's organization memberships
-    const adminOrgMemberships = await clerk.users.getOrganizationMembershipList(
-      {
-        userId: adminUserId,
-      }
-    );
-
-    if (adminOrgMemberships.data.length === 0) {
-      return [];
+import { checkVehicleCapacity } from '../lib/db/vehicles';
+import { roleCan } from '../lib/permissions';
+import { RunConflictError, type RunTiming } from '../lib/run-conflicts';
+import {
+  RUN_STATUS_TRANSITIONS,
+  RunStatusTransitionError,
+} from '../lib/run-status';
+import { setRunStopCompleted } from '../lib/run-stops';
+import {
+  NewRunFormSchema,
+  RunPassengerListSchema,
+  RunStatusSchema,
+  type NewRunForm,
+  type RunEvent,
+  type RunPassenger,
+  type RunStatus,
+} from '../lib/schema';
+import { recordRunMileage } from '../lib/services/mileage-service';
+import {
+  getManifestPassengerCount,
+  VehicleCapacityError,
+} from '../lib/vehicles';
+
+// Upper bound on the runs returned for an organization
+const MAX_ORGANIZATION_RUNS = 5000;
+
+// 409 response listing the runs a save would overlap
+function runConflictResponse(error: RunConflictError): Response {
+  return new Response(
+    JSON.stringify({
+      error: error.message,
+      type: 'run_conflict',
+      conflicts: error.conflicts,
+    }),
+    {
+      status: 409,
+      headers: { 'Content-Type': 'application/json' },
     }
+  );
+}
 
-    // Get the organization (assuming single org model)
-    const orgId = adminOrgMemberships.data[0].organization.id;
-
-    // Check if admin has admin role in the organization
-    const adminRole = adminOrgMemberships.data[0].role;
-    if (adminRole !== 'org:admin') {
-      throw new Error('Access denied: Admin role required');
+// 409 response when a run's passengers don't fit in its vehicle
+function vehicleCapacityResponse(error: VehicleCapacityError): Response {
+  return new Response(
+    JSON.stringify({
+      error: error.message,
+      type: 'vehicle_capacity',
+      capacity: error.vehicle.capacity,
+      passengerCount: error.passengerCount,
+    }),
+    {
+      status: 409,
+      headers: { 'Content-Type': 'application/json' },
     }
+  );
+}
 
-    // Get all organization members
-    const orgMemberships =
-      await clerk.organizations.getOrganizationMembershipList({
-        organizationId: orgId,
-      });
+// Check a run's vehicle is in the user's organization and seats everyone on
+// its manifest, returning an error response if not
+async function checkRunVehicle(
+  vehicleId: string,
+  request: Request,
+  passengers: RunPassenger[]
+): Promise<Response | null> {
+  const membership = await getRequestMembership(request);
+  const vehicle =
+    membership &&
+    (await checkVehicleCapacity(
+      vehicleId,
+      membership.organizationId,
+      getManifestPassengerCount(passengers)
+    ));
+
+  if (!vehicle) {
+    return new Response(JSON.stringify({ error: 'Vehicle not found' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
 
-    // Return all member user IDs
-    return orgMemberships.data.map(
-      (membership: any) => membership.publicUserData.userId
-    );
-  } catch (error) {
-    console.error('Error fetching organization members:', error);
-    throw error;
+  return null;
+}
+
+// Helper function to get the run ID from a /api/runs/:id or
+// /api/runs/:id/events path
+function getRunIdFromPath(request: Request): string | undefined {
+  const params = (request as any).params as { id?: string } | undefined;
+  if (params?.id) {
+    return params.id;
   }
+
+  const segments = new URL(request.url).pathname.split('/');
+  return segments[3] || undefined;
 }
 
-// GET /api/runs/organization - Admin-only endpoint to get runs for all org members
-export async function getOrganizationRuns(request: Request): Promise<Response> {
-  try {
-    const url = new URL(request.url);
-    const adminUserId = url.searchParams.get('userId');
+// Helper function to add display names for the users who made run changes
+async function withActorNames(events: RunEvent[]): Promise<RunEvent[]> {
+  const actorIds = Array.from(new Set(events.map(event => event.actorId)));
+  const actorNames: Record<string, string> = {};
+
+  await Promise.all(
+    actorIds.map(async actorId => {
+      try {
+        const user = await clerk.users.getUser(actorId);
+        const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+        actorNames[actorId] =
+          name || user.emailAddresses[0]?.emailAddress || actorId;
+      } catch (error) {
+        console.error('Error fetching run event actor:', error);
+      }
+    })
+  );
 
-    if (!adminUserId) {
-      return new Response(
-        JSON.stringify({ error: 'Admin user ID is required' }),
-        {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  return events.map(event => ({
+    ...event,
+    actorName: actorNames[event.actorId],
+  }));
+}
 
-    // Get all organization member user IDs (includes admin check)
-    const memberUserIds = await getOrganizationMemberIds(adminUserId);
+// GET /api/runs/organization - Runs in the user's organization: every
+// member's for roles that can view runs, only their own for drivers
+export async function getOrganizationRuns(request: Request): Promise<Response> {
+  try {
+    const { userId } = getRequestAuth(request);
+    const membership = await getRequestMembership(request);
 
-    if (memberUserIds.length === 0) {
+    if (!membership) {
       return new Response(JSON.stringify([]), {
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    // Fetch runs for all organization members
-    const allRuns = await Promise.all(
-      memberUserIds.map(userId => getRuns({ userId }))
-    );
-
-    // Flatten the results
-    const flattenedRuns = allRuns.flat();
-
-    // Sort by scheduled time (most recent first)
-    flattenedRuns.sort(
-      (a, b) =>
-        new Date(b.scheduledTime).getTime() -
-        new Date(a.scheduledTime).getTime()
-    );
+    // Most recent first
+    const runs = await getRuns({
+      organizationId: membership.organizationId,
+      userId: roleCan(membership.role, 'runs:view') ? undefined : userId,
+      orderBy: 'scheduled_time',
+      orderDirection: 'DESC',
+      limit: MAX_ORGANIZATION_RUNS,
+    });
 
-    return new Response(JSON.stringify(flattenedRuns), {
+    return new Response(JSON.stringify(runs), {
       headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
@@ -112,14 +181,7 @@ export async function getOrganizationRuns(request: Request): Promise<Response> {
 export async function GET(request: Request): Promise<Response> {
   try {
     const url = new URL(request.url);
-    const userId = url.searchParams.get('userId');
-
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+    const { userId } = getRequestAuth(request);
 
     const statusParam = url.searchParams.get('status');
     const status = statusParam
@@ -169,26 +231,82 @@ export async function GET(request: Request): Promise<Response> {
 export async function POST(request: Request): Promise<Response> {
   try {
     const body = await request.json();
-    const { runData, userId } = body as {
+    const { runData } = body as {
       runData: NewRunForm;
-      userId: string;
     };
 
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    const { userId } = getRequestAuth(request);
+
+    // New runs start scheduled; later statuses are reached through the
+    // transitions in RUN_STATUS_TRANSITIONS, which stamp their timestamps
+    const requestedStatus = (runData as { status?: unknown } | undefined)
+      ?.status;
+    if (requestedStatus !== undefined && requestedStatus !== 'scheduled') {
+      return new Response(
+        JSON.stringify({
+          error: 'New runs must be created as scheduled',
+          type: 'invalid_transition',
+          to: requestedStatus,
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Check the manifest up front so a bad passenger doesn't leave the run
+    // saved without it
+    if (runData?.passengers !== undefined) {
+      const passengersValidation = RunPassengerListSchema.safeParse(
+        runData.passengers
+      );
+      if (!passengersValidation.success) {
+        return new Response(
+          JSON.stringify({
+            error: 'Invalid passengers',
+            details: passengersValidation.error.errors,
+          }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      runData.passengers = passengersValidation.data;
+    }
+
+    if (runData?.vehicleId) {
+      const vehicleResponse = await checkRunVehicle(
+        runData.vehicleId,
+        request,
+        runData.passengers ?? []
+      );
+      if (vehicleResponse) {
+        return vehicleResponse;
+      }
     }
 
-    // For creation, we don't need access control validation since the user is creating their own resource
-    const run = await createRun(runData, userId);
+    // For creation, we don't need access control validation since the user
+    // is creating their own resource in their organization
+    const membership = await getRequestMembership(request);
+    const run = await createRun(runData, userId, {
+      organizationId: membership?.organizationId,
+    });
 
     return new Response(JSON.stringify(run), {
       status: 201,
       headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
+    if (error instanceof RunConflictError) {
+      return runConflictResponse(error);
+    }
+
+    if (error instanceof VehicleCapacityError) {
+      return vehicleCapacityResponse(error);
+    }
+
     console.error('Failed to create run:', error);
     return new Response(JSON.stringify({ error: 'Failed to create run' }), {
       status: 500,
@@ -197,23 +315,25 @@ export async function POST(request: Request): Promise<Response> {
   }
 }
 
-// PUT /api/runs
+// PUT /api/runs and /api/runs/:id
 export async function PUT(request: Request): Promise<Response> {
   try {
     const body = await request.json();
-    const { action, id, status, userId } = body as {
-      action: string;
-      id: string;
-      status: any;
-      userId: string;
-    };
-
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+    const { action, status, override, stopIndex, completed, runData } =
+      body as {
+        action?: string;
+        id?: string;
+        status: any;
+        // Roles that can manage runs can skip the status transition rules
+        override?: boolean;
+        // Stop to mark done or open again with update_stop
+        stopIndex?: number;
+        completed?: boolean;
+        runData?: NewRunForm;
+      };
+    const id = body.id || getRunIdFromPath(request);
+
+    const { userId } = getRequestAuth(request);
 
     if (!id) {
       return new Response(JSON.stringify({ error: 'Run ID is required' }), {
@@ -222,10 +342,12 @@ export async function PUT(request: Request): Promise<Response> {
       });
     }
 
-    // Validate that the user owns this run before allowing updates
+    // Drivers can only update their own runs; roles that can manage runs any
+    // run in their organization. Changes are made as the run's owner and recorded as the
+    // user's.
+    let access: RunAccess;
     try {
-      const authUserId = requireAuth(userId);
-      await checkRunOwnership(id, authUserId);
+      access = await checkRunAccess(id, request);
     } catch (error) {
       return createErrorResponse(
         error instanceof Error ? error : new Error(String(error))
@@ -233,18 +355,163 @@ export async function PUT(request: Request): Promise<Response> {
     }
 
     if (action === 'update_status') {
-      // For status updates, we need to update the run with the new status
-      const updateData: any = { status };
+      const statusValidation = RunStatusSchema.safeParse(status);
+      if (!statusValidation.success) {
+        return new Response(
+          JSON.stringify({
+            error: 'Invalid run status',
+            details: statusValidation.error.errors,
+          }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      if (override) {
+        const membership = await getRequestMembership(request);
+        if (!membership || !roleCan(membership.role, 'runs:manage')) {
+          return permissionDeniedResponse('runs:manage');
+        }
+      }
+
+      // activatedAt and completedAt are set by updateRun
+      try {
+        const updatedRun = await updateRun(
+          id,
+          { status: statusValidation.data },
+          access.ownerId,
+          { overrideStatusRules: override, actorId: userId }
+        );
+        const success = updatedRun !== null;
+
+        // Measure the trip for the driver's mileage log in the background so
+        // completing a run doesn't wait on routing
+        if (updatedRun?.status === 'completed') {
+          recordRunMileage(updatedRun).catch(error => {
+            console.error('Failed to record run mileage:', error);
+          });
+        }
+
+        return new Response(JSON.stringify({ success, updatedRun }), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        if (error instanceof RunStatusTransitionError) {
+          return new Response(
+            JSON.stringify({
+              error: error.message,
+              type: 'invalid_transition',
+              from: error.from,
+              to: error.to,
+              allowed: RUN_STATUS_TRANSITIONS[error.from],
+            }),
+            {
+              status: 409,
+              headers: { 'Content-Type': 'application/json' },
+            }
+          );
+        }
+        throw error;
+      }
+    }
+
+    // Stops are ticked off while the run is being driven
+    if (action === 'update_stop') {
+      const run = await getRunById(id, access.ownerId);
+      if (!run) {
+        return new Response(JSON.stringify({ error: 'Run not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
 
-      // Set completed_at if status is completed
-      if (status === 'completed') {
-        updateData.completedAt = new Date().toISOString();
+      if (
+        typeof stopIndex !== 'number' ||
+        !Number.isInteger(stopIndex) ||
+        stopIndex < 0 ||
+        stopIndex >= run.stops.length
+      ) {
+        return new Response(JSON.stringify({ error: 'Invalid stop index' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
       }
 
-      const updatedRun = await updateRun(id, updateData, userId);
-      const success = updatedRun !== null;
+      if (run.status !== 'active') {
+        return new Response(
+          JSON.stringify({
+            error: 'Stops can only be updated while the run is active',
+          }),
+          {
+            status: 409,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const updatedRun = await updateRun(
+        id,
+        { stops: setRunStopCompleted(run.stops, stopIndex, !!completed) },
+        access.ownerId,
+        { actorId: userId }
+      );
+
+      return new Response(
+        JSON.stringify({ success: updatedRun !== null, updatedRun }),
+        {
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
 
-      return new Response(JSON.stringify({ success, updatedRun }), {
+    // Editing a run sends the full form
+    if (runData) {
+      const validation = NewRunFormSchema.safeParse(runData);
+      if (!validation.success) {
+        return new Response(
+          JSON.stringify({
+            error: 'Invalid run data',
+            details: validation.error.errors,
+          }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const { passengers, ...runFields } = validation.data;
+
+      // Without a new manifest the run keeps the passengers it has
+      if (runFields.vehicleId) {
+        const vehicleResponse = await checkRunVehicle(
+          runFields.vehicleId,
+          request,
+          passengers ?? (await getRunPassengers(id))
+        );
+        if (vehicleResponse) {
+          return vehicleResponse;
+        }
+      }
+
+      const updatedRun = await updateRun(id, runFields, access.ownerId, {
+        actorId: userId,
+      });
+      if (!updatedRun) {
+        return new Response(JSON.stringify({ error: 'Run not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      // The manifest is only replaced when the form sends one
+      if (passengers) {
+        await replaceRunPassengers(id, passengers);
+      }
+
+      return new Response(JSON.stringify(updatedRun), {
         headers: { 'Content-Type': 'application/json' },
       });
     }
@@ -254,6 +521,14 @@ export async function PUT(request: Request): Promise<Response> {
       headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
+    if (error instanceof RunConflictError) {
+      return runConflictResponse(error);
+    }
+
+    if (error instanceof VehicleCapacityError) {
+      return vehicleCapacityResponse(error);
+    }
+
     console.error('Failed to update run:', error);
     return new Response(JSON.stringify({ error: 'Failed to update run' }), {
       status: 500,
@@ -265,9 +540,7 @@ export async function PUT(request: Request): Promise<Response> {
 // DELETE /api/runs/:id
 export async function DELETE(request: Request): Promise<Response> {
   try {
-    const url = new URL(request.url);
-    const id = url.pathname.split('/').pop();
-    const userId = url.searchParams.get('userId');
+    const id = getRunIdFromPath(request);
 
     if (!id) {
       return new Response(JSON.stringify({ error: 'Missing run ID' }), {
@@ -276,33 +549,178 @@ export async function DELETE(request: Request): Promise<Response> {
       });
     }
 
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
+    const { userId } = getRequestAuth(request);
+
+    // Drivers can only delete their own runs; roles that can manage runs any
+    // run in their organization
+    let access: RunAccess;
+    try {
+      access = await checkRunAccess(id, request);
+    } catch (error) {
+      return createErrorResponse(
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+
+    const success = await deleteRun(id, access.ownerId, userId);
+
+    return new Response(JSON.stringify({ success }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to delete run:', error);
+    return new Response(JSON.stringify({ error: 'Failed to delete run' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// GET /api/runs/:id - A single run, e.g. to fill in the edit form. Drivers
+// can load their own runs, roles that can view runs any in their
+// organization.
+export async function getRun(request: Request): Promise<Response> {
+  try {
+    const id = getRunIdFromPath(request);
+
+    if (!id) {
+      return new Response(JSON.stringify({ error: 'Missing run ID' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    // Validate that the user owns this run before allowing deletion
+    let access: RunAccess;
     try {
-      const authUserId = requireAuth(userId);
-      await checkRunOwnership(id, authUserId);
+      access = await checkRunAccess(id, request, 'runs:view');
     } catch (error) {
       return createErrorResponse(
         error instanceof Error ? error : new Error(String(error))
       );
     }
 
-    const success = await deleteRun(id, userId);
+    const run = await getRunById(id, access.ownerId);
+    if (!run) {
+      return new Response(JSON.stringify({ error: 'Run not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
 
-    return new Response(JSON.stringify({ success }), {
+    return new Response(JSON.stringify(run), {
       headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
-    console.error('Failed to delete run:', error);
-    return new Response(JSON.stringify({ error: 'Failed to delete run' }), {
+    console.error('Failed to get run:', error);
+    return new Response(JSON.stringify({ error: 'Failed to get run' }), {
       status: 500,
       headers: { 'Content-Type': 'application/json' },
     });
   }
 }
+
+// GET /api/runs/:id/events - A run's change history, oldest first
+export async function getEvents(request: Request): Promise<Response> {
+  try {
+    const id = getRunIdFromPath(request);
+
+    if (!id) {
+      return new Response(JSON.stringify({ error: 'Missing run ID' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      await checkRunAccess(id, request, 'runs:view');
+    } catch (error) {
+      return createErrorResponse(
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+
+    const events = await withActorNames(await getRunEvents(id));
+
+    return new Response(JSON.stringify(events), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get run events:', error);
+    return new Response(JSON.stringify({ error: 'Failed to get run events' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// POST /api/runs/conflicts - check runs for overlaps with the driver's runs
+// before saving them. Pass runId to check an edit of an existing run.
+export async function checkConflicts(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { runs, runId } = body as {
+      runs: Pick<
+        NewRunForm,
+        'flightNumber' | 'scheduledTime' | 'estimatedDuration'
+      >[];
+      runId?: string;
+    };
+
+    const { userId } = getRequestAuth(request);
+
+    if (!Array.isArray(runs) || runs.length === 0) {
+      return new Response(JSON.stringify({ error: 'Runs are required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Edits are checked against the schedule of the run's driver, who may
+    // not be the dispatcher or admin making the edit
+    let driverId = userId;
+    let candidates: RunTiming[];
+    if (runId) {
+      try {
+        driverId = (await checkRunAccess(runId, request)).ownerId;
+      } catch (error) {
+        return createErrorResponse(
+          error instanceof Error ? error : new Error(String(error))
+        );
+      }
+
+      const existingRun = await getRunById(runId, driverId);
+      if (!existingRun) {
+        return new Response(JSON.stringify({ error: 'Run not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      candidates = [{ ...existingRun, ...runs[0], id: runId }];
+    } else {
+      // New runs get placeholder IDs so a batch is checked against itself
+      candidates = runs.map((run, index) => ({
+        ...run,
+        id: `new-${index}`,
+        status: 'scheduled',
+      }));
+    }
+
+    const conflicts = await getRunConflicts(driverId, candidates);
+
+    return new Response(
+      JSON.stringify({ mode: getRunConflictMode(), conflicts }),
+      {
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Failed to check run conflicts:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to check run conflicts' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
@@ -1,4 +1,6 @@
-import { clerk } from '../lib/api/clerk-client';
+import { authorize } from '../lib/access-control';
+import { clerk, getAllOrganizationMemberships } from '../lib/api/clerk-client';
+import { getRequestAuth } from '../lib/api/session-auth';
 import { getDatabase } from '../lib/db/index';
 import { createNotification } from '../lib/db/notifications';
 import {
@@ -6,7 +8,18 @@ import {
   getReportTemplates,
 } from '../lib/db/report-templates';
 import { createRun } from '../lib/db/runs';
-import type { ReportType, RunStatus, RunType } from '../lib/schema';
+import type {
+  ComputedColumnType,
+  ReportAggregateType,
+  ReportFormat,
+  ReportGroupBy,
+  ReportSort,
+  ReportType,
+  RunLineItem,
+  RunStatus,
+  RunType,
+} from '../lib/schema';
+import { RunLineItemType } from '../lib/schema';
 
 // Initialize Clerk client for fetching organization data
 
@@ -76,6 +89,7 @@ const sampleReportTemplates = [
     name: 'Financial Run Report',
     description: 'Focused on pricing and financial tracking',
     reportType: 'run' as ReportType,
+    defaultFormat: 'xlsx' as ReportFormat,
     isDefault: false,
     columnConfig: [
       {
@@ -94,7 +108,23 @@ const sampleReportTemplates = [
         order: 5,
         required: false,
       },
+      {
+        field: 'priceWithSurcharges',
+        label: 'Price incl. Surcharges',
+        order: 6,
+        required: false,
+        computed: {
+          type: 'priceWithSurcharges' as ComputedColumnType,
+          surchargePercent: 10,
+        },
+      },
     ],
+    footerAggregates: [
+      'sumPrice' as ReportAggregateType,
+      'countByType' as ReportAggregateType,
+    ],
+    groupBy: 'billTo' as ReportGroupBy,
+    sort: { field: 'price', direction: 'desc' } as ReportSort,
   },
   {
     name: 'Flight Operations Report',
@@ -190,9 +220,28 @@ function generateFlightNumber(airlineCode: string): string {
   return `${airlineCode}${number}`;
 }
 
-function generatePrice(): string {
+function generatePriceCents(): number {
   const price = Math.floor(Math.random() * 400) + 100; // $100-$500
-  return price.toString();
+  return price * 100;
+}
+
+// About a third of runs get a tip and some an airport toll
+function generateLineItems(): RunLineItem[] {
+  const lineItems: RunLineItem[] = [];
+  if (Math.random() < 0.35) {
+    lineItems.push({
+      type: RunLineItemType.tip,
+      amountCents: (Math.floor(Math.random() * 30) + 10) * 100, // $10-$40
+    });
+  }
+  if (Math.random() < 0.15) {
+    lineItems.push({
+      type: RunLineItemType.toll,
+      description: 'Airport access fee',
+      amountCents: 450,
+    });
+  }
+  return lineItems;
 }
 
 export function generateReservationId(): string {
@@ -237,39 +286,14 @@ export function generateBillTo(): string | null {
   return randomItem(codes);
 }
 
-// Helper function to get organization ID for a user
-async function getUserOrganizationId(userId: string): Promise<string | null> {
-  try {
-    const organizationMemberships =
-      await clerk.users.getOrganizationMembershipList({
-        userId,
-      });
-
-    if (organizationMemberships.data.length === 0) {
-      return null;
-    }
-
-    return organizationMemberships.data[0].organization.id;
-  } catch (error) {
-    console.error('Error fetching user organization:', error);
-    return null;
-  }
-}
-
 // Generate sample report templates for organization
-async function generateReportTemplates(userId: string): Promise<number> {
+async function generateReportTemplates(
+  userId: string,
+  organizationId: string
+): Promise<number> {
   console.log('📋 Generating sample report templates...');
 
   try {
-    const organizationId = await getUserOrganizationId(userId);
-
-    if (!organizationId) {
-      console.log(
-        '⚠️ User not in organization, skipping report template generation'
-      );
-      return 0;
-    }
-
     // Clear existing report templates for this organization
     const db = getDatabase();
     await db.query('DELETE FROM report_templates WHERE organization_id = $1', [
@@ -288,6 +312,15 @@ async function generateReportTemplates(userId: string): Promise<number> {
 
         await createReportTemplate({
           ...templateData,
+          defaultFormat: templateData.defaultFormat ?? ('csv' as ReportFormat),
+          footerAggregates: templateData.footerAggregates ?? [
+            'sumPrice' as ReportAggregateType,
+          ],
+          groupBy: templateData.groupBy ?? ('none' as ReportGroupBy),
+          sort: templateData.sort ?? {
+            field: 'scheduledTime',
+            direction: 'asc',
+          },
           isDefault: isDefaultTemplate,
           organizationId,
           createdBy: userId,
@@ -321,39 +354,18 @@ async function generateReportTemplates(userId: string): Promise<number> {
 
 // Helper function to get organization drivers
 async function getOrganizationDrivers(
-  userId: string
+  userId: string,
+  organizationId: string
 ): Promise<Array<{ userId: string; name: string; email: string }>> {
   try {
-    console.log(`🔍 Fetching organization members for user: ${userId}`);
-
-    // Get user's organization memberships
-    const organizationMemberships =
-      await clerk.users.getOrganizationMembershipList({
-        userId,
-      });
-
-    if (organizationMemberships.data.length === 0) {
-      console.log('ℹ️ User is not a member of any organization');
-      return [];
-    }
-
-    // For single organization model, get the first (and only) organization
-    const userOrg = organizationMemberships.data[0];
-    const orgId = userOrg.organization.id;
-
-    console.log(
-      `✅ Found user organization: ${userOrg.organization.name} (${orgId})`
-    );
+    console.log(`🔍 Fetching members of organization: ${organizationId}`);
 
     // Get all organization members
-    const orgMemberships =
-      await clerk.organizations.getOrganizationMembershipList({
-        organizationId: orgId,
-      });
+    const orgMemberships = await getAllOrganizationMemberships(organizationId);
 
     // Get detailed user info for all members (treating all as potential drivers)
     const memberDetails = await Promise.all(
-      orgMemberships.data.map(async (membership: any) => {
+      orgMemberships.map(async (membership: any) => {
         try {
           const user = await clerk.users.getUser(
             membership.publicUserData.userId
@@ -395,7 +407,10 @@ async function getOrganizationDrivers(
   }
 }
 
-export async function seedDataForUser(userId: string): Promise<{
+export async function seedDataForUser(
+  userId: string,
+  organizationId: string
+): Promise<{
   runs: number;
   notifications: number;
   templates: number;
@@ -405,7 +420,10 @@ export async function seedDataForUser(userId: string): Promise<{
 
   try {
     // Get organization members to use as drivers
-    const organizationMembers = await getOrganizationDrivers(userId);
+    const organizationMembers = await getOrganizationDrivers(
+      userId,
+      organizationId
+    );
     const allUserIds =
       organizationMembers.length > 0
         ? [userId, ...organizationMembers.map(m => m.userId)]
@@ -440,21 +458,12 @@ export async function seedDataForUser(userId: string): Promise<{
       // Continue anyway - might be first run
     }
 
-    // Get organization ID and default report template
-    console.log(
-      '📋 Getting organization context and generating report templates...'
-    );
-    const organizationId = await getUserOrganizationId(userId);
-
-    if (!organizationId) {
-      throw new Error(
-        'User must be in an organization to create runs with report templates'
-      );
-    }
-
     // Generate sample report templates for the organization FIRST
     console.log('📋 Generating report templates before creating runs...');
-    const templatesCreated = await generateReportTemplates(userId);
+    const templatesCreated = await generateReportTemplates(
+      userId,
+      organizationId
+    );
     console.log(`✅ Created ${templatesCreated} report templates`);
 
     // Now get default report template for the organization
@@ -507,7 +516,9 @@ export async function seedDataForUser(userId: string): Promise<{
       estimatedDuration: number;
       type: RunType;
       status: RunStatus;
-      price: string;
+      priceCents: number;
+      currency: string;
+      lineItems: RunLineItem[];
       notes?: string;
       targetUserId: string;
       userName: string;
@@ -635,7 +646,9 @@ export async function seedDataForUser(userId: string): Promise<{
           estimatedDuration: Math.floor(Math.random() * 60) + 30, // 30-90 minutes
           type: runType,
           status,
-          price: generatePrice(),
+          priceCents: generatePriceCents(),
+          currency: 'USD',
+          lineItems: generateLineItems(),
           notes,
         };
 
@@ -645,8 +658,11 @@ export async function seedDataForUser(userId: string): Promise<{
 
     // Create runs in database
     for (const runData of allRuns) {
-      const { targetUserId, userName, ...runCreateData } = runData;
-      const run = await createRun(runCreateData, targetUserId);
+      const { targetUserId, userName, status, ...runCreateData } = runData;
+      const run = await createRun(runCreateData, targetUserId, {
+        organizationId,
+        status,
+      });
       console.log(
         `✅ Created run: ${run.flightNumber} (${run.status}) for ${userName}`
       );
@@ -774,18 +790,17 @@ export async function seedDataForUser(userId: string): Promise<{
 // POST /api/seed
 export async function POST(request: Request): Promise<Response> {
   try {
-    const body = await request.json();
-    const { userId } = body as { userId?: string };
-
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    // Seeding creates runs for every member of the user's organization
+    const resolved = await authorize(request, 'organization:manage');
+    if ('response' in resolved) {
+      return resolved.response;
     }
 
     // Call the actual seed data generation function
-    const result = await seedDataForUser(userId);
+    const result = await seedDataForUser(
+      resolved.userId,
+      resolved.organizationId
+    );
 
     return new Response(JSON.stringify(result), {
       headers: { 'Content-Type': 'application/json' },
@@ -805,15 +820,8 @@ export async function POST(request: Request): Promise<Response> {
 // DELETE /api/seed/clear
 export async function DELETE(request: Request): Promise<Response> {
   try {
-    const body = await request.json();
-    const { userId } = body as { userId?: string };
-
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+    // Only the user's own data is cleared
+    const { userId } = getRequestAuth(request);
 
     const db = getDatabase();
     let deletedRuns = 0;
@@ -1,21 +1,21 @@
-import { createErrorResponse, requireAuth } from '../lib/access-control';
+import { createErrorResponse } from '../lib/access-control';
+import { getRequestAuth } from '../lib/api/session-auth';
 import { smsService } from '../lib/services/sms-service';
 
 // POST /api/sms/send
 export async function POST(request: Request): Promise<Response> {
   try {
     const body = await request.json();
-    const { phoneNumber, message, userId } = body as {
+    const { phoneNumber, message } = body as {
       phoneNumber: string;
       message: string;
-      userId: string;
     };
 
     // Validate required fields
-    if (!phoneNumber || !message || !userId) {
+    if (!phoneNumber || !message) {
       return new Response(
         JSON.stringify({
-          error: 'Phone number, message, and user ID are required',
+          error: 'Phone number and message are required',
         }),
         {
           status: 400,
@@ -25,7 +25,7 @@ export async function POST(request: Request): Promise<Response> {
     }
 
     // Require authentication
-    const authUserId = requireAuth(userId);
+    getRequestAuth(request);
 
     // Send SMS using server-side SMS service
     const result = await smsService.sendSMS({
@@ -68,15 +68,14 @@ export async function POST(request: Request): Promise<Response> {
 export async function validate(request: Request): Promise<Response> {
   try {
     const body = await request.json();
-    const { phoneNumber, userId } = body as {
+    const { phoneNumber } = body as {
       phoneNumber: string;
-      userId: string;
     };
 
-    if (!phoneNumber || !userId) {
+    if (!phoneNumber) {
       return new Response(
         JSON.stringify({
-          error: 'Phone number and user ID are required',
+          error: 'Phone number is required',
         }),
         {
           status: 400,
@@ -86,7 +85,7 @@ export async function validate(request: Request): Promise<Response> {
     }
 
     // Require authentication
-    requireAuth(userId);
+    getRequestAuth(request);
 
     // Validate phone number using server-side SMS service
     const validation = smsService.validatePhoneNumber(phoneNumber);
@@ -105,18 +104,8 @@ export async function validate(request: Request): Promise<Response> {
 // GET /api/sms/status
 export async function GET(request: Request): Promise<Response> {
   try {
-    const url = new URL(request.url);
-    const userId = url.searchParams.get('userId');
-
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-
     // Require authentication
-    requireAuth(userId);
+    getRequestAuth(request);
 
     // Get SMS service status
     const status = smsService.getStatus();
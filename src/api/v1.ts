@@ -0,0 +1,126 @@
+import { getRequestAuth } from '../lib/api/session-auth';
+import { type ApiTokenScope } from '../lib/schema';
+import * as reportTemplatesApi from './report-templates';
+import * as reportsApi from './reports';
+import * as runsApi from './runs';
+
+/**
+ * Versioned public API (/api/v1), for other systems calling with an
+ * organization API token. Each route hands off to the same handler the app
+ * uses, so requests and responses match the unversioned routes; this layer
+ * only checks the token's scopes. Keep these paths and shapes stable, and add
+ * a /api/v2 rather than change them.
+ */
+
+type ApiHandler = (request: Request) => Promise<Response>;
+
+interface V1Route {
+  // Path with :param segments, e.g. /api/v1/runs/:id
+  path: string;
+  // Scope family: GET needs <resource>:read, other methods <resource>:write
+  resource: 'runs' | 'reports' | 'templates';
+  methods: Partial<Record<string, ApiHandler>>;
+}
+
+const V1_ROUTES: V1Route[] = [
+  {
+    path: '/api/v1/runs',
+    resource: 'runs',
+    methods: { GET: runsApi.getOrganizationRuns, POST: runsApi.POST },
+  },
+  {
+    path: '/api/v1/runs/:id',
+    resource: 'runs',
+    methods: { PUT: runsApi.PUT, DELETE: runsApi.DELETE },
+  },
+  {
+    path: '/api/v1/runs/:id/events',
+    resource: 'runs',
+    methods: { GET: runsApi.getEvents },
+  },
+  {
+    path: '/api/v1/reports',
+    resource: 'reports',
+    methods: {
+      GET: reportsApi.GET,
+      POST: reportsApi.POST,
+      DELETE: reportsApi.DELETE,
+    },
+  },
+  {
+    path: '/api/v1/reports/download',
+    resource: 'reports',
+    methods: { GET: reportsApi.download },
+  },
+  {
+    path: '/api/v1/report-templates',
+    resource: 'templates',
+    methods: {
+      GET: reportTemplatesApi.GET,
+      POST: reportTemplatesApi.POST,
+      PUT: reportTemplatesApi.PUT,
+      DELETE: reportTemplatesApi.DELETE,
+    },
+  },
+];
+
+// Match a path against a route's, returning its :param values
+function matchPath(
+  routePath: string,
+  pathname: string
+): Record<string, string> | null {
+  const routeSegments = routePath.split('/');
+  const segments = pathname.replace(/\/+$/, '').split('/');
+  if (routeSegments.length !== segments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < routeSegments.length; i++) {
+    if (routeSegments[i].startsWith(':')) {
+      params[routeSegments[i].slice(1)] = decodeURIComponent(segments[i]);
+    } else if (routeSegments[i] !== segments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// Route an authenticated /api/v1 request to its handler
+export async function handleV1Request(request: Request): Promise<Response> {
+  const { pathname } = new URL(request.url);
+
+  for (let i = 0; i < V1_ROUTES.length; i++) {
+    const route = V1_ROUTES[i];
+    const params = matchPath(route.path, pathname);
+    if (!params) {
+      continue;
+    }
+
+    const handler = route.methods[request.method];
+    if (!handler) {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    // Clerk sessions aren't scoped; API tokens only do what they were given
+    const { apiToken } = getRequestAuth(request);
+    const scope: ApiTokenScope = `${route.resource}:${
+      request.method === 'GET' ? 'read' : 'write'
+    }`;
+    if (apiToken && !apiToken.scopes.includes(scope)) {
+      return jsonResponse({ error: `API token scope required: ${scope}` }, 403);
+    }
+
+    (request as any).params = params;
+    return handler(request);
+  }
+
+  return jsonResponse({ error: 'Not found' }, 404);
+}
@@ -0,0 +1,217 @@
+import { authorize } from '../lib/access-control';
+import {
+  createVehicle,
+  deleteVehicle,
+  getVehicleByPlate,
+  getVehicles,
+  updateVehicle,
+} from '../lib/db/vehicles';
+import { safeValidateVehicleForm, type VehicleForm } from '../lib/schema';
+
+// Validate vehicle form data for the user's organization, returning the
+// parsed vehicle or an error response. Plates must be unique within the
+// organization.
+async function validateVehicleData(
+  vehicleData: unknown,
+  organizationId: string,
+  vehicleId?: string
+): Promise<{ vehicle: VehicleForm } | { response: Response }> {
+  const validation = safeValidateVehicleForm({
+    ...(vehicleData as object),
+    organizationId,
+  });
+
+  if (!validation.success) {
+    return {
+      response: new Response(
+        JSON.stringify({
+          error: 'Invalid vehicle data',
+          details: validation.error.errors,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      ),
+    };
+  }
+
+  const existing = await getVehicleByPlate(
+    validation.data.plate,
+    organizationId
+  );
+  if (existing && existing.id !== vehicleId) {
+    return {
+      response: new Response(
+        JSON.stringify({
+          error: `Plate ${validation.data.plate} is already used by ${existing.name}`,
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      ),
+    };
+  }
+
+  return { vehicle: validation.data };
+}
+
+// GET /api/vehicles
+// Any member can list the fleet to assign vehicles to their runs
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const resolved = await authorize(request);
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const isActive = url.searchParams.get('isActive');
+    const vehicles = await getVehicles({
+      organizationId: resolved.organizationId,
+      isActive: isActive === null ? undefined : isActive === 'true',
+    });
+
+    return new Response(JSON.stringify(vehicles), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to get vehicles:', error);
+    return new Response(JSON.stringify({ error: 'Failed to get vehicles' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// POST /api/vehicles
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { vehicleData } = body as {
+      vehicleData: Partial<VehicleForm>;
+    };
+
+    const resolved = await authorize(request, 'vehicles:edit');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const validated = await validateVehicleData(
+      vehicleData,
+      resolved.organizationId
+    );
+    if ('response' in validated) {
+      return validated.response;
+    }
+
+    const vehicle = await createVehicle(validated.vehicle);
+
+    return new Response(JSON.stringify(vehicle), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to create vehicle:', error);
+    return new Response(JSON.stringify({ error: 'Failed to create vehicle' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// PUT /api/vehicles
+export async function PUT(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const { id, vehicleData } = body as {
+      id: string;
+      vehicleData: Partial<VehicleForm>;
+    };
+
+    if (!id) {
+      return new Response(JSON.stringify({ error: 'Vehicle ID is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const resolved = await authorize(request, 'vehicles:edit');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const validated = await validateVehicleData(
+      vehicleData,
+      resolved.organizationId,
+      id
+    );
+    if ('response' in validated) {
+      return validated.response;
+    }
+
+    const updatedVehicle = await updateVehicle(
+      id,
+      validated.vehicle,
+      resolved.organizationId
+    );
+
+    if (!updatedVehicle) {
+      return new Response(JSON.stringify({ error: 'Vehicle not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify(updatedVehicle), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to update vehicle:', error);
+    return new Response(JSON.stringify({ error: 'Failed to update vehicle' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// DELETE /api/vehicles
+// Runs the vehicle was assigned to are kept, without a vehicle
+export async function DELETE(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const id = url.searchParams.get('id');
+
+    if (!id) {
+      return new Response(JSON.stringify({ error: 'Vehicle ID is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const resolved = await authorize(request, 'vehicles:edit');
+    if ('response' in resolved) {
+      return resolved.response;
+    }
+
+    const success = await deleteVehicle(id, resolved.organizationId);
+
+    if (!success) {
+      return new Response(JSON.stringify({ error: 'Vehicle not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Failed to delete vehicle:', error);
+    return new Response(JSON.stringify({ error: 'Failed to delete vehicle' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
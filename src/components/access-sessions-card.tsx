@@ -0,0 +1,105 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { KeyRound, LogOut } from 'lucide-react';
+import { accessSessionsApi } from '../lib/api/client';
+import { toasts } from '../lib/toast';
+import { Button } from './ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from './ui/card';
+
+// Browsers that got past the access password, with a way to sign each out.
+// Revoked browsers see the password screen on their next visit. Only platform
+// admins can list sessions, so the card hides itself for everyone else.
+export function AccessSessionsCard() {
+  const queryClient = useQueryClient();
+
+  const {
+    data: sessions = [],
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['access-sessions'],
+    queryFn: () => accessSessionsApi.getSessions(),
+    retry: false,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => accessSessionsApi.revokeSession(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['access-sessions'] });
+      toasts.success('Session revoked');
+    },
+    onError: error => {
+      console.error('Failed to revoke session:', error);
+      toasts.error('Failed to revoke session', error.message);
+    },
+  });
+
+  if (error) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6 sm:mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <KeyRound className="h-5 w-5" />
+          Access Sessions
+        </CardTitle>
+        <CardDescription>
+          Browsers signed in with the access password
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">
+            Loading sessions...
+          </div>
+        ) : sessions.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            No active sessions
+          </div>
+        ) : (
+          <div className="divide-y">
+            {sessions.map(session => (
+              <div
+                key={session.id}
+                className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="min-w-0 space-y-1 text-sm">
+                  <div className="font-medium">
+                    {session.ipAddress || 'Unknown address'}
+                  </div>
+                  <div className="truncate text-muted-foreground">
+                    {session.userAgent || 'Unknown browser'}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Signed in {new Date(session.createdAt).toLocaleString()}
+                    {' · '}Last seen{' '}
+                    {new Date(session.lastSeenAt).toLocaleString()}
+                    {' · '}Expires{' '}
+                    {new Date(session.expiresAt).toLocaleString()}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="shrink-0"
+                  disabled={revokeMutation.isPending}
+                  onClick={() => revokeMutation.mutate(session.id)}
+                >
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,231 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from '@tanstack/react-router';
+import { BookOpen, Copy, KeySquare, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { apiTokensApi } from '../lib/api/client';
+import {
+  ApiTokenFormSchema,
+  ApiTokenScopeSchema,
+  type ApiTokenScope,
+} from '../lib/schema';
+import { toasts } from '../lib/toast';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'runs:read': 'Read runs',
+  'runs:write': 'Create and edit runs',
+  'reports:read': 'Read and download reports',
+  'reports:write': 'Generate and delete reports',
+  'templates:read': 'Read report templates',
+  'templates:write': 'Edit report templates',
+};
+
+// Tokens other systems use to call the /api/v1 API as the member who created
+// them, limited to the scopes chosen. A new token is shown once, right after
+// it's created.
+export function ApiTokensCard() {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['runs:write']);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery({
+    queryKey: ['api-tokens'],
+    queryFn: () => apiTokensApi.getTokens(),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => {
+      const validation = ApiTokenFormSchema.safeParse({ name, scopes });
+      if (!validation.success) {
+        throw new Error(
+          validation.error.errors[0]?.message || 'Check the token details'
+        );
+      }
+      return apiTokensApi.createToken(validation.data);
+    },
+    onSuccess: ({ token }) => {
+      queryClient.invalidateQueries({ queryKey: ['api-tokens'] });
+      setCreatedToken(token);
+      setName('');
+      toasts.success('API token created');
+    },
+    onError: error => {
+      console.error('Failed to create API token:', error);
+      toasts.error('Failed to create API token', error.message);
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => apiTokensApi.revokeToken(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-tokens'] });
+      toasts.success('API token revoked');
+    },
+    onError: error => {
+      console.error('Failed to revoke API token:', error);
+      toasts.error('Failed to revoke API token', error.message);
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) =>
+    setScopes(current =>
+      checked
+        ? [...current, scope]
+        : current.filter(existing => existing !== scope)
+    );
+
+  const copyToken = async () => {
+    if (!createdToken) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      toasts.success('Token copied');
+    } catch (error) {
+      console.error('Failed to copy API token:', error);
+      toasts.error('Failed to copy token', 'Select it and copy it instead.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <KeySquare className="h-5 w-5" />
+          API Tokens
+        </CardTitle>
+        <CardDescription>
+          Let other systems call the /api/v1 API as you, e.g. a booking system
+          pushing runs
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {createdToken && (
+          <div className="space-y-2 rounded-md border border-amber-300 bg-amber-50 p-3 dark:bg-amber-950/30">
+            <div className="text-sm font-medium">
+              Copy this token now. It won't be shown again.
+            </div>
+            <div className="flex items-center gap-2">
+              <Input readOnly value={createdToken} className="font-mono" />
+              <Button variant="outline" size="sm" onClick={copyToken}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setCreatedToken(null)}
+            >
+              Done
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="apiTokenName">Name</Label>
+            <Input
+              id="apiTokenName"
+              placeholder="Booking system"
+              value={name}
+              onChange={event => setName(event.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+            {ApiTokenScopeSchema.options.map(scope => (
+              <label
+                key={scope}
+                className="flex items-center gap-2 cursor-pointer text-sm"
+              >
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={event => toggleScope(scope, event.target.checked)}
+                  className="rounded"
+                />
+                {API_TOKEN_SCOPE_LABELS[scope]}
+              </label>
+            ))}
+          </div>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={
+              !name.trim() || scopes.length === 0 || createMutation.isPending
+            }
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Create Token
+          </Button>
+          <Button asChild variant="ghost" className="ml-2">
+            <Link to="/api-docs">
+              <BookOpen className="h-4 w-4 mr-2" />
+              API Reference
+            </Link>
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading tokens...</div>
+        ) : tokens.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No API tokens</div>
+        ) : (
+          <div className="divide-y">
+            {tokens.map(token => (
+              <div
+                key={token.id}
+                className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="min-w-0 space-y-1 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{token.name}</span>
+                    <span className="font-mono text-xs text-muted-foreground">
+                      {token.tokenPrefix}…
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {token.scopes.map(scope => (
+                      <Badge key={scope} variant="secondary">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Created{' '}
+                    {token.createdAt
+                      ? new Date(token.createdAt).toLocaleDateString()
+                      : '—'}
+                    {' · '}
+                    {token.lastUsedAt
+                      ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}`
+                      : 'Never used'}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="shrink-0"
+                  disabled={revokeMutation.isPending}
+                  onClick={() => revokeMutation.mutate(token.id)}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,538 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { addDays, format, max, min, parseISO, startOfWeek } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import {
+  CalendarClock,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  X,
+} from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { driverAvailabilityApi } from '../lib/api/client';
+import {
+  type AvailabilityWindow,
+  describeShift,
+  DRIVER_AVAILABILITY_KIND_LABELS,
+  getAvailabilityWindows,
+  WEEKDAY_LABELS,
+} from '../lib/driver-availability';
+import { useTimezone } from '../lib/hooks/use-timezone';
+import {
+  type DriverAvailabilityBlockForm,
+  type DriverAvailabilityKind,
+  DriverAvailabilityKindSchema,
+} from '../lib/schema';
+import { toasts } from '../lib/toast';
+import { Button } from './ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from './ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+const BLOCK_KIND_CLASSES: Record<DriverAvailabilityKind, string> = {
+  shift: 'bg-green-100 text-green-900 dark:bg-green-950/40 dark:text-green-200',
+  dayOff: 'bg-red-100 text-red-900 dark:bg-red-950/40 dark:text-red-200',
+  blackout:
+    'bg-amber-100 text-amber-900 dark:bg-amber-950/40 dark:text-amber-200',
+};
+
+// Form state for the availability dialog; dates and times are kept as the
+// inputs' text values
+interface AvailabilityFormState {
+  kind: DriverAvailabilityKind;
+  weekday: string;
+  startTime: string;
+  endTime: string;
+  date: string;
+  startsAt: string;
+  endsAt: string;
+  note: string;
+}
+
+// Midnight starting a calendar date (yyyy-MM-dd) in a timezone
+function startOfDateInTimezone(date: string, timezone: string): Date {
+  return fromZonedTime(`${date}T00:00:00`, timezone);
+}
+
+// Convert dialog form state to the API's block fields. Days off run from
+// midnight to midnight and blackouts are entered in the calendar's timezone.
+function toAvailabilityBlockData(
+  form: AvailabilityFormState,
+  driverId: string,
+  timezone: string
+): Omit<DriverAvailabilityBlockForm, 'organizationId' | 'createdBy'> {
+  const base = {
+    driverId,
+    kind: form.kind,
+    timezone,
+    note: form.note.trim() || undefined,
+  };
+
+  switch (form.kind) {
+    case 'shift':
+      return {
+        ...base,
+        weekday: Number(form.weekday),
+        startTime: form.startTime,
+        endTime: form.endTime,
+      };
+    case 'dayOff':
+      return {
+        ...base,
+        startsAt: startOfDateInTimezone(form.date, timezone),
+        endsAt: startOfDateInTimezone(
+          format(addDays(parseISO(form.date), 1), 'yyyy-MM-dd'),
+          timezone
+        ),
+      };
+    case 'blackout':
+      return {
+        ...base,
+        startsAt: fromZonedTime(`${form.startsAt}:00`, timezone),
+        endsAt: fromZonedTime(`${form.endsAt}:00`, timezone),
+      };
+  }
+}
+
+function isAvailabilityFormComplete(form: AvailabilityFormState): boolean {
+  switch (form.kind) {
+    case 'shift':
+      return (
+        !!form.startTime && !!form.endTime && form.startTime !== form.endTime
+      );
+    case 'dayOff':
+      return !!form.date;
+    case 'blackout':
+      return !!form.startsAt && !!form.endsAt && form.endsAt > form.startsAt;
+  }
+}
+
+// Dialog for adding a shift, day off or blackout
+function AvailabilityBlockDialog({
+  open,
+  onOpenChange,
+  driverId,
+  timezone,
+  defaultDate,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  driverId: string;
+  timezone: string;
+  defaultDate: string;
+}) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<AvailabilityFormState>({
+    kind: 'shift',
+    weekday: String(parseISO(defaultDate).getDay()),
+    startTime: '08:00',
+    endTime: '16:00',
+    date: defaultDate,
+    startsAt: `${defaultDate}T12:00`,
+    endsAt: `${defaultDate}T13:00`,
+    note: '',
+  });
+
+  const createBlockMutation = useMutation({
+    mutationFn: () =>
+      driverAvailabilityApi.createBlock(
+        toAvailabilityBlockData(form, driverId, timezone)
+      ),
+    onSuccess: block => {
+      queryClient.invalidateQueries({ queryKey: ['driver-availability'] });
+      queryClient.invalidateQueries({
+        queryKey: ['driver-availability-blocks'],
+      });
+      queryClient.invalidateQueries({ queryKey: ['driver-recommendations'] });
+      toasts.success(
+        `${DRIVER_AVAILABILITY_KIND_LABELS[block.kind]} added`,
+        block.kind === 'shift' ? `Every ${describeShift(block)}` : undefined
+      );
+      onOpenChange(false);
+    },
+    onError: error => {
+      console.error('Failed to add availability:', error);
+      toasts.error('Failed to add availability', error.message);
+    },
+  });
+
+  const updateForm = (changes: Partial<AvailabilityFormState>) =>
+    setForm(prev => ({ ...prev, ...changes }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Availability</DialogTitle>
+          <DialogDescription>
+            Shifts repeat every week. Times are in {timezone}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="availabilityKind">Type</Label>
+            <Select
+              value={form.kind}
+              onValueChange={value =>
+                updateForm({ kind: value as DriverAvailabilityKind })
+              }
+            >
+              <SelectTrigger id="availabilityKind" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DriverAvailabilityKindSchema.options.map(kind => (
+                  <SelectItem key={kind} value={kind}>
+                    {DRIVER_AVAILABILITY_KIND_LABELS[kind]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {form.kind === 'shift' && (
+            <div className="grid gap-2 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="shiftWeekday">Day</Label>
+                <Select
+                  value={form.weekday}
+                  onValueChange={weekday => updateForm({ weekday })}
+                >
+                  <SelectTrigger id="shiftWeekday" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAY_LABELS.map((label, weekday) => (
+                      <SelectItem key={label} value={String(weekday)}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shiftStart">Starts</Label>
+                <Input
+                  id="shiftStart"
+                  type="time"
+                  value={form.startTime}
+                  onChange={event =>
+                    updateForm({ startTime: event.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shiftEnd">Ends</Label>
+                <Input
+                  id="shiftEnd"
+                  type="time"
+                  value={form.endTime}
+                  onChange={event =>
+                    updateForm({ endTime: event.target.value })
+                  }
+                />
+              </div>
+            </div>
+          )}
+
+          {form.kind === 'dayOff' && (
+            <div className="space-y-2">
+              <Label htmlFor="dayOffDate">Date</Label>
+              <Input
+                id="dayOffDate"
+                type="date"
+                value={form.date}
+                onChange={event => updateForm({ date: event.target.value })}
+              />
+            </div>
+          )}
+
+          {form.kind === 'blackout' && (
+            <div className="grid gap-2 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="blackoutStart">From</Label>
+                <Input
+                  id="blackoutStart"
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={event =>
+                    updateForm({ startsAt: event.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="blackoutEnd">Until</Label>
+                <Input
+                  id="blackoutEnd"
+                  type="datetime-local"
+                  value={form.endsAt}
+                  onChange={event => updateForm({ endsAt: event.target.value })}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="availabilityNote">Note</Label>
+            <Input
+              id="availabilityNote"
+              value={form.note}
+              onChange={event => updateForm({ note: event.target.value })}
+              maxLength={200}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createBlockMutation.mutate()}
+            disabled={
+              !isAvailabilityFormComplete(form) || createBlockMutation.isPending
+            }
+          >
+            Add
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * A week of a driver's declared shifts, days off and blackout windows, shown
+ * in the viewer's timezone. Removing a shift removes it from every week.
+ * Read-only unless canEdit, for viewers who can't schedule other drivers.
+ */
+export function DriverAvailabilityCalendar({
+  driverId,
+  description,
+  canEdit = true,
+}: {
+  driverId: string;
+  description: string;
+  canEdit?: boolean;
+}) {
+  const queryClient = useQueryClient();
+  const timezone = useTimezone();
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  // Calendar dates (yyyy-MM-dd) of the week shown, Sunday first
+  const weekDates = useMemo(() => {
+    const today = parseISO(
+      formatInTimeZone(new Date(), timezone, 'yyyy-MM-dd')
+    );
+    const weekStart = addDays(startOfWeek(today), weekOffset * 7);
+    return Array.from({ length: 7 }, (_, index) =>
+      format(addDays(weekStart, index), 'yyyy-MM-dd')
+    );
+  }, [timezone, weekOffset]);
+
+  const from = startOfDateInTimezone(weekDates[0], timezone);
+  const to = startOfDateInTimezone(
+    format(addDays(parseISO(weekDates[6]), 1), 'yyyy-MM-dd'),
+    timezone
+  );
+
+  const { data: blocks = [], isLoading } = useQuery({
+    queryKey: ['driver-availability-blocks', driverId, from.toISOString()],
+    queryFn: () => driverAvailabilityApi.getBlocks(driverId, { from, to }),
+  });
+
+  const deleteBlockMutation = useMutation({
+    mutationFn: (id: string) => driverAvailabilityApi.deleteBlock(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['driver-availability'] });
+      queryClient.invalidateQueries({
+        queryKey: ['driver-availability-blocks'],
+      });
+      queryClient.invalidateQueries({ queryKey: ['driver-recommendations'] });
+      toasts.success('Availability removed');
+    },
+    onError: error => {
+      console.error('Failed to remove availability:', error);
+      toasts.error('Failed to remove availability', error.message);
+    },
+  });
+
+  const windows = getAvailabilityWindows(blocks, from, to);
+
+  // The part of each window falling on a day
+  const getDayWindows = (date: string): AvailabilityWindow[] => {
+    const dayStart = startOfDateInTimezone(date, timezone);
+    const dayEnd = startOfDateInTimezone(
+      format(addDays(parseISO(date), 1), 'yyyy-MM-dd'),
+      timezone
+    );
+
+    return windows
+      .filter(window => window.start < dayEnd && window.end > dayStart)
+      .map(window => ({
+        ...window,
+        start: max([window.start, dayStart]),
+        end: min([window.end, dayEnd]),
+      }));
+  };
+
+  const describeDayWindow = (window: AvailabilityWindow) => {
+    const times = `${formatInTimeZone(window.start, timezone, 'HH:mm')}-${formatInTimeZone(window.end, timezone, 'HH:mm')}`;
+    return window.block.kind === 'dayOff'
+      ? DRIVER_AVAILABILITY_KIND_LABELS.dayOff
+      : window.block.kind === 'blackout'
+        ? `${DRIVER_AVAILABILITY_KIND_LABELS.blackout} ${times}`
+        : times;
+  };
+
+  const today = formatInTimeZone(new Date(), timezone, 'yyyy-MM-dd');
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-4 w-4" />
+              Availability
+            </CardTitle>
+            <CardDescription>{description}</CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={() => setDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            onClick={() => setWeekOffset(offset => offset - 1)}
+            aria-label="Previous week"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <button
+            type="button"
+            className="text-sm font-medium"
+            onClick={() => setWeekOffset(0)}
+          >
+            {format(parseISO(weekDates[0]), 'MMM d')} -{' '}
+            {format(parseISO(weekDates[6]), 'MMM d, yyyy')}
+          </button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            onClick={() => setWeekOffset(offset => offset + 1)}
+            aria-label="Next week"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">
+            Loading availability...
+          </p>
+        ) : (
+          <div className="grid gap-2 sm:grid-cols-7">
+            {weekDates.map(date => {
+              const dayWindows = getDayWindows(date);
+              return (
+                <div
+                  key={date}
+                  className={`rounded-lg border p-2 space-y-1 min-h-24 ${date === today ? 'border-primary' : ''}`}
+                >
+                  <p className="text-xs font-medium text-muted-foreground">
+                    {format(parseISO(date), 'EEE d')}
+                  </p>
+                  {dayWindows.length === 0 && (
+                    <p className="text-xs text-muted-foreground">-</p>
+                  )}
+                  {dayWindows.map(window => (
+                    <div
+                      key={`${window.block.id}-${window.start.toISOString()}`}
+                      className={`flex items-start justify-between gap-1 rounded px-1.5 py-1 text-xs ${BLOCK_KIND_CLASSES[window.block.kind]}`}
+                      title={window.block.note}
+                    >
+                      <span className="min-w-0 break-words">
+                        {describeDayWindow(window)}
+                        {window.block.note && (
+                          <span className="block opacity-75 truncate">
+                            {window.block.note}
+                          </span>
+                        )}
+                      </span>
+                      {canEdit && (
+                        <button
+                          type="button"
+                          className="shrink-0 opacity-60 hover:opacity-100"
+                          onClick={() =>
+                            deleteBlockMutation.mutate(window.block.id)
+                          }
+                          disabled={deleteBlockMutation.isPending}
+                          aria-label={
+                            window.block.kind === 'shift'
+                              ? 'Remove weekly shift'
+                              : 'Remove time off'
+                          }
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Times shown in {timezone}. Drivers without shifts are treated as
+          available any time they aren't off.
+        </p>
+      </CardContent>
+
+      {dialogOpen && (
+        <AvailabilityBlockDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          driverId={driverId}
+          timezone={timezone}
+          defaultDate={weekOffset === 0 ? today : weekDates[0]}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+import { AlertTriangle } from 'lucide-react';
+import { useTimezoneFormatters } from '../lib/hooks/use-timezone';
+import { type RunConflict, type RunConflictMode } from '../lib/run-conflicts';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+// A run about to be saved and the driver's runs it overlaps
+export interface PendingRunConflicts {
+  label: string;
+  conflicts: RunConflict[];
+}
+
+// Lists the runs a save would overlap before it goes ahead. When the server
+// blocks overlapping runs the save can't be confirmed.
+export function RunConflictsDialog({
+  pending,
+  mode,
+  isSaving,
+  onConfirm,
+  onOpenChange,
+}: {
+  pending: PendingRunConflicts[];
+  mode: RunConflictMode;
+  isSaving: boolean;
+  onConfirm: () => void;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { formatScheduleTime } = useTimezoneFormatters();
+  const blocked = mode === 'block';
+
+  return (
+    <Dialog open={pending.length > 0} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-yellow-500" />
+            Overlapping Runs
+          </DialogTitle>
+          <DialogDescription>
+            {blocked
+              ? 'Runs for the same driver cannot overlap. Change the time or duration to save.'
+              : 'The driver already has runs during this time. You can still save.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {pending.map(({ label, conflicts }) => (
+            <div key={label} className="space-y-1 text-sm">
+              <p className="font-medium">{label} overlaps</p>
+              {conflicts.map(conflict => (
+                <div
+                  key={conflict.runId}
+                  className="flex items-center justify-between gap-2 p-2 bg-muted rounded-lg"
+                >
+                  <span className="font-mono">{conflict.flightNumber}</span>
+                  <span className="text-muted-foreground text-xs">
+                    {formatScheduleTime(conflict.scheduledTime)} •{' '}
+                    {conflict.estimatedDuration} min • {conflict.status}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>
+            {blocked ? 'Go Back' : 'Cancel'}
+          </Button>
+          {!blocked && (
+            <Button onClick={onConfirm} disabled={isSaving}>
+              Save Anyway
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
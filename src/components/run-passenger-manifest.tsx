@@ -0,0 +1,243 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Briefcase, Pencil, Phone, Plus, Users, X } from 'lucide-react';
+import { useState } from 'react';
+import { runPassengersApi } from '../lib/api/client';
+import {
+  MAX_RUN_PASSENGERS,
+  type RunPassenger,
+  RunPassengerListSchema,
+} from '../lib/schema';
+import { toasts } from '../lib/toast';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+
+const EMPTY_PASSENGER: RunPassenger = {
+  name: '',
+  phone: '',
+  count: 1,
+  luggage: 0,
+  specialNeeds: '',
+};
+
+// A run's passenger manifest with totals, editable in place. The whole list
+// is saved at once, replacing the passengers the run had.
+export function RunPassengerManifest({ runId }: { runId: string }) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<RunPassenger[] | null>(null);
+
+  const { data: passengers = [], isLoading } = useQuery({
+    queryKey: ['run-passengers', runId],
+    queryFn: () => runPassengersApi.getPassengers(runId),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (updated: RunPassenger[]) =>
+      runPassengersApi.updatePassengers(runId, updated),
+    onSuccess: saved => {
+      queryClient.setQueryData(['run-passengers', runId], saved);
+      setDraft(null);
+      toasts.success('Passengers saved');
+    },
+    onError: error => {
+      console.error('Failed to save passengers:', error);
+      toasts.error('Failed to save passengers', error.message);
+    },
+  });
+
+  const save = () => {
+    const validation = RunPassengerListSchema.safeParse(draft);
+    if (!validation.success) {
+      toasts.error(
+        'Check the passengers',
+        validation.error.errors[0]?.message || 'Some details are invalid.'
+      );
+      return;
+    }
+    saveMutation.mutate(validation.data);
+  };
+
+  const updateDraft = (index: number, changes: Partial<RunPassenger>) =>
+    setDraft(current =>
+      (current ?? []).map((passenger, other) =>
+        other === index ? { ...passenger, ...changes } : passenger
+      )
+    );
+
+  if (isLoading) {
+    return (
+      <div className="text-sm text-muted-foreground">Loading passengers...</div>
+    );
+  }
+
+  if (draft) {
+    return (
+      <div className="space-y-3">
+        {draft.map((passenger, index) => (
+          <div key={index} className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Name"
+                value={passenger.name}
+                onChange={event =>
+                  updateDraft(index, { name: event.target.value })
+                }
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() =>
+                  setDraft(draft.filter((_, other) => other !== index))
+                }
+                aria-label="Remove passenger"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-[1fr_4.5rem_4.5rem] gap-2">
+              <Input
+                type="tel"
+                placeholder="Phone"
+                value={passenger.phone ?? ''}
+                onChange={event =>
+                  updateDraft(index, { phone: event.target.value })
+                }
+              />
+              <Input
+                type="number"
+                min={1}
+                max={60}
+                aria-label="Passengers in party"
+                title="Passengers in party"
+                value={passenger.count}
+                onChange={event =>
+                  updateDraft(index, { count: event.target.valueAsNumber })
+                }
+              />
+              <Input
+                type="number"
+                min={0}
+                max={99}
+                aria-label="Bags"
+                title="Bags"
+                value={passenger.luggage}
+                onChange={event =>
+                  updateDraft(index, { luggage: event.target.valueAsNumber })
+                }
+              />
+            </div>
+            <Input
+              placeholder="Special needs (optional)"
+              value={passenger.specialNeeds ?? ''}
+              onChange={event =>
+                updateDraft(index, { specialNeeds: event.target.value })
+              }
+            />
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={draft.length >= MAX_RUN_PASSENGERS}
+            onClick={() => setDraft([...draft, { ...EMPTY_PASSENGER }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Passenger
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            onClick={save}
+            disabled={saveMutation.isPending}
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setDraft(null)}
+            disabled={saveMutation.isPending}
+          >
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const totalPassengers = passengers.reduce(
+    (total, passenger) => total + passenger.count,
+    0
+  );
+  const totalLuggage = passengers.reduce(
+    (total, passenger) => total + passenger.luggage,
+    0
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center gap-4 text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Users className="h-4 w-4" />
+            {totalPassengers} passengers
+          </span>
+          <span className="flex items-center gap-1">
+            <Briefcase className="h-4 w-4" />
+            {totalLuggage} bags
+          </span>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setDraft(passengers)}
+        >
+          <Pencil className="h-4 w-4 mr-1" />
+          Edit
+        </Button>
+      </div>
+
+      {passengers.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No passengers on the manifest yet.
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {passengers.map(passenger => (
+            <li key={passenger.id} className="space-y-1 p-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{passenger.name}</span>
+                <span className="text-sm text-muted-foreground">
+                  {passenger.count} pax · {passenger.luggage} bags
+                </span>
+              </div>
+              {passenger.phone && (
+                <a
+                  href={`tel:${passenger.phone}`}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                >
+                  <Phone className="h-3 w-3" />
+                  {passenger.phone}
+                </a>
+              )}
+              {passenger.specialNeeds && (
+                <Badge
+                  variant="outline"
+                  className="bg-yellow-50 text-yellow-800 border-yellow-200"
+                >
+                  {passenger.specialNeeds}
+                </Badge>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { Repeat } from 'lucide-react';
+import {
+  describeRecurrenceRule,
+  WEEKDAY_LABELS,
+  WEEKDAYS,
+} from '../lib/run-series';
+import { type RunRecurrenceRule, RunSeriesFrequency } from '../lib/schema';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Toggle } from './ui/toggle';
+
+export type RunRepeatPreset = 'none' | 'daily' | 'weekdays' | 'weekly';
+
+export type RunRepeatEnd = 'never' | 'until' | 'count';
+
+// How a new run repeats, as picked on the form
+export interface RunRepeatSettings {
+  preset: RunRepeatPreset;
+  // Days picked for weekly runs, 0 = Sunday
+  byWeekday: number[];
+  end: RunRepeatEnd;
+  until: string;
+  count: number;
+}
+
+export const DEFAULT_RUN_REPEAT_SETTINGS: RunRepeatSettings = {
+  preset: 'none',
+  byWeekday: [],
+  end: 'never',
+  until: '',
+  count: 10,
+};
+
+const REPEAT_PRESET_LABELS: Record<RunRepeatPreset, string> = {
+  none: 'Does not repeat',
+  daily: 'Daily',
+  weekdays: 'Every weekday (Mon-Fri)',
+  weekly: 'Weekly on...',
+};
+
+const REPEAT_END_LABELS: Record<RunRepeatEnd, string> = {
+  never: 'Never',
+  until: 'On date',
+  count: 'After a number of runs',
+};
+
+// The recurrence rule for the settings, or null for a one-off run
+export function getRepeatRule(
+  settings: RunRepeatSettings
+): RunRecurrenceRule | null {
+  if (settings.preset === 'none') {
+    return null;
+  }
+
+  return {
+    frequency:
+      settings.preset === 'daily'
+        ? RunSeriesFrequency.daily
+        : RunSeriesFrequency.weekly,
+    interval: 1,
+    byWeekday:
+      settings.preset === 'weekdays'
+        ? WEEKDAYS
+        : settings.preset === 'weekly'
+          ? settings.byWeekday
+          : [],
+    until: settings.end === 'until' && settings.until ? settings.until : null,
+    count: settings.end === 'count' ? settings.count : null,
+  };
+}
+
+// Repeat options for a new run: how often, on which days and when to stop.
+// The day the run is scheduled on is picked when switching to weekly.
+export function RunRecurrenceFields({
+  value,
+  onChange,
+  scheduledDate,
+}: {
+  value: RunRepeatSettings;
+  onChange: (value: RunRepeatSettings) => void;
+  // 'YYYY-MM-DD' the run is first scheduled on, if picked yet
+  scheduledDate?: string;
+}) {
+  const rule = getRepeatRule(value);
+  const update = (changes: Partial<RunRepeatSettings>) =>
+    onChange({ ...value, ...changes });
+
+  const selectPreset = (preset: RunRepeatPreset) => {
+    const byWeekday =
+      preset === 'weekly' && value.byWeekday.length === 0 && scheduledDate
+        ? [new Date(`${scheduledDate}T00:00`).getDay()]
+        : value.byWeekday;
+    update({ preset, byWeekday });
+  };
+
+  const toggleWeekday = (day: number, pressed: boolean) =>
+    update({
+      byWeekday: pressed
+        ? [...value.byWeekday, day].sort((a, b) => a - b)
+        : value.byWeekday.filter(other => other !== day),
+    });
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="space-y-2">
+        <Label className="flex items-center gap-2">
+          <Repeat className="h-4 w-4" />
+          Repeat
+        </Label>
+        <Select
+          value={value.preset}
+          onValueChange={preset => selectPreset(preset as RunRepeatPreset)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(REPEAT_PRESET_LABELS) as RunRepeatPreset[]).map(
+              preset => (
+                <SelectItem key={preset} value={preset}>
+                  {REPEAT_PRESET_LABELS[preset]}
+                </SelectItem>
+              )
+            )}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.preset === 'weekly' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <Toggle
+              key={label}
+              variant="outline"
+              size="sm"
+              pressed={value.byWeekday.includes(day)}
+              onPressedChange={pressed => toggleWeekday(day, pressed)}
+              aria-label={label}
+            >
+              {label}
+            </Toggle>
+          ))}
+        </div>
+      )}
+
+      {value.preset !== 'none' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label>Ends</Label>
+            <Select
+              value={value.end}
+              onValueChange={end => update({ end: end as RunRepeatEnd })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REPEAT_END_LABELS) as RunRepeatEnd[]).map(end => (
+                  <SelectItem key={end} value={end}>
+                    {REPEAT_END_LABELS[end]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {value.end === 'until' && (
+            <div className="space-y-2">
+              <Label htmlFor="repeatUntil">Last date</Label>
+              <Input
+                id="repeatUntil"
+                type="date"
+                min={scheduledDate}
+                value={value.until}
+                onChange={event => update({ until: event.target.value })}
+              />
+            </div>
+          )}
+          {value.end === 'count' && (
+            <div className="space-y-2">
+              <Label htmlFor="repeatCount">Runs</Label>
+              <Input
+                id="repeatCount"
+                type="number"
+                min={1}
+                max={1000}
+                value={value.count}
+                onChange={event =>
+                  update({ count: Math.max(Number(event.target.value), 1) })
+                }
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {rule && (rule.byWeekday.length > 0 || value.preset === 'daily') && (
+        <p className="text-xs text-muted-foreground">
+          {describeRecurrenceRule(rule)}. Runs are created a few weeks ahead.
+        </p>
+      )}
+    </div>
+  );
+}
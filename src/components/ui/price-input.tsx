@@ -0,0 +1,56 @@
+import * as React from 'react';
+import { formatCentsForInput, parsePriceToCents } from '../../lib/money';
+import { Input } from './input';
+
+interface PriceInputProps
+  extends Omit<React.ComponentProps<'input'>, 'value' | 'onChange'> {
+  value?: number | null;
+  onValueChange?: (cents: number) => void;
+}
+
+/**
+ * Text input for an amount of money that reports its value in integer cents.
+ * Text that is not a valid amount is reported as NaN so form validation can
+ * flag it.
+ */
+export function PriceInput({
+  value,
+  onValueChange,
+  onBlur,
+  ...props
+}: PriceInputProps) {
+  const [text, setText] = React.useState(() =>
+    value ? formatCentsForInput(value) : ''
+  );
+
+  // Follow changes made outside the input, e.g. a form reset
+  React.useEffect(() => {
+    setText(current => {
+      const currentCents = parsePriceToCents(current);
+      if (currentCents === value || (currentCents === null && !value)) {
+        return current;
+      }
+      return value ? formatCentsForInput(value) : '';
+    });
+  }, [value]);
+
+  return (
+    <Input
+      inputMode="decimal"
+      {...props}
+      value={text}
+      onChange={e => {
+        setText(e.target.value);
+        const cents = parsePriceToCents(e.target.value);
+        onValueChange?.(cents ?? NaN);
+      }}
+      onBlur={e => {
+        const cents = parsePriceToCents(text);
+        if (cents !== null) {
+          setText(formatCentsForInput(cents));
+        }
+        onBlur?.(e);
+      }}
+    />
+  );
+}
@@ -4,6 +4,7 @@ import * as organizationsApi from './api/organizations';
 import * as preferencesApi from './api/preferences';
 import * as reportTemplatesApi from './api/report-templates';
 import * as runsApi from './api/runs';
+import { authenticateRequest } from './lib/api/session-auth';
 
 // Start minimal development server - let Bun handle everything else
 async function startDevServer() {
@@ -22,6 +23,13 @@ async function startDevServer() {
             : new Response('Method not allowed', { status: 405 });
         }
 
+        // Every other route acts as the user the verified session token names
+        const authenticated = await authenticateRequest(request);
+        if ('response' in authenticated) {
+          return authenticated.response;
+        }
+        (request as any).auth = authenticated;
+
         if (url.pathname === '/api/organizations') {
           return request.method === 'GET'
             ? organizationsApi.GET(request)
@@ -1,38 +1,194 @@
+import { clerk } from './api/clerk-client';
+import { getRequestAuth } from './api/session-auth';
 import { getDatabase } from './db';
+import {
+  type Capability,
+  getOrganizationRole,
+  type OrganizationRole,
+  roleCan,
+} from './permissions';
 
 /**
  * Simple access control utilities
  *
  * Just checks:
- * 1. Is user authenticated?
- * 2. Do they own the resource they're trying to access?
+ * 1. Is user authenticated? (the verified session token the API server
+ *    attached to the request; see api/session-auth.ts)
+ * 2. Do they own the resource they're trying to access, or does their role
+ *    in the organization it belongs to grant the capability? (see
+ *    permissions.ts)
  */
 
-// Basic auth check
-export function requireAuth(userId: string | null | undefined): string {
-  if (!userId) {
-    throw new Error('Authentication required');
+export interface OrganizationMembership {
+  organizationId: string;
+  role: OrganizationRole;
+}
+
+// A member authorize() let through
+export interface AuthorizedMember extends OrganizationMembership {
+  userId: string;
+  can: (capability: Capability) => boolean;
+}
+
+// Who owns a run the user is allowed to manage
+export interface RunAccess {
+  ownerId: string;
+  organizationId: string | null;
+}
+
+// The user's organization (single organization model) and their role in it,
+// or null when they aren't in one
+export async function getUserMembership(
+  userId: string
+): Promise<OrganizationMembership | null> {
+  try {
+    const memberships = await clerk.users.getOrganizationMembershipList({
+      userId,
+    });
+
+    if (memberships.data.length === 0) {
+      return null;
+    }
+
+    return {
+      organizationId: memberships.data[0].organization.id,
+      role: getOrganizationRole(memberships.data[0].role),
+    };
+  } catch (error) {
+    console.error('Error fetching user organization:', error);
+    return null;
+  }
+}
+
+// The organization active in the request's session and the user's role in
+// it, falling back to their first membership when the token doesn't name one
+export async function getRequestMembership(
+  request: Request
+): Promise<OrganizationMembership | null> {
+  const auth = getRequestAuth(request);
+  if (auth.organizationId) {
+    return {
+      organizationId: auth.organizationId,
+      role: getOrganizationRole(auth.organizationRole),
+    };
+  }
+  return getUserMembership(auth.userId);
+}
+
+// JSON error response in the shape API handlers return
+function accessErrorResponse(error: string, status: number): Response {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// 403 response for a member whose role lacks a capability
+export function permissionDeniedResponse(capability: Capability): Response {
+  return accessErrorResponse(`Permission required: ${capability}`, 403);
+}
+
+/**
+ * Shared guard for API handlers acting within the caller's active
+ * organization. Returns the member, or an error response when the request
+ * isn't authenticated (401), they aren't in an organization (403), or their
+ * role doesn't grant the capability (403). Without a capability any member is
+ * let through, for handlers that check it per target, e.g. drivers reading
+ * their own data.
+ */
+export async function authorize(
+  request: Request,
+  capability?: Capability
+): Promise<AuthorizedMember | { response: Response }> {
+  if (!(request as any).auth) {
+    return { response: accessErrorResponse('Authentication required', 401) };
+  }
+
+  const { userId } = getRequestAuth(request);
+  const membership = await getRequestMembership(request);
+  if (!membership) {
+    return { response: accessErrorResponse('User not in organization', 403) };
   }
-  return userId;
+
+  if (capability && !roleCan(membership.role, capability)) {
+    return { response: permissionDeniedResponse(capability) };
+  }
+
+  return {
+    ...membership,
+    userId,
+    can: (check: Capability) => roleCan(membership.role, check),
+  };
+}
+
+// Whether the user runs this Teton Tracker instance (PLATFORM_ADMIN_USER_IDS,
+// comma separated Clerk user IDs), for things no single organization owns
+export function isPlatformAdmin(userId: string): boolean {
+  return (process.env.PLATFORM_ADMIN_USER_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+    .includes(userId);
+}
+
+// Guard for instance-wide API handlers: returns the platform admin, or a 401
+// or 403 response
+export function authorizePlatformAdmin(
+  request: Request
+): { userId: string } | { response: Response } {
+  if (!(request as any).auth) {
+    return { response: accessErrorResponse('Authentication required', 401) };
+  }
+
+  const { userId } = getRequestAuth(request);
+  if (!isPlatformAdmin(userId)) {
+    return {
+      response: accessErrorResponse('Platform admin access required', 403),
+    };
+  }
+
+  return { userId };
 }
 
-// Check if user owns a run
-export async function checkRunOwnership(
+// Check the caller can act on a run: drivers only their own runs, other roles
+// any run in their active organization when granted the capability
+export async function checkRunAccess(
   runId: string,
-  userId: string
-): Promise<void> {
+  request: Request,
+  capability: Capability = 'runs:manage'
+): Promise<RunAccess> {
+  const { userId } = getRequestAuth(request);
   const db = getDatabase();
-  const result = await db.query('SELECT user_id FROM runs WHERE id = $1', [
-    runId,
-  ]);
+  const result = await db.query(
+    'SELECT user_id, organization_id FROM runs WHERE id = $1',
+    [runId]
+  );
 
   if (result.rows.length === 0) {
     throw new Error('Run not found');
   }
 
-  if (result.rows[0].user_id !== userId) {
+  const access: RunAccess = {
+    ownerId: result.rows[0].user_id,
+    organizationId: result.rows[0].organization_id,
+  };
+
+  if (access.ownerId === userId) {
+    return access;
+  }
+
+  const membership = access.organizationId
+    ? await getRequestMembership(request)
+    : null;
+  if (
+    !membership ||
+    !roleCan(membership.role, capability) ||
+    membership.organizationId !== access.organizationId
+  ) {
     throw new Error('Access denied');
   }
+
+  return access;
 }
 
 // Check if user owns a notification
@@ -55,16 +211,6 @@ export async function checkNotificationOwnership(
   }
 }
 
-// For preferences, just check if the user is trying to update their own preferences
-export function checkPreferencesOwnership(
-  targetUserId: string,
-  currentUserId: string
-): void {
-  if (targetUserId !== currentUserId) {
-    throw new Error('Access denied - can only update your own preferences');
-  }
-}
-
 // Helper to create error responses
 export function createErrorResponse(
   error: Error,
@@ -0,0 +1,64 @@
+import { API_TOKEN_PREFIX, touchApiToken } from '../db/api-tokens';
+import { clerk } from './clerk-client';
+import {
+  authenticateRequest,
+  type RequestAuth,
+  unauthorizedResponse,
+} from './session-auth';
+
+/**
+ * Authentication for the /api/v1 surface: accepts an organization API token
+ * as well as a Clerk session token. A token acts as the member who created
+ * it, with their current role in its organization, so it stops working when
+ * they leave and never grants more than they have; the v1 routes further
+ * limit it to its scopes.
+ */
+export async function authenticateApiRequest(
+  request: Request
+): Promise<RequestAuth | { response: Response }> {
+  const authorization = request.headers.get('Authorization') || '';
+  const token = authorization.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length).trim()
+    : '';
+
+  if (!token.startsWith(API_TOKEN_PREFIX)) {
+    return authenticateRequest(request);
+  }
+
+  try {
+    const apiToken = await touchApiToken(token);
+    if (!apiToken) {
+      return { response: unauthorizedResponse('Invalid or revoked API token') };
+    }
+
+    // Ask the token's organization about its creator rather than listing
+    // their memberships, which come back a page at a time
+    const memberships = await clerk.organizations.getOrganizationMembershipList(
+      {
+        organizationId: apiToken.organizationId,
+        userId: [apiToken.createdBy],
+      }
+    );
+    const membership = memberships.data.find(
+      candidate => candidate.publicUserData?.userId === apiToken.createdBy
+    );
+    if (!membership) {
+      return {
+        response: unauthorizedResponse(
+          'API token creator is no longer in the organization'
+        ),
+      };
+    }
+
+    return {
+      userId: apiToken.createdBy,
+      sessionId: null,
+      organizationId: apiToken.organizationId,
+      organizationRole: membership.role,
+      apiToken: { id: apiToken.id, scopes: apiToken.scopes },
+    };
+  } catch (error) {
+    console.error('Failed to verify API token:', error);
+    return { response: unauthorizedResponse('Authentication failed') };
+  }
+}
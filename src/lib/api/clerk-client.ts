@@ -1,5 +1,32 @@
-import { createClerkClient } from '@clerk/clerk-sdk-node';
+import {
+  createClerkClient,
+  type OrganizationMembership,
+} from '@clerk/clerk-sdk-node';
 
 export const clerk = createClerkClient({
   secretKey: process.env.CLERK_SECRET_KEY!,
 });
+
+// Largest page Clerk returns from its list endpoints
+const CLERK_PAGE_SIZE = 100;
+
+// Every membership of an organization. Clerk returns them a page at a time
+// (10 by default), so this keeps asking until it has the total count.
+export async function getAllOrganizationMemberships(
+  organizationId: string
+): Promise<OrganizationMembership[]> {
+  const memberships: OrganizationMembership[] = [];
+
+  while (true) {
+    const page = await clerk.organizations.getOrganizationMembershipList({
+      organizationId,
+      limit: CLERK_PAGE_SIZE,
+      offset: memberships.length,
+    });
+    memberships.push(...page.data);
+
+    if (page.data.length === 0 || memberships.length >= page.totalCount) {
+      return memberships;
+    }
+  }
+}
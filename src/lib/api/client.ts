@@ -1,15 +1,48 @@
+import { type InvoiceGenerationResult } from '../billing/invoices';
+import {
+  type DispatchRun,
+  type DriverAvailabilityFilter,
+  type DriverRecommendation,
+} from '../dispatch';
+import { type AccessSession } from '../db/access-sessions';
 import {
   type CreateNotificationData,
   type NotificationsQuery,
 } from '../db/notifications';
 import { type UpdatePreferencesData } from '../db/preferences';
+import { type EarningsStatement } from '../payroll/earnings';
+import { type OpenApiDocument } from '../openapi/document';
+import { type MileageLog } from '../payroll/mileage';
+import { type Capability } from '../permissions';
+import { type RunConflictCheck, type RunWithConflicts } from '../run-conflicts';
+import { type RunSeriesResult } from '../run-series';
 import {
+  type ApiToken,
+  type ApiTokenForm,
+  type BillingAccount,
+  type BillingAccountForm,
+  type DriverAvailabilityBlock,
+  type DriverAvailabilityBlockForm,
+  type DriverPaySettings,
+  type DriverPaySettingsForm,
+  type Invoice,
+  type InvoiceStatus,
   type NewRunForm,
   type Notification,
+  type Report,
+  type ReportFormat,
+  type ReportSchedule,
+  type ReportScheduleForm,
   type ReportTemplate,
   type ReportTemplateForm,
   type Run,
+  type RunEvent,
+  type RunPassenger,
+  type RunSeries,
+  type RunSeriesForm,
   type RunStatus,
+  type Vehicle,
+  type VehicleForm,
 } from '../schema';
 import { getApiUrl } from '../utils';
 
@@ -23,37 +56,28 @@ declare global {
         id: string;
       };
       session?: {
-        getToken: () => string | null;
+        getToken: () => Promise<string | null>;
       };
     };
   }
 }
 
-// Helper function to get auth token from Clerk
-function getAuthToken(): string | null {
-  // This will be populated by Clerk's session token
-  // For now, we'll return null during migration
+// Helper function to get the current Clerk session token. The API server
+// verifies it and takes the user and active organization from it.
+async function getAuthToken(): Promise<string | null> {
   if (typeof window !== 'undefined' && window.Clerk?.session) {
-    return window.Clerk.session.getToken() || null;
-  }
-  return null;
-}
-
-// Helper function to get current user ID from Clerk
-function getCurrentUserIdFromClerk(): string | null {
-  if (typeof window !== 'undefined' && window.Clerk?.user) {
-    return window.Clerk.user.id || null;
+    return (await window.Clerk.session.getToken()) || null;
   }
   return null;
 }
 
 // Helper function to create authenticated headers
-function createAuthHeaders(): HeadersInit {
-  const headers: HeadersInit = {
+async function createAuthHeaders(): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {
     'Content-Type': 'application/json',
   };
 
-  const token = getAuthToken();
+  const token = await getAuthToken();
   if (token) {
     headers['Authorization'] = `Bearer ${token}`;
   }
@@ -112,24 +136,140 @@ export const authApi = {
   },
 };
 
+// API client for the organization's API tokens (admin only)
+export const apiTokensApi = {
+  async getTokens(): Promise<ApiToken[]> {
+    const response = await fetch(`${API_BASE}/api-tokens`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch API tokens');
+    }
+
+    return response.json();
+  },
+
+  // Create a token acting as the current user. The token itself is only
+  // returned here.
+  async createToken(
+    tokenData: ApiTokenForm
+  ): Promise<{ apiToken: ApiToken; token: string }> {
+    const response = await fetch(`${API_BASE}/api-tokens`, {
+      method: 'POST',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ tokenData }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to create API token');
+    }
+
+    return response.json();
+  },
+
+  async revokeToken(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/api-tokens?id=${id}`, {
+      method: 'DELETE',
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to revoke API token');
+    }
+  },
+};
+
+// API client for the OpenAPI document and its docs page
+export const apiDocsApi = {
+  async getOpenApiDocument(): Promise<OpenApiDocument> {
+    const response = await fetch(`${API_BASE}/openapi.json`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch API document');
+    }
+
+    return response.json();
+  },
+
+  // Call a documented route as the current user, or with an API token when
+  // given, returning the raw response for display
+  async sendRequest(
+    method: string,
+    path: string,
+    body?: string,
+    apiToken?: string
+  ): Promise<{ status: number; body: string }> {
+    const headers = await createAuthHeaders();
+    if (apiToken) {
+      headers['Authorization'] = `Bearer ${apiToken}`;
+    }
+
+    const response = await fetch(`${API_BASE}${path.replace(/^\/api/, '')}`, {
+      method,
+      headers,
+      body: body || undefined,
+    });
+
+    return { status: response.status, body: await response.text() };
+  },
+};
+
+// API client for password gate sessions (platform admins only)
+export const accessSessionsApi = {
+  // Get the sessions that are still active
+  async getSessions(): Promise<AccessSession[]> {
+    const response = await fetch(`${API_BASE}/access-sessions`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch access sessions');
+    }
+
+    return response.json();
+  },
+
+  // Revoke a session so its browser has to enter the password again
+  async revokeSession(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/access-sessions?id=${id}`, {
+      method: 'DELETE',
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to revoke access session');
+    }
+  },
+};
+
 // API client for runs
 export const runsApi = {
   // Get all runs for the current user
   async getRuns(): Promise<Run[]> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
+    const response = await fetch(`${API_BASE}/runs?orderDirection=DESC`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch runs');
     }
 
-    const response = await fetch(
-      `${API_BASE}/runs?userId=${userId}&orderDirection=DESC`,
-      {
-        headers: createAuthHeaders(),
-      }
-    );
+    return response.json();
+  },
+
+  // Get a single run: the user's own, or any in their organization for
+  // roles that can view runs
+  async getRun(id: string): Promise<Run> {
+    const response = await fetch(`${API_BASE}/runs/${id}`, {
+      headers: await createAuthHeaders(),
+    });
 
     if (!response.ok) {
-      throw new Error('Failed to fetch runs');
+      throw new Error('Failed to fetch run');
     }
 
     return response.json();
@@ -137,17 +277,9 @@ export const runsApi = {
 
   // Get all runs for organization members (admin-only)
   async getOrganizationRuns(): Promise<Run[]> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
-    const response = await fetch(
-      `${API_BASE}/runs/organization?userId=${userId}`,
-      {
-        headers: createAuthHeaders(),
-      }
-    );
+    const response = await fetch(`${API_BASE}/runs/organization`, {
+      headers: await createAuthHeaders(),
+    });
 
     if (!response.ok) {
       const error = await response.json();
@@ -157,102 +289,147 @@ export const runsApi = {
     return response.json();
   },
 
-  // Create a new run
-  async createRun(runData: NewRunForm): Promise<Run> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
+  // Check runs for overlaps with the user's other runs before saving them.
+  // Pass the run's ID when editing an existing run.
+  async checkRunConflicts(
+    runs: Pick<
+      NewRunForm,
+      'flightNumber' | 'scheduledTime' | 'estimatedDuration'
+    >[],
+    runId?: string
+  ): Promise<RunConflictCheck> {
+    const response = await fetch(`${API_BASE}/runs/conflicts`, {
+      method: 'POST',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ runs, runId }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to check run conflicts');
     }
 
+    return response.json();
+  },
+
+  // Create a new run. Overlapping runs are saved with their conflicts unless
+  // the server blocks them.
+  async createRun(runData: NewRunForm): Promise<RunWithConflicts> {
     const response = await fetch(`${API_BASE}/runs`, {
       method: 'POST',
-      headers: createAuthHeaders(),
-      body: JSON.stringify({ runData, userId }),
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ runData }),
     });
 
     if (!response.ok) {
-      throw new Error('Failed to create run');
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to create run');
     }
 
     return response.json();
   },
 
   // Update an existing run
-  async updateRun(id: string, runData: NewRunForm): Promise<Run> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
+  async updateRun(id: string, runData: NewRunForm): Promise<RunWithConflicts> {
     const response = await fetch(`${API_BASE}/runs/${id}`, {
       method: 'PUT',
-      headers: createAuthHeaders(),
-      body: JSON.stringify({ runData, userId }),
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ runData }),
     });
 
     if (!response.ok) {
-      throw new Error('Failed to update run');
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update run');
     }
 
     return response.json();
   },
 
-  // Update run status
-  async updateRunStatus(id: string, status: RunStatus): Promise<Run | null> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
+  // Update run status. Changes the transition rules don't allow fail with the
+  // server's explanation unless an admin overrides them.
+  async updateRunStatus(
+    id: string,
+    status: RunStatus,
+    options: { override?: boolean } = {}
+  ): Promise<Run | null> {
     const response = await fetch(`${API_BASE}/runs`, {
       method: 'PUT',
-      headers: createAuthHeaders(),
+      headers: await createAuthHeaders(),
       body: JSON.stringify({
         action: 'update_status',
         id,
         status,
-        userId,
+        override: options.override,
       }),
     });
 
     if (!response.ok) {
-      throw new Error('Failed to update run status');
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || 'Failed to update run status');
     }
 
     const result = await response.json();
     return result.updatedRun;
   },
 
-  // Delete a run
-  async deleteRun(id: string): Promise<void> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
+  // Mark one of an active run's stops as done, or open it again
+  async updateRunStop(
+    id: string,
+    stopIndex: number,
+    completed: boolean
+  ): Promise<Run> {
+    const response = await fetch(`${API_BASE}/runs`, {
+      method: 'PUT',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({
+        action: 'update_stop',
+        id,
+        stopIndex,
+        completed,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || 'Failed to update run stop');
     }
 
+    const result = await response.json();
+    return result.updatedRun;
+  },
+
+  // Delete a run
+  async deleteRun(id: string): Promise<void> {
     const response = await fetch(`${API_BASE}/runs/${id}`, {
       method: 'DELETE',
-      headers: createAuthHeaders(),
-      body: JSON.stringify({ userId }),
+      headers: await createAuthHeaders(),
     });
 
     if (!response.ok) {
       throw new Error('Failed to delete run');
     }
   },
+
+  // Get a run's change history, oldest first
+  async getRunEvents(id: string): Promise<RunEvent[]> {
+    const response = await fetch(`${API_BASE}/runs/${id}/events`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch run history');
+    }
+
+    return response.json();
+  },
 };
 
 // API client for preferences
 export const preferencesApi = {
   // Get user preferences
   async getPreferences() {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
-    const response = await fetch(`${API_BASE}/preferences?userId=${userId}`, {
-      headers: createAuthHeaders(),
+    const response = await fetch(`${API_BASE}/preferences`, {
+      headers: await createAuthHeaders(),
     });
 
     if (!response.ok) {
@@ -264,15 +441,10 @@ export const preferencesApi = {
 
   // Update user preferences
   async updatePreferences(preferencesData: UpdatePreferencesData) {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
     const response = await fetch(`${API_BASE}/preferences`, {
       method: 'PUT',
-      headers: createAuthHeaders(),
-      body: JSON.stringify({ preferencesData, userId }),
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ preferencesData }),
     });
 
     if (!response.ok) {
@@ -289,13 +461,7 @@ export const notificationsApi = {
   async getNotifications(
     query: Partial<NotificationsQuery> = {}
   ): Promise<Notification[]> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
     const params = new URLSearchParams();
-    params.append('userId', userId);
 
     if (query.limit) params.append('limit', query.limit.toString());
     if (query.offset) params.append('offset', query.offset.toString());
@@ -309,7 +475,7 @@ export const notificationsApi = {
     if (query.search) params.append('search', query.search);
 
     const response = await fetch(`${API_BASE}/notifications?${params}`, {
-      headers: createAuthHeaders(),
+      headers: await createAuthHeaders(),
     });
 
     if (!response.ok) {
@@ -321,7 +487,7 @@ export const notificationsApi = {
 
   async getNotificationStats() {
     const response = await fetch(`${API_BASE}/notifications/stats`, {
-      headers: createAuthHeaders(),
+      headers: await createAuthHeaders(),
     });
     if (!response.ok) {
       throw new Error('Failed to fetch notification stats');
@@ -333,15 +499,10 @@ export const notificationsApi = {
   async createNotification(
     notificationData: CreateNotificationData
   ): Promise<Notification> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
     const response = await fetch(`${API_BASE}/notifications`, {
       method: 'POST',
-      headers: createAuthHeaders(),
-      body: JSON.stringify({ notificationData, userId }),
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ notificationData }),
     });
 
     if (!response.ok) {
@@ -356,15 +517,10 @@ export const notificationsApi = {
     id: string,
     isRead: boolean = true
   ): Promise<void> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
     const response = await fetch(`${API_BASE}/notifications`, {
       method: 'PUT',
-      headers: createAuthHeaders(),
-      body: JSON.stringify({ action: 'mark_read', id, isRead, userId }),
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ action: 'mark_read', id, isRead }),
     });
 
     if (!response.ok) {
@@ -374,15 +530,10 @@ export const notificationsApi = {
 
   // Mark all notifications as read
   async markAllNotificationsAsRead(): Promise<void> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
     const response = await fetch(`${API_BASE}/notifications`, {
       method: 'PUT',
-      headers: createAuthHeaders(),
-      body: JSON.stringify({ action: 'mark_all_read', userId }),
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ action: 'mark_all_read' }),
     });
 
     if (!response.ok) {
@@ -392,18 +543,10 @@ export const notificationsApi = {
 
   // Delete a notification
   async deleteNotification(id: string): Promise<void> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
-    const response = await fetch(
-      `${API_BASE}/notifications?id=${id}&userId=${userId}`,
-      {
-        method: 'DELETE',
-        headers: createAuthHeaders(),
-      }
-    );
+    const response = await fetch(`${API_BASE}/notifications?id=${id}`, {
+      method: 'DELETE',
+      headers: await createAuthHeaders(),
+    });
 
     if (!response.ok) {
       throw new Error('Failed to delete notification');
@@ -413,7 +556,7 @@ export const notificationsApi = {
 
 export const seedApi = {
   // Generate seed data for the current user (development only)
-  async generateData(userId: string): Promise<{
+  async generateData(): Promise<{
     runs: number;
     notifications: number;
     templates: number;
@@ -421,8 +564,7 @@ export const seedApi = {
   }> {
     const response = await fetch(`${API_BASE}/seed`, {
       method: 'POST',
-      headers: createAuthHeaders(),
-      body: JSON.stringify({ userId }),
+      headers: await createAuthHeaders(),
     });
 
     if (!response.ok) {
@@ -433,13 +575,10 @@ export const seedApi = {
     return response.json();
   },
 
-  async clearUserData(
-    userId: string
-  ): Promise<{ success: boolean; message: string }> {
+  async clearUserData(): Promise<{ success: boolean; message: string }> {
     const response = await fetch(`${API_BASE}/seed`, {
       method: 'DELETE',
-      headers: createAuthHeaders(),
-      body: JSON.stringify({ userId }),
+      headers: await createAuthHeaders(),
     });
 
     if (!response.ok) {
@@ -461,15 +600,10 @@ export const smsApi = {
     deliveryStatus?: string;
     error?: string;
   }> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
     const response = await fetch(`${API_BASE}/sms/send`, {
       method: 'POST',
-      headers: createAuthHeaders(),
-      body: JSON.stringify({ phoneNumber, message, userId }),
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ phoneNumber, message }),
     });
 
     if (!response.ok) {
@@ -488,15 +622,10 @@ export const smsApi = {
     type?: string;
     error?: string;
   }> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
     const response = await fetch(`${API_BASE}/sms/validate`, {
       method: 'POST',
-      headers: createAuthHeaders(),
-      body: JSON.stringify({ phoneNumber, userId }),
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ phoneNumber }),
     });
 
     if (!response.ok) {
@@ -514,13 +643,8 @@ export const smsApi = {
     fromNumber: string | null;
     mode: string;
   }> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
-    const response = await fetch(`${API_BASE}/sms/status?userId=${userId}`, {
-      headers: createAuthHeaders(),
+    const response = await fetch(`${API_BASE}/sms/status`, {
+      headers: await createAuthHeaders(),
     });
 
     if (!response.ok) {
@@ -535,10 +659,10 @@ export const smsApi = {
 // API client for organizations
 export const organizationsApi = {
   // Get all organizations for the current user
-  async getUserOrganizations(userId: string): Promise<any[]> {
-    const response = await fetch(`${API_BASE}/organizations?userId=${userId}`, {
+  async getUserOrganizations(): Promise<any[]> {
+    const response = await fetch(`${API_BASE}/organizations`, {
       method: 'GET',
-      headers: createAuthHeaders(),
+      headers: await createAuthHeaders(),
     });
 
     if (!response.ok) {
@@ -549,14 +673,11 @@ export const organizationsApi = {
   },
 
   // Get all members of an organization
-  async getOrganizationMembers(orgId: string, userId: string): Promise<any> {
-    const response = await fetch(
-      `${API_BASE}/organizations/${orgId}/members?userId=${userId}`,
-      {
-        method: 'GET',
-        headers: createAuthHeaders(),
-      }
-    );
+  async getOrganizationMembers(orgId: string): Promise<any> {
+    const response = await fetch(`${API_BASE}/organizations/${orgId}/members`, {
+      method: 'GET',
+      headers: await createAuthHeaders(),
+    });
 
     if (!response.ok) {
       throw new Error('Failed to get organization members');
@@ -566,12 +687,12 @@ export const organizationsApi = {
   },
 
   // Get user's role in a specific organization
-  async getUserRole(orgId: string, userId: string): Promise<any> {
+  async getUserRole(orgId: string): Promise<any> {
     const response = await fetch(
-      `${API_BASE}/organizations/${orgId}/user-role?userId=${userId}`,
+      `${API_BASE}/organizations/${orgId}/user-role`,
       {
         method: 'GET',
-        headers: createAuthHeaders(),
+        headers: await createAuthHeaders(),
       }
     );
 
@@ -582,17 +703,13 @@ export const organizationsApi = {
     return response.json();
   },
 
-  // Check if user has specific permissions
-  async checkPermissions(
-    orgId: string,
-    userId: string,
-    permission: string
-  ): Promise<any> {
+  // Check if the user's role grants a capability, e.g. runs:assign
+  async checkPermissions(orgId: string, permission: Capability): Promise<any> {
     const response = await fetch(
-      `${API_BASE}/organizations/check-permissions?orgId=${orgId}&userId=${userId}&permission=${permission}`,
+      `${API_BASE}/organizations/check-permissions?orgId=${orgId}&permission=${permission}`,
       {
         method: 'GET',
-        headers: createAuthHeaders(),
+        headers: await createAuthHeaders(),
       }
     );
 
@@ -608,17 +725,9 @@ export const organizationsApi = {
 export const reportTemplatesApi = {
   // Get all report templates for the organization
   async getReportTemplates(): Promise<ReportTemplate[]> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
-    const response = await fetch(
-      `${API_BASE}/report-templates?userId=${userId}`,
-      {
-        headers: createAuthHeaders(),
-      }
-    );
+    const response = await fetch(`${API_BASE}/report-templates`, {
+      headers: await createAuthHeaders(),
+    });
 
     if (!response.ok) {
       throw new Error('Failed to fetch report templates');
@@ -631,15 +740,10 @@ export const reportTemplatesApi = {
   async createReportTemplate(
     templateData: ReportTemplateForm
   ): Promise<ReportTemplate> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
     const response = await fetch(`${API_BASE}/report-templates`, {
       method: 'POST',
-      headers: createAuthHeaders(),
-      body: JSON.stringify({ templateData, userId }),
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ templateData }),
     });
 
     if (!response.ok) {
@@ -655,15 +759,10 @@ export const reportTemplatesApi = {
     id: string,
     templateData: ReportTemplateForm
   ): Promise<ReportTemplate> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
-    }
-
     const response = await fetch(`${API_BASE}/report-templates`, {
       method: 'PUT',
-      headers: createAuthHeaders(),
-      body: JSON.stringify({ id, templateData, userId }),
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ id, templateData }),
     });
 
     if (!response.ok) {
@@ -676,22 +775,821 @@ export const reportTemplatesApi = {
 
   // Delete a report template
   async deleteReportTemplate(id: string): Promise<void> {
-    const userId = getCurrentUserIdFromClerk();
-    if (!userId) {
-      throw new Error('User not authenticated');
+    const response = await fetch(`${API_BASE}/report-templates?id=${id}`, {
+      method: 'DELETE',
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete report template');
     }
+  },
+};
 
-    const response = await fetch(
-      `${API_BASE}/report-templates?id=${id}&userId=${userId}`,
-      {
-        method: 'DELETE',
-        headers: createAuthHeaders(),
-      }
-    );
+// API client for server-generated reports
+export const reportsApi = {
+  // Get previously generated reports for the organization
+  async getReports(): Promise<Report[]> {
+    const response = await fetch(`${API_BASE}/reports`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch reports');
+    }
+
+    return response.json();
+  },
+
+  // Start generating a report on the server
+  async generateReport(request: {
+    templateId: string;
+    startDate: Date;
+    endDate: Date;
+    name?: string;
+    format?: ReportFormat;
+  }): Promise<Report> {
+    const response = await fetch(`${API_BASE}/reports`, {
+      method: 'POST',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({
+        templateId: request.templateId,
+        startDate: request.startDate.toISOString(),
+        endDate: request.endDate.toISOString(),
+        name: request.name,
+        format: request.format,
+      }),
+    });
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || 'Failed to delete report template');
+      throw new Error(error.error || 'Failed to generate report');
+    }
+
+    return response.json();
+  },
+
+  // Download a generated report file
+  async downloadReport(
+    id: string
+  ): Promise<{ blob: Blob; filename: string | null }> {
+    const response = await fetch(`${API_BASE}/reports/download?id=${id}`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to download report');
+    }
+
+    const disposition = response.headers.get('Content-Disposition');
+    const filenameMatch = disposition?.match(/filename="([^"]+)"/);
+
+    return {
+      blob: await response.blob(),
+      filename: filenameMatch ? filenameMatch[1] : null,
+    };
+  },
+
+  // Delete a generated report
+  async deleteReport(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/reports?id=${id}`, {
+      method: 'DELETE',
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete report');
+    }
+  },
+};
+
+// Report schedules API functions (admin only)
+export const reportSchedulesApi = {
+  // Get the organization's report schedules
+  async getReportSchedules(): Promise<ReportSchedule[]> {
+    const response = await fetch(`${API_BASE}/report-schedules`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch report schedules');
+    }
+
+    return response.json();
+  },
+
+  // Create a new report schedule
+  async createReportSchedule(
+    scheduleData: Omit<ReportScheduleForm, 'organizationId' | 'createdBy'>
+  ): Promise<ReportSchedule> {
+    const response = await fetch(`${API_BASE}/report-schedules`, {
+      method: 'POST',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ scheduleData }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to create report schedule');
+    }
+
+    return response.json();
+  },
+
+  // Update an existing report schedule
+  async updateReportSchedule(
+    id: string,
+    scheduleData: Omit<ReportScheduleForm, 'organizationId' | 'createdBy'>
+  ): Promise<ReportSchedule> {
+    const response = await fetch(`${API_BASE}/report-schedules`, {
+      method: 'PUT',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ id, scheduleData }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update report schedule');
+    }
+
+    return response.json();
+  },
+
+  // Delete a report schedule
+  async deleteReportSchedule(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/report-schedules?id=${id}`, {
+      method: 'DELETE',
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete report schedule');
     }
   },
+
+  // Generate and send a schedule's latest report now
+  async runReportSchedule(
+    id: string
+  ): Promise<{ report: Report | null; schedule: ReportSchedule }> {
+    const response = await fetch(`${API_BASE}/report-schedules/run`, {
+      method: 'POST',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ id }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to run report schedule');
+    }
+
+    return response.json();
+  },
+};
+
+// Billing accounts API functions (admin only)
+export const billingAccountsApi = {
+  // Get the organization's billing accounts
+  async getBillingAccounts(): Promise<BillingAccount[]> {
+    const response = await fetch(`${API_BASE}/billing-accounts`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch billing accounts');
+    }
+
+    return response.json();
+  },
+
+  // Create a new billing account
+  async createBillingAccount(
+    accountData: Omit<BillingAccountForm, 'organizationId' | 'createdBy'>
+  ): Promise<BillingAccount> {
+    const response = await fetch(`${API_BASE}/billing-accounts`, {
+      method: 'POST',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ accountData }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to create billing account');
+    }
+
+    return response.json();
+  },
+
+  // Update an existing billing account
+  async updateBillingAccount(
+    id: string,
+    accountData: Omit<BillingAccountForm, 'organizationId' | 'createdBy'>
+  ): Promise<BillingAccount> {
+    const response = await fetch(`${API_BASE}/billing-accounts`, {
+      method: 'PUT',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ id, accountData }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update billing account');
+    }
+
+    return response.json();
+  },
+
+  // Delete a billing account that has no invoices
+  async deleteBillingAccount(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/billing-accounts?id=${id}`, {
+      method: 'DELETE',
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete billing account');
+    }
+  },
+};
+
+// Invoices API functions (admin only)
+export const invoicesApi = {
+  // Get the organization's invoices, optionally filtered by status
+  async getInvoices(status?: InvoiceStatus): Promise<Invoice[]> {
+    const params = new URLSearchParams();
+    if (status) {
+      params.append('status', status);
+    }
+
+    const response = await fetch(`${API_BASE}/invoices?${params}`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch invoices');
+    }
+
+    return response.json();
+  },
+
+  // Get a single invoice with its line items
+  async getInvoice(id: string): Promise<Invoice> {
+    const response = await fetch(`${API_BASE}/invoices?id=${id}`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch invoice');
+    }
+
+    return response.json();
+  },
+
+  // Generate invoices for completed runs in a period
+  async generateInvoices(request: {
+    periodStart: Date;
+    periodEnd: Date;
+    billingAccountIds?: string[];
+  }): Promise<InvoiceGenerationResult> {
+    const response = await fetch(`${API_BASE}/invoices`, {
+      method: 'POST',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({
+        periodStart: request.periodStart.toISOString(),
+        periodEnd: request.periodEnd.toISOString(),
+        billingAccountIds: request.billingAccountIds,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to generate invoices');
+    }
+
+    return response.json();
+  },
+
+  // Mark an invoice paid or unpaid
+  async updateInvoiceStatus(
+    id: string,
+    status: InvoiceStatus
+  ): Promise<Invoice> {
+    const response = await fetch(`${API_BASE}/invoices`, {
+      method: 'PUT',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ id, status }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update invoice');
+    }
+
+    return response.json();
+  },
+
+  // Download an invoice as a PDF
+  async downloadInvoice(
+    id: string
+  ): Promise<{ blob: Blob; filename: string | null }> {
+    const response = await fetch(`${API_BASE}/invoices/download?id=${id}`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to download invoice');
+    }
+
+    const disposition = response.headers.get('Content-Disposition');
+    const filenameMatch = disposition?.match(/filename="([^"]+)"/);
+
+    return {
+      blob: await response.blob(),
+      filename: filenameMatch ? filenameMatch[1] : null,
+    };
+  },
+
+  // Delete an unpaid invoice
+  async deleteInvoice(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/invoices?id=${id}`, {
+      method: 'DELETE',
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete invoice');
+    }
+  },
+};
+
+export const driverPaySettingsApi = {
+  // Get the organization's driver pay settings
+  async getSettings(): Promise<DriverPaySettings> {
+    const response = await fetch(`${API_BASE}/driver-pay-settings`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch driver pay settings');
+    }
+
+    return response.json();
+  },
+
+  // Save the organization's driver pay settings (admins only)
+  async updateSettings(
+    settingsData: Omit<DriverPaySettingsForm, 'organizationId' | 'updatedBy'>
+  ): Promise<DriverPaySettings> {
+    const response = await fetch(`${API_BASE}/driver-pay-settings`, {
+      method: 'PUT',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify(settingsData),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to save driver pay settings');
+    }
+
+    return response.json();
+  },
+};
+
+export const driverEarningsApi = {
+  // Get a driver's earnings statement for the pay period containing
+  // periodDate (default: the current period)
+  async getStatement(
+    driverId: string,
+    periodDate?: Date
+  ): Promise<EarningsStatement> {
+    const params = new URLSearchParams({ driverId });
+    if (periodDate) {
+      params.append('periodDate', periodDate.toISOString());
+    }
+
+    const response = await fetch(`${API_BASE}/driver-earnings?${params}`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch earnings statement');
+    }
+
+    return response.json();
+  },
+
+  // Download a driver's earnings statement as CSV or PDF
+  async exportStatement(
+    driverId: string,
+    format: ReportFormat,
+    periodDate?: Date
+  ): Promise<{ blob: Blob; filename: string | null }> {
+    const params = new URLSearchParams({ driverId, format });
+    if (periodDate) {
+      params.append('periodDate', periodDate.toISOString());
+    }
+
+    const response = await fetch(
+      `${API_BASE}/driver-earnings/export?${params}`,
+      {
+        headers: await createAuthHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to export earnings statement');
+    }
+
+    const disposition = response.headers.get('Content-Disposition');
+    const filenameMatch = disposition?.match(/filename="([^"]+)"/);
+
+    return {
+      blob: await response.blob(),
+      filename: filenameMatch ? filenameMatch[1] : null,
+    };
+  },
+};
+
+// Driver mileage log API functions
+export const driverMileageApi = {
+  // Get a driver's mileage log for the pay period containing periodDate
+  // (default: the current period)
+  async getMileageLog(
+    driverId: string,
+    periodDate?: Date
+  ): Promise<MileageLog> {
+    const params = new URLSearchParams({ driverId });
+    if (periodDate) {
+      params.append('periodDate', periodDate.toISOString());
+    }
+
+    const response = await fetch(`${API_BASE}/driver-mileage?${params}`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch mileage log');
+    }
+
+    return response.json();
+  },
+
+  // Download a driver's mileage log as CSV
+  async exportMileageLog(
+    driverId: string,
+    periodDate?: Date
+  ): Promise<{ blob: Blob; filename: string | null }> {
+    const params = new URLSearchParams({ driverId });
+    if (periodDate) {
+      params.append('periodDate', periodDate.toISOString());
+    }
+
+    const response = await fetch(
+      `${API_BASE}/driver-mileage/export?${params}`,
+      {
+        headers: await createAuthHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to export mileage log');
+    }
+
+    const disposition = response.headers.get('Content-Disposition');
+    const filenameMatch = disposition?.match(/filename="([^"]+)"/);
+
+    return {
+      blob: await response.blob(),
+      filename: filenameMatch ? filenameMatch[1] : null,
+    };
+  },
+};
+
+// Driver availability calendar API functions. Drivers manage their own
+// shifts and time off; admins any driver's.
+export const driverAvailabilityApi = {
+  // Get a driver's shifts and the time off overlapping from-to; admins can
+  // omit driverId to get every driver's
+  async getBlocks(
+    driverId?: string,
+    range?: { from: Date; to: Date }
+  ): Promise<DriverAvailabilityBlock[]> {
+    const params = new URLSearchParams();
+    if (driverId) {
+      params.append('driverId', driverId);
+    }
+    if (range) {
+      params.append('from', range.from.toISOString());
+      params.append('to', range.to.toISOString());
+    }
+
+    const response = await fetch(`${API_BASE}/driver-availability?${params}`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch driver availability');
+    }
+
+    return response.json();
+  },
+
+  // Add a shift, day off or blackout to a driver's calendar
+  async createBlock(
+    blockData: Omit<DriverAvailabilityBlockForm, 'organizationId' | 'createdBy'>
+  ): Promise<DriverAvailabilityBlock> {
+    const response = await fetch(`${API_BASE}/driver-availability`, {
+      method: 'POST',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ blockData }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to add availability');
+    }
+
+    return response.json();
+  },
+
+  // Remove a block from a driver's calendar
+  async deleteBlock(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/driver-availability?id=${id}`, {
+      method: 'DELETE',
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to remove availability');
+    }
+  },
+};
+
+// Dispatch board API functions (admin only)
+export const dispatchApi = {
+  // Get upcoming scheduled and active runs across the organization
+  async getBoard(days?: number): Promise<DispatchRun[]> {
+    const params = new URLSearchParams();
+    if (days) {
+      params.append('days', days.toString());
+    }
+
+    const response = await fetch(`${API_BASE}/dispatch?${params}`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch dispatch board');
+    }
+
+    return response.json();
+  },
+
+  // Assign or reassign a run to a driver in the organization
+  async assignRun(runId: string, driverId: string): Promise<Run> {
+    const response = await fetch(`${API_BASE}/dispatch`, {
+      method: 'PUT',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ runId, driverId }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to assign run');
+    }
+
+    return response.json();
+  },
+
+  // IDs of the organization's members who match an availability filter
+  async getAvailableDriverIds(
+    filter: DriverAvailabilityFilter
+  ): Promise<string[]> {
+    const params = new URLSearchParams({ filter });
+    const response = await fetch(
+      `${API_BASE}/dispatch/availability?${params}`,
+      {
+        headers: await createAuthHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch driver availability');
+    }
+
+    const { driverIds } = await response.json();
+    return driverIds;
+  },
+
+  // Drivers ranked by how well they fit a scheduled run
+  async getRecommendations(runId: string): Promise<DriverRecommendation[]> {
+    const params = new URLSearchParams({ runId });
+    const response = await fetch(
+      `${API_BASE}/dispatch/recommendations?${params}`,
+      {
+        headers: await createAuthHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch driver suggestions');
+    }
+
+    return response.json();
+  },
+};
+
+// Run passenger manifest API functions
+export const runPassengersApi = {
+  async getPassengers(runId: string): Promise<RunPassenger[]> {
+    const params = new URLSearchParams({ runId });
+    const response = await fetch(`${API_BASE}/run-passengers?${params}`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch passengers');
+    }
+
+    return response.json();
+  },
+
+  // Save the run's whole manifest, replacing the passengers it had
+  async updatePassengers(
+    runId: string,
+    passengers: RunPassenger[]
+  ): Promise<RunPassenger[]> {
+    const response = await fetch(`${API_BASE}/run-passengers`, {
+      method: 'PUT',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ runId, passengers }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update passengers');
+    }
+
+    return response.json();
+  },
+};
+
+// Organization vehicle fleet API functions
+export const vehiclesApi = {
+  // Get the organization's vehicles, optionally only active ones
+  async getVehicles(activeOnly = false): Promise<Vehicle[]> {
+    const params = new URLSearchParams();
+    if (activeOnly) {
+      params.append('isActive', 'true');
+    }
+
+    const response = await fetch(`${API_BASE}/vehicles?${params}`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch vehicles');
+    }
+
+    return response.json();
+  },
+
+  // Add a vehicle to the fleet (admin only)
+  async createVehicle(
+    vehicleData: Omit<VehicleForm, 'organizationId'>
+  ): Promise<Vehicle> {
+    const response = await fetch(`${API_BASE}/vehicles`, {
+      method: 'POST',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ vehicleData }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to create vehicle');
+    }
+
+    return response.json();
+  },
+
+  // Update an existing vehicle (admin only)
+  async updateVehicle(
+    id: string,
+    vehicleData: Omit<VehicleForm, 'organizationId'>
+  ): Promise<Vehicle> {
+    const response = await fetch(`${API_BASE}/vehicles`, {
+      method: 'PUT',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ id, vehicleData }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update vehicle');
+    }
+
+    return response.json();
+  },
+
+  // Delete a vehicle; its runs are kept without one (admin only)
+  async deleteVehicle(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/vehicles?id=${id}`, {
+      method: 'DELETE',
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete vehicle');
+    }
+  },
+};
+
+// Recurring run series API functions
+export const runSeriesApi = {
+  async getSeries(id: string): Promise<RunSeries> {
+    const params = new URLSearchParams({ id });
+    const response = await fetch(`${API_BASE}/run-series?${params}`, {
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch run series');
+    }
+
+    return response.json();
+  },
+
+  // Create a series along with its runs for the next few weeks
+  async createSeries(seriesData: RunSeriesForm): Promise<RunSeriesResult> {
+    const response = await fetch(`${API_BASE}/run-series`, {
+      method: 'POST',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ seriesData }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to create run series');
+    }
+
+    return response.json();
+  },
+
+  // Apply an edited run to an occurrence and every later one
+  async updateFutureOccurrences(
+    id: string,
+    fromOccurrence: string,
+    runData: NewRunForm
+  ): Promise<RunSeriesResult> {
+    const response = await fetch(`${API_BASE}/run-series`, {
+      method: 'PUT',
+      headers: await createAuthHeaders(),
+      body: JSON.stringify({ id, fromOccurrence, runData }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update run series');
+    }
+
+    return response.json();
+  },
+
+  // Stop a series from an occurrence on, cancelling its scheduled runs
+  async endSeries(
+    id: string,
+    fromOccurrence: string
+  ): Promise<RunSeriesResult> {
+    const params = new URLSearchParams({ id, from: fromOccurrence });
+    const response = await fetch(`${API_BASE}/run-series?${params}`, {
+      method: 'DELETE',
+      headers: await createAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to end run series');
+    }
+
+    return response.json();
+  },
 };
@@ -0,0 +1,315 @@
+import { readFile } from 'fs/promises';
+import { type ApiTokenScope } from '../schema';
+
+// Who a verified Clerk session token says is calling
+export interface RequestAuth {
+  userId: string;
+  sessionId: string | null;
+  // The organization active in the session and the user's Clerk role key in
+  // it (e.g. "org:admin"), or null when the token doesn't carry one
+  organizationId: string | null;
+  organizationRole: string | null;
+  // Set when the caller used an organization API token rather than a Clerk
+  // session: the token and the scopes it's limited to
+  apiToken?: { id: string; scopes: ApiTokenScope[] };
+}
+
+// A public key from a JSON Web Key Set
+export type SigningKey = JsonWebKey & { kid?: string };
+
+// Where session token signing keys come from; swap one in with setJwksSource
+export interface JwksSource {
+  readonly name: string;
+  getKeys(): Promise<SigningKey[]>;
+}
+
+// Why a session token was refused
+export class SessionTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionTokenError';
+  }
+}
+
+// Leeway for clock drift between Clerk and this server
+const CLOCK_SKEW_SECONDS = 5;
+
+// Don't refetch the key set more often than this for unknown key IDs
+const JWKS_REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Reads the key set from a local JSON file (CLERK_JWKS_FILE). A stand-in for
+ * Clerk when testing: sign tokens with the matching private key, e.g. the one
+ * scripts/generate-test-jwks.ts writes.
+ */
+export class FileJwksSource implements JwksSource {
+  readonly name = 'file';
+
+  constructor(
+    private readonly filePath: string = process.env.CLERK_JWKS_FILE || ''
+  ) {}
+
+  async getKeys(): Promise<SigningKey[]> {
+    const jwks = JSON.parse(await readFile(this.filePath, 'utf8'));
+    return Array.isArray(jwks.keys) ? jwks.keys : [];
+  }
+}
+
+/**
+ * Fetches the instance's key set from Clerk's Backend API, or from
+ * CLERK_JWKS_URL when set (e.g. the Frontend API's /.well-known/jwks.json).
+ */
+export class ClerkJwksSource implements JwksSource {
+  readonly name = 'clerk';
+  private readonly url =
+    process.env.CLERK_JWKS_URL || 'https://api.clerk.com/v1/jwks';
+
+  async getKeys(): Promise<SigningKey[]> {
+    const headers: HeadersInit = {};
+    if (!process.env.CLERK_JWKS_URL && process.env.CLERK_SECRET_KEY) {
+      headers['Authorization'] = `Bearer ${process.env.CLERK_SECRET_KEY}`;
+    }
+
+    const response = await fetch(this.url, { headers });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch JWKS: ${response.status}`);
+    }
+
+    const jwks = await response.json();
+    return Array.isArray(jwks.keys) ? jwks.keys : [];
+  }
+}
+
+let jwksSource: JwksSource | null = null;
+const verificationKeys = new Map<string, CryptoKey>();
+let keysFetchedAt = 0;
+
+// Get the configured key source (CLERK_JWKS_FILE, otherwise Clerk)
+export function getJwksSource(): JwksSource {
+  if (!jwksSource) {
+    jwksSource = process.env.CLERK_JWKS_FILE
+      ? new FileJwksSource()
+      : new ClerkJwksSource();
+  }
+  return jwksSource;
+}
+
+// Replace the key source and forget the keys cached from the old one
+export function setJwksSource(source: JwksSource): void {
+  jwksSource = source;
+  verificationKeys.clear();
+  keysFetchedAt = 0;
+}
+
+// The RS256 public key a token was signed with, refetching the key set once
+// for a key ID we haven't seen (Clerk rotating its keys)
+async function getVerificationKey(kid: string): Promise<CryptoKey> {
+  const cached = verificationKeys.get(kid);
+  if (cached) {
+    return cached;
+  }
+
+  if (Date.now() - keysFetchedAt > JWKS_REFRESH_INTERVAL_MS) {
+    const keys = await getJwksSource().getKeys();
+    keysFetchedAt = Date.now();
+    verificationKeys.clear();
+
+    for (let i = 0; i < keys.length; i++) {
+      const jwk = keys[i];
+      if (!jwk.kid || jwk.kty !== 'RSA') {
+        continue;
+      }
+
+      verificationKeys.set(
+        jwk.kid,
+        await crypto.subtle.importKey(
+          'jwk',
+          jwk,
+          { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+          false,
+          ['verify']
+        )
+      );
+    }
+  }
+
+  const key = verificationKeys.get(kid);
+  if (!key) {
+    throw new SessionTokenError('Session token signed with an unknown key');
+  }
+  return key;
+}
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+// Origins allowed to have requested the token (CLERK_AUTHORIZED_PARTIES,
+// comma separated)
+function getAuthorizedParties(): string[] {
+  return (process.env.CLERK_AUTHORIZED_PARTIES || '')
+    .split(',')
+    .map(party => party.trim())
+    .filter(Boolean);
+}
+
+// The Clerk instance tokens must come from: CLERK_ISSUER, otherwise the
+// Frontend API URL encoded in the publishable key (pk_live_<base64 host$>)
+function getExpectedIssuer(): string | null {
+  if (process.env.CLERK_ISSUER) {
+    return process.env.CLERK_ISSUER.replace(/\/+$/, '');
+  }
+
+  const publishableKey =
+    process.env.CLERK_PUBLISHABLE_KEY || process.env.VITE_CLERK_PUBLISHABLE_KEY;
+  const encodedHost = publishableKey?.split('_')[2];
+  if (!encodedHost) {
+    return null;
+  }
+
+  const host = Buffer.from(encodedHost, 'base64').toString('utf8');
+  return host.endsWith('$') ? `https://${host.slice(0, -1)}` : null;
+}
+
+/**
+ * Verify a Clerk session token: its RS256 signature against the key set, its
+ * lifetime, the Clerk instance that issued it and the origin it was issued
+ * to. Reads the active organization
+ * from either claim format (org_id/org_role, or the newer "o" claim).
+ * Throws a SessionTokenError when the token can't be trusted.
+ */
+export async function verifySessionToken(token: string): Promise<RequestAuth> {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new SessionTokenError('Malformed session token');
+  }
+
+  let header: any;
+  let claims: any;
+  try {
+    header = decodeSegment(segments[0]);
+    claims = decodeSegment(segments[1]);
+  } catch {
+    throw new SessionTokenError('Malformed session token');
+  }
+
+  if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+    throw new SessionTokenError('Unsupported session token algorithm');
+  }
+
+  const key = await getVerificationKey(header.kid);
+  const isValid = await crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    Buffer.from(segments[2], 'base64url'),
+    new TextEncoder().encode(`${segments[0]}.${segments[1]}`)
+  );
+  if (!isValid) {
+    throw new SessionTokenError('Invalid session token signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new SessionTokenError('Session token expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new SessionTokenError('Session token not yet valid');
+  }
+
+  // Configuration errors, not bad tokens: they're logged and the request is
+  // refused rather than trusting tokens from any instance or origin
+  const issuer = getExpectedIssuer();
+  if (!issuer) {
+    throw new Error(
+      'Set CLERK_ISSUER or CLERK_PUBLISHABLE_KEY to verify session tokens'
+    );
+  }
+  const authorizedParties = getAuthorizedParties();
+  if (authorizedParties.length === 0) {
+    throw new Error('Set CLERK_AUTHORIZED_PARTIES to verify session tokens');
+  }
+
+  if (claims.iss !== issuer) {
+    throw new SessionTokenError('Session token issued by another instance');
+  }
+  if (
+    typeof claims.azp !== 'string' ||
+    !authorizedParties.includes(claims.azp)
+  ) {
+    throw new SessionTokenError('Session token issued to another origin');
+  }
+
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new SessionTokenError('Session token has no user');
+  }
+
+  const organizationId: string | null = claims.o?.id || claims.org_id || null;
+  const organizationRole: string | null = claims.o?.rol
+    ? `org:${claims.o.rol}`
+    : claims.org_role || null;
+
+  return {
+    userId: claims.sub,
+    sessionId: claims.sid || null,
+    organizationId,
+    organizationRole: organizationId ? organizationRole : null,
+  };
+}
+
+// The session token from the Authorization header, or the __session cookie
+// Clerk sets when the app and API share an origin
+function getSessionToken(request: Request): string | null {
+  const authorization = request.headers.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  const cookies = request.headers.get('Cookie') || '';
+  const match = cookies.match(/(?:^|;\s*)__session=([^;]+)/);
+  return match ? match[1] : null;
+}
+
+// 401 response asking for a bearer token
+export function unauthorizedResponse(error: string): Response {
+  return new Response(JSON.stringify({ error }), {
+    status: 401,
+    headers: {
+      'Content-Type': 'application/json',
+      'WWW-Authenticate': 'Bearer',
+    },
+  });
+}
+
+/**
+ * Authentication middleware for API routes: verifies the request's Clerk
+ * session token and returns who it identifies, or a 401 response. Servers
+ * attach the result to the request for getRequestAuth.
+ */
+export async function authenticateRequest(
+  request: Request
+): Promise<RequestAuth | { response: Response }> {
+  const token = getSessionToken(request);
+  if (!token) {
+    return { response: unauthorizedResponse('Authentication required') };
+  }
+
+  try {
+    return await verifySessionToken(token);
+  } catch (error) {
+    if (error instanceof SessionTokenError) {
+      return { response: unauthorizedResponse(error.message) };
+    }
+    console.error('Failed to verify session token:', error);
+    return { response: unauthorizedResponse('Authentication failed') };
+  }
+}
+
+// The caller authenticateRequest verified. Handlers take their identity only
+// from here, never from the query string or body.
+export function getRequestAuth(request: Request): RequestAuth {
+  const auth: RequestAuth | undefined = (request as any).auth;
+  if (!auth) {
+    throw new Error('Authentication required');
+  }
+  return auth;
+}
@@ -0,0 +1,135 @@
+import { format } from 'date-fns';
+import { jsPDF } from 'jspdf';
+import { autoTable, type RowInput } from 'jspdf-autotable';
+import { formatCents } from '../money';
+import { formatReportDateRange } from '../reports/summary';
+import { type BillingAccount, type Invoice, InvoiceStatus } from '../schema';
+
+// Page margin in points
+const PAGE_MARGIN = 40;
+
+export interface InvoiceDocumentOptions {
+  organizationName?: string;
+  account?: Pick<BillingAccount, 'contactEmail'>;
+}
+
+// Draw the organization and customer blocks and the invoice details
+function drawInvoiceHeader(
+  doc: jsPDF,
+  invoice: Invoice,
+  options: InvoiceDocumentOptions
+): number {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = PAGE_MARGIN;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(options.organizationName || 'Invoice', PAGE_MARGIN, y);
+  doc.text(
+    invoice.status === InvoiceStatus.paid ? 'INVOICE (PAID)' : 'INVOICE',
+    pageWidth - PAGE_MARGIN,
+    y,
+    { align: 'right' }
+  );
+  y += 28;
+
+  doc.setFontSize(10);
+  doc.text('Bill to', PAGE_MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  doc.text(
+    [
+      `Invoice ${invoice.invoiceNumber}`,
+      `Issued ${format(invoice.issuedAt, 'MMM d, yyyy')}`,
+      `Due ${format(invoice.dueAt, 'MMM d, yyyy')}`,
+      ...(invoice.paidAt
+        ? [`Paid ${format(invoice.paidAt, 'MMM d, yyyy')}`]
+        : []),
+    ],
+    pageWidth - PAGE_MARGIN,
+    y,
+    { align: 'right' }
+  );
+  y += 14;
+
+  doc.text(
+    [
+      `${invoice.customerName} (${invoice.billTo})`,
+      ...(options.account?.contactEmail ? [options.account.contactEmail] : []),
+    ],
+    PAGE_MARGIN,
+    y
+  );
+  y += 40;
+
+  doc.setTextColor(100);
+  doc.text(
+    `Service period: ${formatReportDateRange(invoice.periodStart, invoice.periodEnd)}`,
+    PAGE_MARGIN,
+    y
+  );
+  doc.setTextColor(0);
+
+  return y + 16;
+}
+
+/**
+ * Render an invoice as a PDF: header with the invoice number and dates, one
+ * row per billed run, then the subtotal, surcharge and total.
+ */
+export function renderInvoicePDF(
+  invoice: Invoice,
+  options: InvoiceDocumentOptions = {}
+): Uint8Array {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'pt',
+    format: 'letter',
+  });
+
+  const startY = drawInvoiceHeader(doc, invoice, options);
+
+  const body: RowInput[] = (invoice.lineItems || []).map(item => [
+    format(item.serviceDate, 'MMM d, yyyy'),
+    item.description,
+    formatCents(item.amountCents, invoice.currency),
+  ]);
+
+  const foot: RowInput[] = [
+    ['', 'Subtotal', formatCents(invoice.subtotalCents, invoice.currency)],
+    ...(invoice.surchargeCents > 0
+      ? [
+          [
+            '',
+            `Surcharge (${invoice.surchargePercent}%)`,
+            formatCents(invoice.surchargeCents, invoice.currency),
+          ],
+        ]
+      : []),
+    ['', 'Total', formatCents(invoice.totalCents, invoice.currency)],
+  ];
+
+  autoTable(doc, {
+    head: [['Date', 'Description', 'Amount']],
+    body,
+    foot,
+    showHead: 'everyPage',
+    showFoot: 'lastPage',
+    startY,
+    margin: {
+      top: PAGE_MARGIN,
+      right: PAGE_MARGIN,
+      bottom: PAGE_MARGIN,
+      left: PAGE_MARGIN,
+    },
+    theme: 'striped',
+    styles: { fontSize: 9, cellPadding: 4, overflow: 'linebreak' },
+    headStyles: { fillColor: [37, 99, 235] },
+    footStyles: { fillColor: [229, 231, 235], textColor: 20 },
+    columnStyles: {
+      0: { cellWidth: 80 },
+      2: { halign: 'right', cellWidth: 80 },
+    },
+  });
+
+  return new Uint8Array(doc.output('arraybuffer'));
+}
@@ -0,0 +1,97 @@
+import { getRunLineItemsCents } from '../money';
+import { getRunPriceCents, toReportDate } from '../reports/summary';
+import {
+  type BillingAccount,
+  type Invoice,
+  type InvoiceLineItem,
+  InvoiceStatus,
+  type Run,
+} from '../schema';
+
+// A line item before it is saved with an invoice
+export type NewInvoiceLineItem = Omit<InvoiceLineItem, 'id' | 'invoiceId'>;
+
+export interface InvoiceTotals {
+  subtotalCents: number;
+  surchargeCents: number;
+  totalCents: number;
+}
+
+// Outcome of generating invoices for a period
+export interface InvoiceGenerationResult {
+  invoices: Invoice[];
+  // Bill to codes with no uninvoiced completed runs in the period
+  skippedBillTo: string[];
+  // Accounts whose invoice could not be created, e.g. because their runs
+  // are in more than one currency
+  failed: { billTo: string; error: string }[];
+}
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  [InvoiceStatus.unpaid]: 'Unpaid',
+  [InvoiceStatus.paid]: 'Paid',
+};
+
+// Round a dollar amount to whole cents
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Invoice number for an organization's nth invoice of a year, e.g. "INV-2025-0007"
+export function formatInvoiceNumber(year: number, sequence: number): string {
+  return `INV-${year}-${String(sequence).padStart(4, '0')}`;
+}
+
+// Amount billed for a run in cents: the account's flat rate (in the run's
+// currency), or the run's own price, plus the run's tips, tolls and surcharges
+export function getInvoiceRunAmountCents(
+  run: Run,
+  account: Pick<BillingAccount, 'ratePerRun'>
+): number {
+  const priceCents =
+    account.ratePerRun !== undefined
+      ? Math.round(account.ratePerRun * 100)
+      : getRunPriceCents(run);
+  return priceCents + getRunLineItemsCents(run);
+}
+
+// Line item description, e.g. "Pickup DL1234 from SLC Airport to Hotel Jackson".
+// Plain text only: the standard PDF fonts have no arrows or other symbols.
+export function describeInvoiceRun(run: Run): string {
+  const type = run.type === 'dropoff' ? 'Dropoff' : 'Pickup';
+  return `${type} ${run.flightNumber} from ${run.pickupLocation} to ${run.dropoffLocation}`;
+}
+
+// One line item per run, in scheduled order
+export function buildInvoiceLineItems(
+  runs: Run[],
+  account: Pick<BillingAccount, 'ratePerRun'>
+): NewInvoiceLineItem[] {
+  return runs
+    .map(run => ({
+      runId: run.id,
+      description: describeInvoiceRun(run),
+      serviceDate: toReportDate(run.scheduledTime) ?? new Date(),
+      amountCents: getInvoiceRunAmountCents(run, account),
+    }))
+    .sort((a, b) => a.serviceDate.getTime() - b.serviceDate.getTime());
+}
+
+// Subtotal of the line items plus the account's percentage surcharge, in
+// cents
+export function calculateInvoiceTotals(
+  lineItems: Pick<InvoiceLineItem, 'amountCents'>[],
+  surchargePercent: number
+): InvoiceTotals {
+  const subtotalCents = lineItems.reduce(
+    (sum, item) => sum + item.amountCents,
+    0
+  );
+  const surchargeCents = Math.round((subtotalCents * surchargePercent) / 100);
+
+  return {
+    subtotalCents,
+    surchargeCents,
+    totalCents: subtotalCents + surchargeCents,
+  };
+}
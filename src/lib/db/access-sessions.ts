@@ -0,0 +1,239 @@
+import { createHash } from 'crypto';
+import { getDatabase, handleDatabaseError } from './index';
+
+// A password gate session, without its token
+export interface AccessSession {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+}
+
+export interface AccessSessionForm {
+  token: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  expiresAt: Date;
+}
+
+const ACCESS_SESSION_COLUMNS = `
+  id, ip_address, user_agent, created_at, last_seen_at, expires_at
+`;
+
+function mapAccessSessionRow(row: any): AccessSession {
+  return {
+    id: row.id,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+// Only a hash of the cookie token is stored, so the table can't be used to
+// hijack sessions
+function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Open a session for a cookie token
+export async function createAccessSession(
+  sessionData: AccessSessionForm
+): Promise<AccessSession> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `INSERT INTO access_sessions (
+        id, token_hash, ip_address, user_agent, expires_at
+      ) VALUES ($1, $2, $3, $4, $5)
+      RETURNING ${ACCESS_SESSION_COLUMNS}`,
+      [
+        crypto.randomUUID(),
+        hashSessionToken(sessionData.token),
+        sessionData.ipAddress,
+        sessionData.userAgent,
+        sessionData.expiresAt,
+      ]
+    );
+
+    console.log(`✅ Created access session: ${result.rows[0].id}`);
+    return mapAccessSessionRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'create access session');
+    throw new Error('Failed to create access session');
+  }
+}
+
+// Record that a cookie token's session was used. Returns false when it has
+// no session, or its session expired or was revoked.
+export async function touchAccessSession(token: string): Promise<boolean> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `UPDATE access_sessions SET last_seen_at = NOW()
+       WHERE token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+      [hashSessionToken(token)]
+    );
+
+    return result.rowCount !== null && result.rowCount > 0;
+  } catch (error) {
+    handleDatabaseError(error, 'touch access session');
+    return false;
+  }
+}
+
+// Get sessions that haven't expired or been revoked, most recently seen first
+export async function getActiveAccessSessions(): Promise<AccessSession[]> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `SELECT ${ACCESS_SESSION_COLUMNS} FROM access_sessions
+       WHERE revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_seen_at DESC`
+    );
+
+    return result.rows.map(mapAccessSessionRow);
+  } catch (error) {
+    handleDatabaseError(error, 'get active access sessions');
+    return [];
+  }
+}
+
+// Revoke a session by ID, recording who revoked it
+export async function revokeAccessSession(
+  id: string,
+  revokedBy: string
+): Promise<boolean> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `UPDATE access_sessions SET revoked_at = NOW(), revoked_by = $2
+       WHERE id = $1 AND revoked_at IS NULL`,
+      [id, revokedBy]
+    );
+
+    const success = result.rowCount !== null && result.rowCount > 0;
+
+    if (success) {
+      console.log(`✅ Revoked access session: ${id}`);
+    } else {
+      console.log(`⚠️ Access session not found or already revoked: ${id}`);
+    }
+
+    return success;
+  } catch (error) {
+    handleDatabaseError(error, 'revoke access session');
+    return false;
+  }
+}
+
+// End a cookie token's session, e.g. on logout
+export async function revokeAccessSessionByToken(token: string): Promise<void> {
+  try {
+    const db = getDatabase();
+
+    await db.query(
+      `UPDATE access_sessions SET revoked_at = NOW()
+       WHERE token_hash = $1 AND revoked_at IS NULL`,
+      [hashSessionToken(token)]
+    );
+  } catch (error) {
+    handleDatabaseError(error, 'revoke access session by token');
+  }
+}
+
+// Delete sessions that expired or were revoked, and wrong passwords made,
+// more than a day ago
+export async function deleteStaleAccessSessions(): Promise<void> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `DELETE FROM access_sessions
+       WHERE expires_at < NOW() - INTERVAL '1 day'
+          OR revoked_at < NOW() - INTERVAL '1 day'`
+    );
+    await db.query(
+      `DELETE FROM password_failures
+       WHERE attempted_at < NOW() - INTERVAL '1 day'`
+    );
+
+    if (result.rowCount && result.rowCount > 0) {
+      console.log(`🧹 Cleaned up ${result.rowCount} stale access sessions`);
+    }
+  } catch (error) {
+    handleDatabaseError(error, 'access session cleanup');
+  }
+}
+
+/**
+ * Count a password attempt from an IP address against its limit. Attempts
+ * from one address are serialized with an advisory lock, so a burst of
+ * parallel requests can't all get in under the limit before any is counted.
+ * Returns whether the attempt may be checked: if so it's recorded as a wrong
+ * password until clearPasswordFailures says otherwise. When the address is
+ * locked out nothing is recorded, and lastAttemptAt is when its last wrong
+ * password was.
+ */
+export async function recordPasswordAttempt(
+  ipAddress: string,
+  since: Date,
+  maxAttempts: number
+): Promise<{ allowed: boolean; lastAttemptAt: Date | null }> {
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+      `password_failures:${ipAddress}`,
+    ]);
+
+    const result = await client.query(
+      `SELECT COUNT(*) AS count, MAX(attempted_at) AS last_attempt_at
+       FROM password_failures
+       WHERE ip_address = $1 AND attempted_at > $2`,
+      [ipAddress, since]
+    );
+    const count = parseInt(result.rows[0].count);
+    const lastAttemptAt: Date | null = result.rows[0].last_attempt_at;
+
+    if (count >= maxAttempts) {
+      await client.query('COMMIT');
+      return { allowed: false, lastAttemptAt };
+    }
+
+    await client.query(
+      'INSERT INTO password_failures (id, ip_address) VALUES ($1, $2)',
+      [crypto.randomUUID(), ipAddress]
+    );
+    await client.query('COMMIT');
+
+    return { allowed: true, lastAttemptAt };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    handleDatabaseError(error, 'record password attempt');
+    throw new Error('Failed to record password attempt');
+  } finally {
+    client.release();
+  }
+}
+
+// Forget an IP address's wrong passwords once it gets in
+export async function clearPasswordFailures(ipAddress: string): Promise<void> {
+  try {
+    const db = getDatabase();
+
+    await db.query('DELETE FROM password_failures WHERE ip_address = $1', [
+      ipAddress,
+    ]);
+  } catch (error) {
+    handleDatabaseError(error, 'clear password failures');
+  }
+}
@@ -0,0 +1,141 @@
+import { createHash, randomBytes } from 'crypto';
+import { type ApiToken, type ApiTokenForm } from '../schema';
+import { getDatabase, handleDatabaseError } from './index';
+
+// Every API token starts with this, so the API server can tell one from a
+// Clerk session token
+export const API_TOKEN_PREFIX = 'tt_';
+
+// Characters of a token kept in the clear, including the prefix
+const TOKEN_PREFIX_LENGTH = 10;
+
+const API_TOKEN_COLUMNS = `
+  id, organization_id, name, token_prefix, scopes, created_by, created_at,
+  last_used_at
+`;
+
+function mapApiTokenRow(row: any): ApiToken {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    name: row.name,
+    tokenPrefix: row.token_prefix,
+    scopes: Array.isArray(row.scopes) ? row.scopes : [],
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+  };
+}
+
+// Only a hash of each token is stored, so the table can't be used to call
+// the API
+function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Create a token for an organization. The token itself is only returned
+// here; it can't be looked up again.
+export async function createApiToken(
+  organizationId: string,
+  tokenData: ApiTokenForm,
+  createdBy: string
+): Promise<{ apiToken: ApiToken; token: string }> {
+  try {
+    const db = getDatabase();
+    const token = API_TOKEN_PREFIX + randomBytes(32).toString('base64url');
+
+    const result = await db.query(
+      `INSERT INTO api_tokens (
+        id, organization_id, name, token_prefix, token_hash, scopes,
+        created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING ${API_TOKEN_COLUMNS}`,
+      [
+        crypto.randomUUID(),
+        organizationId,
+        tokenData.name,
+        token.slice(0, TOKEN_PREFIX_LENGTH),
+        hashApiToken(token),
+        JSON.stringify(tokenData.scopes),
+        createdBy,
+      ]
+    );
+
+    console.log(`✅ Created API token: ${result.rows[0].id}`);
+    return { apiToken: mapApiTokenRow(result.rows[0]), token };
+  } catch (error) {
+    handleDatabaseError(error, 'create API token');
+    throw new Error('Failed to create API token');
+  }
+}
+
+// Get an organization's tokens that haven't been revoked, newest first
+export async function getApiTokens(
+  organizationId: string
+): Promise<ApiToken[]> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `SELECT ${API_TOKEN_COLUMNS} FROM api_tokens
+       WHERE organization_id = $1 AND revoked_at IS NULL
+       ORDER BY created_at DESC`,
+      [organizationId]
+    );
+
+    return result.rows.map(mapApiTokenRow);
+  } catch (error) {
+    handleDatabaseError(error, 'get API tokens');
+    return [];
+  }
+}
+
+// Look up the token a request was made with, recording that it was used.
+// Returns null for unknown and revoked tokens.
+export async function touchApiToken(token: string): Promise<ApiToken | null> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `UPDATE api_tokens SET last_used_at = NOW()
+       WHERE token_hash = $1 AND revoked_at IS NULL
+       RETURNING ${API_TOKEN_COLUMNS}`,
+      [hashApiToken(token)]
+    );
+
+    return result.rows.length > 0 ? mapApiTokenRow(result.rows[0]) : null;
+  } catch (error) {
+    handleDatabaseError(error, 'touch API token');
+    return null;
+  }
+}
+
+// Revoke one of an organization's tokens, recording who revoked it
+export async function revokeApiToken(
+  id: string,
+  organizationId: string,
+  revokedBy: string
+): Promise<boolean> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `UPDATE api_tokens SET revoked_at = NOW(), revoked_by = $3
+       WHERE id = $1 AND organization_id = $2 AND revoked_at IS NULL`,
+      [id, organizationId, revokedBy]
+    );
+
+    const success = result.rowCount !== null && result.rowCount > 0;
+
+    if (success) {
+      console.log(`✅ Revoked API token: ${id}`);
+    } else {
+      console.log(`⚠️ API token not found or already revoked: ${id}`);
+    }
+
+    return success;
+  } catch (error) {
+    handleDatabaseError(error, 'revoke API token');
+    return false;
+  }
+}
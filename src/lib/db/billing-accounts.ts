@@ -0,0 +1,248 @@
+import { type BillingAccount, type BillingAccountForm } from '../schema';
+import { getDatabase, handleDatabaseError } from './index';
+
+export interface BillingAccountsQuery {
+  organizationId?: string;
+  isActive?: boolean;
+}
+
+const BILLING_ACCOUNT_COLUMNS = `
+  id, organization_id, bill_to, name, contact_email, rate_per_run,
+  surcharge_percent, payment_terms_days, is_active, created_by, created_at,
+  updated_at
+`;
+
+// Map a billing_accounts row to a BillingAccount; NUMERIC columns come back
+// from pg as strings
+function mapBillingAccountRow(row: any): BillingAccount {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    billTo: row.bill_to,
+    name: row.name,
+    contactEmail: row.contact_email || undefined,
+    ratePerRun:
+      row.rate_per_run !== null && row.rate_per_run !== undefined
+        ? Number(row.rate_per_run)
+        : undefined,
+    surchargePercent: Number(row.surcharge_percent) || 0,
+    paymentTermsDays: row.payment_terms_days,
+    isActive: row.is_active,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Create a new billing account
+export async function createBillingAccount(
+  accountData: BillingAccountForm
+): Promise<BillingAccount> {
+  if (!accountData.organizationId) {
+    throw new Error('Organization ID is required');
+  }
+
+  if (!accountData.createdBy) {
+    throw new Error('Created by user ID is required');
+  }
+
+  try {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    const result = await db.query(
+      `INSERT INTO billing_accounts (
+        id, organization_id, bill_to, name, contact_email, rate_per_run,
+        surcharge_percent, payment_terms_days, is_active, created_by,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING ${BILLING_ACCOUNT_COLUMNS}`,
+      [
+        crypto.randomUUID(),
+        accountData.organizationId,
+        accountData.billTo,
+        accountData.name,
+        accountData.contactEmail || null,
+        accountData.ratePerRun ?? null,
+        accountData.surchargePercent,
+        accountData.paymentTermsDays,
+        accountData.isActive,
+        accountData.createdBy,
+        now,
+        now,
+      ]
+    );
+
+    console.log(`✅ Created billing account: ${result.rows[0].id}`);
+    return mapBillingAccountRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'create billing account');
+    throw new Error('Failed to create billing account');
+  }
+}
+
+// Get billing accounts with optional filtering, ordered by bill to code
+export async function getBillingAccounts(
+  query: BillingAccountsQuery = {}
+): Promise<BillingAccount[]> {
+  try {
+    const db = getDatabase();
+    const { organizationId, isActive } = query;
+
+    let sql = `SELECT ${BILLING_ACCOUNT_COLUMNS} FROM billing_accounts`;
+
+    const conditions: string[] = [];
+    const args: any[] = [];
+
+    if (organizationId) {
+      conditions.push(`organization_id = $${args.length + 1}`);
+      args.push(organizationId);
+    }
+
+    if (isActive !== undefined) {
+      conditions.push(`is_active = $${args.length + 1}`);
+      args.push(isActive);
+    }
+
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
+
+    sql += ' ORDER BY bill_to ASC';
+
+    const result = await db.query(sql, args);
+
+    return result.rows.map(mapBillingAccountRow);
+  } catch (error) {
+    handleDatabaseError(error, 'get billing accounts');
+    return [];
+  }
+}
+
+// Get a single billing account by ID
+export async function getBillingAccountById(
+  id: string,
+  organizationId?: string
+): Promise<BillingAccount | null> {
+  try {
+    const db = getDatabase();
+
+    let sql = `SELECT ${BILLING_ACCOUNT_COLUMNS} FROM billing_accounts WHERE id = $1`;
+    const args = [id];
+
+    if (organizationId) {
+      sql += ' AND organization_id = $2';
+      args.push(organizationId);
+    }
+
+    const result = await db.query(sql, args);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return mapBillingAccountRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'get billing account by id');
+    return null;
+  }
+}
+
+// Get the organization's billing account for a bill to code
+export async function getBillingAccountByBillTo(
+  billTo: string,
+  organizationId: string
+): Promise<BillingAccount | null> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `SELECT ${BILLING_ACCOUNT_COLUMNS} FROM billing_accounts
+       WHERE bill_to = $1 AND organization_id = $2`,
+      [billTo.toUpperCase(), organizationId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return mapBillingAccountRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'get billing account by bill to');
+    return null;
+  }
+}
+
+// Update a billing account
+export async function updateBillingAccount(
+  id: string,
+  accountData: BillingAccountForm,
+  organizationId: string
+): Promise<BillingAccount | null> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `UPDATE billing_accounts
+       SET bill_to = $1, name = $2, contact_email = $3, rate_per_run = $4,
+           surcharge_percent = $5, payment_terms_days = $6, is_active = $7,
+           updated_at = $8
+       WHERE id = $9 AND organization_id = $10
+       RETURNING ${BILLING_ACCOUNT_COLUMNS}`,
+      [
+        accountData.billTo,
+        accountData.name,
+        accountData.contactEmail || null,
+        accountData.ratePerRun ?? null,
+        accountData.surchargePercent,
+        accountData.paymentTermsDays,
+        accountData.isActive,
+        new Date().toISOString(),
+        id,
+        organizationId,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return null; // Account not found or access denied
+    }
+
+    console.log(`✅ Updated billing account: ${id}`);
+    return mapBillingAccountRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'update billing account');
+    return null;
+  }
+}
+
+// Delete a billing account; fails for accounts that have invoices
+export async function deleteBillingAccount(
+  id: string,
+  organizationId: string
+): Promise<boolean> {
+  if (!id || !organizationId) {
+    throw new Error('Billing account ID and Organization ID are required');
+  }
+
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      'DELETE FROM billing_accounts WHERE id = $1 AND organization_id = $2',
+      [id, organizationId]
+    );
+
+    const success = result.rowCount !== null && result.rowCount > 0;
+
+    if (success) {
+      console.log(`✅ Deleted billing account: ${id}`);
+    } else {
+      console.log(`⚠️ Billing account not found or access denied: ${id}`);
+    }
+
+    return success;
+  } catch (error) {
+    handleDatabaseError(error, 'delete billing account');
+    return false;
+  }
+}
@@ -0,0 +1,184 @@
+import {
+  type DriverAvailabilityBlock,
+  type DriverAvailabilityBlockForm,
+} from '../schema';
+import { getDatabase, handleDatabaseError } from './index';
+
+export interface DriverAvailabilityQuery {
+  organizationId: string;
+  driverIds?: string[];
+  // Only time off overlapping the window is returned; shifts repeat so they
+  // are always included
+  from?: Date;
+  to?: Date;
+}
+
+const DRIVER_AVAILABILITY_COLUMNS = `
+  id, organization_id, driver_id, kind, weekday, start_time, end_time,
+  starts_at, ends_at, timezone, note, created_by, created_at, updated_at
+`;
+
+function mapDriverAvailabilityRow(row: any): DriverAvailabilityBlock {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    driverId: row.driver_id,
+    kind: row.kind,
+    weekday: row.weekday,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    timezone: row.timezone,
+    note: row.note || undefined,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Add a shift, day off or blackout to a driver's calendar
+export async function createDriverAvailabilityBlock(
+  blockData: DriverAvailabilityBlockForm
+): Promise<DriverAvailabilityBlock> {
+  if (!blockData.organizationId || !blockData.driverId) {
+    throw new Error('Organization ID and Driver ID are required');
+  }
+
+  const isShift = blockData.kind === 'shift';
+
+  try {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    const result = await db.query(
+      `INSERT INTO driver_availability (
+        id, organization_id, driver_id, kind, weekday, start_time, end_time,
+        starts_at, ends_at, timezone, note, created_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      RETURNING ${DRIVER_AVAILABILITY_COLUMNS}`,
+      [
+        crypto.randomUUID(),
+        blockData.organizationId,
+        blockData.driverId,
+        blockData.kind,
+        isShift ? blockData.weekday : null,
+        isShift ? blockData.startTime : null,
+        isShift ? blockData.endTime : null,
+        isShift ? null : blockData.startsAt,
+        isShift ? null : blockData.endsAt,
+        blockData.timezone,
+        blockData.note || null,
+        blockData.createdBy,
+        now,
+        now,
+      ]
+    );
+
+    console.log(`✅ Created driver availability block: ${result.rows[0].id}`);
+    return mapDriverAvailabilityRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'create driver availability block');
+    throw new Error('Failed to create driver availability block');
+  }
+}
+
+// Get the organization's availability blocks, shifts first then by start
+export async function getDriverAvailabilityBlocks(
+  query: DriverAvailabilityQuery
+): Promise<DriverAvailabilityBlock[]> {
+  try {
+    const db = getDatabase();
+    const { organizationId, driverIds, from, to } = query;
+
+    const conditions: string[] = ['organization_id = $1'];
+    const args: any[] = [organizationId];
+
+    if (driverIds) {
+      if (driverIds.length === 0) {
+        return [];
+      }
+      conditions.push(`driver_id = ANY($${args.length + 1})`);
+      args.push(driverIds);
+    }
+
+    if (from) {
+      conditions.push(`(kind = 'shift' OR ends_at > $${args.length + 1})`);
+      args.push(from);
+    }
+
+    if (to) {
+      conditions.push(`(kind = 'shift' OR starts_at < $${args.length + 1})`);
+      args.push(to);
+    }
+
+    const result = await db.query(
+      `SELECT ${DRIVER_AVAILABILITY_COLUMNS} FROM driver_availability
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY weekday ASC NULLS LAST, start_time ASC, starts_at ASC`,
+      args
+    );
+
+    return result.rows.map(mapDriverAvailabilityRow);
+  } catch (error) {
+    handleDatabaseError(error, 'get driver availability blocks');
+    return [];
+  }
+}
+
+// Get a single availability block by ID
+export async function getDriverAvailabilityBlockById(
+  id: string,
+  organizationId: string
+): Promise<DriverAvailabilityBlock | null> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `SELECT ${DRIVER_AVAILABILITY_COLUMNS} FROM driver_availability
+       WHERE id = $1 AND organization_id = $2`,
+      [id, organizationId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return mapDriverAvailabilityRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'get driver availability block by id');
+    return null;
+  }
+}
+
+// Remove a block from a driver's calendar
+export async function deleteDriverAvailabilityBlock(
+  id: string,
+  organizationId: string
+): Promise<boolean> {
+  if (!id || !organizationId) {
+    throw new Error('Block ID and Organization ID are required');
+  }
+
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      'DELETE FROM driver_availability WHERE id = $1 AND organization_id = $2',
+      [id, organizationId]
+    );
+
+    const success = result.rowCount !== null && result.rowCount > 0;
+
+    if (success) {
+      console.log(`✅ Deleted driver availability block: ${id}`);
+    } else {
+      console.log(`⚠️ Availability block not found or access denied: ${id}`);
+    }
+
+    return success;
+  } catch (error) {
+    handleDatabaseError(error, 'delete driver availability block');
+    return false;
+  }
+}
@@ -0,0 +1,110 @@
+import {
+  DriverPayType,
+  type DriverPaySettings,
+  type DriverPaySettingsForm,
+  PayPeriodFrequency,
+} from '../schema';
+import { getDatabase, handleDatabaseError } from './index';
+
+const DRIVER_PAY_SETTINGS_COLUMNS = `
+  organization_id, pay_type, commission_percent, flat_rate, pay_period,
+  TO_CHAR(period_anchor, 'YYYY-MM-DD') AS period_anchor, timezone,
+  mileage_rate, updated_by, created_at, updated_at
+`;
+
+// Map a driver_pay_settings row to DriverPaySettings; NUMERIC columns come
+// back from pg as strings
+function mapDriverPaySettingsRow(row: any): DriverPaySettings {
+  return {
+    organizationId: row.organization_id,
+    payType: (row.pay_type as DriverPayType) || DriverPayType.commission,
+    commissionPercent: Number(row.commission_percent),
+    flatRate: Number(row.flat_rate),
+    payPeriod:
+      (row.pay_period as PayPeriodFrequency) || PayPeriodFrequency.weekly,
+    periodAnchor: row.period_anchor,
+    timezone: row.timezone,
+    mileageRate: Number(row.mileage_rate),
+    updatedBy: row.updated_by || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Get an organization's driver pay settings, or null if none have been saved
+export async function getDriverPaySettings(
+  organizationId: string
+): Promise<DriverPaySettings | null> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `SELECT ${DRIVER_PAY_SETTINGS_COLUMNS} FROM driver_pay_settings
+       WHERE organization_id = $1`,
+      [organizationId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return mapDriverPaySettingsRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'get driver pay settings');
+    return null;
+  }
+}
+
+// Create or replace an organization's driver pay settings
+export async function saveDriverPaySettings(
+  settingsData: DriverPaySettingsForm
+): Promise<DriverPaySettings> {
+  if (!settingsData.organizationId) {
+    throw new Error('Organization ID is required');
+  }
+
+  try {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    const result = await db.query(
+      `INSERT INTO driver_pay_settings (
+        organization_id, pay_type, commission_percent, flat_rate, pay_period,
+        period_anchor, timezone, mileage_rate, updated_by, created_at,
+        updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (organization_id) DO UPDATE SET
+        pay_type = EXCLUDED.pay_type,
+        commission_percent = EXCLUDED.commission_percent,
+        flat_rate = EXCLUDED.flat_rate,
+        pay_period = EXCLUDED.pay_period,
+        period_anchor = EXCLUDED.period_anchor,
+        timezone = EXCLUDED.timezone,
+        mileage_rate = EXCLUDED.mileage_rate,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = EXCLUDED.updated_at
+      RETURNING ${DRIVER_PAY_SETTINGS_COLUMNS}`,
+      [
+        settingsData.organizationId,
+        settingsData.payType,
+        settingsData.commissionPercent,
+        settingsData.flatRate,
+        settingsData.payPeriod,
+        settingsData.periodAnchor,
+        settingsData.timezone,
+        settingsData.mileageRate,
+        settingsData.updatedBy,
+        now,
+        now,
+      ]
+    );
+
+    console.log(
+      `✅ Saved driver pay settings for organization: ${settingsData.organizationId}`
+    );
+    return mapDriverPaySettingsRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'save driver pay settings');
+    throw new Error('Failed to save driver pay settings');
+  }
+}
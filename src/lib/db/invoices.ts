@@ -0,0 +1,356 @@
+import {
+  formatInvoiceNumber,
+  type NewInvoiceLineItem,
+} from '../billing/invoices';
+import { type Invoice, type InvoiceLineItem, InvoiceStatus } from '../schema';
+import { getDatabase, handleDatabaseError } from './index';
+
+export interface InvoicesQuery {
+  organizationId?: string;
+  billingAccountId?: string;
+  status?: InvoiceStatus;
+  limit?: number;
+  offset?: number;
+}
+
+// Invoice fields supplied by the generator; the number, status and
+// timestamps are assigned when the invoice is saved
+export type NewInvoice = Omit<
+  Invoice,
+  | 'id'
+  | 'invoiceNumber'
+  | 'status'
+  | 'paidAt'
+  | 'lineItems'
+  | 'createdAt'
+  | 'updatedAt'
+>;
+
+const INVOICE_COLUMNS = `
+  id, organization_id, billing_account_id, invoice_number, bill_to,
+  customer_name, period_start, period_end, issued_at, due_at, status, paid_at,
+  run_count, currency, subtotal_cents, surcharge_percent, surcharge_cents,
+  total_cents, created_by, created_at, updated_at
+`;
+
+const INVOICE_LINE_ITEM_COLUMNS =
+  'id, invoice_id, run_id, description, service_date, amount_cents';
+
+// Map an invoices row to an Invoice; NUMERIC columns come back from pg as
+// strings
+function mapInvoiceRow(row: any): Invoice {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    billingAccountId: row.billing_account_id,
+    invoiceNumber: row.invoice_number,
+    billTo: row.bill_to,
+    customerName: row.customer_name,
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+    issuedAt: row.issued_at,
+    dueAt: row.due_at,
+    status: (row.status as InvoiceStatus) || InvoiceStatus.unpaid,
+    paidAt: row.paid_at || undefined,
+    runCount: row.run_count,
+    currency: row.currency,
+    subtotalCents: row.subtotal_cents,
+    surchargePercent: Number(row.surcharge_percent) || 0,
+    surchargeCents: row.surcharge_cents,
+    totalCents: row.total_cents,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Map an invoice_line_items row to an InvoiceLineItem
+function mapInvoiceLineItemRow(row: any): InvoiceLineItem {
+  return {
+    id: row.id,
+    invoiceId: row.invoice_id,
+    runId: row.run_id || undefined,
+    description: row.description,
+    serviceDate: row.service_date,
+    amountCents: row.amount_cents,
+  };
+}
+
+/**
+ * Save an invoice and its line items in one transaction. The invoice number
+ * is taken from the organization's counter for the year the invoice is
+ * issued, so numbers are sequential and never reused. Fails if any of the
+ * runs is already on another invoice.
+ */
+export async function createInvoice(
+  invoiceData: NewInvoice,
+  lineItems: NewInvoiceLineItem[]
+): Promise<Invoice> {
+  if (!invoiceData.organizationId) {
+    throw new Error('Organization ID is required');
+  }
+
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const year = invoiceData.issuedAt.getUTCFullYear();
+    const counter = await client.query(
+      `INSERT INTO invoice_counters (organization_id, year, last_number)
+       VALUES ($1, $2, 1)
+       ON CONFLICT (organization_id, year)
+       DO UPDATE SET last_number = invoice_counters.last_number + 1
+       RETURNING last_number`,
+      [invoiceData.organizationId, year]
+    );
+    const invoiceNumber = formatInvoiceNumber(
+      year,
+      counter.rows[0].last_number
+    );
+
+    const now = new Date().toISOString();
+    const result = await client.query(
+      `INSERT INTO invoices (
+        id, organization_id, billing_account_id, invoice_number, bill_to,
+        customer_name, period_start, period_end, issued_at, due_at, status,
+        run_count, currency, subtotal_cents, surcharge_percent,
+        surcharge_cents, total_cents, created_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+      RETURNING ${INVOICE_COLUMNS}`,
+      [
+        crypto.randomUUID(),
+        invoiceData.organizationId,
+        invoiceData.billingAccountId,
+        invoiceNumber,
+        invoiceData.billTo,
+        invoiceData.customerName,
+        invoiceData.periodStart,
+        invoiceData.periodEnd,
+        invoiceData.issuedAt,
+        invoiceData.dueAt,
+        InvoiceStatus.unpaid,
+        invoiceData.runCount,
+        invoiceData.currency,
+        invoiceData.subtotalCents,
+        invoiceData.surchargePercent,
+        invoiceData.surchargeCents,
+        invoiceData.totalCents,
+        invoiceData.createdBy,
+        now,
+        now,
+      ]
+    );
+    const invoice = mapInvoiceRow(result.rows[0]);
+
+    const savedLineItems: InvoiceLineItem[] = [];
+    for (const lineItem of lineItems) {
+      const lineResult = await client.query(
+        `INSERT INTO invoice_line_items (
+          id, invoice_id, run_id, description, service_date, amount_cents
+        ) VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING ${INVOICE_LINE_ITEM_COLUMNS}`,
+        [
+          crypto.randomUUID(),
+          invoice.id,
+          lineItem.runId || null,
+          lineItem.description,
+          lineItem.serviceDate,
+          lineItem.amountCents,
+        ]
+      );
+      savedLineItems.push(mapInvoiceLineItemRow(lineResult.rows[0]));
+    }
+
+    await client.query('COMMIT');
+
+    console.log(
+      `✅ Created invoice ${invoice.invoiceNumber} with ${savedLineItems.length} runs`
+    );
+    return { ...invoice, lineItems: savedLineItems };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    handleDatabaseError(error, 'create invoice');
+    throw new Error('Failed to create invoice');
+  } finally {
+    client.release();
+  }
+}
+
+// Get invoices with optional filtering, newest first (without line items)
+export async function getInvoices(
+  query: InvoicesQuery = {}
+): Promise<Invoice[]> {
+  try {
+    const db = getDatabase();
+    const {
+      organizationId,
+      billingAccountId,
+      status,
+      limit = 50,
+      offset = 0,
+    } = query;
+
+    let sql = `SELECT ${INVOICE_COLUMNS} FROM invoices`;
+
+    const conditions: string[] = [];
+    const args: any[] = [];
+
+    if (organizationId) {
+      conditions.push(`organization_id = $${args.length + 1}`);
+      args.push(organizationId);
+    }
+
+    if (billingAccountId) {
+      conditions.push(`billing_account_id = $${args.length + 1}`);
+      args.push(billingAccountId);
+    }
+
+    if (status) {
+      conditions.push(`status = $${args.length + 1}`);
+      args.push(status);
+    }
+
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
+
+    sql += ' ORDER BY issued_at DESC, invoice_number DESC';
+    sql += ` LIMIT $${args.length + 1} OFFSET $${args.length + 2}`;
+    args.push(limit, offset);
+
+    const result = await db.query(sql, args);
+
+    return result.rows.map(mapInvoiceRow);
+  } catch (error) {
+    handleDatabaseError(error, 'get invoices');
+    return [];
+  }
+}
+
+// Get a single invoice by ID, with its line items
+export async function getInvoiceById(
+  id: string,
+  organizationId?: string
+): Promise<Invoice | null> {
+  try {
+    const db = getDatabase();
+
+    let sql = `SELECT ${INVOICE_COLUMNS} FROM invoices WHERE id = $1`;
+    const args = [id];
+
+    if (organizationId) {
+      sql += ' AND organization_id = $2';
+      args.push(organizationId);
+    }
+
+    const result = await db.query(sql, args);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const lineItems = await db.query(
+      `SELECT ${INVOICE_LINE_ITEM_COLUMNS}
+       FROM invoice_line_items
+       WHERE invoice_id = $1
+       ORDER BY service_date ASC`,
+      [id]
+    );
+
+    return {
+      ...mapInvoiceRow(result.rows[0]),
+      lineItems: lineItems.rows.map(mapInvoiceLineItemRow),
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'get invoice by id');
+    return null;
+  }
+}
+
+// Count the invoices issued to a billing account
+export async function countInvoicesForBillingAccount(
+  billingAccountId: string
+): Promise<number> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      'SELECT COUNT(*) AS count FROM invoices WHERE billing_account_id = $1',
+      [billingAccountId]
+    );
+
+    return parseInt(result.rows[0].count, 10);
+  } catch (error) {
+    handleDatabaseError(error, 'count invoices for billing account');
+    return 0;
+  }
+}
+
+// Mark an invoice paid (stamping paid_at) or back to unpaid
+export async function updateInvoiceStatus(
+  id: string,
+  status: InvoiceStatus,
+  organizationId: string
+): Promise<Invoice | null> {
+  try {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    const result = await db.query(
+      `UPDATE invoices
+       SET status = $1, paid_at = $2, updated_at = $3
+       WHERE id = $4 AND organization_id = $5
+       RETURNING ${INVOICE_COLUMNS}`,
+      [
+        status,
+        status === InvoiceStatus.paid ? now : null,
+        now,
+        id,
+        organizationId,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return null; // Invoice not found or access denied
+    }
+
+    console.log(`✅ Marked invoice ${id} ${status}`);
+    return mapInvoiceRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'update invoice status');
+    return null;
+  }
+}
+
+// Delete an unpaid invoice, releasing its runs to be invoiced again
+export async function deleteInvoice(
+  id: string,
+  organizationId: string
+): Promise<boolean> {
+  if (!id || !organizationId) {
+    throw new Error('Invoice ID and Organization ID are required');
+  }
+
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      'DELETE FROM invoices WHERE id = $1 AND organization_id = $2 AND status = $3',
+      [id, organizationId, InvoiceStatus.unpaid]
+    );
+
+    const success = result.rowCount !== null && result.rowCount > 0;
+
+    if (success) {
+      console.log(`✅ Deleted invoice: ${id}`);
+    } else {
+      console.log(`⚠️ Unpaid invoice not found or access denied: ${id}`);
+    }
+
+    return success;
+  } catch (error) {
+    handleDatabaseError(error, 'delete invoice');
+    return false;
+  }
+}
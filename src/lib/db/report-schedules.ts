@@ -0,0 +1,357 @@
+import { getNextReportScheduleRun } from '../reports/schedule';
+import {
+  type ReportFormat,
+  type ReportSchedule,
+  type ReportScheduleForm,
+  ReportScheduleFrequency,
+} from '../schema';
+import { getDatabase, handleDatabaseError } from './index';
+
+export interface ReportSchedulesQuery {
+  organizationId?: string;
+  templateId?: string;
+  isActive?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+// Outcome of a scheduled run, recorded on the schedule
+export interface ReportScheduleRunResult {
+  lastRunAt: Date;
+  lastReportId?: string;
+  lastError?: string;
+}
+
+const REPORT_SCHEDULE_COLUMNS = `
+  id, name, organization_id, template_id, frequency, day_of_week,
+  day_of_month, hour, timezone, format, recipients, is_active, next_run_at,
+  last_run_at, last_report_id, last_error, created_by, created_at, updated_at
+`;
+
+// Parse the recipients column of a report_schedules row
+function parseRecipients(row: any): string[] {
+  if (Array.isArray(row.recipients)) {
+    return row.recipients;
+  }
+
+  try {
+    return JSON.parse(row.recipients || '[]');
+  } catch (parseError) {
+    console.error(
+      `❌ JSON parse error for schedule ${row.id} recipients:`,
+      parseError
+    );
+    return [];
+  }
+}
+
+// Map a report_schedules row to a ReportSchedule
+function mapReportScheduleRow(row: any): ReportSchedule {
+  return {
+    id: row.id,
+    name: row.name,
+    organizationId: row.organization_id,
+    templateId: row.template_id,
+    frequency:
+      (row.frequency as ReportScheduleFrequency) ||
+      ReportScheduleFrequency.weekly,
+    dayOfWeek: row.day_of_week,
+    dayOfMonth: row.day_of_month,
+    hour: row.hour,
+    timezone: row.timezone,
+    format: (row.format as ReportFormat) || undefined,
+    recipients: parseRecipients(row),
+    isActive: row.is_active,
+    nextRunAt: row.next_run_at,
+    lastRunAt: row.last_run_at || undefined,
+    lastReportId: row.last_report_id || undefined,
+    lastError: row.last_error || undefined,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Create a new report schedule
+export async function createReportSchedule(
+  scheduleData: ReportScheduleForm
+): Promise<ReportSchedule> {
+  if (!scheduleData.organizationId) {
+    throw new Error('Organization ID is required');
+  }
+
+  if (!scheduleData.createdBy) {
+    throw new Error('Created by user ID is required');
+  }
+
+  try {
+    const db = getDatabase();
+    const now = new Date();
+
+    const result = await db.query(
+      `INSERT INTO report_schedules (
+        id, name, organization_id, template_id, frequency, day_of_week,
+        day_of_month, hour, timezone, format, recipients, is_active,
+        next_run_at, created_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      RETURNING ${REPORT_SCHEDULE_COLUMNS}`,
+      [
+        crypto.randomUUID(),
+        scheduleData.name,
+        scheduleData.organizationId,
+        scheduleData.templateId,
+        scheduleData.frequency,
+        scheduleData.dayOfWeek,
+        scheduleData.dayOfMonth,
+        scheduleData.hour,
+        scheduleData.timezone,
+        scheduleData.format || null,
+        JSON.stringify(scheduleData.recipients),
+        scheduleData.isActive,
+        getNextReportScheduleRun(scheduleData, now),
+        scheduleData.createdBy,
+        now.toISOString(),
+        now.toISOString(),
+      ]
+    );
+
+    console.log(`✅ Created report schedule: ${result.rows[0].id}`);
+    return mapReportScheduleRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'create report schedule');
+    throw new Error('Failed to create report schedule');
+  }
+}
+
+// Get report schedules with optional filtering
+export async function getReportSchedules(
+  query: ReportSchedulesQuery = {}
+): Promise<ReportSchedule[]> {
+  try {
+    const db = getDatabase();
+    const {
+      organizationId,
+      templateId,
+      isActive,
+      limit = 50,
+      offset = 0,
+    } = query;
+
+    let sql = `SELECT ${REPORT_SCHEDULE_COLUMNS} FROM report_schedules`;
+
+    const conditions: string[] = [];
+    const args: any[] = [];
+
+    if (organizationId) {
+      conditions.push(`organization_id = $${args.length + 1}`);
+      args.push(organizationId);
+    }
+
+    if (templateId) {
+      conditions.push(`template_id = $${args.length + 1}`);
+      args.push(templateId);
+    }
+
+    if (isActive !== undefined) {
+      conditions.push(`is_active = $${args.length + 1}`);
+      args.push(isActive);
+    }
+
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
+
+    sql += ` ORDER BY next_run_at ASC`;
+    sql += ` LIMIT $${args.length + 1} OFFSET $${args.length + 2}`;
+    args.push(limit, offset);
+
+    const result = await db.query(sql, args);
+
+    return result.rows.map(mapReportScheduleRow);
+  } catch (error) {
+    handleDatabaseError(error, 'get report schedules');
+    return [];
+  }
+}
+
+// Get a single report schedule by ID
+export async function getReportScheduleById(
+  id: string,
+  organizationId?: string
+): Promise<ReportSchedule | null> {
+  try {
+    const db = getDatabase();
+
+    let sql = `SELECT ${REPORT_SCHEDULE_COLUMNS} FROM report_schedules WHERE id = $1`;
+    const args = [id];
+
+    if (organizationId) {
+      sql += ' AND organization_id = $2';
+      args.push(organizationId);
+    }
+
+    const result = await db.query(sql, args);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return mapReportScheduleRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'get report schedule by id');
+    return null;
+  }
+}
+
+// Update a report schedule; the next run is recalculated from its new timing
+export async function updateReportSchedule(
+  id: string,
+  scheduleData: ReportScheduleForm,
+  organizationId: string
+): Promise<ReportSchedule | null> {
+  try {
+    const db = getDatabase();
+    const now = new Date();
+
+    const result = await db.query(
+      `UPDATE report_schedules
+       SET name = $1, template_id = $2, frequency = $3, day_of_week = $4,
+           day_of_month = $5, hour = $6, timezone = $7, format = $8,
+           recipients = $9, is_active = $10, next_run_at = $11,
+           updated_at = $12
+       WHERE id = $13 AND organization_id = $14
+       RETURNING ${REPORT_SCHEDULE_COLUMNS}`,
+      [
+        scheduleData.name,
+        scheduleData.templateId,
+        scheduleData.frequency,
+        scheduleData.dayOfWeek,
+        scheduleData.dayOfMonth,
+        scheduleData.hour,
+        scheduleData.timezone,
+        scheduleData.format || null,
+        JSON.stringify(scheduleData.recipients),
+        scheduleData.isActive,
+        getNextReportScheduleRun(scheduleData, now),
+        now.toISOString(),
+        id,
+        organizationId,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return null; // Schedule not found or access denied
+    }
+
+    console.log(`✅ Updated report schedule: ${id}`);
+    return mapReportScheduleRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'update report schedule');
+    return null;
+  }
+}
+
+// Delete a report schedule
+export async function deleteReportSchedule(
+  id: string,
+  organizationId: string
+): Promise<boolean> {
+  if (!id || !organizationId) {
+    throw new Error('Schedule ID and Organization ID are required');
+  }
+
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      'DELETE FROM report_schedules WHERE id = $1 AND organization_id = $2',
+      [id, organizationId]
+    );
+
+    const success = result.rowCount !== null && result.rowCount > 0;
+
+    if (success) {
+      console.log(`✅ Deleted report schedule: ${id}`);
+    } else {
+      console.log(`⚠️ Report schedule not found or access denied: ${id}`);
+    }
+
+    return success;
+  } catch (error) {
+    handleDatabaseError(error, 'delete report schedule');
+    return false;
+  }
+}
+
+// Get active schedules whose next run is due
+export async function getDueReportSchedules(
+  now: Date = new Date()
+): Promise<ReportSchedule[]> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `SELECT ${REPORT_SCHEDULE_COLUMNS} FROM report_schedules
+       WHERE is_active = TRUE AND next_run_at <= $1
+       ORDER BY next_run_at ASC`,
+      [now]
+    );
+
+    return result.rows.map(mapReportScheduleRow);
+  } catch (error) {
+    handleDatabaseError(error, 'get due report schedules');
+    return [];
+  }
+}
+
+/**
+ * Claim a due schedule by moving its next run forward. Only succeeds if the
+ * schedule still has the next run the caller saw, so concurrent schedulers
+ * never generate the same period twice.
+ */
+export async function claimReportScheduleRun(
+  schedule: ReportSchedule,
+  nextRunAt: Date
+): Promise<boolean> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `UPDATE report_schedules
+       SET next_run_at = $1, updated_at = $2
+       WHERE id = $3 AND next_run_at = $4 AND is_active = TRUE`,
+      [nextRunAt, new Date().toISOString(), schedule.id, schedule.nextRunAt]
+    );
+
+    return result.rowCount !== null && result.rowCount > 0;
+  } catch (error) {
+    handleDatabaseError(error, 'claim report schedule run');
+    return false;
+  }
+}
+
+// Record the outcome of a scheduled run
+export async function recordReportScheduleRun(
+  id: string,
+  runResult: ReportScheduleRunResult
+): Promise<void> {
+  try {
+    const db = getDatabase();
+
+    await db.query(
+      `UPDATE report_schedules
+       SET last_run_at = $1, last_report_id = $2, last_error = $3,
+           updated_at = $4
+       WHERE id = $5`,
+      [
+        runResult.lastRunAt,
+        runResult.lastReportId || null,
+        runResult.lastError || null,
+        new Date().toISOString(),
+        id,
+      ]
+    );
+  } catch (error) {
+    handleDatabaseError(error, 'record report schedule run');
+  }
+}
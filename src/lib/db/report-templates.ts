@@ -1,4 +1,8 @@
 import {
+  ReportAggregateType,
+  ReportFormat,
+  ReportGroupBy,
+  type ReportSort,
   type ReportTemplate,
   type ReportTemplateForm,
   ReportType,
@@ -14,6 +18,59 @@ export interface ReportTemplatesQuery {
   offset?: number;
 }
 
+// Parse the column_config column of a report_templates row
+function parseColumnConfig(row: any): ReportTemplate['columnConfig'] {
+  // PostgreSQL JSONB fields are already parsed objects, not JSON strings
+  if (typeof row.column_config === 'object' && row.column_config !== null) {
+    return row.column_config;
+  }
+
+  // Fallback: try to parse as JSON string if it's somehow a string
+  try {
+    return JSON.parse(row.column_config || '[]');
+  } catch (parseError) {
+    console.error(`❌ JSON parse error for template ${row.id}:`, parseError);
+    console.error(`❌ Raw column_config value:`, row.column_config);
+    return [];
+  }
+}
+
+// Parse the footer_aggregates column of a report_templates row
+function parseFooterAggregates(row: any): ReportAggregateType[] {
+  if (Array.isArray(row.footer_aggregates)) {
+    return row.footer_aggregates;
+  }
+
+  try {
+    return JSON.parse(row.footer_aggregates || '[]');
+  } catch (parseError) {
+    console.error(
+      `❌ JSON parse error for template ${row.id} footer aggregates:`,
+      parseError
+    );
+    return [];
+  }
+}
+
+// Parse the sort_spec column of a report_templates row
+function parseSortSpec(row: any): ReportSort {
+  const fallback: ReportSort = { field: 'scheduledTime', direction: 'asc' };
+
+  if (typeof row.sort_spec === 'object' && row.sort_spec !== null) {
+    return row.sort_spec;
+  }
+
+  try {
+    return row.sort_spec ? JSON.parse(row.sort_spec) : fallback;
+  } catch (parseError) {
+    console.error(
+      `❌ JSON parse error for template ${row.id} sort spec:`,
+      parseError
+    );
+    return fallback;
+  }
+}
+
 // Create a new report template
 export async function createReportTemplate(
   templateData: ReportTemplateForm
@@ -41,8 +98,9 @@ export async function createReportTemplate(
     await db.query(
       `INSERT INTO report_templates (
         id, name, description, organization_id, report_type, column_config,
-        is_default, created_by, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        default_format, footer_aggregates, group_by, sort_spec, is_default,
+        created_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
       [
         template.id,
         template.name,
@@ -50,6 +108,10 @@ export async function createReportTemplate(
         template.organizationId,
         template.reportType,
         JSON.stringify(template.columnConfig),
+        template.defaultFormat,
+        JSON.stringify(template.footerAggregates),
+        template.groupBy,
+        JSON.stringify(template.sort),
         template.isDefault,
         template.createdBy,
         now,
@@ -82,7 +144,8 @@ export async function getReportTemplates(
     let sql = `
       SELECT 
         id, name, description, organization_id, report_type, column_config,
-        is_default, created_by, created_at, updated_at
+        default_format, footer_aggregates, group_by, sort_spec, is_default,
+        created_by, created_at, updated_at
       FROM report_templates
     `;
 
@@ -120,31 +183,17 @@ export async function getReportTemplates(
     const result = await db.query(sql, args);
 
     const templates: ReportTemplate[] = result.rows.map((row: any) => {
-      let columnConfig;
-      // PostgreSQL JSONB fields are already parsed objects, not JSON strings
-      if (typeof row.column_config === 'object' && row.column_config !== null) {
-        columnConfig = row.column_config;
-      } else {
-        // Fallback: try to parse as JSON string if it's somehow a string
-        try {
-          columnConfig = JSON.parse(row.column_config || '[]');
-        } catch (parseError) {
-          console.error(
-            `❌ JSON parse error for template ${row.id}:`,
-            parseError
-          );
-          console.error(`❌ Raw column_config value:`, row.column_config);
-          columnConfig = [];
-        }
-      }
-
       return {
         id: row.id,
         name: row.name,
         description: row.description,
         organizationId: row.organization_id,
         reportType: row.report_type as ReportType,
-        columnConfig,
+        columnConfig: parseColumnConfig(row),
+        defaultFormat: (row.default_format as ReportFormat) || ReportFormat.csv,
+        footerAggregates: parseFooterAggregates(row),
+        groupBy: (row.group_by as ReportGroupBy) || ReportGroupBy.none,
+        sort: parseSortSpec(row),
         isDefault: row.is_default,
         createdBy: row.created_by,
         createdAt: row.created_at,
@@ -170,7 +219,8 @@ export async function getReportTemplateById(
     let sql = `
       SELECT 
         id, name, description, organization_id, report_type, column_config,
-        is_default, created_by, created_at, updated_at
+        default_format, footer_aggregates, group_by, sort_spec, is_default,
+        created_by, created_at, updated_at
       FROM report_templates
       WHERE id = $1
     `;
@@ -195,7 +245,11 @@ export async function getReportTemplateById(
       description: row.description,
       organizationId: row.organization_id,
       reportType: row.report_type as ReportType,
-      columnConfig: JSON.parse(row.column_config || '[]'),
+      columnConfig: parseColumnConfig(row),
+      defaultFormat: (row.default_format as ReportFormat) || ReportFormat.csv,
+      footerAggregates: parseFooterAggregates(row),
+      groupBy: (row.group_by as ReportGroupBy) || ReportGroupBy.none,
+      sort: parseSortSpec(row),
       isDefault: row.is_default,
       createdBy: row.created_by,
       createdAt: row.created_at,
@@ -224,14 +278,19 @@ export async function updateReportTemplate(
     const result = await db.query(
       `UPDATE report_templates 
        SET name = $1, description = $2, report_type = $3, column_config = $4,
-           is_default = $5, updated_at = $6
-       WHERE id = $7 AND organization_id = $8
+           default_format = $5, footer_aggregates = $6, group_by = $7,
+           sort_spec = $8, is_default = $9, updated_at = $10
+       WHERE id = $11 AND organization_id = $12
        RETURNING *`,
       [
         templateData.name,
         templateData.description || null,
         templateData.reportType,
         JSON.stringify(templateData.columnConfig),
+        templateData.defaultFormat,
+        JSON.stringify(templateData.footerAggregates),
+        templateData.groupBy,
+        JSON.stringify(templateData.sort),
         templateData.isDefault,
         now,
         id,
@@ -250,7 +309,11 @@ export async function updateReportTemplate(
       description: row.description,
       organizationId: row.organization_id,
       reportType: row.report_type as ReportType,
-      columnConfig: JSON.parse(row.column_config || '[]'),
+      columnConfig: parseColumnConfig(row),
+      defaultFormat: (row.default_format as ReportFormat) || ReportFormat.csv,
+      footerAggregates: parseFooterAggregates(row),
+      groupBy: (row.group_by as ReportGroupBy) || ReportGroupBy.none,
+      sort: parseSortSpec(row),
       isDefault: row.is_default,
       createdBy: row.created_by,
       createdAt: row.created_at,
@@ -1,4 +1,4 @@
-import { type Report, type ReportType } from '../schema';
+import { type Report, ReportFormat, type ReportType } from '../schema';
 import { getDatabase, handleDatabaseError } from './index';
 
 // Type for creating new reports
@@ -48,8 +48,8 @@ export async function createReport(
     await db.query(
       `INSERT INTO reports (
         id, name, organization_id, created_by, template_id, start_date, end_date,
-        report_type, status, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        report_type, format, status, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
       [
         report.id,
         report.name,
@@ -59,6 +59,7 @@ export async function createReport(
         report.startDate,
         report.endDate,
         report.reportType,
+        report.format,
         report.status,
         now,
         now,
@@ -96,7 +97,8 @@ export async function getReports(query: ReportsQuery = {}): Promise<Report[]> {
     let sql = `
       SELECT 
         id, name, organization_id, created_by, template_id, start_date, end_date,
-        report_type, status, generated_at, download_url, created_at, updated_at
+        report_type, format, status, generated_at, download_url, created_at,
+        updated_at
       FROM reports
     `;
 
@@ -174,6 +176,7 @@ export async function getReports(query: ReportsQuery = {}): Promise<Report[]> {
       startDate: row.start_date,
       endDate: row.end_date,
       reportType: row.report_type as ReportType,
+      format: (row.format as ReportFormat) || ReportFormat.csv,
       status: row.status as Report['status'],
       generatedAt: row.generated_at,
       downloadUrl: row.download_url,
@@ -199,7 +202,8 @@ export async function getReportById(
     let sql = `
       SELECT 
         id, name, organization_id, created_by, template_id, start_date, end_date,
-        report_type, status, generated_at, download_url, created_at, updated_at
+        report_type, format, status, generated_at, download_url, created_at,
+        updated_at
       FROM reports
       WHERE id = $1
     `;
@@ -227,6 +231,7 @@ export async function getReportById(
       startDate: row.start_date,
       endDate: row.end_date,
       reportType: row.report_type as ReportType,
+      format: (row.format as ReportFormat) || ReportFormat.csv,
       status: row.status as Report['status'],
       generatedAt: row.generated_at,
       downloadUrl: row.download_url,
@@ -284,6 +289,11 @@ export async function updateReport(
       args.push(updateData.reportType);
     }
 
+    if (updateData.format !== undefined) {
+      setFields.push(`format = $${args.length + 1}`);
+      args.push(updateData.format);
+    }
+
     if (updateData.status !== undefined) {
       setFields.push(`status = $${args.length + 1}`);
       args.push(updateData.status);
@@ -334,6 +344,7 @@ export async function updateReport(
       startDate: row.start_date,
       endDate: row.end_date,
       reportType: row.report_type as ReportType,
+      format: (row.format as ReportFormat) || ReportFormat.csv,
       status: row.status as Report['status'],
       generatedAt: row.generated_at,
       downloadUrl: row.download_url,
@@ -0,0 +1,83 @@
+import { type RunEvent, RunEventType, type RunFieldChange } from '../schema';
+import { getDatabase, handleDatabaseError } from './index';
+
+const RUN_EVENT_COLUMNS = `
+  id, run_id, actor_id, type, changes, created_at
+`;
+
+// Map a run_events row to RunEvent
+function mapRunEventRow(row: any): RunEvent {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    actorId: row.actor_id,
+    type: row.type as RunEventType,
+    changes: row.changes || [],
+    createdAt: row.created_at,
+  };
+}
+
+export interface RunEventInput {
+  runId: string;
+  actorId: string;
+  type: RunEventType;
+  changes: RunFieldChange[];
+}
+
+// Record changes made to runs in the audit log. Failures are logged but not
+// thrown so a change that was saved is never reported as failed.
+export async function recordRunEvents(events: RunEventInput[]): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  try {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+    const values: string[] = [];
+    const args: any[] = [];
+
+    events.forEach(event => {
+      const offset = args.length;
+      values.push(
+        `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6})`
+      );
+      args.push(
+        crypto.randomUUID(),
+        event.runId,
+        event.actorId,
+        event.type,
+        JSON.stringify(event.changes),
+        now
+      );
+    });
+
+    await db.query(
+      `INSERT INTO run_events (${RUN_EVENT_COLUMNS}) VALUES ${values.join(', ')}`,
+      args
+    );
+
+    console.log(`📝 Recorded ${events.length} run event(s)`);
+  } catch (error) {
+    handleDatabaseError(error, 'record run events');
+  }
+}
+
+// Get a run's audit log, oldest event first
+export async function getRunEvents(runId: string): Promise<RunEvent[]> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `SELECT ${RUN_EVENT_COLUMNS} FROM run_events
+       WHERE run_id = $1
+       ORDER BY created_at ASC, id ASC`,
+      [runId]
+    );
+
+    return result.rows.map(mapRunEventRow);
+  } catch (error) {
+    handleDatabaseError(error, 'get run events');
+    return [];
+  }
+}
@@ -0,0 +1,92 @@
+import { type RunPassenger } from '../schema';
+import { getDatabase, handleDatabaseError } from './index';
+
+const RUN_PASSENGER_COLUMNS = `
+  id, name, phone, passenger_count, luggage, special_needs
+`;
+
+function mapRunPassengerRow(row: any): RunPassenger {
+  return {
+    id: row.id,
+    name: row.name,
+    phone: row.phone,
+    count: row.passenger_count,
+    luggage: row.luggage,
+    specialNeeds: row.special_needs,
+  };
+}
+
+// A run's passenger manifest, in the order it was listed
+export async function getRunPassengers(runId: string): Promise<RunPassenger[]> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `SELECT ${RUN_PASSENGER_COLUMNS} FROM run_passengers
+       WHERE run_id = $1
+       ORDER BY position ASC`,
+      [runId]
+    );
+
+    return result.rows.map(mapRunPassengerRow);
+  } catch (error) {
+    handleDatabaseError(error, 'get run passengers');
+    return [];
+  }
+}
+
+/**
+ * Save a run's whole manifest, replacing the passengers it had. The list is
+ * written in one transaction so the manifest is never left half saved.
+ */
+export async function replaceRunPassengers(
+  runId: string,
+  passengers: RunPassenger[]
+): Promise<RunPassenger[]> {
+  const client = await getDatabase().connect();
+
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM run_passengers WHERE run_id = $1', [runId]);
+
+    let saved: RunPassenger[] = [];
+    if (passengers.length > 0) {
+      const args: unknown[] = [];
+      const values = passengers.map((passenger, index) => {
+        args.push(
+          runId,
+          index,
+          passenger.name,
+          passenger.phone || null,
+          passenger.count,
+          passenger.luggage,
+          passenger.specialNeeds || null
+        );
+        const offset = index * 7;
+        return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7})`;
+      });
+
+      const result = await client.query(
+        `INSERT INTO run_passengers (
+          run_id, position, name, phone, passenger_count, luggage, special_needs
+        ) VALUES ${values.join(', ')}
+        RETURNING ${RUN_PASSENGER_COLUMNS}, position`,
+        args
+      );
+
+      saved = result.rows
+        .sort((a: any, b: any) => a.position - b.position)
+        .map(mapRunPassengerRow);
+    }
+
+    await client.query('COMMIT');
+    console.log(`✅ Saved ${saved.length} passengers for run: ${runId}`);
+    return saved;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    handleDatabaseError(error, 'replace run passengers');
+    throw new Error('Failed to save run passengers');
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,225 @@
+import { formatRecurrenceRule, parseRecurrenceRule } from '../run-series';
+import {
+  type RunRecurrenceRule,
+  type RunSeries,
+  type RunSeriesForm,
+  type RunSeriesTemplate,
+} from '../schema';
+import { getDatabase, handleDatabaseError } from './index';
+
+const RUN_SERIES_COLUMNS = `
+  id, user_id, rrule, TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date,
+  start_time, timezone, template, exdates,
+  TO_CHAR(materialized_through, 'YYYY-MM-DD') AS materialized_through,
+  created_at, updated_at
+`;
+
+// Upper bound on the series loaded for one materialization pass
+const MAX_SERIES_PER_PASS = 500;
+
+// Map a run_series row to RunSeries, reading the RRULE back into a rule
+function mapRunSeriesRow(row: any): RunSeries {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    rule: parseRecurrenceRule(row.rrule),
+    startDate: row.start_date,
+    startTime: row.start_time,
+    timezone: row.timezone,
+    template: row.template,
+    exdates: row.exdates || [],
+    materializedThrough: row.materialized_through,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Create a run series. Its runs are created separately by materializing it.
+export async function createRunSeries(
+  seriesData: RunSeriesForm,
+  userId: string
+): Promise<RunSeries> {
+  if (!userId) {
+    throw new Error('User ID is required');
+  }
+
+  try {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    const result = await db.query(
+      `INSERT INTO run_series (
+        id, user_id, rrule, start_date, start_time, timezone, template,
+        exdates, materialized_through, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, '[]'::jsonb, NULL, $8, $9)
+      RETURNING ${RUN_SERIES_COLUMNS}`,
+      [
+        crypto.randomUUID(),
+        userId,
+        formatRecurrenceRule(seriesData.rule),
+        seriesData.startDate,
+        seriesData.startTime,
+        seriesData.timezone,
+        JSON.stringify(seriesData.template),
+        now,
+        now,
+      ]
+    );
+
+    const series = mapRunSeriesRow(result.rows[0]);
+    console.log(`✅ Created run series: ${series.id}`);
+    return series;
+  } catch (error) {
+    handleDatabaseError(error, 'create run series');
+    throw new Error('Failed to create run series');
+  }
+}
+
+// Get a run series by ID, optionally only if it belongs to the user
+export async function getRunSeriesById(
+  id: string,
+  userId?: string
+): Promise<RunSeries | null> {
+  try {
+    const db = getDatabase();
+    const args: string[] = [id];
+    let sql = `SELECT ${RUN_SERIES_COLUMNS} FROM run_series WHERE id = $1`;
+
+    if (userId) {
+      sql += ' AND user_id = $2';
+      args.push(userId);
+    }
+
+    const result = await db.query(sql, args);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return mapRunSeriesRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'get run series by id');
+    return null;
+  }
+}
+
+// Series whose runs haven't been created through the given date yet
+export async function getRunSeriesToMaterialize(
+  through: string
+): Promise<RunSeries[]> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `SELECT ${RUN_SERIES_COLUMNS} FROM run_series
+       WHERE materialized_through IS NULL OR materialized_through < $1
+       ORDER BY materialized_through ASC NULLS FIRST
+       LIMIT $2`,
+      [through, MAX_SERIES_PER_PASS]
+    );
+
+    return result.rows.map(mapRunSeriesRow);
+  } catch (error) {
+    handleDatabaseError(error, 'get run series to materialize');
+    return [];
+  }
+}
+
+// Change a series' rule, start time or the fields its new runs are created
+// with. Runs already created are left as they are.
+export async function updateRunSeries(
+  id: string,
+  updateData: {
+    rule?: RunRecurrenceRule;
+    startTime?: string;
+    template?: RunSeriesTemplate;
+  },
+  userId: string
+): Promise<RunSeries | null> {
+  try {
+    const db = getDatabase();
+    const setFields: string[] = [];
+    const args: any[] = [];
+
+    if (updateData.rule !== undefined) {
+      setFields.push(`rrule = $${args.length + 1}`);
+      args.push(formatRecurrenceRule(updateData.rule));
+    }
+
+    if (updateData.startTime !== undefined) {
+      setFields.push(`start_time = $${args.length + 1}`);
+      args.push(updateData.startTime);
+    }
+
+    if (updateData.template !== undefined) {
+      setFields.push(`template = $${args.length + 1}`);
+      args.push(JSON.stringify(updateData.template));
+    }
+
+    setFields.push(`updated_at = $${args.length + 1}`);
+    args.push(new Date().toISOString());
+
+    const result = await db.query(
+      `UPDATE run_series SET ${setFields.join(', ')}
+       WHERE id = $${args.length + 1} AND user_id = $${args.length + 2}
+       RETURNING ${RUN_SERIES_COLUMNS}`,
+      [...args, id, userId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    console.log(`✅ Updated run series: ${id}`);
+    return mapRunSeriesRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'update run series');
+    return null;
+  }
+}
+
+/**
+ * Mark a series as materialized through a date, only if no one else has
+ * moved it on since it was read. Returns false when another pass got there
+ * first, so the same runs aren't created twice. Also hands a claim back when
+ * creating the runs fails.
+ */
+export async function claimRunSeriesMaterialization(
+  id: string,
+  previousThrough: string | null,
+  through: string | null
+): Promise<boolean> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `UPDATE run_series SET materialized_through = $1
+       WHERE id = $2
+         AND materialized_through IS NOT DISTINCT FROM $3::date`,
+      [through, id, previousThrough]
+    );
+
+    return result.rowCount != null && result.rowCount > 0;
+  } catch (error) {
+    handleDatabaseError(error, 'claim run series materialization');
+    return false;
+  }
+}
+
+// Remove a date from a series so a run is never created for it
+export async function addRunSeriesExdate(
+  id: string,
+  occurrence: string
+): Promise<void> {
+  try {
+    const db = getDatabase();
+
+    await db.query(
+      `UPDATE run_series
+       SET exdates = exdates || to_jsonb($1::text), updated_at = $2
+       WHERE id = $3 AND NOT exdates ? $1`,
+      [occurrence, new Date().toISOString(), id]
+    );
+  } catch (error) {
+    handleDatabaseError(error, 'add run series exdate');
+  }
+}
@@ -1,21 +1,137 @@
-import { type NewRunForm, type Run, type RunStatus } from '../schema';
+import { max, min, subMinutes } from 'date-fns';
+import { DEFAULT_CURRENCY } from '../money';
+import {
+  CONFLICT_CHECKED_STATUSES,
+  findRunConflicts,
+  getRunTimeWindow,
+  isConflictChecked,
+  type RunConflict,
+  RunConflictError,
+  type RunConflictMode,
+  type RunTiming,
+  type RunWithConflicts,
+} from '../run-conflicts';
+import { diffRunFields } from '../run-history';
+import {
+  canTransitionRunStatus,
+  getRunStatusTimestamps,
+  RunStatusTransitionError,
+} from '../run-status';
+import {
+  type NewRunForm,
+  type Run,
+  RunEventType,
+  type RunStatus,
+} from '../schema';
 import { getDatabase, handleDatabaseError } from './index';
 import { deleteNotificationsByRunId } from './notifications';
+import { recordRunEvents } from './run-events';
+import { replaceRunPassengers } from './run-passengers';
+import { addRunSeriesExdate } from './run-series';
 
 export interface RunsQuery {
   userId?: string;
+  userIds?: string[];
+  organizationId?: string;
   status?: RunStatus[];
+  scheduledFrom?: Date;
+  scheduledTo?: Date;
+  // Bill to code, matched case-insensitively
+  billTo?: string;
+  // Only runs that are not on an invoice yet
+  uninvoiced?: boolean;
+  // Only runs created from this recurring run series
+  seriesId?: string;
   limit?: number;
   offset?: number;
   orderBy?: 'scheduled_time' | 'created_at' | 'updated_at';
   orderDirection?: 'ASC' | 'DESC';
 }
 
-// Create a new run
+// Runs last at most a day, so runs scheduled this long before a window may
+// still be going during it
+const MAX_RUN_DURATION_MINUTES = 1440;
+
+// Upper bound on the saved runs a conflict check compares against
+const MAX_CONFLICT_CHECK_RUNS = 500;
+
+// NUMERIC distance_miles comes back from pg as a string
+function toDistanceMiles(value: string | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+// Overlapping runs are saved with a warning unless RUN_CONFLICT_MODE=block
+export function getRunConflictMode(): RunConflictMode {
+  return process.env.RUN_CONFLICT_MODE === 'block' ? 'block' : 'warn';
+}
+
+/**
+ * The driver's scheduled and active runs that overlap each of the given
+ * runs, in order. The runs are also checked against each other, so a batch
+ * that clashes with itself is caught before any of it is saved.
+ */
+export async function getRunConflicts(
+  userId: string,
+  runs: RunTiming[]
+): Promise<RunConflict[][]> {
+  const checkedRuns = runs.filter(isConflictChecked);
+  if (checkedRuns.length === 0) {
+    return runs.map(() => []);
+  }
+
+  const windows = checkedRuns.map(getRunTimeWindow);
+  const savedRuns = await getRuns({
+    userId,
+    status: CONFLICT_CHECKED_STATUSES,
+    scheduledFrom: subMinutes(
+      min(windows.map(window => window.start)),
+      MAX_RUN_DURATION_MINUTES
+    ),
+    scheduledTo: max(windows.map(window => window.end)),
+    limit: MAX_CONFLICT_CHECK_RUNS,
+  });
+
+  const runIds = new Set(runs.map(run => run.id));
+  return findRunConflicts(runs, [
+    ...savedRuns.filter(savedRun => !runIds.has(savedRun.id)),
+    ...runs,
+  ]);
+}
+
+// Reject overlapping runs when conflicts are blocked; otherwise log them so
+// the caller can pass them on as warnings
+function checkRunConflicts(conflicts: RunConflict[], runId: string): void {
+  if (conflicts.length === 0) {
+    return;
+  }
+
+  if (getRunConflictMode() === 'block') {
+    throw new RunConflictError(conflicts);
+  }
+
+  console.warn(`⚠️ Run ${runId} overlaps ${conflicts.length} other run(s)`);
+}
+
+export interface CreateRunOptions {
+  // User recorded in the run's history; defaults to the run's owner
+  actorId?: string;
+  // Organization the run belongs to, usually the owner's
+  organizationId?: string | null;
+  // Status the run starts in, for sample data. Runs otherwise start scheduled
+  // and only move through RUN_STATUS_TRANSITIONS.
+  status?: RunStatus;
+}
+
+// Create a new run. Runs that overlap another of the driver's runs are saved
+// with their conflicts, or rejected with a RunConflictError when conflicts
+// are blocked.
 export async function createRun(
   runData: NewRunForm,
-  userId: string
-): Promise<Run> {
+  userId: string,
+  options: CreateRunOptions = {}
+): Promise<RunWithConflicts> {
+  const actorId = options.actorId ?? userId;
+
   if (!userId) {
     throw new Error('User ID is required');
   }
@@ -24,30 +140,38 @@ export async function createRun(
     const db = getDatabase();
     const runId = crypto.randomUUID();
     const now = new Date().toISOString();
+    const status = options.status ?? 'scheduled';
 
     const run: Run = {
       id: runId,
       userId: userId,
+      organizationId: options.organizationId ?? null,
       ...runData,
       airline: runData.airline || '',
-      status: (runData as any).status || 'scheduled', // Use provided status or default to scheduled
+      currency: runData.currency || DEFAULT_CURRENCY,
+      lineItems: runData.lineItems || [],
+      stops: runData.stops || [],
+      status,
+      ...getRunStatusTimestamps(status, new Date(now)),
       createdAt: new Date(now),
       updatedAt: new Date(now),
     };
 
-    // activatedAt should only be set when explicitly activating a run, not during creation
-    const activatedAt = null;
+    const [conflicts] = await getRunConflicts(userId, [run]);
+    checkRunConflicts(conflicts, run.id);
 
     await db.query(
       `INSERT INTO runs (
-        id, user_id, report_template_id, reservation_id, bill_to,
+        id, user_id, organization_id, report_template_id, reservation_id, bill_to,
         flight_number, airline, departure_airport, arrival_airport,
         pickup_location, dropoff_location, scheduled_time, estimated_duration, status, type,
-        price, notes, created_at, updated_at, activated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)`,
+        price_cents, currency, line_items, stops, vehicle_id, notes, created_at, updated_at, activated_at,
+        completed_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26)`,
       [
         run.id,
         run.userId,
+        run.organizationId,
         run.reportTemplateId,
         run.reservation_id,
         run.billTo || null,
@@ -61,17 +185,40 @@ export async function createRun(
         run.estimatedDuration,
         run.status,
         run.type,
-        run.price,
+        run.priceCents,
+        run.currency,
+        JSON.stringify(run.lineItems),
+        JSON.stringify(run.stops),
+        run.vehicleId || null,
         run.notes || null,
         now,
         now,
-        activatedAt,
+        run.activatedAt ?? null,
+        run.completedAt ?? null,
       ]
     );
 
     console.log(`✅ Created run: ${run.id}`);
-    return run;
+
+    if (runData.passengers && runData.passengers.length > 0) {
+      await replaceRunPassengers(run.id, runData.passengers);
+    }
+
+    await recordRunEvents([
+      {
+        runId: run.id,
+        actorId,
+        type: RunEventType.created,
+        changes: diffRunFields({}, run),
+      },
+    ]);
+
+    return { ...run, conflicts };
   } catch (error) {
+    if (error instanceof RunConflictError) {
+      throw error;
+    }
+
     handleDatabaseError(error, 'create run');
     throw new Error('Failed to create run');
   }
@@ -81,7 +228,19 @@ export async function createRun(
 export async function getRuns(query: RunsQuery = {}): Promise<Run[]> {
   try {
     const db = getDatabase();
-    const { userId, status, limit = 50, offset = 0 } = query;
+    const {
+      userId,
+      userIds,
+      organizationId,
+      status,
+      scheduledFrom,
+      scheduledTo,
+      billTo,
+      uninvoiced,
+      seriesId,
+      limit = 50,
+      offset = 0,
+    } = query;
 
     // Handle orderBy and orderDirection with proper null-safe defaults
     const orderBy =
@@ -103,7 +262,8 @@ export async function getRuns(query: RunsQuery = {}): Promise<Run[]> {
         id, report_template_id, reservation_id, bill_to,
         flight_number, airline, departure_airport, arrival_airport,
         pickup_location, dropoff_location, scheduled_time, estimated_duration, actual_duration, status, type,
-        price, notes, user_id, created_at, updated_at, completed_at, activated_at
+        price_cents, currency, line_items, stops, vehicle_id, notes, user_id, organization_id, created_at, updated_at, completed_at, activated_at,
+        distance_miles, series_id, TO_CHAR(series_occurrence, 'YYYY-MM-DD') AS series_occurrence
       FROM runs
     `;
 
@@ -116,6 +276,19 @@ export async function getRuns(query: RunsQuery = {}): Promise<Run[]> {
       args.push(userId);
     }
 
+    if (userIds && userIds.length > 0) {
+      const placeholders = userIds
+        .map((_, index) => '$' + (args.length + index + 1))
+        .join(',');
+      conditions.push(`user_id IN (${placeholders})`);
+      args.push(...userIds);
+    }
+
+    if (organizationId) {
+      conditions.push(`organization_id = $${args.length + 1}`);
+      args.push(organizationId);
+    }
+
     if (status && Array.isArray(status) && status.length > 0) {
       const placeholders = status
         .map((_, index) => '$' + (args.length + index + 1))
@@ -124,6 +297,32 @@ export async function getRuns(query: RunsQuery = {}): Promise<Run[]> {
       args.push(...status);
     }
 
+    if (scheduledFrom) {
+      conditions.push(`scheduled_time >= $${args.length + 1}`);
+      args.push(scheduledFrom);
+    }
+
+    if (scheduledTo) {
+      conditions.push(`scheduled_time <= $${args.length + 1}`);
+      args.push(scheduledTo);
+    }
+
+    if (billTo) {
+      conditions.push(`UPPER(bill_to) = $${args.length + 1}`);
+      args.push(billTo.toUpperCase());
+    }
+
+    if (uninvoiced) {
+      conditions.push(
+        'NOT EXISTS (SELECT 1 FROM invoice_line_items WHERE invoice_line_items.run_id = runs.id)'
+      );
+    }
+
+    if (seriesId) {
+      conditions.push(`series_id = $${args.length + 1}`);
+      args.push(seriesId);
+    }
+
     // Add WHERE clause only if we have conditions
     if (conditions.length > 0) {
       sql += ` WHERE ${conditions.join(' AND ')}`;
@@ -140,6 +339,7 @@ export async function getRuns(query: RunsQuery = {}): Promise<Run[]> {
     const runs: Run[] = result.rows.map((row: any) => ({
       id: row.id,
       userId: row.user_id,
+      organizationId: row.organization_id,
       reportTemplateId: row.report_template_id,
       reservation_id: row.reservation_id,
       billTo: row.bill_to,
@@ -154,12 +354,19 @@ export async function getRuns(query: RunsQuery = {}): Promise<Run[]> {
       actualDuration: row.actual_duration,
       status: row.status as RunStatus,
       type: row.type as 'pickup' | 'dropoff',
-      price: row.price,
+      priceCents: row.price_cents,
+      currency: row.currency,
+      lineItems: row.line_items || [],
+      stops: row.stops || [],
+      vehicleId: row.vehicle_id,
       notes: row.notes,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       completedAt: row.completed_at,
       activatedAt: row.activated_at,
+      distanceMiles: toDistanceMiles(row.distance_miles),
+      seriesId: row.series_id,
+      seriesOccurrence: row.series_occurrence,
     }));
 
     return runs;
@@ -182,7 +389,8 @@ export async function getRunById(
         id, report_template_id, reservation_id, bill_to,
         flight_number, airline, departure_airport, arrival_airport,
         pickup_location, dropoff_location, scheduled_time, estimated_duration, actual_duration, status, type,
-        price, notes, user_id, created_at, updated_at, completed_at, activated_at
+        price_cents, currency, line_items, stops, vehicle_id, notes, user_id, organization_id, created_at, updated_at, completed_at, activated_at,
+        distance_miles, series_id, TO_CHAR(series_occurrence, 'YYYY-MM-DD') AS series_occurrence
       FROM runs
       WHERE id = $1
     `;
@@ -204,6 +412,7 @@ export async function getRunById(
     return {
       id: row.id,
       userId: row.user_id,
+      organizationId: row.organization_id,
       reportTemplateId: row.report_template_id,
       reservation_id: row.reservation_id,
       billTo: row.bill_to,
@@ -218,12 +427,19 @@ export async function getRunById(
       actualDuration: row.actual_duration,
       status: row.status as RunStatus,
       type: row.type as 'pickup' | 'dropoff',
-      price: row.price,
+      priceCents: row.price_cents,
+      currency: row.currency,
+      lineItems: row.line_items || [],
+      stops: row.stops || [],
+      vehicleId: row.vehicle_id,
       notes: row.notes,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       completedAt: row.completed_at,
       activatedAt: row.activated_at,
+      distanceMiles: toDistanceMiles(row.distance_miles),
+      seriesId: row.series_id,
+      seriesOccurrence: row.series_occurrence,
     };
   } catch (error) {
     handleDatabaseError(error, 'get run by id');
@@ -231,12 +447,28 @@ export async function getRunById(
   }
 }
 
-// Update run
+export interface UpdateRunOptions {
+  // User recorded in the run's history; defaults to the run's owner
+  actorId?: string;
+  // Allow status changes the transition rules forbid (admins only)
+  overrideStatusRules?: boolean;
+}
+
+/**
+ * Update run, recording the changed fields in the run's history. Status
+ * changes must follow the run status transition rules unless overridden and
+ * throw a RunStatusTransitionError otherwise; activatedAt and completedAt are
+ * set to match the new status. Moving the run in time (or back onto the
+ * schedule) checks it for overlaps like createRun.
+ */
 export async function updateRun(
   id: string,
   updateData: Partial<Omit<Run, 'id' | 'createdAt'>>,
-  userId: string
-): Promise<Run | null> {
+  userId: string,
+  options: UpdateRunOptions = {}
+): Promise<RunWithConflicts | null> {
+  const actorId = options.actorId ?? userId;
+
   if (!userId) {
     throw new Error('User ID is required');
   }
@@ -255,10 +487,57 @@ export async function updateRun(
       return null; // Run doesn't exist or doesn't belong to user
     }
 
+    if (
+      updateData.status !== undefined &&
+      updateData.status !== existingRun.status
+    ) {
+      if (
+        !options.overrideStatusRules &&
+        !canTransitionRunStatus(existingRun.status, updateData.status)
+      ) {
+        throw new RunStatusTransitionError(
+          existingRun.status,
+          updateData.status
+        );
+      }
+
+      updateData = {
+        ...updateData,
+        ...getRunStatusTimestamps(updateData.status),
+      };
+    }
+
+    let conflicts: RunConflict[] = [];
+    if (
+      updateData.scheduledTime !== undefined ||
+      updateData.estimatedDuration !== undefined ||
+      (updateData.status !== undefined && !isConflictChecked(existingRun))
+    ) {
+      [conflicts] = await getRunConflicts(existingRun.userId, [
+        { ...existingRun, ...updateData },
+      ]);
+      checkRunConflicts(conflicts, id);
+    }
+
     const setFields: string[] = [];
     const args: any[] = [];
 
     // Build dynamic update query
+    if (updateData.reportTemplateId !== undefined) {
+      setFields.push(`report_template_id = $${args.length + 1}`);
+      args.push(updateData.reportTemplateId);
+    }
+
+    if (updateData.reservation_id !== undefined) {
+      setFields.push(`reservation_id = $${args.length + 1}`);
+      args.push(updateData.reservation_id);
+    }
+
+    if (updateData.billTo !== undefined) {
+      setFields.push(`bill_to = $${args.length + 1}`);
+      args.push(updateData.billTo || null);
+    }
+
     if (updateData.flightNumber !== undefined) {
       setFields.push(`flight_number = $${args.length + 1}`);
       args.push(updateData.flightNumber);
@@ -314,9 +593,29 @@ export async function updateRun(
       args.push(updateData.type);
     }
 
-    if (updateData.price !== undefined) {
-      setFields.push(`price = $${args.length + 1}`);
-      args.push(updateData.price);
+    if (updateData.priceCents !== undefined) {
+      setFields.push(`price_cents = $${args.length + 1}`);
+      args.push(updateData.priceCents);
+    }
+
+    if (updateData.currency !== undefined) {
+      setFields.push(`currency = $${args.length + 1}`);
+      args.push(updateData.currency);
+    }
+
+    if (updateData.lineItems !== undefined) {
+      setFields.push(`line_items = $${args.length + 1}`);
+      args.push(JSON.stringify(updateData.lineItems));
+    }
+
+    if (updateData.stops !== undefined) {
+      setFields.push(`stops = $${args.length + 1}`);
+      args.push(JSON.stringify(updateData.stops));
+    }
+
+    if (updateData.vehicleId !== undefined) {
+      setFields.push(`vehicle_id = $${args.length + 1}`);
+      args.push(updateData.vehicleId);
     }
 
     if (updateData.notes !== undefined) {
@@ -340,7 +639,7 @@ export async function updateRun(
 
     if (setFields.length === 1) {
       // Only updated_at was set, nothing to update
-      return existingRun;
+      return { ...existingRun, conflicts };
     }
 
     // Add WHERE clause with user validation
@@ -363,6 +662,7 @@ export async function updateRun(
     const updatedRun: Run = {
       id: row.id,
       userId: row.user_id,
+      organizationId: row.organization_id,
       reportTemplateId: row.report_template_id,
       reservation_id: row.reservation_id,
       billTo: row.bill_to,
@@ -377,24 +677,58 @@ export async function updateRun(
       actualDuration: row.actual_duration,
       status: row.status as RunStatus,
       type: row.type as 'pickup' | 'dropoff',
-      price: row.price,
+      priceCents: row.price_cents,
+      currency: row.currency,
+      lineItems: row.line_items || [],
+      stops: row.stops || [],
+      vehicleId: row.vehicle_id,
       notes: row.notes,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       completedAt: row.completed_at,
       activatedAt: row.activated_at,
+      distanceMiles: toDistanceMiles(row.distance_miles),
+      // Runs never move between series or occurrences
+      seriesId: existingRun.seriesId,
+      seriesOccurrence: existingRun.seriesOccurrence,
     };
 
     console.log(`✅ Updated run: ${id}`);
-    return updatedRun;
+
+    const changes = diffRunFields(existingRun, updatedRun);
+    if (changes.length > 0) {
+      await recordRunEvents([
+        {
+          runId: id,
+          actorId,
+          type: changes.some(change => change.field === 'status')
+            ? RunEventType.statusChanged
+            : RunEventType.updated,
+          changes,
+        },
+      ]);
+    }
+
+    return { ...updatedRun, conflicts };
   } catch (error) {
+    if (
+      error instanceof RunStatusTransitionError ||
+      error instanceof RunConflictError
+    ) {
+      throw error;
+    }
+
     handleDatabaseError(error, 'update run');
     return null;
   }
 }
 
-// Delete run
-export async function deleteRun(id: string, userId: string): Promise<boolean> {
+// Delete run. The run's last values are kept in its history.
+export async function deleteRun(
+  id: string,
+  userId: string,
+  actorId: string = userId
+): Promise<boolean> {
   if (!userId) {
     throw new Error('User ID is required');
   }
@@ -405,6 +739,7 @@ export async function deleteRun(id: string, userId: string): Promise<boolean> {
 
   try {
     const db = getDatabase();
+    const existingRun = await getRunById(id, userId);
 
     // First delete related notifications (only those belonging to the user)
     await deleteNotificationsByRunId(id, userId);
@@ -416,6 +751,23 @@ export async function deleteRun(id: string, userId: string): Promise<boolean> {
     const success = result.rowCount != null && result.rowCount > 0;
     if (success) {
       console.log(`🗑️ Deleted run: ${id}`);
+
+      // Keep the series from creating the run again
+      if (existingRun?.seriesId && existingRun.seriesOccurrence) {
+        await addRunSeriesExdate(
+          existingRun.seriesId,
+          existingRun.seriesOccurrence
+        );
+      }
+
+      await recordRunEvents([
+        {
+          runId: id,
+          actorId,
+          type: RunEventType.deleted,
+          changes: existingRun ? diffRunFields(existingRun, {}) : [],
+        },
+      ]);
     }
 
     return success;
@@ -425,16 +777,93 @@ export async function deleteRun(id: string, userId: string): Promise<boolean> {
   }
 }
 
-// Get runs statistics
+// Hand a run to another driver. The run moves to the driver's runs along
+// with ownership; the previous owner's notifications for it are removed.
+// Runs that don't belong to the given organization are left alone and
+// reported as not found.
+export async function assignRun(
+  id: string,
+  organizationId: string,
+  driverId: string,
+  actorId: string
+): Promise<Run | null> {
+  if (!id) {
+    throw new Error('Run ID is required');
+  }
+
+  if (!driverId) {
+    throw new Error('Driver ID is required');
+  }
+
+  try {
+    const db = getDatabase();
+    const existingRun = await getRunById(id);
+    if (!existingRun || existingRun.organizationId !== organizationId) {
+      return null;
+    }
+
+    if (existingRun.userId === driverId) {
+      return existingRun;
+    }
+
+    await db.query(
+      'UPDATE runs SET user_id = $1, updated_at = $2 WHERE id = $3 AND organization_id = $4',
+      [driverId, new Date().toISOString(), id, organizationId]
+    );
+    await deleteNotificationsByRunId(id, existingRun.userId);
+
+    const updatedRun = await getRunById(id);
+    if (!updatedRun) {
+      return null;
+    }
+
+    console.log(`🚐 Assigned run ${id} to ${driverId}`);
+
+    await recordRunEvents([
+      {
+        runId: id,
+        actorId,
+        type: RunEventType.assigned,
+        changes: diffRunFields(existingRun, updatedRun),
+      },
+    ]);
+
+    return updatedRun;
+  } catch (error) {
+    handleDatabaseError(error, 'assign run');
+    return null;
+  }
+}
+
+// Revenue totals for one currency, in cents
+export interface RunsRevenue {
+  priceCents: number;
+  // Tips, tolls and surcharges
+  lineItemCents: number;
+  totalCents: number;
+}
+
+// Get runs statistics. Revenue excludes cancelled runs and is kept per
+// currency since amounts in different currencies cannot be added up.
 export async function getRunsStats(userId?: string): Promise<{
   total: number;
   byStatus: Record<RunStatus, number>;
   byType: Record<'pickup' | 'dropoff', number>;
+  revenue: Record<string, RunsRevenue>;
 }> {
   try {
     const db = getDatabase();
 
-    let sql = 'SELECT status, type, COUNT(*) as count FROM runs';
+    let sql = `
+      SELECT
+        status, type, currency, COUNT(*) as count,
+        SUM(price_cents) as price_cents,
+        SUM((
+          SELECT COALESCE(SUM((item->>'amountCents')::integer), 0)
+          FROM jsonb_array_elements(line_items) item
+        )) as line_item_cents
+      FROM runs
+    `;
     const args: any[] = [];
 
     if (userId) {
@@ -442,7 +871,7 @@ export async function getRunsStats(userId?: string): Promise<{
       args.push(userId);
     }
 
-    sql += ' GROUP BY status, type';
+    sql += ' GROUP BY status, type, currency';
 
     const result = await db.query(sql, args);
 
@@ -458,6 +887,7 @@ export async function getRunsStats(userId?: string): Promise<{
         pickup: 0,
         dropoff: 0,
       } as Record<'pickup' | 'dropoff', number>,
+      revenue: {} as Record<string, RunsRevenue>,
     };
 
     result.rows.forEach(row => {
@@ -468,6 +898,22 @@ export async function getRunsStats(userId?: string): Promise<{
       stats.total += count;
       stats.byStatus[status] += count;
       stats.byType[type] += count;
+
+      if (status === 'cancelled') {
+        return;
+      }
+
+      // SUM over integer columns comes back from pg as a string
+      const priceCents = Number(row.price_cents) || 0;
+      const lineItemCents = Number(row.line_item_cents) || 0;
+      const revenue = (stats.revenue[row.currency] ??= {
+        priceCents: 0,
+        lineItemCents: 0,
+        totalCents: 0,
+      });
+      revenue.priceCents += priceCents;
+      revenue.lineItemCents += lineItemCents;
+      revenue.totalCents += priceCents + lineItemCents;
     });
 
     return stats;
@@ -477,15 +923,23 @@ export async function getRunsStats(userId?: string): Promise<{
       total: 0,
       byStatus: { scheduled: 0, active: 0, completed: 0, cancelled: 0 },
       byType: { pickup: 0, dropoff: 0 },
+      revenue: {},
     };
   }
 }
 
-// Bulk create runs (for import functionality)
+// A run to create in a batch, optionally as an occurrence of a run series
+export type NewBatchRun = NewRunForm &
+  Pick<Run, 'seriesId' | 'seriesOccurrence'>;
+
+// Bulk create runs (for import functionality and run series) in the owner's
+// organization. The runs are checked for overlaps with the driver's runs and
+// each other before any is saved.
 export async function createRunsBatch(
-  runsData: NewRunForm[],
-  userId: string
-): Promise<Run[]> {
+  runsData: NewBatchRun[],
+  userId: string,
+  organizationId: string | null = null
+): Promise<RunWithConflicts[]> {
   if (!userId) {
     throw new Error('User ID is required');
   }
@@ -493,33 +947,55 @@ export async function createRunsBatch(
   try {
     const db = getDatabase();
     const now = new Date().toISOString();
-    const runs: Run[] = [];
+    const runs: Run[] = runsData.map(runData => ({
+      id: crypto.randomUUID(),
+      userId: userId,
+      organizationId,
+      ...runData,
+      airline: runData.airline || '',
+      currency: runData.currency || DEFAULT_CURRENCY,
+      lineItems: runData.lineItems || [],
+      stops: runData.stops || [],
+      status: 'scheduled',
+      createdAt: new Date(now),
+      updatedAt: new Date(now),
+    }));
+
+    const conflicts = await getRunConflicts(userId, runs);
+    if (getRunConflictMode() === 'block') {
+      const allConflicts = conflicts.flat();
+      if (allConflicts.length > 0) {
+        throw new RunConflictError(
+          allConflicts.filter(
+            (conflict, index) =>
+              allConflicts.findIndex(
+                other => other.runId === conflict.runId
+              ) === index
+          )
+        );
+      }
+    }
 
     // Start transaction
     await db.query('BEGIN TRANSACTION');
 
     try {
-      for (const runData of runsData) {
-        const runId = crypto.randomUUID();
-        const run: Run = {
-          id: runId,
-          userId: userId,
-          ...runData,
-          airline: runData.airline || '',
-          status: 'scheduled',
-          createdAt: new Date(now),
-          updatedAt: new Date(now),
-        };
-
+      for (const run of runs) {
         await db.query(
           `INSERT INTO runs (
-            id, user_id, flight_number, airline, departure_airport, arrival_airport,
+            id, user_id, organization_id, report_template_id, reservation_id, bill_to,
+            flight_number, airline, departure_airport, arrival_airport,
             pickup_location, dropoff_location, scheduled_time, estimated_duration, status, type,
-            price, notes, created_at, updated_at, activated_at
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)`,
+            price_cents, currency, line_items, stops, vehicle_id, notes, created_at, updated_at, activated_at,
+            series_id, series_occurrence
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27)`,
           [
             run.id,
             run.userId,
+            run.organizationId,
+            run.reportTemplateId,
+            run.reservation_id,
+            run.billTo || null,
             run.flightNumber,
             run.airline,
             run.departure,
@@ -530,28 +1006,77 @@ export async function createRunsBatch(
             run.estimatedDuration,
             run.status,
             run.type,
-            run.price,
+            run.priceCents,
+            run.currency,
+            JSON.stringify(run.lineItems),
+            JSON.stringify(run.stops),
+            run.vehicleId || null,
             run.notes || null,
             now,
             now,
             null, // activatedAt
+            run.seriesId || null,
+            run.seriesOccurrence || null,
           ]
         );
-
-        runs.push(run);
       }
 
       // Commit transaction
       await db.query('COMMIT');
       console.log(`✅ Created ${runs.length} runs in batch`);
-      return runs;
+
+      for (let index = 0; index < runsData.length; index++) {
+        const { passengers } = runsData[index];
+        if (passengers && passengers.length > 0) {
+          await replaceRunPassengers(runs[index].id, passengers);
+        }
+      }
+
+      await recordRunEvents(
+        runs.map(run => ({
+          runId: run.id,
+          actorId: userId,
+          type: RunEventType.created,
+          changes: diffRunFields({}, run),
+        }))
+      );
+
+      return runs.map((run, index) => ({
+        ...run,
+        conflicts: conflicts[index],
+      }));
     } catch (error) {
       // Rollback transaction on error
       await db.query('ROLLBACK');
       throw error;
     }
   } catch (error) {
+    if (error instanceof RunConflictError) {
+      throw error;
+    }
+
     handleDatabaseError(error, 'create runs batch');
     throw new Error('Failed to create runs batch');
   }
 }
+
+// Record the miles driven on a run. Kept out of updateRun so recording the
+// distance isn't logged as an edit to the run.
+export async function setRunDistanceMiles(
+  id: string,
+  distanceMiles: number
+): Promise<boolean> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      'UPDATE runs SET distance_miles = $1 WHERE id = $2',
+      [distanceMiles, id]
+    );
+
+    return result.rowCount !== null && result.rowCount > 0;
+  } catch (error) {
+    handleDatabaseError(error, 'set run distance');
+    return false;
+  }
+}
@@ -0,0 +1,251 @@
+import { type Vehicle, type VehicleForm } from '../schema';
+import { VehicleCapacityError } from '../vehicles';
+import { getDatabase, handleDatabaseError } from './index';
+
+export interface VehiclesQuery {
+  organizationId?: string;
+  isActive?: boolean;
+}
+
+const VEHICLE_COLUMNS = `
+  id, organization_id, name, plate, capacity, type, is_active, created_at,
+  updated_at
+`;
+
+function mapVehicleRow(row: any): Vehicle {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    name: row.name,
+    plate: row.plate,
+    capacity: row.capacity,
+    type: row.type,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Add a vehicle to an organization's fleet
+export async function createVehicle(
+  vehicleData: VehicleForm
+): Promise<Vehicle> {
+  if (!vehicleData.organizationId) {
+    throw new Error('Organization ID is required');
+  }
+
+  try {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    const result = await db.query(
+      `INSERT INTO vehicles (
+        id, organization_id, name, plate, capacity, type, is_active,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING ${VEHICLE_COLUMNS}`,
+      [
+        crypto.randomUUID(),
+        vehicleData.organizationId,
+        vehicleData.name,
+        vehicleData.plate,
+        vehicleData.capacity,
+        vehicleData.type,
+        vehicleData.isActive,
+        now,
+        now,
+      ]
+    );
+
+    console.log(`✅ Created vehicle: ${result.rows[0].id}`);
+    return mapVehicleRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'create vehicle');
+    throw new Error('Failed to create vehicle');
+  }
+}
+
+// Get vehicles with optional filtering, ordered by name
+export async function getVehicles(
+  query: VehiclesQuery = {}
+): Promise<Vehicle[]> {
+  try {
+    const db = getDatabase();
+    const { organizationId, isActive } = query;
+
+    let sql = `SELECT ${VEHICLE_COLUMNS} FROM vehicles`;
+
+    const conditions: string[] = [];
+    const args: any[] = [];
+
+    if (organizationId) {
+      conditions.push(`organization_id = $${args.length + 1}`);
+      args.push(organizationId);
+    }
+
+    if (isActive !== undefined) {
+      conditions.push(`is_active = $${args.length + 1}`);
+      args.push(isActive);
+    }
+
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
+
+    sql += ' ORDER BY name ASC';
+
+    const result = await db.query(sql, args);
+
+    return result.rows.map(mapVehicleRow);
+  } catch (error) {
+    handleDatabaseError(error, 'get vehicles');
+    return [];
+  }
+}
+
+// Get a single vehicle by ID
+export async function getVehicleById(
+  id: string,
+  organizationId?: string
+): Promise<Vehicle | null> {
+  try {
+    const db = getDatabase();
+
+    let sql = `SELECT ${VEHICLE_COLUMNS} FROM vehicles WHERE id = $1`;
+    const args = [id];
+
+    if (organizationId) {
+      sql += ' AND organization_id = $2';
+      args.push(organizationId);
+    }
+
+    const result = await db.query(sql, args);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return mapVehicleRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'get vehicle by id');
+    return null;
+  }
+}
+
+// Get the organization's vehicle with a plate
+export async function getVehicleByPlate(
+  plate: string,
+  organizationId: string
+): Promise<Vehicle | null> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `SELECT ${VEHICLE_COLUMNS} FROM vehicles
+       WHERE plate = $1 AND organization_id = $2`,
+      [plate.toUpperCase(), organizationId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return mapVehicleRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'get vehicle by plate');
+    return null;
+  }
+}
+
+// Update a vehicle
+export async function updateVehicle(
+  id: string,
+  vehicleData: VehicleForm,
+  organizationId: string
+): Promise<Vehicle | null> {
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      `UPDATE vehicles
+       SET name = $1, plate = $2, capacity = $3, type = $4, is_active = $5,
+           updated_at = $6
+       WHERE id = $7 AND organization_id = $8
+       RETURNING ${VEHICLE_COLUMNS}`,
+      [
+        vehicleData.name,
+        vehicleData.plate,
+        vehicleData.capacity,
+        vehicleData.type,
+        vehicleData.isActive,
+        new Date().toISOString(),
+        id,
+        organizationId,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return null; // Vehicle not found or access denied
+    }
+
+    console.log(`✅ Updated vehicle: ${id}`);
+    return mapVehicleRow(result.rows[0]);
+  } catch (error) {
+    handleDatabaseError(error, 'update vehicle');
+    return null;
+  }
+}
+
+// Delete a vehicle; runs it was assigned to are left without one
+export async function deleteVehicle(
+  id: string,
+  organizationId: string
+): Promise<boolean> {
+  if (!id || !organizationId) {
+    throw new Error('Vehicle ID and Organization ID are required');
+  }
+
+  try {
+    const db = getDatabase();
+
+    const result = await db.query(
+      'DELETE FROM vehicles WHERE id = $1 AND organization_id = $2',
+      [id, organizationId]
+    );
+
+    const success = result.rowCount !== null && result.rowCount > 0;
+
+    if (success) {
+      console.log(`✅ Deleted vehicle: ${id}`);
+    } else {
+      console.log(`⚠️ Vehicle not found or access denied: ${id}`);
+    }
+
+    return success;
+  } catch (error) {
+    handleDatabaseError(error, 'delete vehicle');
+    return false;
+  }
+}
+
+/**
+ * Get the organization's vehicle for a run carrying a number of passengers.
+ * Returns null when the organization has no such vehicle, and throws a
+ * VehicleCapacityError when the passengers don't fit in it.
+ */
+export async function checkVehicleCapacity(
+  vehicleId: string,
+  organizationId: string,
+  passengerCount: number
+): Promise<Vehicle | null> {
+  const vehicle = await getVehicleById(vehicleId, organizationId);
+  if (!vehicle) {
+    return null;
+  }
+
+  if (passengerCount > vehicle.capacity) {
+    throw new VehicleCapacityError(vehicle, passengerCount);
+  }
+
+  return vehicle;
+}
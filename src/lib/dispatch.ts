@@ -0,0 +1,67 @@
+import { type Run, type RunStatus } from './schema';
+
+// Statuses of the runs shown on the dispatch board
+export const DISPATCH_BOARD_STATUSES: RunStatus[] = ['scheduled', 'active'];
+
+// Days ahead the dispatch board looks by default
+export const DEFAULT_DISPATCH_DAYS = 7;
+
+// A run on the dispatch board with the driver it is assigned to. Runs still
+// owned by a staff member rather than a driver (e.g. the dispatcher who
+// created them) count as unassigned.
+export interface DispatchRun extends Run {
+  driverName: string;
+  isAssigned: boolean;
+}
+
+// Only runs that haven't started can be handed to another driver
+export function canAssignRun(run: Pick<Run, 'status'>): boolean {
+  return run.status === 'scheduled';
+}
+
+// Availability filters on the drivers page. Drivers are available when they
+// have no active run and, for the timed filters, no run starting sooner.
+export const DRIVER_AVAILABILITY_FILTERS = [
+  { value: 'all', label: 'All Drivers' },
+  { value: 'available', label: 'Now' },
+  { value: 'available-1h', label: 'in 1 Hour' },
+  { value: 'available-2h', label: 'in 2 Hours' },
+  { value: 'available-4h', label: 'in 4 Hours' },
+  { value: 'available-today', label: 'Today' },
+  { value: 'on-shift', label: 'On Shift' },
+  { value: 'active', label: 'Currently Active' },
+  { value: 'scheduled', label: 'Has Scheduled Runs' },
+] as const;
+
+export type DriverAvailabilityFilter =
+  (typeof DRIVER_AVAILABILITY_FILTERS)[number]['value'];
+
+export function isDriverAvailabilityFilter(
+  value: string
+): value is DriverAvailabilityFilter {
+  return DRIVER_AVAILABILITY_FILTERS.some(filter => filter.value === value);
+}
+
+// A driver suggested for a run, best match first. Drivers with a conflicting
+// run, time off or no shift covering it are still listed, after every
+// eligible driver, so the dispatcher can see why they were passed over.
+export interface DriverRecommendation {
+  userId: string;
+  driverName: string;
+  // 0-100, higher is a better fit
+  score: number;
+  isEligible: boolean;
+  isCurrentDriver: boolean;
+  // Run the driver is on right now
+  activeRunId: string | null;
+  // Driving time from the dropoff of the driver's previous run that day to
+  // this run's pickup; null when the run is their first of the day
+  travelMinutes: number | null;
+  // Free time between getting to the pickup and the run's start; null when
+  // the run is their first of the day
+  slackMinutes: number | null;
+  // The driver's other runs on the run's day
+  dailyRunCount: number;
+  dailyDriveMinutes: number;
+  reasons: string[];
+}
@@ -0,0 +1,13 @@
+// Trigger a browser download for a blob, e.g. a report or invoice file
+// fetched from the API
+export function downloadBlob(blob: Blob, filename: string) {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,176 @@
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import {
+  type DriverAvailabilityBlock,
+  type DriverAvailabilityKind,
+} from './schema';
+
+export const DRIVER_AVAILABILITY_KIND_LABELS: Record<
+  DriverAvailabilityKind,
+  string
+> = {
+  shift: 'Shift',
+  dayOff: 'Day off',
+  blackout: 'Blackout',
+};
+
+// Indexed by weekday, 0 = Sunday
+export const WEEKDAY_LABELS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+// A stretch of time an availability block covers
+export interface AvailabilityWindow {
+  block: DriverAvailabilityBlock;
+  start: Date;
+  end: Date;
+}
+
+// Why a driver's calendar keeps them from working a window
+export type ScheduleConflict =
+  | { kind: 'dayOff' | 'blackout'; block: DriverAvailabilityBlock }
+  | { kind: 'offShift' };
+
+// Each week's occurrence of a shift overlapping from-to. Starts a day early
+// to catch overnight shifts that began the day before.
+function getShiftWindows(
+  block: DriverAvailabilityBlock,
+  from: Date,
+  to: Date
+): AvailabilityWindow[] {
+  const windows: AvailabilityWindow[] = [];
+  const lastDay = parseISO(formatInTimeZone(to, block.timezone, 'yyyy-MM-dd'));
+
+  for (
+    let day = parseISO(
+      formatInTimeZone(subDays(from, 1), block.timezone, 'yyyy-MM-dd')
+    );
+    day <= lastDay;
+    day = addDays(day, 1)
+  ) {
+    if (day.getDay() !== block.weekday) {
+      continue;
+    }
+
+    const date = format(day, 'yyyy-MM-dd');
+    const start = fromZonedTime(
+      `${date}T${block.startTime}:00`,
+      block.timezone
+    );
+    let end = fromZonedTime(`${date}T${block.endTime}:00`, block.timezone);
+    if (end <= start) {
+      end = addDays(end, 1);
+    }
+
+    if (start < to && end > from) {
+      windows.push({ block, start, end });
+    }
+  }
+
+  return windows;
+}
+
+/**
+ * When availability blocks cover time between from and to, earliest first.
+ * Shifts yield a window for each week they fall in.
+ */
+export function getAvailabilityWindows(
+  blocks: DriverAvailabilityBlock[],
+  from: Date,
+  to: Date
+): AvailabilityWindow[] {
+  const windows: AvailabilityWindow[] = [];
+
+  blocks.forEach(block => {
+    if (block.kind === 'shift') {
+      windows.push(...getShiftWindows(block, from, to));
+      return;
+    }
+
+    const start = new Date(block.startsAt!);
+    const end = new Date(block.endsAt!);
+    if (start < to && end > from) {
+      windows.push({ block, start, end });
+    }
+  });
+
+  return windows.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// The first day off or blackout overlapping start-end
+export function findTimeOff(
+  blocks: DriverAvailabilityBlock[],
+  start: Date,
+  end: Date
+): DriverAvailabilityBlock | null {
+  const window = getAvailabilityWindows(
+    blocks.filter(block => block.kind !== 'shift'),
+    start,
+    end
+  )[0];
+
+  return window?.block ?? null;
+}
+
+// Whether the driver's shifts cover all of start-end, back-to-back shifts
+// counting as one. Drivers who haven't declared shifts are always on.
+export function isOnShift(
+  blocks: DriverAvailabilityBlock[],
+  start: Date,
+  end: Date
+): boolean {
+  const shifts = blocks.filter(block => block.kind === 'shift');
+  if (shifts.length === 0) {
+    return true;
+  }
+
+  let coveredUntil = start;
+  getAvailabilityWindows(shifts, start, end).forEach(window => {
+    if (window.start <= coveredUntil && window.end > coveredUntil) {
+      coveredUntil = window.end;
+    }
+  });
+
+  return coveredUntil >= end;
+}
+
+/**
+ * Why a driver can't work between start and end according to their
+ * calendar, or null when they can. Any time off in the window rules them
+ * out, as does the window falling outside their shifts.
+ */
+export function getScheduleConflict(
+  blocks: DriverAvailabilityBlock[],
+  start: Date,
+  end: Date
+): ScheduleConflict | null {
+  const timeOff = findTimeOff(blocks, start, end);
+  if (timeOff) {
+    return { kind: timeOff.kind as 'dayOff' | 'blackout', block: timeOff };
+  }
+
+  return isOnShift(blocks, start, end) ? null : { kind: 'offShift' };
+}
+
+// e.g. "Day off", "Blackout: dentist" or "Off shift"
+export function describeScheduleConflict(conflict: ScheduleConflict): string {
+  if (conflict.kind === 'offShift') {
+    return 'Off shift';
+  }
+
+  const label = DRIVER_AVAILABILITY_KIND_LABELS[conflict.kind];
+  return conflict.block.note ? `${label}: ${conflict.block.note}` : label;
+}
+
+// e.g. "Monday 06:00-14:00"
+export function describeShift(
+  block: Pick<DriverAvailabilityBlock, 'weekday' | 'startTime' | 'endTime'>
+): string {
+  return `${WEEKDAY_LABELS[block.weekday!]} ${block.startTime}-${block.endTime}`;
+}
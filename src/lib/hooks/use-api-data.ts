@@ -1,9 +1,11 @@
 import { useQueries, useQuery } from '@tanstack/react-query';
 import { queryKeys } from '../react-query-client';
-import type { Run } from '../schema';
+import type { Run, VehicleType } from '../schema';
 import { getFlightServiceWithConfig } from '../services/flight-service';
 import {
   getTrafficData,
+  type MultiStopRouteResponse,
+  planMultiStopRoute,
   planShuttleRoute,
   type ShuttleRouteResponse,
 } from '../services/tomtom-service';
@@ -62,6 +64,7 @@ export function useShuttleRoute(
   pickupLocation: string,
   dropoffLocation: string,
   departureTime?: string,
+  vehicleType?: VehicleType,
   enabled: boolean = true
 ) {
   const networkOptions = useNetworkAwareOptions();
@@ -74,13 +77,15 @@ export function useShuttleRoute(
       pickupLocation,
       dropoffLocation,
       departureTime,
+      vehicleType,
     ],
     queryFn: () =>
       planShuttleRoute(
         currentLocation,
         pickupLocation,
         dropoffLocation,
-        departureTime
+        departureTime,
+        vehicleType
       ),
     enabled:
       enabled &&
@@ -98,6 +103,34 @@ export function useShuttleRoute(
   });
 }
 
+// Hook for routing a run with stops through each location in order
+export function useMultiStopRoute(
+  locations: string[],
+  departureTime?: string,
+  vehicleType?: VehicleType,
+  enabled: boolean = true
+) {
+  const networkOptions = useNetworkAwareOptions();
+  const { isOffline } = useNetworkStatus();
+
+  return useQuery<MultiStopRouteResponse>({
+    queryKey: ['multi-stop-route', ...locations, departureTime, vehicleType],
+    queryFn: () => planMultiStopRoute(locations, departureTime, vehicleType),
+    enabled:
+      enabled &&
+      locations.length >= 2 &&
+      locations.every(Boolean) &&
+      !isOffline,
+    staleTime: networkOptions.staleTime,
+    gcTime: networkOptions.gcTime,
+    refetchOnWindowFocus: networkOptions.refetchOnWindowFocus,
+    refetchOnReconnect: networkOptions.refetchOnReconnect,
+    retry: networkOptions.retry,
+    // Return cached data even when query is disabled (offline)
+    placeholderData: previousData => previousData,
+  });
+}
+
 // Hook for fetching multiple flight statuses with optimized batching
 export function useMultipleFlightStatuses(flightNumbers: string[]) {
   const networkOptions = useNetworkAwareOptions();
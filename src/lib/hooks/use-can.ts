@@ -0,0 +1,70 @@
+import { useNavigate } from '@tanstack/react-router';
+import { useCallback, useEffect } from 'react';
+import {
+  type Capability,
+  getOrganizationRole,
+  type OrganizationRole,
+  roleCan,
+} from '../permissions';
+import type { ClerkOrganization } from '../schema';
+import { useUserOrganization } from './use-organizations';
+
+interface UseCanResult {
+  // Whether the user's role grants a capability; false outside an
+  // organization
+  can: (capability: Capability) => boolean;
+  role: OrganizationRole | null;
+  isLoading: boolean;
+  organization: ClerkOrganization | null;
+}
+
+// Hook to gate UI on the permission matrix, e.g. can('runs:assign'). The
+// server checks the same matrix, so this only hides what would be refused.
+export function useCan(): UseCanResult {
+  const { data: organization, isLoading } = useUserOrganization();
+  const role = organization ? getOrganizationRole(organization.role) : null;
+
+  const can = useCallback(
+    (capability: Capability) => !!role && roleCan(role, capability),
+    [role]
+  );
+
+  return {
+    can,
+    role,
+    isLoading,
+    organization: organization || null,
+  };
+}
+
+interface UseRequireCapabilityResult {
+  isAllowed: boolean;
+  isLoading: boolean;
+  can: (capability: Capability) => boolean;
+  organization: ClerkOrganization;
+}
+
+// Hook for pages that need a capability: redirects users whose role doesn't
+// grant it once their organization has loaded
+export function useRequireCapability(
+  capability: Capability,
+  redirectTo: string = '/runs'
+): UseRequireCapabilityResult {
+  const { can, isLoading, organization } = useCan();
+  const navigate = useNavigate();
+  const isAllowed = can(capability);
+
+  useEffect(() => {
+    if (!isLoading && !isAllowed) {
+      console.log(`🚫 Missing ${capability}, redirecting to:`, redirectTo);
+      navigate({ to: redirectTo });
+    }
+  }, [capability, isAllowed, isLoading, navigate, redirectTo]);
+
+  return {
+    isAllowed,
+    isLoading,
+    can,
+    organization: organization as ClerkOrganization,
+  };
+}
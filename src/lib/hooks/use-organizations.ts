@@ -1,6 +1,7 @@
 import { useUser } from '@clerk/clerk-react';
 import { useQuery, type UseQueryResult } from '@tanstack/react-query';
 import { organizationsApi } from '../api/client';
+import type { Capability } from '../permissions';
 import type { ClerkOrganization } from '../schema';
 
 // Hook to get single organization for the current user (new single-org model)
@@ -15,9 +16,7 @@ export function useUserOrganization(): UseQueryResult<
     queryFn: async () => {
       if (!user?.id) throw new Error('User ID not available');
 
-      const organizations = await organizationsApi.getUserOrganizations(
-        user.id
-      );
+      const organizations = await organizationsApi.getUserOrganizations();
       return organizations[0] || null;
     },
     enabled: !!user?.id,
@@ -33,7 +32,7 @@ export function useOrganizationMembers(orgId: string) {
     queryKey: ['organizations', orgId, 'members'],
     queryFn: () => {
       if (!user?.id) throw new Error('User ID not available');
-      return organizationsApi.getOrganizationMembers(orgId, user.id);
+      return organizationsApi.getOrganizationMembers(orgId);
     },
     enabled: !!user?.id && !!orgId,
     staleTime: 1000 * 60 * 5, // 5 minutes
@@ -48,50 +47,29 @@ export function useUserRole(orgId: string) {
     queryKey: ['organizations', orgId, 'user-role', user?.id],
     queryFn: () => {
       if (!user?.id) throw new Error('User ID not available');
-      return organizationsApi.getUserRole(orgId, user.id);
+      return organizationsApi.getUserRole(orgId);
     },
     enabled: !!user?.id && !!orgId,
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 }
 
-// Hook to check if user has specific permissions in an organization
-export function useUserPermissions(orgId: string, permission: string) {
+// Hook to ask the server whether the user's role in an organization grants a
+// capability. useCan answers the same from the cached organization.
+export function useUserPermissions(orgId: string, permission: Capability) {
   const { user } = useUser();
 
   return useQuery({
     queryKey: ['organizations', orgId, 'permissions', permission, user?.id],
     queryFn: () => {
       if (!user?.id) throw new Error('User ID not available');
-      return organizationsApi.checkPermissions(orgId, user.id, permission);
+      return organizationsApi.checkPermissions(orgId, permission);
     },
     enabled: !!user?.id && !!orgId && !!permission,
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 }
 
-// Hook to check if user is an admin in any organization
-export function useIsUserAdmin(orgId?: string) {
-  const { data: userOrg } = useUserOrganization();
-  const { data: userRole } = useUserRole(orgId || '');
-
-  if (orgId) {
-    // Check specific organization
-    return {
-      isAdmin: userRole?.role === 'org:admin',
-      isLoading: !userRole,
-    };
-  }
-
-  // Check if admin in any organization
-  const isAdminInAnyOrg = (userOrg as any)?.role === 'org:admin' || false;
-
-  return {
-    isAdmin: isAdminInAnyOrg,
-    isLoading: !userOrg,
-  };
-}
-
 // Hook to get the current active organization (simplified for single-org model)
 export function useActiveOrganization() {
   const { data: userOrg, isLoading } = useUserOrganization();
@@ -0,0 +1,117 @@
+import { type Run, type RunLineItem, RunLineItemType } from './schema';
+
+// Currency used when a run does not specify one
+export const DEFAULT_CURRENCY = 'USD';
+
+export const RUN_LINE_ITEM_TYPE_LABELS: Record<RunLineItemType, string> = {
+  [RunLineItemType.tip]: 'Tip',
+  [RunLineItemType.toll]: 'Toll',
+  [RunLineItemType.surcharge]: 'Surcharge',
+};
+
+/**
+ * Parse an amount typed or pasted as text, e.g. "$85", "85.5" or "1,250.00",
+ * into integer cents. Returns null when the text is not a valid amount.
+ */
+export function parsePriceToCents(text: string): number | null {
+  const cleaned = text.trim().replace(/^\$/, '').replace(/,/g, '');
+  if (!/^\d+(\.\d{1,2})?$/.test(cleaned)) {
+    return null;
+  }
+
+  const [dollars, cents = ''] = cleaned.split('.');
+  return parseInt(dollars, 10) * 100 + parseInt(cents.padEnd(2, '0'), 10);
+}
+
+// Amount in cents as a plain decimal string for form inputs, e.g. "85.50"
+export function formatCentsForInput(cents: number | null | undefined): string {
+  return typeof cents === 'number' && Number.isFinite(cents)
+    ? (cents / 100).toFixed(2)
+    : '';
+}
+
+// Format an amount in cents for display, e.g. "$85.50" or "€12.00"
+export function formatCents(
+  cents: number,
+  currency: string = DEFAULT_CURRENCY
+): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    }).format(cents / 100);
+  } catch {
+    // Unknown currency codes fall back to the plain amount and the code
+    return `${(cents / 100).toFixed(2)} ${currency}`;
+  }
+}
+
+// Amounts in cents keyed by currency code, e.g. { USD: 12000, EUR: 4000 }
+export type CurrencyTotals = Record<string, number>;
+
+// Add up an amount in cents per item, keeping each currency separate since
+// amounts in different currencies cannot be added up
+export function sumCentsByCurrency<T extends { currency?: string | null }>(
+  items: T[],
+  getCents: (item: T) => number
+): CurrencyTotals {
+  return items.reduce<CurrencyTotals>((totals, item) => {
+    const currency = item.currency || DEFAULT_CURRENCY;
+    totals[currency] = (totals[currency] || 0) + getCents(item);
+    return totals;
+  }, {});
+}
+
+// Totals for display, e.g. "$120.00" or "$120.00 + €40.00"
+export function formatCurrencyTotals(totals: CurrencyTotals): string {
+  const currencies = Object.keys(totals).sort();
+  if (currencies.length === 0) {
+    return formatCents(0);
+  }
+  return currencies
+    .map(currency => formatCents(totals[currency], currency))
+    .join(' + ');
+}
+
+// The currency shared by every item, or null when they use more than one.
+// Items without a currency are in the default currency.
+export function getSharedCurrency(
+  items: { currency?: string | null }[]
+): string | null {
+  const currencies = new Set(
+    items.map(item => item.currency || DEFAULT_CURRENCY)
+  );
+  if (currencies.size > 1) {
+    return null;
+  }
+  return currencies.size === 1 ? Array.from(currencies)[0] : DEFAULT_CURRENCY;
+}
+
+// Sum of a run's line items, optionally only those of one type
+export function getRunLineItemsCents(
+  run: { lineItems?: RunLineItem[] },
+  type?: RunLineItemType
+): number {
+  return (run.lineItems ?? [])
+    .filter(item => !type || item.type === type)
+    .reduce((sum, item) => sum + item.amountCents, 0);
+}
+
+// What the customer pays for a run: the price plus tips, tolls and surcharges
+export function getRunTotalCents(
+  run: Pick<Run, 'priceCents'> & { lineItems?: RunLineItem[] }
+): number {
+  return (run.priceCents ?? 0) + getRunLineItemsCents(run);
+}
+
+// A run's price for display, followed by its line items when it has any,
+// e.g. "$85.00" or "$85.00 + $12.00"
+export function formatRunPrice(
+  run: Pick<Run, 'priceCents' | 'currency'> & { lineItems?: RunLineItem[] }
+): string {
+  const price = formatCents(run.priceCents ?? 0, run.currency);
+  const lineItemsCents = getRunLineItemsCents(run);
+  return lineItemsCents > 0
+    ? `${price} + ${formatCents(lineItemsCents, run.currency)}`
+    : price;
+}
@@ -0,0 +1,233 @@
+import { type ZodObject, type ZodRawShape, type ZodTypeAny } from 'zod';
+import { type ApiTokenScope } from '../schema';
+import { type JsonSchema, zodToJsonSchema } from './json-schema';
+
+// One documented API route. The route registry in api/openapi.ts lists these.
+export interface ApiRouteDefinition {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  // Path with :param segments, e.g. /api/runs/:id
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  query?: ZodObject<ZodRawShape>;
+  body?: ZodTypeAny;
+  // JSON body of a successful response; omitted when the route returns a
+  // file (see responseContentType)
+  response?: ZodTypeAny;
+  responseContentType?: string;
+  // Defaults to 200
+  status?: number;
+  // Routes anyone can call
+  isPublic?: boolean;
+  // /api/v1 routes: the API token scope they need
+  scope?: ApiTokenScope;
+}
+
+// The parts of the OpenAPI 3.1 objects this document uses
+export interface ParameterObject {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JsonSchema;
+  description?: string;
+}
+
+export interface MediaTypeObject {
+  schema: JsonSchema;
+}
+
+export interface ResponseObject {
+  description: string;
+  content?: Record<string, MediaTypeObject>;
+}
+
+export interface OperationObject {
+  tags: string[];
+  summary: string;
+  description?: string;
+  operationId: string;
+  parameters?: ParameterObject[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, MediaTypeObject>;
+  };
+  responses: Record<string, ResponseObject>;
+  security: Record<string, string[]>[];
+}
+
+export interface SecuritySchemeObject {
+  type: 'http';
+  scheme: 'bearer';
+  bearerFormat?: string;
+  description?: string;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  // Operations by path, then by lowercase method
+  paths: Record<string, Record<string, OperationObject>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, SecuritySchemeObject>;
+  };
+}
+
+// OpenAPI writes path parameters as {id}
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z]+)/g, '{$1}');
+}
+
+const ERROR_RESPONSE: JsonSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    details: {},
+  },
+  required: ['error'],
+};
+
+/**
+ * Build the OpenAPI 3.1 document for the routes. Schemas named in
+ * `components` are written once under components.schemas and referenced
+ * everywhere else.
+ */
+export function buildOpenApiDocument(
+  routes: ApiRouteDefinition[],
+  components: Record<string, ZodTypeAny>,
+  info: OpenApiDocument['info']
+): OpenApiDocument {
+  const names = new Map<ZodTypeAny, string>();
+  Object.entries(components).forEach(([name, schema]) => {
+    names.set(schema, name);
+  });
+
+  const schemas: Record<string, JsonSchema> = { ErrorResponse: ERROR_RESPONSE };
+  Object.entries(components).forEach(([name, schema]) => {
+    schemas[name] = zodToJsonSchema(schema, names, true);
+  });
+
+  const paths: OpenApiDocument['paths'] = {};
+  routes.forEach(route => {
+    const path = toOpenApiPath(route.path);
+    const parameters: ParameterObject[] = [];
+
+    (route.path.match(/:([A-Za-z]+)/g) || []).forEach(param => {
+      parameters.push({
+        name: param.slice(1),
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+      });
+    });
+
+    if (route.query) {
+      const shape = route.query.shape;
+      Object.keys(shape).forEach(name => {
+        parameters.push({
+          name,
+          in: 'query',
+          required: !shape[name].isOptional(),
+          schema: zodToJsonSchema(shape[name], names),
+          ...(shape[name].description
+            ? { description: shape[name].description }
+            : {}),
+        });
+      });
+    }
+
+    const status = String(route.status || 200);
+    const successResponse: ResponseObject = route.response
+      ? {
+          description: 'Success',
+          content: {
+            'application/json': {
+              schema: zodToJsonSchema(route.response, names),
+            },
+          },
+        }
+      : route.responseContentType
+        ? {
+            description: 'The file',
+            content: {
+              [route.responseContentType]: {
+                schema: { type: 'string', contentEncoding: 'binary' },
+              },
+            },
+          }
+        : { description: 'Success' };
+
+    const errorResponse = (description: string): ResponseObject => ({
+      description,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/ErrorResponse' },
+        },
+      },
+    });
+
+    paths[path] = paths[path] || {};
+    paths[path][route.method.toLowerCase()] = {
+      tags: [route.tag],
+      summary: route.summary,
+      ...(route.description ? { description: route.description } : {}),
+      operationId: `${route.method.toLowerCase()}${path
+        .split(/[\/{}-]+/)
+        .filter(Boolean)
+        .map(part => part[0].toUpperCase() + part.slice(1))
+        .join('')}`,
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(route.body
+        ? {
+            requestBody: {
+              required: true,
+              content: {
+                'application/json': {
+                  schema: zodToJsonSchema(route.body, names),
+                },
+              },
+            },
+          }
+        : {}),
+      responses: {
+        [status]: successResponse,
+        '400': errorResponse('Invalid request'),
+        ...(route.isPublic
+          ? {}
+          : {
+              '401': errorResponse('Missing or invalid token'),
+              '403': errorResponse('Not allowed'),
+            }),
+      },
+      security: route.isPublic
+        ? []
+        : route.scope
+          ? [{ apiToken: [route.scope] }, { clerkSession: [] }]
+          : [{ clerkSession: [] }],
+    };
+  });
+
+  return {
+    openapi: '3.1.0',
+    info,
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        clerkSession: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: "The signed-in user's Clerk session token",
+        },
+        apiToken: {
+          type: 'http',
+          scheme: 'bearer',
+          description:
+            'An organization API token (tt_...), accepted on /api/v1 only',
+        },
+      },
+    },
+  };
+}
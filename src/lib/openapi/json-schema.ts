@@ -0,0 +1,219 @@
+import {
+  type ZodFirstPartySchemaTypes,
+  ZodFirstPartyTypeKind,
+  type ZodNumberDef,
+  type ZodStringDef,
+  type ZodTypeAny,
+} from 'zod';
+
+/**
+ * Converts the Zod schemas in schema.ts to JSON Schema (draft 2020-12, the
+ * dialect OpenAPI 3.1 uses). Covers the Zod types this app uses; anything
+ * else becomes an empty schema, which accepts any value. Transforms and
+ * refinements are described by the schema they run on, and z.date() as a
+ * date-time string, its shape over the wire.
+ */
+
+export type JsonSchema = { [keyword: string]: any };
+
+// Schemas emitted as a $ref to #/components/schemas/<name>, keyed by the
+// Zod schema object
+export type SchemaNames = Map<ZodTypeAny, string>;
+
+// Named schemas keep their name as a $ref wherever they appear, except as the
+// root of their own component
+export function zodToJsonSchema(
+  schema: ZodTypeAny,
+  names: SchemaNames = new Map(),
+  isComponentRoot = false
+): JsonSchema {
+  const name = names.get(schema);
+  if (name && !isComponentRoot) {
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  const jsonSchema = convert(schema, names);
+  if (schema.description && !jsonSchema.description) {
+    jsonSchema.description = schema.description;
+  }
+  return jsonSchema;
+}
+
+function nullable(jsonSchema: JsonSchema): JsonSchema {
+  return { anyOf: [jsonSchema, { type: 'null' }] };
+}
+
+function convertString(def: ZodStringDef): JsonSchema {
+  const jsonSchema: JsonSchema = { type: 'string' };
+
+  for (const check of def.checks) {
+    switch (check.kind) {
+      case 'min':
+        jsonSchema.minLength = check.value;
+        break;
+      case 'max':
+        jsonSchema.maxLength = check.value;
+        break;
+      case 'length':
+        jsonSchema.minLength = check.value;
+        jsonSchema.maxLength = check.value;
+        break;
+      case 'regex':
+        jsonSchema.pattern = check.regex.source;
+        break;
+      case 'email':
+      case 'uuid':
+      case 'url':
+      case 'date':
+      case 'time':
+        jsonSchema.format = check.kind === 'url' ? 'uri' : check.kind;
+        break;
+      case 'datetime':
+        jsonSchema.format = 'date-time';
+        break;
+    }
+  }
+  return jsonSchema;
+}
+
+function convertNumber(def: ZodNumberDef): JsonSchema {
+  const jsonSchema: JsonSchema = { type: 'number' };
+
+  for (const check of def.checks) {
+    if (check.kind === 'int') {
+      jsonSchema.type = 'integer';
+    } else if (check.kind === 'min') {
+      jsonSchema[check.inclusive ? 'minimum' : 'exclusiveMinimum'] =
+        check.value;
+    } else if (check.kind === 'max') {
+      jsonSchema[check.inclusive ? 'maximum' : 'exclusiveMaximum'] =
+        check.value;
+    }
+  }
+  return jsonSchema;
+}
+
+function convert(schema: ZodTypeAny, names: SchemaNames): JsonSchema {
+  // Every schema in schema.ts is a first-party Zod type, so its def says
+  // which one by typeName
+  const def = (schema as ZodFirstPartySchemaTypes)._def;
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return convertString(def);
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return convertNumber(def);
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer' };
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: def.values };
+    case ZodFirstPartyTypeKind.ZodNativeEnum: {
+      // Numeric enums map names to values and values back to names
+      const values = Object.values(def.values).filter(
+        value => typeof def.values[value as string] !== 'number'
+      );
+      return { enum: values };
+    }
+
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = def.shape();
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+
+      for (const key of Object.keys(shape)) {
+        properties[key] = zodToJsonSchema(shape[key], names);
+        if (!shape[key].isOptional()) {
+          required.push(key);
+        }
+      }
+
+      const jsonSchema: JsonSchema = { type: 'object', properties };
+      if (required.length > 0) {
+        jsonSchema.required = required;
+      }
+      if (def.unknownKeys === 'strict') {
+        jsonSchema.additionalProperties = false;
+      } else if (def.catchall?._def.typeName !== 'ZodNever') {
+        jsonSchema.additionalProperties = zodToJsonSchema(def.catchall, names);
+      }
+      return jsonSchema;
+    }
+
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const jsonSchema: JsonSchema = {
+        type: 'array',
+        items: zodToJsonSchema(def.type, names),
+      };
+      if (def.minLength) {
+        jsonSchema.minItems = def.minLength.value;
+      }
+      if (def.maxLength) {
+        jsonSchema.maxItems = def.maxLength.value;
+      }
+      if (def.exactLength) {
+        jsonSchema.minItems = def.exactLength.value;
+        jsonSchema.maxItems = def.exactLength.value;
+      }
+      return jsonSchema;
+    }
+
+    case ZodFirstPartyTypeKind.ZodTuple:
+      return {
+        type: 'array',
+        prefixItems: def.items.map((item: ZodTypeAny) =>
+          zodToJsonSchema(item, names)
+        ),
+      };
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return {
+        type: 'object',
+        additionalProperties: zodToJsonSchema(def.valueType, names),
+      };
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return {
+        anyOf: Array.from(def.options as Iterable<ZodTypeAny>).map(option =>
+          zodToJsonSchema(option, names)
+        ),
+      };
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      return {
+        allOf: [
+          zodToJsonSchema(def.left, names),
+          zodToJsonSchema(def.right, names),
+        ],
+      };
+
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType, names);
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return nullable(zodToJsonSchema(def.innerType, names));
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return {
+        ...zodToJsonSchema(def.innerType, names),
+        default: def.defaultValue(),
+      };
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return zodToJsonSchema(def.innerType, names);
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return zodToJsonSchema(def.type, names);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema, names);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema(def.in, names);
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return zodToJsonSchema(def.getter(), names);
+
+    default:
+      return {};
+  }
+}
@@ -0,0 +1,309 @@
+import { type JsonSchema } from './json-schema';
+import { type OpenApiDocument, type OperationObject } from './document';
+
+/**
+ * Development check that API traffic matches the OpenAPI document: request
+ * bodies and query strings against each operation's parameters and request
+ * body, and JSON responses against its success response. Mismatches are
+ * logged, not refused, so a stale registry entry never breaks the app.
+ */
+
+type Handler = (request: Request) => Promise<Response>;
+
+const DATE_TIME_REGEX =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return 'integer';
+  }
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+// Check a JSON value against the subset of JSON Schema zodToJsonSchema
+// writes, returning what doesn't match, e.g. "runData.scheduledTime:
+// expected string"
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  document: OpenApiDocument,
+  path = '(root)'
+): string[] {
+  if (schema.$ref) {
+    const name = String(schema.$ref).split('/').pop() as string;
+    return validateJsonSchema(
+      value,
+      document.components.schemas[name] || {},
+      document,
+      path
+    );
+  }
+
+  if (schema.anyOf) {
+    const options: JsonSchema[] = schema.anyOf;
+    const matches = options.some(
+      option => validateJsonSchema(value, option, document, path).length === 0
+    );
+    return matches ? [] : [`${path}: matches none of the allowed schemas`];
+  }
+
+  if (schema.allOf) {
+    return (schema.allOf as JsonSchema[]).flatMap(part =>
+      validateJsonSchema(value, part, document, path)
+    );
+  }
+
+  if ('const' in schema && value !== schema.const) {
+    return [`${path}: expected ${JSON.stringify(schema.const)}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path}: expected one of ${schema.enum.join(', ')}`];
+  }
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${path}: expected ${schema.type}, got ${typeOf(value)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: doesn't match ${schema.pattern}`);
+    }
+    if (schema.format === 'date-time' && !DATE_TIME_REGEX.test(value)) {
+      errors.push(`${path}: not a date-time`);
+    }
+    if (schema.format === 'uuid' && !UUID_REGEX.test(value)) {
+      errors.push(`${path}: not a UUID`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: less than ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: more than ${schema.maximum}`);
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      errors.push(`${path}: not more than ${schema.exclusiveMinimum}`);
+    }
+    if (
+      schema.exclusiveMaximum !== undefined &&
+      value >= schema.exclusiveMaximum
+    ) {
+      errors.push(`${path}: not less than ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: fewer than ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: more than ${schema.maxItems} items`);
+    }
+    value.forEach((item, index) => {
+      const itemSchema: JsonSchema | undefined =
+        schema.prefixItems?.[index] ?? schema.items;
+      if (itemSchema) {
+        errors.push(
+          ...validateJsonSchema(item, itemSchema, document, `${path}[${index}]`)
+        );
+      }
+    });
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+
+    ((schema.required as string[]) || []).forEach(key => {
+      if (object[key] === undefined) {
+        errors.push(`${path}.${key}: required`);
+      }
+    });
+
+    Object.keys(object).forEach(key => {
+      if (object[key] === undefined) {
+        return;
+      }
+      const propertySchema =
+        properties[key] ??
+        (typeof schema.additionalProperties === 'object'
+          ? schema.additionalProperties
+          : undefined);
+      if (propertySchema) {
+        errors.push(
+          ...validateJsonSchema(
+            object[key],
+            propertySchema,
+            document,
+            `${path}.${key}`
+          )
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: not allowed`);
+      }
+    });
+  }
+
+  return errors.map(error => error.replace('(root).', ''));
+}
+
+// The documented operation for a request, matching {param} path segments
+function findOperation(
+  document: OpenApiDocument,
+  method: string,
+  pathname: string
+): OperationObject | null {
+  const segments = pathname.split('/');
+
+  const paths = Object.keys(document.paths).filter(candidate => {
+    const candidateSegments = candidate.split('/');
+    return (
+      candidateSegments.length === segments.length &&
+      candidateSegments.every(
+        (segment, index) =>
+          segment.startsWith('{') || segment === segments[index]
+      ) &&
+      document.paths[candidate][method.toLowerCase()]
+    );
+  });
+
+  // A literal segment beats a parameter in the same place, so
+  // /api/runs/organization isn't taken for /api/runs/{id}
+  paths.sort((a, b) => {
+    const aSegments = a.split('/');
+    const bSegments = b.split('/');
+    const index = aSegments.findIndex(
+      (segment, i) => segment.startsWith('{') !== bSegments[i].startsWith('{')
+    );
+    if (index === -1) {
+      return 0;
+    }
+    return aSegments[index].startsWith('{') ? 1 : -1;
+  });
+
+  return paths.length > 0
+    ? document.paths[paths[0]][method.toLowerCase()]
+    : null;
+}
+
+function reportMismatches(label: string, errors: string[]): void {
+  if (errors.length > 0) {
+    console.warn(
+      `⚠️ ${label} doesn't match the OpenAPI document:\n  ${errors
+        .slice(0, 10)
+        .join('\n  ')}`
+    );
+  }
+}
+
+async function validateRequest(
+  document: OpenApiDocument,
+  operation: OperationObject,
+  request: Request,
+  label: string
+): Promise<void> {
+  const url = new URL(request.url);
+  const errors: string[] = [];
+
+  (operation.parameters || [])
+    .filter(parameter => parameter.in === 'query')
+    .forEach(parameter => {
+      const value = url.searchParams.get(parameter.name);
+      if (value === null) {
+        if (parameter.required) {
+          errors.push(`?${parameter.name}: required`);
+        }
+      } else if (
+        parameter.schema.enum &&
+        !parameter.schema.enum.includes(value)
+      ) {
+        errors.push(
+          `?${parameter.name}: expected one of ${parameter.schema.enum.join(', ')}`
+        );
+      }
+    });
+
+  const bodySchema =
+    operation.requestBody?.content?.['application/json']?.schema;
+  if (bodySchema) {
+    try {
+      const body = await request.clone().json();
+      errors.push(...validateJsonSchema(body, bodySchema, document));
+    } catch {
+      errors.push('body: not JSON');
+    }
+  }
+
+  reportMismatches(`${label} request`, errors);
+}
+
+async function validateResponse(
+  document: OpenApiDocument,
+  operation: OperationObject,
+  response: Response,
+  label: string
+): Promise<void> {
+  const documented = operation.responses?.[String(response.status)];
+  const schema = documented?.content?.['application/json']?.schema;
+  if (
+    !schema ||
+    !response.headers.get('Content-Type')?.includes('application/json')
+  ) {
+    return;
+  }
+
+  try {
+    const body = await response.clone().json();
+    reportMismatches(
+      `${label} ${response.status} response`,
+      validateJsonSchema(body, schema, document)
+    );
+  } catch (error) {
+    console.warn(`⚠️ ${label} response isn't JSON:`, error);
+  }
+}
+
+// Wrap a request handler to check documented requests and responses
+export function withOpenApiValidation(
+  document: OpenApiDocument,
+  handler: Handler
+): Handler {
+  return async request => {
+    const { pathname } = new URL(request.url);
+    const operation = findOperation(document, request.method, pathname);
+    if (!operation) {
+      return handler(request);
+    }
+
+    const label = `${request.method} ${pathname}`;
+    await validateRequest(document, operation, request, label);
+    const response = await handler(request);
+    await validateResponse(document, operation, response, label);
+    return response;
+  };
+}
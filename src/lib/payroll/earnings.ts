@@ -0,0 +1,130 @@
+import { describeInvoiceRun } from '../billing/invoices';
+import { getRunLineItemsCents } from '../money';
+import {
+  formatReportCurrency,
+  getRunPriceCents,
+  toReportDate,
+} from '../reports/summary';
+import {
+  type DriverPaySettings,
+  DriverPayType,
+  PayPeriodFrequency,
+  type Run,
+  RunLineItemType,
+} from '../schema';
+import { type PayPeriod } from './pay-periods';
+
+// Fields that decide how much a driver earns per run
+export type DriverPayRate = Pick<
+  DriverPaySettings,
+  'payType' | 'commissionPercent' | 'flatRate'
+>;
+
+// Settings used by organizations that have not saved their own
+export const DEFAULT_DRIVER_PAY_SETTINGS: Omit<
+  DriverPaySettings,
+  'organizationId'
+> = {
+  payType: DriverPayType.commission,
+  commissionPercent: 25,
+  flatRate: 0,
+  payPeriod: PayPeriodFrequency.weekly,
+  periodAnchor: '2025-01-06',
+  timezone: 'UTC',
+  mileageRate: 0.7,
+};
+
+export const DRIVER_PAY_TYPE_LABELS: Record<DriverPayType, string> = {
+  [DriverPayType.commission]: 'Commission',
+  [DriverPayType.flatRate]: 'Flat rate per run',
+};
+
+export interface EarningsStatementLine {
+  runId: string;
+  scheduledTime: Date;
+  description: string;
+  priceCents: number;
+  // Tips are passed through to the driver in full
+  tipsCents: number;
+  // Pay for the run plus tips
+  earningsCents: number;
+}
+
+// A driver's earnings for one pay period
+export interface EarningsStatement {
+  driverId: string;
+  driverName: string;
+  organizationName?: string;
+  period: PayPeriod;
+  // Timezone the pay period and run times are shown in
+  timezone: string;
+  payRate: DriverPayRate;
+  // Currency of every run on the statement; amounts are in its cents
+  currency: string;
+  lines: EarningsStatementLine[];
+  runCount: number;
+  // Sum of the run prices
+  grossRevenueCents: number;
+  totalTipsCents: number;
+  totalEarningsCents: number;
+}
+
+// Driver's pay for a single completed run in cents, before tips. Commission
+// is calculated on the price only, not on tips, tolls or surcharges.
+export function getRunEarningsCents(run: Run, payRate: DriverPayRate): number {
+  if (payRate.payType === DriverPayType.flatRate) {
+    return Math.round(payRate.flatRate * 100);
+  }
+  return Math.round((getRunPriceCents(run) * payRate.commissionPercent) / 100);
+}
+
+// Human readable pay rate, e.g. "25% commission" or "$40.00 per run"
+export function describePayRate(payRate: DriverPayRate): string {
+  return payRate.payType === DriverPayType.flatRate
+    ? `${formatReportCurrency(payRate.flatRate)} per run`
+    : `${payRate.commissionPercent}% commission`;
+}
+
+/**
+ * Build a driver's earnings statement from their completed runs in a pay
+ * period. Runs are listed in scheduled order with the price and the driver's
+ * pay for each. The runs must all be in the statement's currency.
+ */
+export function buildEarningsStatement(
+  runs: Run[],
+  details: {
+    driverId: string;
+    driverName: string;
+    organizationName?: string;
+    period: PayPeriod;
+    timezone: string;
+    payRate: DriverPayRate;
+    currency: string;
+  }
+): EarningsStatement {
+  const lines = runs
+    .map(run => {
+      const tipsCents = getRunLineItemsCents(run, RunLineItemType.tip);
+      return {
+        runId: run.id,
+        scheduledTime: toReportDate(run.scheduledTime) ?? new Date(),
+        description: describeInvoiceRun(run),
+        priceCents: getRunPriceCents(run),
+        tipsCents,
+        earningsCents: getRunEarningsCents(run, details.payRate) + tipsCents,
+      };
+    })
+    .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
+
+  return {
+    ...details,
+    lines,
+    runCount: lines.length,
+    grossRevenueCents: lines.reduce((sum, line) => sum + line.priceCents, 0),
+    totalTipsCents: lines.reduce((sum, line) => sum + line.tipsCents, 0),
+    totalEarningsCents: lines.reduce(
+      (sum, line) => sum + line.earningsCents,
+      0
+    ),
+  };
+}
@@ -0,0 +1,139 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { roundCurrency } from '../billing/invoices';
+import { escapeCSVValue } from '../reports/csv';
+import { formatReportCurrency, toReportDate } from '../reports/summary';
+import { type Run } from '../schema';
+import { type PayPeriod } from './pay-periods';
+
+const METERS_PER_MILE = 1609.344;
+
+// Meters to miles, rounded to the hundredth of a mile logs are kept in
+export function metersToMiles(meters: number): number {
+  return Math.round((meters / METERS_PER_MILE) * 100) / 100;
+}
+
+// A completed run as a trip in the mileage log
+export interface MileageLogTrip {
+  runId: string;
+  date: Date;
+  purpose: string;
+  from: string;
+  to: string;
+  // Null until the run's distance has been recorded
+  miles: number | null;
+}
+
+// A driver's business miles for one pay period and what they're owed for them
+export interface MileageLog {
+  driverId: string;
+  driverName: string;
+  organizationName?: string;
+  period: PayPeriod;
+  // Timezone the pay period and trip dates are shown in
+  timezone: string;
+  // Reimbursement per mile
+  mileageRate: number;
+  trips: MileageLogTrip[];
+  tripCount: number;
+  totalMiles: number;
+  // Trips left out of the total because their distance isn't known
+  unmeasuredTripCount: number;
+  reimbursement: number;
+}
+
+// Business purpose of a trip, e.g. "Airport pickup for flight UA123"
+export function describeTripPurpose(run: Run): string {
+  const type = run.type === 'dropoff' ? 'Airport dropoff' : 'Airport pickup';
+  return run.flightNumber ? `${type} for flight ${run.flightNumber}` : type;
+}
+
+/**
+ * Build a driver's mileage log from their completed runs in a pay period.
+ * Trips are listed in scheduled order; only trips with a recorded distance
+ * count towards the miles and reimbursement.
+ */
+export function buildMileageLog(
+  runs: Run[],
+  details: {
+    driverId: string;
+    driverName: string;
+    organizationName?: string;
+    period: PayPeriod;
+    timezone: string;
+    mileageRate: number;
+  }
+): MileageLog {
+  const trips = runs
+    .map(run => ({
+      runId: run.id,
+      date: toReportDate(run.scheduledTime) ?? new Date(),
+      purpose: describeTripPurpose(run),
+      from: run.pickupLocation,
+      to: run.dropoffLocation,
+      miles: run.distanceMiles ?? null,
+    }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const totalMiles =
+    Math.round(trips.reduce((sum, trip) => sum + (trip.miles ?? 0), 0) * 100) /
+    100;
+
+  return {
+    ...details,
+    trips,
+    tripCount: trips.length,
+    totalMiles,
+    unmeasuredTripCount: trips.filter(trip => trip.miles === null).length,
+    reimbursement: roundCurrency(totalMiles * details.mileageRate),
+  };
+}
+
+// File name for an exported log, e.g. "mileage-jane-doe-2025-01-06.csv"
+export function getMileageLogFilename(log: MileageLog): string {
+  const driver =
+    log.driverName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'driver';
+  return `mileage-${driver}-${formatInTimeZone(log.period.startDate, log.timezone, 'yyyy-MM-dd')}.csv`;
+}
+
+// Render a mileage log as CSV: one row per trip, then the totals after a
+// blank line
+export function renderMileageLogCSV(log: MileageLog): string {
+  const toRow = (cells: string[]) => cells.map(escapeCSVValue).join(',');
+
+  const lines = [toRow(['Date', 'Purpose', 'From', 'To', 'Miles'])];
+
+  log.trips.forEach(trip => {
+    lines.push(
+      toRow([
+        formatInTimeZone(trip.date, log.timezone, 'yyyy-MM-dd'),
+        trip.purpose,
+        trip.from,
+        trip.to,
+        trip.miles === null ? '' : trip.miles.toFixed(2),
+      ])
+    );
+  });
+
+  lines.push('');
+  lines.push(toRow(['Driver', log.driverName]));
+  lines.push(
+    toRow([
+      'Period',
+      `${formatInTimeZone(log.period.startDate, log.timezone, 'yyyy-MM-dd')} to ${formatInTimeZone(log.period.endDate, log.timezone, 'yyyy-MM-dd')}`,
+    ])
+  );
+  lines.push(toRow(['Trips', String(log.tripCount)]));
+  if (log.unmeasuredTripCount > 0) {
+    lines.push(
+      toRow(['Trips without a distance', String(log.unmeasuredTripCount)])
+    );
+  }
+  lines.push(toRow(['Total miles', log.totalMiles.toFixed(2)]));
+  lines.push(toRow(['Rate per mile', formatReportCurrency(log.mileageRate)]));
+  lines.push(toRow(['Reimbursement', formatReportCurrency(log.reimbursement)]));
+
+  return lines.join('\n');
+}
@@ -0,0 +1,83 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  endOfDay,
+  endOfMonth,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  subMilliseconds,
+} from 'date-fns';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+import { type DriverPaySettings, PayPeriodFrequency } from '../schema';
+
+// Fields that decide the boundaries of a pay period
+export type PayPeriodSettings = Pick<
+  DriverPaySettings,
+  'payPeriod' | 'periodAnchor' | 'timezone'
+>;
+
+export interface PayPeriod {
+  startDate: Date;
+  endDate: Date;
+}
+
+export const PAY_PERIOD_FREQUENCY_LABELS: Record<PayPeriodFrequency, string> = {
+  [PayPeriodFrequency.weekly]: 'Weekly',
+  [PayPeriodFrequency.biweekly]: 'Every two weeks',
+  [PayPeriodFrequency.monthly]: 'Monthly',
+};
+
+// Length in days of the repeating pay periods
+const PAY_PERIOD_DAYS: Record<PayPeriodFrequency, number> = {
+  [PayPeriodFrequency.weekly]: 7,
+  [PayPeriodFrequency.biweekly]: 14,
+  [PayPeriodFrequency.monthly]: 0,
+};
+
+/**
+ * Pay period containing the given instant. Monthly periods are calendar
+ * months; weekly and biweekly periods repeat from the anchor date. Day
+ * boundaries are interpreted in the settings' timezone.
+ */
+export function getPayPeriod(settings: PayPeriodSettings, at: Date): PayPeriod {
+  const zonedAt = toZonedTime(at, settings.timezone);
+
+  let start: Date;
+  let end: Date;
+  if (settings.payPeriod === PayPeriodFrequency.monthly) {
+    start = startOfMonth(zonedAt);
+    end = endOfMonth(zonedAt);
+  } else {
+    const periodDays = PAY_PERIOD_DAYS[settings.payPeriod];
+    const anchor = startOfDay(parseISO(settings.periodAnchor));
+    const offset =
+      Math.floor(differenceInCalendarDays(zonedAt, anchor) / periodDays) *
+      periodDays;
+    start = addDays(anchor, offset);
+    end = endOfDay(addDays(start, periodDays - 1));
+  }
+
+  return {
+    startDate: fromZonedTime(start, settings.timezone),
+    endDate: fromZonedTime(end, settings.timezone),
+  };
+}
+
+// The current pay period followed by the ones before it, most recent first
+export function getRecentPayPeriods(
+  settings: PayPeriodSettings,
+  count: number,
+  at: Date = new Date()
+): PayPeriod[] {
+  const periods: PayPeriod[] = [];
+  let cursor = at;
+
+  for (let i = 0; i < count; i++) {
+    const period = getPayPeriod(settings, cursor);
+    periods.push(period);
+    cursor = subMilliseconds(period.startDate, 1);
+  }
+
+  return periods;
+}
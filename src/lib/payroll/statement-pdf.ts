@@ -0,0 +1,101 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { jsPDF } from 'jspdf';
+import { autoTable, type RowInput } from 'jspdf-autotable';
+import { formatCents } from '../money';
+import { formatRunCount } from '../reports/summary';
+import { describePayRate, type EarningsStatement } from './earnings';
+
+// Page margin in points
+const PAGE_MARGIN = 40;
+
+// Draw the driver, pay period and pay rate above the runs table
+function drawStatementHeader(doc: jsPDF, statement: EarningsStatement): number {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = PAGE_MARGIN;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(statement.organizationName || 'Earnings', PAGE_MARGIN, y);
+  doc.text('EARNINGS STATEMENT', pageWidth - PAGE_MARGIN, y, {
+    align: 'right',
+  });
+  y += 28;
+
+  doc.setFontSize(10);
+  doc.text(statement.driverName, PAGE_MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  doc.text(
+    [
+      `Pay period ${formatInTimeZone(statement.period.startDate, statement.timezone, 'MMM d, yyyy')} - ${formatInTimeZone(statement.period.endDate, statement.timezone, 'MMM d, yyyy')}`,
+      `Pay rate ${describePayRate(statement.payRate)}`,
+    ],
+    pageWidth - PAGE_MARGIN,
+    y,
+    { align: 'right' }
+  );
+
+  return y + 36;
+}
+
+/**
+ * Render an earnings statement as a PDF: header with the driver and pay
+ * period, one row per completed run, then the revenue and earnings totals.
+ */
+export function renderStatementPDF(statement: EarningsStatement): Uint8Array {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'pt',
+    format: 'letter',
+  });
+
+  const startY = drawStatementHeader(doc, statement);
+
+  const body: RowInput[] = statement.lines.map(line => [
+    formatInTimeZone(
+      line.scheduledTime,
+      statement.timezone,
+      'MMM d, yyyy h:mm a'
+    ),
+    line.description,
+    formatCents(line.priceCents, statement.currency),
+    formatCents(line.tipsCents, statement.currency),
+    formatCents(line.earningsCents, statement.currency),
+  ]);
+
+  const foot: RowInput[] = [
+    [
+      '',
+      formatRunCount(statement.runCount),
+      formatCents(statement.grossRevenueCents, statement.currency),
+      formatCents(statement.totalTipsCents, statement.currency),
+      formatCents(statement.totalEarningsCents, statement.currency),
+    ],
+  ];
+
+  autoTable(doc, {
+    head: [['Date', 'Run', 'Price', 'Tips', 'Earnings']],
+    body,
+    foot,
+    showHead: 'everyPage',
+    showFoot: 'lastPage',
+    startY,
+    margin: {
+      top: PAGE_MARGIN,
+      right: PAGE_MARGIN,
+      bottom: PAGE_MARGIN,
+      left: PAGE_MARGIN,
+    },
+    theme: 'striped',
+    styles: { fontSize: 9, cellPadding: 4, overflow: 'linebreak' },
+    headStyles: { fillColor: [37, 99, 235] },
+    footStyles: { fillColor: [229, 231, 235], textColor: 20 },
+    columnStyles: {
+      0: { cellWidth: 110 },
+      2: { halign: 'right', cellWidth: 60 },
+      3: { halign: 'right', cellWidth: 60 },
+      4: { halign: 'right', cellWidth: 70 },
+    },
+  });
+
+  return new Uint8Array(doc.output('arraybuffer'));
+}
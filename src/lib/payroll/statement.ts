@@ -0,0 +1,89 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { escapeCSVValue } from '../reports/csv';
+import { formatCents } from '../money';
+import { ReportFormat } from '../schema';
+import { describePayRate, type EarningsStatement } from './earnings';
+
+// Formats an earnings statement can be exported in
+export const STATEMENT_FORMATS = [ReportFormat.csv, ReportFormat.pdf] as const;
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+// File name for an exported statement, e.g. "earnings-jane-doe-2025-01-06.pdf"
+export function getStatementFilename(
+  statement: EarningsStatement,
+  extension: string
+): string {
+  const driver =
+    statement.driverName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'driver';
+  return `earnings-${driver}-${formatInTimeZone(statement.period.startDate, statement.timezone, 'yyyy-MM-dd')}.${extension}`;
+}
+
+// Render a statement as CSV: one row per run, then the totals after a blank line
+export function renderStatementCSV(statement: EarningsStatement): string {
+  const toRow = (cells: string[]) => cells.map(escapeCSVValue).join(',');
+
+  const lines = [toRow(['Date', 'Run', 'Price', 'Tips', 'Earnings'])];
+
+  statement.lines.forEach(line => {
+    lines.push(
+      toRow([
+        formatInTimeZone(
+          line.scheduledTime,
+          statement.timezone,
+          'yyyy-MM-dd HH:mm'
+        ),
+        line.description,
+        (line.priceCents / 100).toFixed(2),
+        (line.tipsCents / 100).toFixed(2),
+        (line.earningsCents / 100).toFixed(2),
+      ])
+    );
+  });
+
+  lines.push('');
+  lines.push(toRow(['Driver', statement.driverName]));
+  lines.push(
+    toRow([
+      'Pay period',
+      `${formatInTimeZone(statement.period.startDate, statement.timezone, 'yyyy-MM-dd')} to ${formatInTimeZone(statement.period.endDate, statement.timezone, 'yyyy-MM-dd')}`,
+    ])
+  );
+  lines.push(toRow(['Pay rate', describePayRate(statement.payRate)]));
+  lines.push(toRow(['Runs', String(statement.runCount)]));
+  lines.push(toRow(['Currency', statement.currency]));
+  lines.push(
+    toRow([
+      'Gross revenue',
+      formatCents(statement.grossRevenueCents, statement.currency),
+    ])
+  );
+  lines.push(
+    toRow(['Tips', formatCents(statement.totalTipsCents, statement.currency)])
+  );
+  lines.push(
+    toRow([
+      'Total earnings',
+      formatCents(statement.totalEarningsCents, statement.currency),
+    ])
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a statement in the requested format. The PDF renderer is loaded on
+ * demand so browser bundles only pull it in when it is used.
+ */
+export async function renderStatement(
+  statementFormat: StatementFormat,
+  statement: EarningsStatement
+): Promise<string | Uint8Array> {
+  if (statementFormat === ReportFormat.pdf) {
+    const { renderStatementPDF } = await import('./statement-pdf');
+    return renderStatementPDF(statement);
+  }
+  return renderStatementCSV(statement);
+}
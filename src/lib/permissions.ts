@@ -0,0 +1,116 @@
+// Roles an organization member can have. Each maps to a Clerk organization
+// role key; members with any other role (e.g. the default org:member) are
+// drivers.
+export const ORGANIZATION_ROLES = [
+  'admin',
+  'dispatcher',
+  'billing',
+  'auditor',
+  'driver',
+] as const;
+
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number];
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  admin: 'Admin',
+  dispatcher: 'Dispatcher',
+  billing: 'Billing',
+  auditor: 'Auditor',
+  driver: 'Driver',
+};
+
+const CLERK_ROLE_KEYS: Record<string, OrganizationRole> = {
+  'org:admin': 'admin',
+  'org:dispatcher': 'dispatcher',
+  'org:billing': 'billing',
+  'org:auditor': 'auditor',
+};
+
+// Named things a role allows across the organization. Drivers can always
+// manage their own runs, calendar and preferences without a capability.
+export const CAPABILITIES = [
+  // See every run in the organization and its history
+  'runs:view',
+  // Edit, delete and override the status rules of anyone's run
+  'runs:manage',
+  // Hand runs to drivers from the dispatch board
+  'runs:assign',
+  // See the organization's drivers, their availability and stats
+  'drivers:view',
+  // Edit other drivers' shifts and time off
+  'drivers:schedule',
+  'vehicles:edit',
+  // See and download the organization's generated reports
+  'reports:read',
+  'reports:generate',
+  'reports:delete',
+  'reports:schedule',
+  'templates:edit',
+  'billing:view',
+  'billing:edit',
+  // See drivers' earnings statements and mileage logs
+  'payroll:view',
+  'payroll:edit',
+  'organization:manage',
+] as const;
+
+export type Capability = (typeof CAPABILITIES)[number];
+
+export function isCapability(value: string): value is Capability {
+  return (CAPABILITIES as readonly string[]).includes(value);
+}
+
+// The permission matrix: what each role can do
+export const ROLE_CAPABILITIES: Record<
+  OrganizationRole,
+  readonly Capability[]
+> = {
+  admin: CAPABILITIES,
+  dispatcher: [
+    'runs:view',
+    'runs:manage',
+    'runs:assign',
+    'drivers:view',
+    'drivers:schedule',
+    'vehicles:edit',
+    'reports:read',
+    'reports:generate',
+    'reports:delete',
+  ],
+  billing: [
+    'runs:view',
+    'drivers:view',
+    'reports:read',
+    'reports:generate',
+    'reports:delete',
+    'reports:schedule',
+    'templates:edit',
+    'billing:view',
+    'billing:edit',
+    'payroll:view',
+    'payroll:edit',
+  ],
+  // Read-only access to everything an audit needs
+  auditor: [
+    'runs:view',
+    'drivers:view',
+    'reports:read',
+    'billing:view',
+    'payroll:view',
+  ],
+  driver: [],
+};
+
+// The role for a Clerk organization role key, e.g. "org:admin"
+export function getOrganizationRole(
+  clerkRole: string | null | undefined
+): OrganizationRole {
+  return (clerkRole && CLERK_ROLE_KEYS[clerkRole]) || 'driver';
+}
+
+export function roleCan(
+  role: OrganizationRole,
+  capability: Capability
+): boolean {
+  return ROLE_CAPABILITIES[role].includes(capability);
+}
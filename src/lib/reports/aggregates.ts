@@ -0,0 +1,111 @@
+import {
+  DEFAULT_CURRENCY,
+  formatCurrencyTotals,
+  sumCentsByCurrency,
+} from '../money';
+import { ReportAggregateType, type Run } from '../schema';
+import { getRunPriceCents } from './summary';
+
+export interface ReportAggregateInfo {
+  label: string;
+  description: string;
+}
+
+export const REPORT_AGGREGATES: Record<
+  ReportAggregateType,
+  ReportAggregateInfo
+> = {
+  [ReportAggregateType.sumPrice]: {
+    label: 'Total Price',
+    description: 'Sum of the price of all runs',
+  },
+  [ReportAggregateType.countByType]: {
+    label: 'Runs by Type',
+    description: 'Number of pickups and dropoffs',
+  },
+  [ReportAggregateType.averageActualDuration]: {
+    label: 'Average Duration',
+    description: 'Average actual duration of completed runs',
+  },
+};
+
+// A footer value computed over all runs in a report
+export interface ReportAggregateResult {
+  type: ReportAggregateType;
+  label: string;
+  // Numeric value for typed formats; null for breakdowns, empty averages and
+  // totals over more than one currency
+  value: number | null;
+  // Display text used by text-based formats
+  text: string;
+  // Currency of a price total with a single value
+  currency?: string;
+}
+
+// Count runs per run type, e.g. { pickup: 3, dropoff: 2 }
+function countRunsByType(runs: Run[]): Record<string, number> {
+  return runs.reduce<Record<string, number>>((counts, run) => {
+    counts[run.type] = (counts[run.type] || 0) + 1;
+    return counts;
+  }, {});
+}
+
+// Compute a single footer aggregate
+export function computeReportAggregate(
+  runs: Run[],
+  type: ReportAggregateType
+): ReportAggregateResult {
+  const { label } = REPORT_AGGREGATES[type];
+
+  switch (type) {
+    case ReportAggregateType.sumPrice: {
+      // Totals are kept per currency; there's only a single value when every
+      // run is in the same currency
+      const totals = sumCentsByCurrency(runs, getRunPriceCents);
+      const currencies = Object.keys(totals);
+      const text = formatCurrencyTotals(totals);
+      if (currencies.length > 1) {
+        return { type, label, value: null, text };
+      }
+      const currency = currencies[0] ?? DEFAULT_CURRENCY;
+      return {
+        type,
+        label,
+        value: (totals[currency] ?? 0) / 100,
+        text,
+        currency,
+      };
+    }
+    case ReportAggregateType.countByType: {
+      const counts = countRunsByType(runs);
+      const text = Object.entries(counts)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([runType, count]) => `${runType}: ${count}`)
+        .join(', ');
+      return { type, label, value: null, text: text || 'none' };
+    }
+    case ReportAggregateType.averageActualDuration: {
+      const durations = runs
+        .map(run => run.actualDuration)
+        .filter((duration): duration is number => typeof duration === 'number');
+      if (durations.length === 0) {
+        return { type, label, value: null, text: '-' };
+      }
+      const average =
+        Math.round(
+          (durations.reduce((sum, duration) => sum + duration, 0) /
+            durations.length) *
+            10
+        ) / 10;
+      return { type, label, value: average, text: `${average}m` };
+    }
+  }
+}
+
+// Compute the footer aggregates configured on a template, in order
+export function computeReportAggregates(
+  runs: Run[],
+  types: ReportAggregateType[] = []
+): ReportAggregateResult[] {
+  return types.map(type => computeReportAggregate(runs, type));
+}
@@ -0,0 +1,148 @@
+import { format } from 'date-fns';
+import { type ReportColumnConfig, type Run } from '../schema';
+import {
+  COMPUTED_COLUMNS,
+  formatComputedValue,
+  getComputedColumnValue,
+} from './computed';
+import {
+  type CurrencyTotals,
+  formatCurrencyTotals,
+  sumCentsByCurrency,
+} from '../money';
+import {
+  formatSubtotalLabel,
+  getRunPriceAmount,
+  toReportDate,
+} from './summary';
+
+// Fields whose values are timestamps and should be rendered as dates
+const DATE_FIELDS = new Set([
+  'scheduledTime',
+  'createdAt',
+  'updatedAt',
+  'completedAt',
+  'activatedAt',
+]);
+
+// Field holding the run price, rendered as a number in typed formats
+export const PRICE_FIELD = 'price';
+
+// Native cell type of a column in formats that support typed cells
+export type ReportColumnKind = 'text' | 'date' | 'currency' | 'minutes';
+
+// Cell type of a template column
+export function getReportColumnKind(
+  column: ReportColumnConfig
+): ReportColumnKind {
+  if (column.computed) {
+    return COMPUTED_COLUMNS[column.computed.type].unit;
+  }
+  if (column.field === PRICE_FIELD) {
+    return 'currency';
+  }
+  return DATE_FIELDS.has(column.field) ? 'date' : 'text';
+}
+
+// Sort template columns by their configured order
+export function getOrderedColumns(
+  columns: ReportColumnConfig[]
+): ReportColumnConfig[] {
+  return [...columns].sort((a, b) => a.order - b.order);
+}
+
+// Get the raw value of a run field referenced by a template column. The
+// price column reads the price in dollars.
+export function getRunFieldValue(run: Run, field: string): unknown {
+  if (field === PRICE_FIELD) {
+    return getRunPriceAmount(run);
+  }
+  return (run as Record<string, unknown>)[field];
+}
+
+// Format a run field or computed column as display text for a report cell
+export function formatReportCell(run: Run, column: ReportColumnConfig): string {
+  if (column.computed) {
+    return formatComputedValue(
+      getComputedColumnValue(run, column.computed),
+      column.computed,
+      run.currency
+    );
+  }
+
+  const value = getRunFieldValue(run, column.field);
+
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (DATE_FIELDS.has(column.field)) {
+    const date = toReportDate(value);
+    return date ? format(date, 'yyyy-MM-dd HH:mm') : String(value);
+  }
+
+  if (column.field === PRICE_FIELD) {
+    return getRunPriceAmount(run).toFixed(2);
+  }
+
+  return String(value);
+}
+
+// Get a cell as a typed value for formats with native cell types:
+// numbers for prices and computed columns, Date objects for timestamps and
+// text otherwise
+export function getTypedReportCell(
+  run: Run,
+  column: ReportColumnConfig
+): string | number | Date | null {
+  if (column.computed) {
+    return getComputedColumnValue(run, column.computed);
+  }
+
+  const value = getRunFieldValue(run, column.field);
+
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  if (column.field === PRICE_FIELD) {
+    return getRunPriceAmount(run);
+  }
+
+  if (DATE_FIELDS.has(column.field)) {
+    return toReportDate(value) ?? String(value);
+  }
+
+  return typeof value === 'number' ? value : String(value);
+}
+
+// Sums of a currency column over runs in cents, one per currency, or null
+// for non-currency columns
+export function getColumnTotals(
+  runs: Run[],
+  column: ReportColumnConfig
+): CurrencyTotals | null {
+  if (getReportColumnKind(column) !== 'currency') {
+    return null;
+  }
+
+  return sumCentsByCurrency(runs, run => {
+    const value = getTypedReportCell(run, column);
+    return typeof value === 'number' ? Math.round(value * 100) : 0;
+  });
+}
+
+// Text cells of a section subtotal row: the run count in the first column
+// and sums under the currency columns
+export function formatSubtotalRow(
+  runs: Run[],
+  orderedColumns: ReportColumnConfig[]
+): string[] {
+  return orderedColumns.map((column, index) => {
+    if (index === 0) {
+      return formatSubtotalLabel(runs.length);
+    }
+    const totals = getColumnTotals(runs, column);
+    return totals === null ? '' : formatCurrencyTotals(totals);
+  });
+}
@@ -0,0 +1,92 @@
+import { differenceInMinutes } from 'date-fns';
+import { getRunLineItemsCents } from '../money';
+import { type ComputedColumn, ComputedColumnType, type Run } from '../schema';
+import {
+  formatReportCurrency,
+  getRunPriceCents,
+  toReportDate,
+} from './summary';
+
+export interface ComputedColumnInfo {
+  label: string;
+  description: string;
+  unit: 'minutes' | 'currency';
+}
+
+export const COMPUTED_COLUMNS: Record<ComputedColumnType, ComputedColumnInfo> =
+  {
+    [ComputedColumnType.durationDelta]: {
+      label: 'Duration Delta',
+      description: 'Actual minus estimated duration, in minutes',
+      unit: 'minutes',
+    },
+    [ComputedColumnType.lateness]: {
+      label: 'Lateness',
+      description:
+        'Minutes between the scheduled time and when the run was started',
+      unit: 'minutes',
+    },
+    [ComputedColumnType.priceWithSurcharges]: {
+      label: 'Price with Surcharges',
+      description:
+        "Price plus a percentage and/or flat surcharge, plus the run's tips, tolls and surcharges",
+      unit: 'currency',
+    },
+  };
+
+// Compute a column's numeric value for a run, or null when it can't be derived
+export function getComputedColumnValue(
+  run: Run,
+  computed: ComputedColumn
+): number | null {
+  switch (computed.type) {
+    case ComputedColumnType.durationDelta: {
+      if (run.actualDuration === undefined || run.actualDuration === null) {
+        return null;
+      }
+      return run.actualDuration - run.estimatedDuration;
+    }
+    case ComputedColumnType.lateness: {
+      // Positive when the run was started after its scheduled time
+      const scheduledTime = toReportDate(run.scheduledTime);
+      const activatedAt = toReportDate(run.activatedAt);
+      if (!scheduledTime || !activatedAt) {
+        return null;
+      }
+      return differenceInMinutes(activatedAt, scheduledTime);
+    }
+    case ComputedColumnType.priceWithSurcharges: {
+      // Worked out in cents so the result is a whole number of cents. The
+      // template surcharge applies to the price; the run's own line items
+      // are added as they are
+      const priceCents = getRunPriceCents(run);
+      const percent = computed.surchargePercent ?? 0;
+      const amountCents = Math.round((computed.surchargeAmount ?? 0) * 100);
+      return (
+        (Math.round(priceCents * (1 + percent / 100) + amountCents) +
+          getRunLineItemsCents(run)) /
+        100
+      );
+    }
+    default:
+      return null;
+  }
+}
+
+// Format a computed value as display text for a report cell; currency
+// values are shown in the run's currency
+export function formatComputedValue(
+  value: number | null,
+  computed: ComputedColumn,
+  currency?: string
+): string {
+  if (value === null) {
+    return '';
+  }
+
+  if (COMPUTED_COLUMNS[computed.type].unit === 'currency') {
+    return formatReportCurrency(value, currency);
+  }
+
+  return `${value > 0 ? '+' : ''}${value}m`;
+}
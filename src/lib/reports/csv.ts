@@ -0,0 +1,63 @@
+import { type ReportColumnConfig, type Run } from '../schema';
+import { computeReportAggregates } from './aggregates';
+import {
+  formatReportCell,
+  formatSubtotalRow,
+  getOrderedColumns,
+} from './columns';
+import { buildReportSections, isGroupedLayout } from './grouping';
+import { type ReportDocumentOptions } from './summary';
+
+// Quote a CSV value when it contains separators, quotes or line breaks
+export function escapeCSVValue(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+// Render runs as CSV using a template's column configuration. Grouped
+// reports get a heading line and a subtotal row per section, and footer
+// aggregates follow the data after a blank line as label/value rows.
+export function renderCSV(
+  runs: Run[],
+  columns: ReportColumnConfig[],
+  options: Partial<ReportDocumentOptions> = {}
+): string {
+  const orderedColumns = getOrderedColumns(columns);
+  const toRow = (cells: string[]) => cells.map(escapeCSVValue).join(',');
+
+  const lines = [toRow(orderedColumns.map(column => column.label))];
+
+  const sections = buildReportSections(runs, options);
+  const grouped = isGroupedLayout(options);
+
+  sections.forEach(section => {
+    if (grouped) {
+      lines.push(toRow([section.label]));
+    }
+
+    section.runs.forEach(run => {
+      lines.push(
+        toRow(orderedColumns.map(column => formatReportCell(run, column)))
+      );
+    });
+
+    if (grouped) {
+      lines.push(toRow(formatSubtotalRow(section.runs, orderedColumns)));
+      lines.push('');
+    }
+  });
+
+  const aggregates = computeReportAggregates(runs, options.footerAggregates);
+  if (aggregates.length > 0) {
+    if (!grouped) {
+      lines.push('');
+    }
+    aggregates.forEach(aggregate => {
+      lines.push(toRow([aggregate.label, aggregate.text]));
+    });
+  }
+
+  return lines.join('\n');
+}
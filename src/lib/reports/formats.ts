@@ -0,0 +1,52 @@
+import { type ReportColumnConfig, ReportFormat, type Run } from '../schema';
+import { renderCSV } from './csv';
+import { type ReportDocumentOptions } from './summary';
+
+export interface ReportFormatInfo {
+  label: string;
+  extension: string;
+  contentType: string;
+}
+
+export const REPORT_FORMATS: Record<ReportFormat, ReportFormatInfo> = {
+  [ReportFormat.csv]: {
+    label: 'CSV',
+    extension: 'csv',
+    contentType: 'text/csv;charset=utf-8',
+  },
+  [ReportFormat.pdf]: {
+    label: 'PDF',
+    extension: 'pdf',
+    contentType: 'application/pdf',
+  },
+  [ReportFormat.xlsx]: {
+    label: 'Excel (XLSX)',
+    extension: 'xlsx',
+    contentType:
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+};
+
+/**
+ * Render runs in the requested format. The PDF and XLSX renderers are loaded
+ * on demand so browser bundles only pull them in when they are used.
+ */
+export async function renderReport(
+  format: ReportFormat,
+  runs: Run[],
+  columns: ReportColumnConfig[],
+  options: ReportDocumentOptions
+): Promise<string | Uint8Array> {
+  switch (format) {
+    case ReportFormat.pdf: {
+      const { renderPDF } = await import('./pdf');
+      return renderPDF(runs, columns, options);
+    }
+    case ReportFormat.xlsx: {
+      const { renderXLSX } = await import('./xlsx');
+      return renderXLSX(runs, columns, options);
+    }
+    default:
+      return renderCSV(runs, columns, options);
+  }
+}
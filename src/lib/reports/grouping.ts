@@ -0,0 +1,174 @@
+import { format, parseISO } from 'date-fns';
+import { ReportGroupBy, type ReportSort, type Run } from '../schema';
+import { PRICE_FIELD, getRunFieldValue } from './columns';
+import { getRunPriceAmount, toReportDate } from './summary';
+
+// A group of runs rendered with its own heading and subtotal row
+export interface ReportSection {
+  key: string;
+  label: string;
+  runs: Run[];
+}
+
+// Grouping and ordering applied before a report is rendered
+export interface ReportLayout {
+  groupBy?: ReportGroupBy;
+  sort?: ReportSort;
+  // Display names for driver sections, keyed by user ID
+  driverNames?: Record<string, string>;
+}
+
+export const REPORT_GROUP_BY_LABELS: Record<ReportGroupBy, string> = {
+  [ReportGroupBy.none]: 'No grouping',
+  [ReportGroupBy.billTo]: 'Bill To',
+  [ReportGroupBy.driver]: 'Driver',
+  [ReportGroupBy.day]: 'Day',
+};
+
+// Run fields reports can be sorted by
+export const REPORT_SORT_FIELDS: { field: string; label: string }[] = [
+  { field: 'scheduledTime', label: 'Scheduled Time' },
+  { field: 'price', label: 'Price' },
+  { field: 'flightNumber', label: 'Flight Number' },
+  { field: 'airline', label: 'Airline' },
+  { field: 'billTo', label: 'Bill To' },
+  { field: 'type', label: 'Type' },
+  { field: 'status', label: 'Status' },
+  { field: 'actualDuration', label: 'Actual Duration' },
+];
+
+export const DEFAULT_REPORT_SORT: ReportSort = {
+  field: 'scheduledTime',
+  direction: 'asc',
+};
+
+// Section key used for runs without a bill to code
+const NO_BILL_TO_KEY = '';
+
+// Group runs by an arbitrary key, preserving run order within each group
+function groupRunsBy(
+  runs: Run[],
+  getKey: (run: Run) => string
+): Record<string, Run[]> {
+  const groups: Record<string, Run[]> = {};
+
+  runs.forEach(run => {
+    const key = getKey(run);
+    if (!groups[key]) {
+      groups[key] = [];
+    }
+    groups[key].push(run);
+  });
+
+  return groups;
+}
+
+// Helper function to group runs by date
+export function groupRunsByDate(runs: Run[]): Record<string, Run[]> {
+  return groupRunsBy(runs, run =>
+    format(parseISO(run.scheduledTime), 'yyyy-MM-dd')
+  );
+}
+
+// Comparable value of a run field for sorting
+function getSortValue(run: Run, field: string): string | number | null {
+  if (field === PRICE_FIELD) {
+    return getRunPriceAmount(run);
+  }
+
+  const value = getRunFieldValue(run, field);
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  if (value instanceof Date || field === 'scheduledTime') {
+    return toReportDate(value)?.getTime() ?? null;
+  }
+
+  return String(value);
+}
+
+// Sort runs by a report sort spec; runs missing the field are sorted last
+export function sortReportRuns(runs: Run[], sort?: ReportSort): Run[] {
+  const { field, direction } = sort || DEFAULT_REPORT_SORT;
+  const multiplier = direction === 'desc' ? -1 : 1;
+
+  return [...runs].sort((a, b) => {
+    const aValue = getSortValue(a, field);
+    const bValue = getSortValue(b, field);
+
+    if (aValue === null && bValue === null) return 0;
+    if (aValue === null) return 1;
+    if (bValue === null) return -1;
+
+    if (typeof aValue === 'number' && typeof bValue === 'number') {
+      return (aValue - bValue) * multiplier;
+    }
+
+    return String(aValue).localeCompare(String(bValue)) * multiplier;
+  });
+}
+
+/**
+ * Sort runs and split them into report sections. Without grouping a single
+ * unlabeled section holds every run; otherwise sections are ordered by their
+ * key and runs keep the requested sort order within each section.
+ */
+export function buildReportSections(
+  runs: Run[],
+  layout: ReportLayout = {}
+): ReportSection[] {
+  const sortedRuns = sortReportRuns(runs, layout.sort);
+
+  switch (layout.groupBy) {
+    case ReportGroupBy.day: {
+      const groups = groupRunsByDate(sortedRuns);
+      return Object.keys(groups)
+        .sort()
+        .map(date => ({
+          key: date,
+          label: format(parseISO(date), 'EEEE, MMM d, yyyy'),
+          runs: groups[date],
+        }));
+    }
+    case ReportGroupBy.billTo: {
+      const groups = groupRunsBy(
+        sortedRuns,
+        run => run.billTo || NO_BILL_TO_KEY
+      );
+      return Object.keys(groups)
+        .sort((a, b) => {
+          // Runs without a bill to code go last
+          if (a === NO_BILL_TO_KEY) return 1;
+          if (b === NO_BILL_TO_KEY) return -1;
+          return a.localeCompare(b);
+        })
+        .map(billTo => ({
+          key: billTo,
+          label: billTo ? `Bill To: ${billTo}` : 'No Bill To',
+          runs: groups[billTo],
+        }));
+    }
+    case ReportGroupBy.driver: {
+      const groups = groupRunsBy(sortedRuns, run => run.userId);
+      return Object.keys(groups)
+        .map(userId => ({
+          key: userId,
+          label: `Driver: ${layout.driverNames?.[userId] || userId}`,
+          runs: groups[userId],
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label));
+    }
+    default:
+      return [{ key: 'all', label: '', runs: sortedRuns }];
+  }
+}
+
+// Whether a layout splits the report into labeled sections
+export function isGroupedLayout(layout: ReportLayout = {}): boolean {
+  return !!layout.groupBy && layout.groupBy !== ReportGroupBy.none;
+}
@@ -0,0 +1,169 @@
+import { jsPDF } from 'jspdf';
+import { autoTable, type RowInput, type Styles } from 'jspdf-autotable';
+import { type ReportColumnConfig, type Run } from '../schema';
+import { computeReportAggregates } from './aggregates';
+import {
+  formatReportCell,
+  formatSubtotalRow,
+  getOrderedColumns,
+  getReportColumnKind,
+} from './columns';
+import { buildReportSections, isGroupedLayout } from './grouping';
+import {
+  formatReportDateRange,
+  formatRunCount,
+  type ReportDocumentOptions,
+} from './summary';
+
+// Page margin in points
+const PAGE_MARGIN = 40;
+// Vertical space reserved for the report header on the first page
+const HEADER_HEIGHT = 70;
+
+// Draw the organization name, report title and date range
+function drawHeader(doc: jsPDF, options: ReportDocumentOptions): void {
+  let y = PAGE_MARGIN;
+
+  if (options.organizationName) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.text(options.organizationName, PAGE_MARGIN, y);
+    y += 18;
+  }
+
+  doc.setFont('helvetica', options.organizationName ? 'normal' : 'bold');
+  doc.setFontSize(12);
+  doc.text(options.title, PAGE_MARGIN, y);
+  y += 16;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(
+    formatReportDateRange(options.startDate, options.endDate),
+    PAGE_MARGIN,
+    y
+  );
+  doc.setTextColor(0);
+}
+
+// Draw "Page X of Y" on every page once the table has been laid out
+function drawPageNumbers(doc: jsPDF): void {
+  const pageCount = doc.getNumberOfPages();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(100);
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(
+      `Page ${page} of ${pageCount}`,
+      pageWidth - PAGE_MARGIN,
+      pageHeight - PAGE_MARGIN / 2,
+      { align: 'right' }
+    );
+  }
+
+  doc.setTextColor(0);
+}
+
+/**
+ * Render runs as a paginated PDF using a template's column configuration.
+ * The first page carries the organization header and date range, the table
+ * header repeats on every page, grouped reports get a heading and subtotal
+ * row per section, and the run count and footer aggregates close the last
+ * page.
+ */
+export function renderPDF(
+  runs: Run[],
+  columns: ReportColumnConfig[],
+  options: ReportDocumentOptions
+): Uint8Array {
+  const orderedColumns = getOrderedColumns(columns);
+  const aggregates = computeReportAggregates(runs, options.footerAggregates);
+
+  const doc = new jsPDF({
+    orientation: orderedColumns.length > 6 ? 'landscape' : 'portrait',
+    unit: 'pt',
+    format: 'letter',
+  });
+
+  drawHeader(doc, options);
+
+  const head = [orderedColumns.map(column => column.label)];
+  const body: RowInput[] = [];
+  const grouped = isGroupedLayout(options);
+
+  buildReportSections(runs, options).forEach(section => {
+    if (grouped) {
+      body.push([
+        {
+          content: section.label,
+          colSpan: orderedColumns.length,
+          styles: { fontStyle: 'bold', fillColor: [219, 234, 254] },
+        },
+      ]);
+    }
+
+    section.runs.forEach(run => {
+      body.push(orderedColumns.map(column => formatReportCell(run, column)));
+    });
+
+    if (grouped) {
+      body.push(
+        formatSubtotalRow(section.runs, orderedColumns).map(content => ({
+          content,
+          styles: { fontStyle: 'bold', fillColor: [243, 244, 246] },
+        }))
+      );
+    }
+  });
+
+  // Footer rows: run count, then one label/value row per aggregate with the
+  // value spanning the remaining columns
+  const valueColSpan = Math.max(orderedColumns.length - 1, 1);
+  const foot: RowInput[] = [
+    [{ content: formatRunCount(runs.length), colSpan: orderedColumns.length }],
+    ...aggregates.map(aggregate =>
+      orderedColumns.length > 1
+        ? [aggregate.label, { content: aggregate.text, colSpan: valueColSpan }]
+        : [`${aggregate.label}: ${aggregate.text}`]
+    ),
+  ];
+
+  // Right-align numeric columns
+  const columnStyles: Record<number, Partial<Styles>> = {};
+  orderedColumns.forEach((column, index) => {
+    const kind = getReportColumnKind(column);
+    if (kind === 'currency' || kind === 'minutes') {
+      columnStyles[index] = { halign: 'right' };
+    }
+  });
+
+  autoTable(doc, {
+    head,
+    body,
+    foot,
+    showHead: 'everyPage',
+    showFoot: 'lastPage',
+    startY: PAGE_MARGIN + HEADER_HEIGHT,
+    margin: {
+      top: PAGE_MARGIN,
+      right: PAGE_MARGIN,
+      bottom: PAGE_MARGIN,
+      left: PAGE_MARGIN,
+    },
+    theme: 'striped',
+    styles: { fontSize: 8, cellPadding: 4, overflow: 'linebreak' },
+    headStyles: { fillColor: [37, 99, 235] },
+    footStyles: { fillColor: [229, 231, 235], textColor: 20 },
+    columnStyles,
+  });
+
+  drawPageNumbers(doc);
+
+  return new Uint8Array(doc.output('arraybuffer'));
+}
@@ -0,0 +1,135 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfDay,
+  endOfMonth,
+  getDay,
+  setDate,
+  setHours,
+  startOfDay,
+  startOfHour,
+  startOfMonth,
+  subDays,
+  subMonths,
+  subWeeks,
+} from 'date-fns';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+import { type ReportSchedule, ReportScheduleFrequency } from '../schema';
+
+// Fields that decide when a schedule runs
+export type ReportScheduleTiming = Pick<
+  ReportSchedule,
+  'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'hour' | 'timezone'
+>;
+
+export const REPORT_SCHEDULE_FREQUENCY_LABELS: Record<
+  ReportScheduleFrequency,
+  string
+> = {
+  [ReportScheduleFrequency.weekly]: 'Weekly',
+  [ReportScheduleFrequency.monthly]: 'Monthly',
+};
+
+export const WEEKDAY_LABELS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+// Format an hour of the day as "06:00"
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+// Ordinal day of the month, e.g. "1st", "22nd"
+function formatDayOfMonth(day: number): string {
+  const suffix =
+    day % 10 === 1 && day !== 11
+      ? 'st'
+      : day % 10 === 2 && day !== 12
+        ? 'nd'
+        : day % 10 === 3 && day !== 13
+          ? 'rd'
+          : 'th';
+  return `${day}${suffix}`;
+}
+
+// Human readable cadence, e.g. "Weekly on Monday at 06:00 (UTC)"
+export function describeReportSchedule(timing: ReportScheduleTiming): string {
+  const when =
+    timing.frequency === ReportScheduleFrequency.monthly
+      ? `Monthly on the ${formatDayOfMonth(timing.dayOfMonth)}`
+      : `Weekly on ${WEEKDAY_LABELS[timing.dayOfWeek]}`;
+  return `${when} at ${formatHour(timing.hour)} (${timing.timezone})`;
+}
+
+/**
+ * Next time a schedule is due strictly after the given instant. Days and
+ * hours are interpreted in the schedule's timezone, so a Monday 06:00 report
+ * stays at 06:00 local time across daylight saving changes.
+ */
+export function getNextReportScheduleRun(
+  timing: ReportScheduleTiming,
+  after: Date
+): Date {
+  const zonedAfter = toZonedTime(after, timing.timezone);
+  let candidate = setHours(startOfHour(zonedAfter), timing.hour);
+
+  if (timing.frequency === ReportScheduleFrequency.monthly) {
+    candidate = setDate(candidate, timing.dayOfMonth);
+    if (fromZonedTime(candidate, timing.timezone) <= after) {
+      candidate = addMonths(candidate, 1);
+    }
+  } else {
+    candidate = addDays(
+      candidate,
+      (timing.dayOfWeek - getDay(candidate) + 7) % 7
+    );
+    if (fromZonedTime(candidate, timing.timezone) <= after) {
+      candidate = addWeeks(candidate, 1);
+    }
+  }
+
+  return fromZonedTime(candidate, timing.timezone);
+}
+
+// Most recent time a schedule was due, at or before the given instant
+export function getLatestReportScheduleRun(
+  timing: ReportScheduleTiming,
+  at: Date
+): Date {
+  const periodStart =
+    timing.frequency === ReportScheduleFrequency.monthly
+      ? subMonths(at, 1)
+      : subWeeks(at, 1);
+  return getNextReportScheduleRun(timing, periodStart);
+}
+
+/**
+ * Date range covered by a scheduled run: the seven days before the run day
+ * for weekly schedules and the previous calendar month for monthly ones.
+ */
+export function getScheduledReportRange(
+  timing: Pick<ReportScheduleTiming, 'frequency' | 'timezone'>,
+  runAt: Date
+): { startDate: Date; endDate: Date } {
+  const zonedRunAt = toZonedTime(runAt, timing.timezone);
+
+  const [start, end] =
+    timing.frequency === ReportScheduleFrequency.monthly
+      ? [
+          startOfMonth(subMonths(zonedRunAt, 1)),
+          endOfMonth(subMonths(zonedRunAt, 1)),
+        ]
+      : [startOfDay(subWeeks(zonedRunAt, 1)), endOfDay(subDays(zonedRunAt, 1))];
+
+  return {
+    startDate: fromZonedTime(start, timing.timezone),
+    endDate: fromZonedTime(end, timing.timezone),
+  };
+}
@@ -0,0 +1,51 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+// Directory where generated report files are persisted
+function getReportsDirectory(): string {
+  return (
+    process.env.REPORTS_STORAGE_DIR || join(process.cwd(), 'storage', 'reports')
+  );
+}
+
+// Build the on-disk path for a generated report file
+export function getReportFilePath(reportId: string, extension: string): string {
+  return join(getReportsDirectory(), `${reportId}.${extension}`);
+}
+
+// Write a generated report file and return its path
+export async function saveReportFile(
+  reportId: string,
+  extension: string,
+  content: string | Uint8Array
+): Promise<string> {
+  await mkdir(getReportsDirectory(), { recursive: true });
+
+  const filePath = getReportFilePath(reportId, extension);
+  await writeFile(filePath, content);
+
+  return filePath;
+}
+
+// Read a previously generated report file, or null if it no longer exists
+export async function readReportFile(
+  reportId: string,
+  extension: string
+): Promise<Uint8Array | null> {
+  try {
+    return await readFile(getReportFilePath(reportId, extension));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Remove a generated report file (no-op if it is already gone)
+export async function deleteReportFile(
+  reportId: string,
+  extension: string
+): Promise<void> {
+  await rm(getReportFilePath(reportId, extension), { force: true });
+}
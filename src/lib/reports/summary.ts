@@ -0,0 +1,58 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { DEFAULT_CURRENCY, formatCents } from '../money';
+import { type ReportAggregateType, type Run } from '../schema';
+import { type ReportLayout } from './grouping';
+
+// Document-level details rendered around the report table
+export interface ReportDocumentOptions extends ReportLayout {
+  title: string;
+  organizationName?: string;
+  startDate: Date;
+  endDate: Date;
+  // Summary values rendered in the footer, in order
+  footerAggregates?: ReportAggregateType[];
+}
+
+// A run's price in cents, treating missing prices as 0
+export function getRunPriceCents(run: Run): number {
+  return Number.isFinite(run.priceCents) ? run.priceCents : 0;
+}
+
+// A run's price in dollars (or the run currency's main unit)
+export function getRunPriceAmount(run: Run): number {
+  return getRunPriceCents(run) / 100;
+}
+
+// Convert a Date or ISO string to a valid Date, or null
+export function toReportDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  const date = value instanceof Date ? value : parseISO(String(value));
+  return isValid(date) ? date : null;
+}
+
+// Label for the run count row closing PDF and XLSX reports
+export function formatRunCount(runCount: number): string {
+  return `Total: ${runCount} run${runCount === 1 ? '' : 's'}`;
+}
+
+// Label for the subtotal row closing a report section
+export function formatSubtotalLabel(runCount: number): string {
+  return `Subtotal: ${runCount} run${runCount === 1 ? '' : 's'}`;
+}
+
+// Human readable date range, e.g. "Jan 1, 2025 - Jan 31, 2025"
+export function formatReportDateRange(startDate: Date, endDate: Date): string {
+  return `${format(startDate, 'MMM d, yyyy')} - ${format(endDate, 'MMM d, yyyy')}`;
+}
+
+// Format an amount in dollars (or another currency's main unit) for display,
+// e.g. a pay rate or a report cell
+export function formatReportCurrency(
+  amount: number,
+  currency: string = DEFAULT_CURRENCY
+): string {
+  return formatCents(Math.round(amount * 100), currency);
+}
@@ -0,0 +1,228 @@
+import { type CellValue, Workbook } from 'exceljs';
+import {
+  DEFAULT_CURRENCY,
+  formatCurrencyTotals,
+  getSharedCurrency,
+} from '../money';
+import {
+  ReportAggregateType,
+  type ReportColumnConfig,
+  type Run,
+} from '../schema';
+import { computeReportAggregates } from './aggregates';
+import {
+  getColumnTotals,
+  getOrderedColumns,
+  getReportColumnKind,
+  getTypedReportCell,
+  PRICE_FIELD,
+  type ReportColumnKind,
+} from './columns';
+import { buildReportSections, isGroupedLayout } from './grouping';
+import {
+  formatReportDateRange,
+  formatRunCount,
+  formatSubtotalLabel,
+  type ReportDocumentOptions,
+} from './summary';
+
+const DATE_FORMAT = 'yyyy-mm-dd hh:mm';
+const MINUTES_FORMAT = '+0"m";-0"m";0"m"';
+
+// Number format applied to each typed column kind; currency columns are
+// formatted with the currency of their runs
+const COLUMN_NUMBER_FORMATS: Partial<Record<ReportColumnKind, string>> = {
+  date: DATE_FORMAT,
+  minutes: MINUTES_FORMAT,
+};
+
+// Number format showing amounts with their currency's symbol, e.g. "$"#,##0.00
+function getCurrencyFormat(currency: string): string {
+  try {
+    const symbol = new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    })
+      .formatToParts(0)
+      .find(part => part.type === 'currency')?.value;
+    return `"${symbol ?? currency}"#,##0.00`;
+  } catch {
+    return `#,##0.00" ${currency}"`;
+  }
+}
+
+// Excel limits sheet names to 31 characters and disallows some symbols
+function getSheetName(title: string): string {
+  return title.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Report';
+}
+
+/**
+ * Render runs as an XLSX workbook using a template's column configuration.
+ * Prices and computed columns are written as numeric cells and timestamps
+ * as date cells, so the sheet can be sorted and summed in Excel. Grouped
+ * reports get a heading and a subtotal row per section.
+ */
+export async function renderXLSX(
+  runs: Run[],
+  columns: ReportColumnConfig[],
+  options: ReportDocumentOptions
+): Promise<Uint8Array> {
+  const orderedColumns = getOrderedColumns(columns);
+  const aggregates = computeReportAggregates(runs, options.footerAggregates);
+
+  const workbook = new Workbook();
+  workbook.created = new Date();
+  const sheet = workbook.addWorksheet(getSheetName(options.title));
+
+  // Header block: organization, report title and date range
+  if (options.organizationName) {
+    sheet.addRow([options.organizationName]).font = { bold: true, size: 14 };
+  }
+  sheet.addRow([options.title]).font = { bold: true, size: 12 };
+  sheet.addRow([formatReportDateRange(options.startDate, options.endDate)]);
+  sheet.addRow([]);
+
+  const headerRow = sheet.addRow(orderedColumns.map(column => column.label));
+  headerRow.font = { bold: true };
+  const firstDataRow = headerRow.number + 1;
+
+  const grouped = isGroupedLayout(options);
+
+  // Reports over runs in more than one currency format each price cell with
+  // its run's currency, and only sum a column where a single currency is in it
+  const reportCurrency = getSharedCurrency(runs);
+  const currencyColumnIndexes = orderedColumns
+    .map((column, index) =>
+      getReportColumnKind(column) === 'currency' ? index : -1
+    )
+    .filter(index => index >= 0);
+
+  buildReportSections(runs, options).forEach(section => {
+    if (grouped) {
+      const labelRow = sheet.addRow([section.label]);
+      labelRow.font = { bold: true };
+      labelRow.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFDBEAFE' },
+      };
+    }
+
+    const sectionFirstRow = sheet.rowCount + 1;
+    section.runs.forEach(run => {
+      const row = sheet.addRow(
+        orderedColumns.map(column => getTypedReportCell(run, column))
+      );
+      if (!reportCurrency) {
+        currencyColumnIndexes.forEach(index => {
+          row.getCell(index + 1).numFmt = getCurrencyFormat(
+            run.currency || DEFAULT_CURRENCY
+          );
+        });
+      }
+    });
+
+    const sectionLastRow = sheet.rowCount;
+
+    if (grouped) {
+      // Subtotals use SUBTOTAL so the grand total can skip them
+      const subtotalRow = sheet.addRow(
+        orderedColumns.map((column, index): CellValue => {
+          if (index === 0) {
+            return formatSubtotalLabel(section.runs.length);
+          }
+          const totals = getColumnTotals(section.runs, column);
+          if (totals === null) {
+            return null;
+          }
+          const currencies = Object.keys(totals);
+          if (currencies.length > 1) {
+            return formatCurrencyTotals(totals);
+          }
+          const columnLetter = sheet.getColumn(index + 1).letter;
+          return {
+            formula: `SUBTOTAL(9,${columnLetter}${sectionFirstRow}:${columnLetter}${sectionLastRow})`,
+            result: (totals[currencies[0]] ?? 0) / 100,
+          };
+        })
+      );
+      subtotalRow.font = { bold: true };
+      if (!reportCurrency) {
+        const sectionCurrency = getSharedCurrency(section.runs);
+        currencyColumnIndexes.forEach(index => {
+          subtotalRow.getCell(index + 1).numFmt = sectionCurrency
+            ? getCurrencyFormat(sectionCurrency)
+            : '@';
+        });
+      }
+    }
+  });
+
+  const lastDataRow = sheet.rowCount;
+
+  // Column widths and number formats for typed columns
+  orderedColumns.forEach((column, index) => {
+    const sheetColumn = sheet.getColumn(index + 1);
+    const kind = getReportColumnKind(column);
+    sheetColumn.width = Math.max(column.label.length + 2, 14);
+
+    const numFmt =
+      kind === 'currency'
+        ? reportCurrency && getCurrencyFormat(reportCurrency)
+        : COLUMN_NUMBER_FORMATS[kind];
+    if (numFmt) {
+      sheetColumn.numFmt = numFmt;
+    }
+    if (kind === 'date') {
+      sheetColumn.width = Math.max(sheetColumn.width, 18);
+    }
+  });
+
+  // Footer: run count, then one label/value row per aggregate. The price
+  // total is a live SUBTOTAL over the price column when the template has one,
+  // which leaves out section subtotal rows.
+  sheet.addRow([]);
+  sheet.addRow([formatRunCount(runs.length)]).font = { bold: true };
+
+  const priceColumnIndex = orderedColumns.findIndex(
+    column => column.field === PRICE_FIELD && !column.computed
+  );
+
+  aggregates.forEach(aggregate => {
+    let value: CellValue = aggregate.value ?? aggregate.text;
+
+    if (
+      aggregate.type === ReportAggregateType.sumPrice &&
+      aggregate.value !== null &&
+      priceColumnIndex >= 0 &&
+      runs.length > 0
+    ) {
+      const columnLetter = sheet.getColumn(priceColumnIndex + 1).letter;
+      value = {
+        formula: `SUBTOTAL(9,${columnLetter}${firstDataRow}:${columnLetter}${lastDataRow})`,
+        result: aggregate.value ?? 0,
+      };
+    }
+
+    const row = sheet.addRow([aggregate.label, value]);
+    row.font = { bold: true };
+
+    const valueCell = row.getCell(2);
+    if (aggregate.type === ReportAggregateType.sumPrice && aggregate.currency) {
+      valueCell.numFmt = getCurrencyFormat(aggregate.currency);
+    } else if (
+      aggregate.type === ReportAggregateType.averageActualDuration &&
+      aggregate.value !== null
+    ) {
+      valueCell.numFmt = '0.0"m"';
+    } else {
+      valueCell.numFmt = '@';
+    }
+  });
+
+  // Keep the column headers visible while scrolling
+  sheet.views = [{ state: 'frozen', ySplit: headerRow.number }];
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Uint8Array(buffer);
+}
@@ -0,0 +1,96 @@
+import { addMinutes } from 'date-fns';
+import { type Run, type RunStatus } from './schema';
+
+// How overlapping runs are handled when saving: `warn` saves the run and
+// reports the overlaps, `block` rejects the save
+export type RunConflictMode = 'warn' | 'block';
+
+// Only runs still to be driven can clash with each other
+export const CONFLICT_CHECKED_STATUSES: RunStatus[] = ['scheduled', 'active'];
+
+// Another run of the same driver whose time window overlaps a run's
+export interface RunConflict {
+  runId: string;
+  flightNumber: string;
+  scheduledTime: string;
+  estimatedDuration: number;
+  status: RunStatus;
+}
+
+// A saved run with the driver's runs it overlaps
+export type RunWithConflicts = Run & { conflicts: RunConflict[] };
+
+// Result of checking runs for overlaps before saving them: each run's
+// conflicts in order, and whether the server will save them anyway
+export interface RunConflictCheck {
+  mode: RunConflictMode;
+  conflicts: RunConflict[][];
+}
+
+// The fields that place a run in time
+export type RunTiming = Pick<
+  Run,
+  'id' | 'flightNumber' | 'scheduledTime' | 'estimatedDuration' | 'status'
+>;
+
+// Thrown when overlapping runs are blocked and a save would create one
+export class RunConflictError extends Error {
+  constructor(public readonly conflicts: RunConflict[]) {
+    super(
+      `This run overlaps ${conflicts.length === 1 ? 'another run' : `${conflicts.length} other runs`} for the same driver: ${conflicts.map(conflict => conflict.flightNumber).join(', ')}`
+    );
+    this.name = 'RunConflictError';
+  }
+}
+
+// The time a run occupies its driver, from its scheduled time for its
+// estimated duration
+export function getRunTimeWindow(
+  run: Pick<Run, 'scheduledTime' | 'estimatedDuration'>
+): { start: Date; end: Date } {
+  const start = new Date(run.scheduledTime);
+  return { start, end: addMinutes(start, run.estimatedDuration) };
+}
+
+// Runs that end exactly when the other starts don't overlap
+export function runsOverlap(
+  a: Pick<Run, 'scheduledTime' | 'estimatedDuration'>,
+  b: Pick<Run, 'scheduledTime' | 'estimatedDuration'>
+): boolean {
+  const first = getRunTimeWindow(a);
+  const second = getRunTimeWindow(b);
+  return first.start < second.end && second.start < first.end;
+}
+
+export function isConflictChecked(run: Pick<Run, 'status'>): boolean {
+  return CONFLICT_CHECKED_STATUSES.includes(run.status);
+}
+
+/**
+ * Conflicts for each run in `runs`, in order, against `otherRuns` (which may
+ * include `runs` themselves, so a batch is checked against itself). Runs
+ * that are completed or cancelled have no conflicts.
+ */
+export function findRunConflicts(
+  runs: RunTiming[],
+  otherRuns: RunTiming[]
+): RunConflict[][] {
+  return runs.map(run =>
+    isConflictChecked(run)
+      ? otherRuns
+          .filter(
+            other =>
+              other.id !== run.id &&
+              isConflictChecked(other) &&
+              runsOverlap(run, other)
+          )
+          .map(other => ({
+            runId: other.id,
+            flightNumber: other.flightNumber,
+            scheduledTime: other.scheduledTime,
+            estimatedDuration: other.estimatedDuration,
+            status: other.status,
+          }))
+      : []
+  );
+}
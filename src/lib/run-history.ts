@@ -0,0 +1,122 @@
+import { formatCents } from './money';
+import {
+  type Run,
+  type RunFieldChange,
+  type RunLineItem,
+  type RunStop,
+  RunEventType,
+} from './schema';
+
+export const RUN_EVENT_TYPE_LABELS: Record<RunEventType, string> = {
+  [RunEventType.created]: 'Created',
+  [RunEventType.updated]: 'Updated',
+  [RunEventType.statusChanged]: 'Status changed',
+  [RunEventType.assigned]: 'Assigned',
+  [RunEventType.deleted]: 'Deleted',
+};
+
+// Run fields recorded in the audit log, with the labels the timeline shows.
+// Timestamps set by the server (createdAt, activatedAt, ...) are left out.
+export const AUDITED_RUN_FIELDS = {
+  userId: 'Driver',
+  status: 'Status',
+  scheduledTime: 'Scheduled time',
+  flightNumber: 'Flight number',
+  airline: 'Airline',
+  departure: 'Departure',
+  arrival: 'Arrival',
+  pickupLocation: 'Pickup location',
+  dropoffLocation: 'Dropoff location',
+  type: 'Type',
+  estimatedDuration: 'Estimated duration',
+  actualDuration: 'Actual duration',
+  priceCents: 'Price',
+  currency: 'Currency',
+  lineItems: 'Line items',
+  stops: 'Stops',
+  vehicleId: 'Vehicle',
+  billTo: 'Bill to',
+  reservation_id: 'Reservation ID',
+  reportTemplateId: 'Report template',
+  notes: 'Notes',
+} satisfies Partial<Record<keyof Run, string>>;
+
+type AuditedRunField = keyof typeof AUDITED_RUN_FIELDS;
+
+// Empty strings and missing values are all recorded as null
+function normalizeFieldValue(value: unknown): unknown {
+  return value === undefined || value === '' ? null : value;
+}
+
+/**
+ * Fields that differ between two versions of a run. Pass an empty object as
+ * `before` for a new run, or as `after` for a deleted one, to record every
+ * field it had.
+ */
+export function diffRunFields(
+  before: Partial<Run>,
+  after: Partial<Run>
+): RunFieldChange[] {
+  const changes: RunFieldChange[] = [];
+
+  (Object.keys(AUDITED_RUN_FIELDS) as AuditedRunField[]).forEach(field => {
+    const from = normalizeFieldValue(before[field]);
+    const to = normalizeFieldValue(after[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  });
+
+  return changes;
+}
+
+// Timeline label for a changed field, falling back to its name
+export function getRunFieldLabel(field: string): string {
+  return AUDITED_RUN_FIELDS[field as AuditedRunField] ?? field;
+}
+
+// Human-readable value of a changed field for the timeline. Times are left
+// as stored so the caller can show them in the user's timezone.
+export function formatRunFieldValue(
+  field: string,
+  value: unknown,
+  currency?: string
+): string {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+
+  switch (field) {
+    case 'priceCents':
+      return formatCents(Number(value), currency);
+    case 'estimatedDuration':
+    case 'actualDuration':
+      return `${value} min`;
+    case 'lineItems': {
+      const items = value as RunLineItem[];
+      if (items.length === 0) {
+        return 'None';
+      }
+      return items
+        .map(
+          item =>
+            `${item.description || item.type} ${formatCents(item.amountCents, currency)}`
+        )
+        .join(', ');
+    }
+    case 'stops': {
+      const stops = value as RunStop[];
+      if (stops.length === 0) {
+        return 'None';
+      }
+      return stops
+        .map(
+          stop =>
+            `${stop.location} (${stop.passengerCount} pax${stop.completedAt ? ', done' : ''})`
+        )
+        .join(' → ');
+    }
+    default:
+      return String(value);
+  }
+}
@@ -0,0 +1,233 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  differenceInCalendarWeeks,
+  format,
+  getDay,
+  parseISO,
+} from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { type RunWithConflicts } from './run-conflicts';
+import {
+  type RunRecurrenceRule,
+  type RunSeries,
+  RunSeriesFrequency,
+} from './schema';
+
+// Occurrences are created as runs this many days ahead
+export const RUN_SERIES_HORIZON_DAYS = 28;
+
+// RRULE weekday codes, indexed like Date.getDay() (0 = Sunday)
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Monday to Friday
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+
+// Which part of a series an edit applies to
+export type RunSeriesEditScope = 'occurrence' | 'future';
+
+// A series after it was created, edited or ended
+export interface RunSeriesResult {
+  series: RunSeries;
+  // Runs created or changed, with the driver's runs they overlap
+  runs: RunWithConflicts[];
+  // Occurrences left unchanged because overlapping runs are blocked
+  skippedRunIds: string[];
+}
+
+export function formatDateOnly(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+// The occurrence's scheduled time: its start time on that date in the
+// series' timezone, as a UTC instant, e.g. "2026-03-02T14:30:00.000Z" for
+// 07:30 in America/Denver
+export function getOccurrenceScheduledTime(
+  occurrence: string,
+  startTime: string,
+  timezone: string
+): string {
+  return fromZonedTime(`${occurrence}T${startTime}`, timezone).toISOString();
+}
+
+// A run's time of day in the series' timezone, e.g. "07:30". Times without
+// an offset are already wall-clock times.
+export function getScheduledTimeOfDay(
+  scheduledTime: string,
+  timezone: string
+): string {
+  if (!/(Z|[+-]\d{2}:?\d{2})$/i.test(scheduledTime)) {
+    return scheduledTime.slice(11, 16);
+  }
+  return formatInTimeZone(parseISO(scheduledTime), timezone, 'HH:mm');
+}
+
+/**
+ * Write a recurrence rule as an RRULE string, e.g.
+ * "FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE;UNTIL=20261231".
+ */
+export function formatRecurrenceRule(rule: RunRecurrenceRule): string {
+  const parts = [
+    `FREQ=${rule.frequency === RunSeriesFrequency.weekly ? 'WEEKLY' : 'DAILY'}`,
+    `INTERVAL=${rule.interval}`,
+  ];
+
+  if (rule.byWeekday.length > 0) {
+    parts.push(
+      `BYDAY=${[...rule.byWeekday]
+        .sort((a, b) => a - b)
+        .map(day => RRULE_WEEKDAYS[day])
+        .join(',')}`
+    );
+  }
+
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  }
+
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+
+  return parts.join(';');
+}
+
+// Read an RRULE string written by formatRecurrenceRule. Parts it doesn't
+// know are ignored.
+export function parseRecurrenceRule(rrule: string): RunRecurrenceRule {
+  const rule: RunRecurrenceRule = {
+    frequency: RunSeriesFrequency.daily,
+    interval: 1,
+    byWeekday: [],
+    until: null,
+    count: null,
+  };
+
+  rrule.split(';').forEach(part => {
+    const [key, value = ''] = part.split('=');
+    switch (key.trim().toUpperCase()) {
+      case 'FREQ':
+        rule.frequency =
+          value.toUpperCase() === 'WEEKLY'
+            ? RunSeriesFrequency.weekly
+            : RunSeriesFrequency.daily;
+        break;
+      case 'INTERVAL':
+        rule.interval = Math.max(parseInt(value, 10) || 1, 1);
+        break;
+      case 'BYDAY':
+        rule.byWeekday = value
+          .split(',')
+          .map(code => RRULE_WEEKDAYS.indexOf(code.trim().toUpperCase()))
+          .filter(day => day >= 0);
+        break;
+      case 'UNTIL': {
+        const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+        rule.until = match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+        break;
+      }
+      case 'COUNT':
+        rule.count = parseInt(value, 10) || null;
+        break;
+    }
+  });
+
+  return rule;
+}
+
+// e.g. "Every weekday until Dec 31, 2026" or "Every 2 weeks on Mon, Thu"
+export function describeRecurrenceRule(rule: RunRecurrenceRule): string {
+  let description: string;
+
+  if (rule.frequency === RunSeriesFrequency.daily) {
+    description =
+      rule.interval === 1 ? 'Every day' : `Every ${rule.interval} days`;
+    if (rule.byWeekday.length > 0) {
+      description += ` on ${rule.byWeekday.map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+    }
+  } else {
+    const days = [...rule.byWeekday].sort((a, b) => a - b);
+    const isWeekdays =
+      days.length === WEEKDAYS.length &&
+      days.every((day, index) => day === WEEKDAYS[index]);
+
+    if (isWeekdays && rule.interval === 1) {
+      description = 'Every weekday';
+    } else {
+      description =
+        rule.interval === 1 ? 'Weekly' : `Every ${rule.interval} weeks`;
+      description += ` on ${days.map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+    }
+  }
+
+  if (rule.until) {
+    description += ` until ${format(parseISO(rule.until), 'MMM d, yyyy')}`;
+  } else if (rule.count) {
+    description += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  }
+
+  return description;
+}
+
+function matchesRule(
+  rule: RunRecurrenceRule,
+  date: Date,
+  startDate: Date
+): boolean {
+  if (rule.byWeekday.length > 0 && !rule.byWeekday.includes(getDay(date))) {
+    return false;
+  }
+
+  if (rule.frequency === RunSeriesFrequency.weekly) {
+    return (
+      differenceInCalendarWeeks(date, startDate, { weekStartsOn: 1 }) %
+        rule.interval ===
+      0
+    );
+  }
+
+  return differenceInCalendarDays(date, startDate) % rule.interval === 0;
+}
+
+/**
+ * Dates ('YYYY-MM-DD') the series has an occurrence on from `from` through
+ * `through`, inclusive, leaving out the series' removed dates. A count limit
+ * includes removed dates, so removing an occurrence doesn't add another at
+ * the end of the series.
+ */
+export function getRecurrenceDates(
+  series: Pick<RunSeries, 'rule' | 'startDate' | 'exdates'>,
+  from: string,
+  through: string
+): string[] {
+  const { rule } = series;
+  const startDate = parseISO(series.startDate);
+  const last = rule.until && rule.until < through ? rule.until : through;
+  const dates: string[] = [];
+
+  let count = 0;
+  for (
+    let date = startDate;
+    formatDateOnly(date) <= last;
+    date = addDays(date, 1)
+  ) {
+    const occurrence = formatDateOnly(date);
+
+    if (!matchesRule(rule, date, startDate)) {
+      continue;
+    }
+
+    count++;
+    if (rule.count && count > rule.count) {
+      break;
+    }
+
+    if (occurrence >= from && !series.exdates.includes(occurrence)) {
+      dates.push(occurrence);
+    }
+  }
+
+  return dates;
+}
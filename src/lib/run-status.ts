@@ -0,0 +1,61 @@
+import { type Run, type RunStatus } from './schema';
+
+export const RUN_STATUS_LABELS: Record<RunStatus, string> = {
+  scheduled: 'Scheduled',
+  active: 'Active',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+// Statuses a run may move to from each status. Completed runs are final;
+// a cancelled run can be put back on the schedule.
+export const RUN_STATUS_TRANSITIONS: Record<RunStatus, RunStatus[]> = {
+  scheduled: ['active', 'cancelled'],
+  active: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: ['scheduled'],
+};
+
+// Thrown when a run's status change is not allowed by the transition rules
+export class RunStatusTransitionError extends Error {
+  constructor(
+    public readonly from: RunStatus,
+    public readonly to: RunStatus
+  ) {
+    super(
+      RUN_STATUS_TRANSITIONS[from].length > 0
+        ? `Cannot change a ${from} run to ${to}. A ${from} run can only become ${RUN_STATUS_TRANSITIONS[from].join(' or ')}.`
+        : `Cannot change a ${from} run to ${to}. ${RUN_STATUS_LABELS[from]} runs can no longer change status.`
+    );
+    this.name = 'RunStatusTransitionError';
+  }
+}
+
+export function canTransitionRunStatus(
+  from: RunStatus,
+  to: RunStatus
+): boolean {
+  return from === to || RUN_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Timestamps to save with a status change. Activating a run stamps
+ * activatedAt and completing it stamps completedAt; moving a run back
+ * (only possible with an admin override) clears the timestamps of the
+ * statuses it left.
+ */
+export function getRunStatusTimestamps(
+  to: RunStatus,
+  at: Date = new Date()
+): Pick<Run, 'activatedAt' | 'completedAt'> {
+  switch (to) {
+    case 'scheduled':
+      return { activatedAt: null, completedAt: null };
+    case 'active':
+      return { activatedAt: at, completedAt: null };
+    case 'completed':
+      return { completedAt: at };
+    case 'cancelled':
+      return {};
+  }
+}
@@ -0,0 +1,43 @@
+import { type Run, type RunStop } from './schema';
+
+export type RunStopProgress = 'done' | 'next' | 'upcoming';
+
+// Every place a run calls at in order: pickup, its stops, then dropoff
+export function getRunItinerary(
+  run: Pick<Run, 'pickupLocation' | 'dropoffLocation' | 'stops'>
+): string[] {
+  return [
+    run.pickupLocation,
+    ...(run.stops || []).map(stop => stop.location),
+    run.dropoffLocation,
+  ];
+}
+
+// Where each stop is on the run: done once marked, the first open stop is
+// next and the rest are upcoming
+export function getRunStopProgress(stops: RunStop[]): RunStopProgress[] {
+  const nextIndex = stops.findIndex(stop => !stop.completedAt);
+
+  return stops.map((stop, index) =>
+    stop.completedAt ? 'done' : index === nextIndex ? 'next' : 'upcoming'
+  );
+}
+
+// Passengers counted across every stop
+export function getRunStopPassengerCount(stops: RunStop[]): number {
+  return stops.reduce((total, stop) => total + stop.passengerCount, 0);
+}
+
+// The run's stops with one marked done (stamped now) or open again
+export function setRunStopCompleted(
+  stops: RunStop[],
+  stopIndex: number,
+  completed: boolean,
+  at: Date = new Date()
+): RunStop[] {
+  return stops.map((stop, index) =>
+    index === stopIndex
+      ? { ...stop, completedAt: completed ? at.toISOString() : null }
+      : stop
+  );
+}
@@ -1,4 +1,11 @@
-import { type NewRunForm, type RunType } from './schema';
+import { DEFAULT_CURRENCY, formatCents, parsePriceToCents } from './money';
+import {
+  type NewRunForm,
+  type RunLineItem,
+  RunLineItemType,
+  type RunPassenger,
+  type RunType,
+} from './schema';
 
 export interface ParsedScheduleRun {
   id: string;
@@ -12,7 +19,15 @@ export interface ParsedScheduleRun {
   type: RunType;
   passengerInfo: string;
   passengerCount: string;
-  price: string;
+  phoneNumber: string | null;
+  // Bags mentioned in the message, or null when none are
+  luggage: number | null;
+  // Wheelchairs, child seats and the like mentioned in the message
+  specialNeeds: string[];
+  // Price in cents, or null when the message has no price
+  priceCents: number | null;
+  // Tips, tolls and surcharges listed next to the price
+  lineItems: RunLineItem[];
   notes: string;
 }
 
@@ -134,15 +149,72 @@ function extractPhoneNumber(text: string): string | null {
   return phoneMatch ? phoneMatch[0] : null;
 }
 
-function extractPrice(lines: string[]): string {
-  // Search through all lines for a price pattern
+// Bag counts such as "3 bags", "2 suitcases" or "1 pc luggage"
+const LUGGAGE_PATTERN =
+  /\b(\d{1,2})\s*(?:bags?|suitcases?|pcs?|pieces?|luggage)\b/i;
+
+function extractLuggage(text: string): number | null {
+  const luggageMatch = text.match(LUGGAGE_PATTERN);
+  return luggageMatch ? parseInt(luggageMatch[1], 10) : null;
+}
+
+// Requests worth flagging to the driver, e.g. "WHEELCHAIR" or "car seat"
+const SPECIAL_NEEDS_PATTERNS: [RegExp, string][] = [
+  [/\bwheel\s*chair\b/i, 'Wheelchair'],
+  [/\b(car|child|infant)\s*seat\b/i, 'Child seat'],
+  [/\bbooster\b/i, 'Booster seat'],
+  [/\bstroller\b/i, 'Stroller'],
+  [/\bskis?\b/i, 'Skis'],
+  [/\bpet\b|\bdog\b/i, 'Pet'],
+];
+
+function extractSpecialNeeds(text: string): string[] {
+  return SPECIAL_NEEDS_PATTERNS.filter(([pattern]) => pattern.test(text)).map(
+    ([, label]) => label
+  );
+}
+
+// Words after an amount that mark it as a line item rather than the price,
+// e.g. "$15 tip" or "$4.50 toll"
+const LINE_ITEM_KEYWORDS: [RegExp, RunLineItemType][] = [
+  [/^(tip|gratuity)\b/i, RunLineItemType.tip],
+  [/^tolls?\b/i, RunLineItemType.toll],
+  [/^(surcharge|fee)\b/i, RunLineItemType.surcharge],
+];
+
+// Dollar amounts such as "$85", "$85.50" or "$1,250"
+const AMOUNT_PATTERN = /\$\d+(?:,\d{3})*(?:\.\d{2})?/g;
+
+// Find the dollar amounts in a message: the first amount not labeled as a
+// tip, toll or surcharge is the price; labeled amounts become line items
+function extractPrice(lines: string[]): {
+  priceCents: number | null;
+  lineItems: RunLineItem[];
+} {
+  let priceCents: number | null = null;
+  const lineItems: RunLineItem[] = [];
+
   for (const line of lines) {
-    const priceMatch = line.match(/\$\d+(?:\.\d{2})?/);
-    if (priceMatch) {
-      return priceMatch[0];
+    for (const match of Array.from(line.matchAll(AMOUNT_PATTERN))) {
+      const amountCents = parsePriceToCents(match[0]);
+      if (!amountCents) {
+        continue;
+      }
+
+      const following = line.slice((match.index ?? 0) + match[0].length).trim();
+      const lineItemType = LINE_ITEM_KEYWORDS.find(([pattern]) =>
+        pattern.test(following)
+      )?.[1];
+
+      if (lineItemType) {
+        lineItems.push({ type: lineItemType, amountCents });
+      } else if (priceCents === null) {
+        priceCents = amountCents;
+      }
     }
   }
-  return '';
+
+  return { priceCents, lineItems };
 }
 
 function parseScheduleBlock(
@@ -164,8 +236,8 @@ function parseScheduleBlock(
     let locationInfo: string;
     let passengerCount: string;
 
-    // Extract price by searching all lines for price pattern
-    const price = extractPrice(lines);
+    // Extract price and line items by searching all lines for amounts
+    const { priceCents, lineItems } = extractPrice(lines);
 
     if (isTimeFirst) {
       // Format: Time, Flight, Airport, Passenger, etc.
@@ -192,8 +264,10 @@ function parseScheduleBlock(
     // Check for cancellation
     const cancelled = isCancelled(lines);
 
-    // Extract phone number if present
+    // Extract phone number, luggage and special needs if present
     const phoneNumber = extractPhoneNumber(lines.join(' '));
+    const luggage = extractLuggage(lines.join(' '));
+    const specialNeeds = extractSpecialNeeds(lines.join(' '));
 
     // Determine if this is a pickup or dropoff - improved logic
     let isPickup = false;
@@ -236,12 +310,10 @@ function parseScheduleBlock(
       dropoffLocation = airportCode;
     }
 
-    // Enhanced notes with additional info
+    // Enhanced notes with additional info. Passenger details go on the
+    // run's manifest instead.
     const notesArray = [
-      passengerInfo ? `Passenger: ${passengerInfo}` : '',
-      passengerCount ? `Count: ${passengerCount}` : '',
-      price ? `Price: ${price}` : '',
-      phoneNumber ? `Phone: ${phoneNumber}` : '',
+      priceCents !== null ? `Price: ${formatCents(priceCents)}` : '',
       cancelled ? 'CANCELLED' : '',
       `Original ID: ${id}`,
     ].filter(Boolean);
@@ -260,7 +332,11 @@ function parseScheduleBlock(
       type: isPickup ? 'pickup' : 'dropoff',
       passengerInfo,
       passengerCount,
-      price,
+      phoneNumber,
+      luggage,
+      specialNeeds,
+      priceCents,
+      lineItems,
       notes,
     };
   } catch (error) {
@@ -429,6 +505,36 @@ export function parseScheduleMessage(message: string): ParseResult {
   }
 }
 
+// The manifest entry for a parsed run: the named passenger with the party
+// size, phone, bags and special needs found in the message. Runs without a
+// passenger name get an empty manifest.
+export function getParsedRunPassengers(
+  parsedRun: ParsedScheduleRun
+): RunPassenger[] {
+  const name = (
+    parsedRun.phoneNumber
+      ? parsedRun.passengerInfo.replace(parsedRun.phoneNumber, '')
+      : parsedRun.passengerInfo
+  )
+    .trim()
+    .slice(0, 100);
+  if (!name) {
+    return [];
+  }
+
+  const count = parseInt(parsedRun.passengerCount.match(/\d+/)?.[0] ?? '', 10);
+
+  return [
+    {
+      name,
+      phone: parsedRun.phoneNumber,
+      count: Number.isNaN(count) ? 1 : Math.min(Math.max(count, 1), 60),
+      luggage: Math.min(parsedRun.luggage ?? 0, 99),
+      specialNeeds: parsedRun.specialNeeds.join(', ') || null,
+    },
+  ];
+}
+
 export function convertParsedRunToForm(
   parsedRun: ParsedScheduleRun,
   baseDate: string = ''
@@ -472,15 +578,6 @@ export function convertParsedRunToForm(
     }
   }
 
-  // Clean price: remove $ sign and decimal places to get whole number
-  let cleanPrice = '';
-  if (parsedRun.price) {
-    const priceMatch = parsedRun.price.match(/\$?(\d+)(?:\.\d{2})?/);
-    if (priceMatch) {
-      cleanPrice = priceMatch[1]; // Just the whole number part
-    }
-  }
-
   // Clean up notes to remove the detected date marker
   const cleanNotes = parsedRun.notes.replace(
     /\s*\|\s*Detected date: \d{4}-\d{2}-\d{2}/,
@@ -497,7 +594,11 @@ export function convertParsedRunToForm(
     scheduledTime,
     estimatedDuration: 60, // Default 60 minutes for parsed runs
     type: parsedRun.type,
-    price: cleanPrice,
+    // Missing prices are left at 0 so the form asks for one
+    priceCents: parsedRun.priceCents ?? 0,
+    currency: DEFAULT_CURRENCY,
+    lineItems: parsedRun.lineItems,
+    passengers: getParsedRunPassengers(parsedRun),
     notes: cleanNotes,
     reportTemplateId: '',
     reservation_id: '',
@@ -6,6 +6,18 @@ export const AIRPORT_CODE_REGEX = /^[A-Z]{3,4}$/;
 export const FLIGHT_NUMBER_REGEX = /^[A-Z]{1,3}[0-9]{1,4}[A-Z]?$/;
 export const RESERVATION_ID_REGEX = /^\d{7}$/;
 export const DATE_TIME_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+export const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+export const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Whether a string is an IANA timezone the runtime knows, e.g. America/Denver
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
 
 export const AirportCodeSchema = z
   .string()
@@ -28,25 +40,64 @@ export const LocationSchema = z
   .max(200, 'Location must be at most 200 characters')
   .trim();
 
+// Run price in integer cents, e.g. 8550 for $85.50. Prices that couldn't be
+// read when they were converted to cents (migration 1.0.14) are stored as 0.
 export const PriceSchema = z
+  .number({ invalid_type_error: 'Enter a valid amount, e.g. 85.00' })
+  .int('Price must be a whole number of cents')
+  .nonnegative('Price cannot be negative');
+
+// ISO 4217 currency code, e.g. "USD"
+export const CurrencyCodeSchema = z
   .string()
-  .min(1, 'Price is required')
-  .regex(/^\$?\d+$/, 'Price must be in format like "$500" or "500"')
-  .transform(val => {
-    // Remove dollar sign if present and return as whole number string
-    const cleanValue = val.replace('$', '');
-    const numValue = parseInt(cleanValue, 10);
-    return numValue.toString();
-  })
-  .refine(val => parseInt(val, 10) > 0, {
-    message: 'Price must be greater than 0',
-  });
+  .trim()
+  .regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter code like "USD"')
+  .transform(val => val.toUpperCase());
+
+// Charges billed on top of a run's price
+export enum RunLineItemType {
+  tip = 'tip',
+  toll = 'toll',
+  surcharge = 'surcharge',
+}
+
+// A tip, toll or surcharge on a run, in the run's currency
+export const RunLineItemSchema = z.object({
+  type: z.nativeEnum(RunLineItemType),
+  description: z
+    .string()
+    .trim()
+    .max(100, 'Description must be at most 100 characters')
+    .optional(),
+  amountCents: z
+    .number({ invalid_type_error: 'Enter a valid amount, e.g. 12.00' })
+    .int('Amount must be a whole number of cents')
+    .positive('Amount must be greater than 0'),
+});
 
 export const DateTimeSchema = z
   .string()
   .datetime({ message: 'Invalid datetime format' })
   .or(z.string().regex(DATE_TIME_REGEX, 'Invalid datetime format'));
 
+// Most stops a run can make between its pickup and dropoff
+export const MAX_RUN_STOPS = 8;
+
+// A stop a run makes between its pickup and dropoff, e.g. a second hotel
+// on the way to the airport. Stops are visited in the order they're listed.
+export const RunStopSchema = z.object({
+  location: LocationSchema,
+  // When the driver is due at the stop
+  plannedTime: DateTimeSchema.optional().nullable(),
+  passengerCount: z
+    .number({ invalid_type_error: 'Enter a number of passengers' })
+    .int('Passenger count must be a whole number')
+    .min(0, 'Passenger count cannot be negative')
+    .max(60, 'Passenger count must be at most 60'),
+  // Set when the driver marks the stop done on the active run
+  completedAt: z.string().datetime().optional().nullable(),
+});
+
 export const DurationSchema = z
   .number()
   .int('Duration must be a whole number')
@@ -110,7 +161,9 @@ export const ClerkUserSchema = z.object({
   imageUrl: z.string().optional(),
 });
 
-export type ClerkUserRole = 'admin' | 'driver';
+// Clerk organization role key, e.g. "org:admin". getOrganizationRole in
+// permissions.ts maps it to the role the permission matrix knows.
+export type ClerkUserRole = `org:${string}`;
 
 export interface ClerkOrganization extends Organization {
   readonly role: ClerkUserRole;
@@ -122,6 +175,12 @@ export enum ReportType {
   run = 'run',
 }
 
+export enum ReportFormat {
+  csv = 'csv',
+  pdf = 'pdf',
+  xlsx = 'xlsx',
+}
+
 export type DefaultReportConfigFields =
   | 'flightNumber'
   | 'airline'
@@ -143,6 +202,48 @@ export const defaultReportTemplateFields: DefaultReportConfigFields[] = [
   'price',
 ];
 
+// Columns whose values are derived from other run fields
+export enum ComputedColumnType {
+  durationDelta = 'durationDelta',
+  lateness = 'lateness',
+  priceWithSurcharges = 'priceWithSurcharges',
+}
+
+// Summary values rendered in the report footer
+export enum ReportAggregateType {
+  sumPrice = 'sumPrice',
+  countByType = 'countByType',
+  averageActualDuration = 'averageActualDuration',
+}
+
+// How report rows are split into sections with subtotals
+export enum ReportGroupBy {
+  none = 'none',
+  billTo = 'billTo',
+  driver = 'driver',
+  day = 'day',
+}
+
+export const ReportSortSchema = z.object({
+  field: z.string().min(1, 'Sort field is required'),
+  direction: z.enum(['asc', 'desc']).default('asc'),
+});
+
+export const ComputedColumnSchema = z.object({
+  type: z.nativeEnum(ComputedColumnType),
+  // Only used by priceWithSurcharges
+  surchargePercent: z.number().min(0).max(100).optional(),
+  surchargeAmount: z.number().min(0).optional(),
+});
+
+export const ReportColumnConfigSchema = z.object({
+  field: z.string().min(1, 'Field name is required'),
+  label: z.string().min(1, 'Column label is required'),
+  order: z.number().int().min(0),
+  required: z.boolean().default(false),
+  computed: ComputedColumnSchema.optional(),
+});
+
 // Report Template schema
 export const ReportTemplateSchema = z.object({
   id: z.string().uuid('Invalid report template ID format'),
@@ -150,31 +251,33 @@ export const ReportTemplateSchema = z.object({
   description: z.string().optional(),
   organizationId: z.string().min(1, 'Organization ID is required'),
   reportType: z.nativeEnum(ReportType).default(ReportType.run),
-  columnConfig: z
-    .array(
-      z.object({
-        field: z.string().min(1, 'Field name is required'),
-        label: z.string().min(1, 'Column label is required'),
-        order: z.number().int().min(0),
-        required: z.boolean().default(false),
-      })
-    )
-    .default(
-      defaultReportTemplateFields.map((field, index) => ({
-        field,
-        label:
-          field.charAt(0).toUpperCase() +
-          field.slice(1).replace(/([A-Z])/g, ' $1'),
-        order: index,
-        required: false,
-      }))
-    ),
+  columnConfig: z.array(ReportColumnConfigSchema).default(
+    defaultReportTemplateFields.map((field, index) => ({
+      field,
+      label:
+        field.charAt(0).toUpperCase() +
+        field.slice(1).replace(/([A-Z])/g, ' $1'),
+      order: index,
+      required: false,
+    }))
+  ),
+  defaultFormat: z.nativeEnum(ReportFormat).default(ReportFormat.csv),
+  footerAggregates: z
+    .array(z.nativeEnum(ReportAggregateType))
+    .default([ReportAggregateType.sumPrice]),
+  groupBy: z.nativeEnum(ReportGroupBy).default(ReportGroupBy.none),
+  sort: ReportSortSchema.default({ field: 'scheduledTime', direction: 'asc' }),
   isDefault: z.boolean().default(false),
   createdBy: z.string().min(1, 'User ID is required'),
   createdAt: z.date().optional(),
   updatedAt: z.date().optional(),
 });
 
+// A report template as the API returns it
+export const ReportTemplateResponseSchema = ReportTemplateSchema.extend({
+  description: z.string().nullable(),
+});
+
 // Form schema for client-side template creation/editing
 export const ReportTemplateFormSchema = z.object({
   name: z.string().min(1, 'Template name is required'),
@@ -182,18 +285,17 @@ export const ReportTemplateFormSchema = z.object({
   organizationId: z.string().min(1, 'Organization ID is required'),
   reportType: z.nativeEnum(ReportType).default(ReportType.run),
   columnConfig: z
-    .array(
-      z.object({
-        field: z.string().min(1, 'Field name is required'),
-        label: z.string().min(1, 'Column label is required'),
-        order: z.number().int().min(0),
-        required: z.boolean().default(false),
-      })
-    )
+    .array(ReportColumnConfigSchema)
     .min(2, 'Template must have at least 2 columns')
     .refine(columns => columns.every(col => col.label.trim().length > 0), {
       message: 'All columns must have labels',
     }),
+  defaultFormat: z.nativeEnum(ReportFormat).default(ReportFormat.csv),
+  footerAggregates: z
+    .array(z.nativeEnum(ReportAggregateType))
+    .default([ReportAggregateType.sumPrice]),
+  groupBy: z.nativeEnum(ReportGroupBy).default(ReportGroupBy.none),
+  sort: ReportSortSchema.default({ field: 'scheduledTime', direction: 'asc' }),
   isDefault: z.boolean().default(false),
   createdBy: z.string().min(1, 'User ID is required'),
 });
@@ -208,6 +310,7 @@ export const ReportSchema = z.object({
   startDate: z.date(),
   endDate: z.date(),
   reportType: z.nativeEnum(ReportType).default(ReportType.run),
+  format: z.nativeEnum(ReportFormat).default(ReportFormat.csv),
   status: z.enum(['generating', 'completed', 'failed']).default('generating'),
   generatedAt: z.date().optional(),
   downloadUrl: z.string().optional(),
@@ -215,6 +318,392 @@ export const ReportSchema = z.object({
   updatedAt: z.date().optional(),
 });
 
+// A report as the API returns it; generation columns are null until the
+// file is ready
+export const ReportResponseSchema = ReportSchema.extend({
+  generatedAt: z.date().nullable(),
+  downloadUrl: z.string().nullable(),
+});
+
+// How often a scheduled report is generated
+export enum ReportScheduleFrequency {
+  weekly = 'weekly',
+  monthly = 'monthly',
+}
+
+// Report schedule schema
+export const ReportScheduleSchema = z.object({
+  id: z.string().uuid('Invalid report schedule ID format'),
+  name: z.string().min(1, 'Schedule name is required'),
+  organizationId: z.string().min(1, 'Organization ID is required'),
+  templateId: z.string().uuid('Invalid template ID format'),
+  frequency: z
+    .nativeEnum(ReportScheduleFrequency)
+    .default(ReportScheduleFrequency.weekly),
+  // 0 (Sunday) to 6 (Saturday), used by weekly schedules
+  dayOfWeek: z.number().int().min(0).max(6).default(1),
+  // Capped at 28 so the day exists in every month, used by monthly schedules
+  dayOfMonth: z.number().int().min(1).max(28).default(1),
+  // Hour of the day, in the schedule's timezone, the report is generated at
+  hour: z.number().int().min(0).max(23).default(6),
+  timezone: z.string().min(1).default('UTC'),
+  // Defaults to the template's default output format
+  format: z.nativeEnum(ReportFormat).optional(),
+  recipients: z.array(z.string().email('Invalid recipient email')).default([]),
+  isActive: z.boolean().default(true),
+  nextRunAt: z.date(),
+  lastRunAt: z.date().optional(),
+  lastReportId: z.string().uuid().optional(),
+  lastError: z.string().optional(),
+  createdBy: z.string().min(1, 'User ID is required'),
+  createdAt: z.date().optional(),
+  updatedAt: z.date().optional(),
+});
+
+// Form schema for creating/editing report schedules
+export const ReportScheduleFormSchema = z.object({
+  name: z.string().min(1, 'Schedule name is required'),
+  organizationId: z.string().min(1, 'Organization ID is required'),
+  templateId: z.string().uuid('Please select a report template'),
+  frequency: z
+    .nativeEnum(ReportScheduleFrequency)
+    .default(ReportScheduleFrequency.weekly),
+  dayOfWeek: z.number().int().min(0).max(6).default(1),
+  dayOfMonth: z.number().int().min(1).max(28).default(1),
+  hour: z.number().int().min(0).max(23).default(6),
+  timezone: z.string().min(1).default('UTC'),
+  format: z.nativeEnum(ReportFormat).optional(),
+  recipients: z.array(z.string().email('Invalid recipient email')).default([]),
+  isActive: z.boolean().default(true),
+  createdBy: z.string().min(1, 'User ID is required'),
+});
+
+// Two-character bill to code, stored upper case
+export const BillToCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9]{2}$/, 'Bill to code must be 2 letters or digits')
+  .transform(val => val.toUpperCase());
+
+// Billing account schema: the customer behind a bill to code
+export const BillingAccountSchema = z.object({
+  id: z.string().uuid('Invalid billing account ID format'),
+  organizationId: z.string().min(1, 'Organization ID is required'),
+  billTo: BillToCodeSchema,
+  name: z
+    .string()
+    .min(1, 'Customer name is required')
+    .max(255, 'Customer name must be at most 255 characters'),
+  contactEmail: z.string().email('Invalid contact email').optional(),
+  // Flat amount billed per run; runs are billed at their own price when unset
+  ratePerRun: z.number().positive('Rate must be greater than 0').optional(),
+  // Added to the invoice subtotal
+  surchargePercent: z.number().min(0).max(100).default(0),
+  // Days between an invoice being issued and falling due
+  paymentTermsDays: z.number().int().min(0).max(365).default(30),
+  isActive: z.boolean().default(true),
+  createdBy: z.string().min(1, 'User ID is required'),
+  createdAt: z.date().optional(),
+  updatedAt: z.date().optional(),
+});
+
+// Form schema for creating/editing billing accounts
+export const BillingAccountFormSchema = z.object({
+  organizationId: z.string().min(1, 'Organization ID is required'),
+  billTo: BillToCodeSchema,
+  name: z
+    .string()
+    .min(1, 'Customer name is required')
+    .max(255, 'Customer name must be at most 255 characters'),
+  contactEmail: z.string().email('Invalid contact email').optional(),
+  ratePerRun: z.number().positive('Rate must be greater than 0').optional(),
+  surchargePercent: z.number().min(0).max(100).default(0),
+  paymentTermsDays: z.number().int().min(0).max(365).default(30),
+  isActive: z.boolean().default(true),
+  createdBy: z.string().min(1, 'User ID is required'),
+});
+
+export const VehicleTypeSchema = z.enum(['van', 'car', 'bus'], {
+  errorMap: () => ({ message: 'Vehicle type must be van, car or bus' }),
+});
+
+// Licence plate, stored upper case
+export const VehiclePlateSchema = z
+  .string()
+  .trim()
+  .min(1, 'Plate is required')
+  .max(15, 'Plate must be at most 15 characters')
+  .transform(val => val.toUpperCase());
+
+// A vehicle in the organization's fleet
+export const VehicleSchema = z.object({
+  id: z.string().uuid('Invalid vehicle ID format'),
+  organizationId: z.string().min(1, 'Organization ID is required'),
+  name: z
+    .string()
+    .min(1, 'Vehicle name is required')
+    .max(100, 'Vehicle name must be at most 100 characters'),
+  plate: VehiclePlateSchema,
+  // Passenger seats, not counting the driver
+  capacity: z
+    .number()
+    .int('Capacity must be a whole number')
+    .min(1, 'Capacity must be at least 1')
+    .max(60, 'Capacity must be at most 60'),
+  type: VehicleTypeSchema,
+  isActive: z.boolean().default(true),
+  createdAt: z.date().optional(),
+  updatedAt: z.date().optional(),
+});
+
+// Form schema for creating/editing vehicles
+export const VehicleFormSchema = z.object({
+  organizationId: z.string().min(1, 'Organization ID is required'),
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Vehicle name is required')
+    .max(100, 'Vehicle name must be at most 100 characters'),
+  plate: VehiclePlateSchema,
+  capacity: z
+    .number({ invalid_type_error: 'Enter a number of seats' })
+    .int('Capacity must be a whole number')
+    .min(1, 'Capacity must be at least 1')
+    .max(60, 'Capacity must be at most 60'),
+  type: VehicleTypeSchema,
+  isActive: z.boolean().default(true),
+});
+
+// What an API token can do on the /api/v1 surface. Read scopes allow GET
+// requests, write scopes every other method.
+export const ApiTokenScopeSchema = z.enum(
+  [
+    'runs:read',
+    'runs:write',
+    'reports:read',
+    'reports:write',
+    'templates:read',
+    'templates:write',
+  ],
+  { errorMap: () => ({ message: 'Unknown API token scope' }) }
+);
+
+// An organization's API token, without the token itself
+export const ApiTokenSchema = z.object({
+  id: z.string().uuid('Invalid API token ID format'),
+  organizationId: z.string().min(1, 'Organization ID is required'),
+  name: z
+    .string()
+    .min(1, 'Token name is required')
+    .max(100, 'Token name must be at most 100 characters'),
+  // The start of the token, to tell tokens apart
+  tokenPrefix: z.string(),
+  scopes: z.array(ApiTokenScopeSchema),
+  createdBy: z.string().min(1, 'User ID is required'),
+  createdAt: z.date().optional(),
+  lastUsedAt: z.date().nullable().optional(),
+});
+
+export const ApiTokenFormSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Token name is required')
+    .max(100, 'Token name must be at most 100 characters'),
+  scopes: z
+    .array(ApiTokenScopeSchema)
+    .min(1, 'Choose at least one scope')
+    .transform(scopes => Array.from(new Set(scopes))),
+});
+
+export enum InvoiceStatus {
+  unpaid = 'unpaid',
+  paid = 'paid',
+}
+
+// One billed run on an invoice
+export const InvoiceLineItemSchema = z.object({
+  id: z.string().uuid('Invalid line item ID format'),
+  invoiceId: z.string().uuid('Invalid invoice ID format'),
+  // Cleared if the run is deleted after being invoiced
+  runId: z.string().optional(),
+  description: z.string(),
+  serviceDate: z.date(),
+  // In the invoice's currency
+  amountCents: z.number().int(),
+});
+
+// Invoice schema; customer details are copied from the billing account when
+// the invoice is generated so later account edits don't change it
+export const InvoiceSchema = z.object({
+  id: z.string().uuid('Invalid invoice ID format'),
+  organizationId: z.string().min(1, 'Organization ID is required'),
+  billingAccountId: z.string().uuid('Invalid billing account ID format'),
+  // Sequential per organization and year, e.g. "INV-2025-0001"
+  invoiceNumber: z.string().min(1),
+  billTo: BillToCodeSchema,
+  customerName: z.string().min(1),
+  periodStart: z.date(),
+  periodEnd: z.date(),
+  issuedAt: z.date(),
+  dueAt: z.date(),
+  status: z.nativeEnum(InvoiceStatus).default(InvoiceStatus.unpaid),
+  paidAt: z.date().optional(),
+  runCount: z.number().int().min(0),
+  // Currency of every run on the invoice; amounts are in its cents
+  currency: CurrencyCodeSchema.default('USD'),
+  subtotalCents: z.number().int(),
+  surchargePercent: z.number().min(0).max(100).default(0),
+  surchargeCents: z.number().int(),
+  totalCents: z.number().int(),
+  // Only included when a single invoice is fetched
+  lineItems: z.array(InvoiceLineItemSchema).optional(),
+  createdBy: z.string().min(1, 'User ID is required'),
+  createdAt: z.date().optional(),
+  updatedAt: z.date().optional(),
+});
+
+// How a driver's pay for a run is calculated
+export enum DriverPayType {
+  // Percentage of the run's price
+  commission = 'commission',
+  // Same amount for every completed run
+  flatRate = 'flatRate',
+}
+
+export enum PayPeriodFrequency {
+  weekly = 'weekly',
+  biweekly = 'biweekly',
+  monthly = 'monthly',
+}
+
+// Organization-wide driver pay settings
+export const DriverPaySettingsSchema = z.object({
+  organizationId: z.string().min(1, 'Organization ID is required'),
+  payType: z.nativeEnum(DriverPayType).default(DriverPayType.commission),
+  commissionPercent: z.number().min(0).max(100).default(25),
+  flatRate: z.number().min(0).default(0),
+  payPeriod: z
+    .nativeEnum(PayPeriodFrequency)
+    .default(PayPeriodFrequency.weekly),
+  // A date (yyyy-MM-dd) that starts a pay period; weekly and biweekly
+  // periods repeat from it
+  periodAnchor: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Period start must be a date')
+    .default('2025-01-06'),
+  // Timezone pay period boundaries are evaluated in
+  timezone: z.string().min(1).default('UTC'),
+  // Reimbursement per mile for drivers using their own vehicles
+  mileageRate: z.number().min(0).max(10).default(0.7),
+  updatedBy: z.string().optional(),
+  createdAt: z.date().optional(),
+  updatedAt: z.date().optional(),
+});
+
+// Form schema for editing driver pay settings
+export const DriverPaySettingsFormSchema = z.object({
+  organizationId: z.string().min(1, 'Organization ID is required'),
+  payType: z.nativeEnum(DriverPayType).default(DriverPayType.commission),
+  commissionPercent: z.number().min(0).max(100).default(25),
+  flatRate: z.number().min(0).default(0),
+  payPeriod: z
+    .nativeEnum(PayPeriodFrequency)
+    .default(PayPeriodFrequency.weekly),
+  periodAnchor: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Period start must be a date')
+    .default('2025-01-06'),
+  timezone: z.string().min(1).default('UTC'),
+  mileageRate: z.number().min(0).max(10).default(0.7),
+  updatedBy: z.string().min(1, 'User ID is required'),
+});
+
+export const DriverAvailabilityKindSchema = z.enum(
+  ['shift', 'dayOff', 'blackout'],
+  {
+    errorMap: () => ({ message: 'Kind must be shift, dayOff or blackout' }),
+  }
+);
+
+// Time of day, e.g. "06:30"
+export const TimeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm');
+
+// A block on a driver's availability calendar. Shifts repeat every week on a
+// weekday (0 = Sunday) between two times of day, ending the next day when
+// the end is before the start. Days off and blackouts cover a fixed window.
+export const DriverAvailabilityBlockSchema = z.object({
+  id: z.string().uuid('Invalid availability block ID format'),
+  organizationId: z.string().min(1, 'Organization ID is required'),
+  driverId: z.string().min(1, 'Driver ID is required'),
+  kind: DriverAvailabilityKindSchema,
+  weekday: z.number().int().min(0).max(6).nullable(),
+  startTime: TimeOfDaySchema.nullable(),
+  endTime: TimeOfDaySchema.nullable(),
+  startsAt: z.date().nullable(),
+  endsAt: z.date().nullable(),
+  // Timezone shift times are evaluated in
+  timezone: z.string().min(1).default('UTC'),
+  note: z.string().max(200, 'Note must be at most 200 characters').optional(),
+  createdBy: z.string().min(1, 'User ID is required'),
+  createdAt: z.date().optional(),
+  updatedAt: z.date().optional(),
+});
+
+// Form schema for adding a block to a driver's availability calendar
+export const DriverAvailabilityBlockFormSchema = z
+  .object({
+    organizationId: z.string().min(1, 'Organization ID is required'),
+    driverId: z.string().min(1, 'Driver ID is required'),
+    kind: DriverAvailabilityKindSchema,
+    weekday: z.number().int().min(0).max(6).optional().nullable(),
+    startTime: TimeOfDaySchema.optional().nullable(),
+    endTime: TimeOfDaySchema.optional().nullable(),
+    startsAt: z.coerce.date().optional().nullable(),
+    endsAt: z.coerce.date().optional().nullable(),
+    timezone: z.string().min(1).default('UTC'),
+    note: z
+      .string()
+      .trim()
+      .max(200, 'Note must be at most 200 characters')
+      .optional(),
+    createdBy: z.string().min(1, 'User ID is required'),
+  })
+  .superRefine((block, ctx) => {
+    if (block.kind === 'shift') {
+      if (block.weekday == null || !block.startTime || !block.endTime) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Shifts need a weekday, start time and end time',
+          path: ['weekday'],
+        });
+      } else if (block.startTime === block.endTime) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Shift must end at a different time than it starts',
+          path: ['endTime'],
+        });
+      }
+      return;
+    }
+
+    if (!block.startsAt || !block.endsAt) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Time off needs a start and end',
+        path: ['startsAt'],
+      });
+    } else if (block.endsAt <= block.startsAt) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Time off must end after it starts',
+        path: ['endsAt'],
+      });
+    }
+  });
+
 // Phone number validation schema
 export const PhoneNumberSchema = z
   .string()
@@ -228,6 +717,46 @@ export const PhoneNumberSchema = z
     { message: 'Invalid phone number format' }
   );
 
+// Most passengers listed on one run's manifest
+export const MAX_RUN_PASSENGERS = 30;
+
+// A passenger (or party travelling together) on a run's manifest
+export const RunPassengerSchema = z.object({
+  // Set by the server once the passenger is saved
+  id: z.string().uuid().optional(),
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Passenger name is required')
+    .max(100, 'Passenger name must be at most 100 characters'),
+  phone: PhoneNumberSchema.nullable(),
+  // Passengers in the party, including the one named
+  count: z
+    .number({ invalid_type_error: 'Enter a number of passengers' })
+    .int('Passenger count must be a whole number')
+    .min(1, 'Passenger count must be at least 1')
+    .max(60, 'Passenger count must be at most 60'),
+  // Bags checked onto the vehicle
+  luggage: z
+    .number({ invalid_type_error: 'Enter a number of bags' })
+    .int('Luggage must be a whole number')
+    .min(0, 'Luggage cannot be negative')
+    .max(99, 'Luggage must be at most 99 bags'),
+  // Wheelchair, child seat, ...
+  specialNeeds: z
+    .string()
+    .max(200, 'Special needs must be at most 200 characters')
+    .optional()
+    .nullable(),
+});
+
+export const RunPassengerListSchema = z
+  .array(RunPassengerSchema)
+  .max(
+    MAX_RUN_PASSENGERS,
+    `A run can have at most ${MAX_RUN_PASSENGERS} passengers`
+  );
+
 // Notification preferences schema
 export const NotificationPreferencesSchema = z.object({
   pushNotificationsEnabled: z.boolean().default(true),
@@ -291,6 +820,9 @@ export const NotificationSchema = z.object({
 export const RunSchema = z.object({
   id: z.string().uuid('Invalid run ID format'),
   userId: z.string().min(1, 'User ID is required'),
+  // Organization the run belongs to; its admins can manage the run. Null for
+  // drivers who aren't in an organization.
+  organizationId: z.string().optional().nullable(),
   reportTemplateId: z.string().uuid('Invalid report template ID format'),
   reservation_id: z
     .string()
@@ -316,12 +848,63 @@ export const RunSchema = z.object({
   scheduledTime: DateTimeSchema,
   type: RunTypeSchema,
   status: RunStatusSchema,
-  price: PriceSchema,
+  priceCents: PriceSchema,
+  currency: CurrencyCodeSchema.default('USD'),
+  lineItems: z.array(RunLineItemSchema).default([]),
+  stops: z.array(RunStopSchema).default([]),
+  // Fleet vehicle the run is driven in
+  vehicleId: z.string().uuid('Invalid vehicle ID format').optional().nullable(),
   createdAt: z.date().optional(),
   updatedAt: z.date().optional(),
-  completedAt: z.date().optional(),
+  // Set by the server when the run's status changes
+  completedAt: z.date().optional().nullable(),
   activatedAt: z.date().optional().nullable(),
+  // Miles driven from pickup to dropoff, recorded when the run is completed
+  distanceMiles: z.number().min(0).optional().nullable(),
   notes: z.string().max(500, 'Notes must be at most 500 characters').optional(),
+  // Set on runs created from a recurring run series, with the date of the
+  // occurrence the run is for
+  seriesId: z.string().uuid().optional().nullable(),
+  seriesOccurrence: z.string().regex(DATE_REGEX).optional().nullable(),
+});
+
+// A run as the API returns it. Rows created before a field was required
+// come back with null in its place.
+export const RunResponseSchema = RunSchema.extend({
+  reportTemplateId: RunSchema.shape.reportTemplateId.nullable(),
+  reservation_id: z.string().nullable(),
+  actualDuration: z.number().int().nullable(),
+  notes: z.string().nullable(),
+});
+
+export enum RunEventType {
+  created = 'created',
+  updated = 'updated',
+  statusChanged = 'statusChanged',
+  // Handed to another driver from the dispatch board
+  assigned = 'assigned',
+  deleted = 'deleted',
+}
+
+// One field of a run changed by an event, with its value before and after
+export const RunFieldChangeSchema = z.object({
+  field: z.string(),
+  from: z.unknown(),
+  to: z.unknown(),
+});
+
+// Audit log entry for a change made to a run. Events are kept after the run
+// is deleted so its history can still be traced.
+export const RunEventSchema = z.object({
+  id: z.string().uuid('Invalid run event ID format'),
+  runId: z.string().min(1, 'Run ID is required'),
+  // User who made the change
+  actorId: z.string().min(1, 'Actor ID is required'),
+  // Resolved when events are returned from the API
+  actorName: z.string().optional(),
+  type: z.nativeEnum(RunEventType),
+  changes: z.array(RunFieldChangeSchema).default([]),
+  createdAt: z.date(),
 });
 
 export const FlightStatusSchema = z.object({
@@ -408,10 +991,98 @@ export const NewRunFormSchema = z.object({
   estimatedDuration: DurationSchema,
   scheduledTime: DateTimeSchema,
   type: RunTypeSchema,
-  price: PriceSchema,
+  priceCents: PriceSchema,
+  // Defaults to USD when omitted
+  currency: CurrencyCodeSchema.optional(),
+  lineItems: z
+    .array(RunLineItemSchema)
+    .max(20, 'A run can have at most 20 line items')
+    .optional(),
+  stops: z
+    .array(RunStopSchema)
+    .max(MAX_RUN_STOPS, `A run can have at most ${MAX_RUN_STOPS} stops`)
+    .optional(),
+  // Saved to the run's manifest when the run is created or edited
+  passengers: RunPassengerListSchema.optional(),
+  vehicleId: z.string().uuid('Invalid vehicle ID format').optional().nullable(),
   notes: z.string().max(500, 'Notes must be at most 500 characters').optional(),
 });
 
+export enum RunSeriesFrequency {
+  daily = 'daily',
+  weekly = 'weekly',
+}
+
+// When a recurring run series repeats, modelled on an iCalendar RRULE
+export const RunRecurrenceRuleSchema = z
+  .object({
+    frequency: z.nativeEnum(RunSeriesFrequency),
+    // Every `interval` days or weeks
+    interval: z
+      .number()
+      .int('Interval must be a whole number')
+      .min(1, 'Interval must be at least 1')
+      .max(52, 'Interval must be at most 52'),
+    // Days of the week for weekly series, 0 = Sunday
+    byWeekday: z.array(z.number().int().min(0).max(6)),
+    // Last date an occurrence can fall on
+    until: z.string().regex(DATE_REGEX, 'Invalid date').optional().nullable(),
+    // Number of occurrences, counting cancelled and removed ones
+    count: z
+      .number()
+      .int('Count must be a whole number')
+      .min(1, 'Count must be at least 1')
+      .max(1000, 'Count must be at most 1000')
+      .optional()
+      .nullable(),
+  })
+  .refine(
+    rule =>
+      rule.frequency !== RunSeriesFrequency.weekly || rule.byWeekday.length > 0,
+    { message: 'Pick at least one day of the week', path: ['byWeekday'] }
+  )
+  .refine(rule => !(rule.until && rule.count), {
+    message: 'End on a date or after a number of runs, not both',
+    path: ['count'],
+  });
+
+// Run fields every occurrence of a series is created with
+export const RunSeriesTemplateSchema = NewRunFormSchema.omit({
+  userId: true,
+  scheduledTime: true,
+});
+
+// A run repeated on a schedule. Occurrences are created as runs a few weeks
+// ahead; dates removed from the series are kept in exdates so they aren't
+// created again.
+export const RunSeriesSchema = z.object({
+  id: z.string().uuid('Invalid run series ID format'),
+  userId: z.string().min(1, 'User ID is required'),
+  rule: RunRecurrenceRuleSchema,
+  startDate: z.string().regex(DATE_REGEX, 'Invalid start date'),
+  startTime: z.string().regex(TIME_OF_DAY_REGEX, 'Invalid start time'),
+  // IANA timezone the start time is in, the creator's
+  timezone: z.string().min(1),
+  template: RunSeriesTemplateSchema,
+  exdates: z.array(z.string().regex(DATE_REGEX)),
+  // Last date occurrences have been created through
+  materializedThrough: z.string().regex(DATE_REGEX).nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const RunSeriesFormSchema = z.object({
+  rule: RunRecurrenceRuleSchema,
+  startDate: z.string().regex(DATE_REGEX, 'Invalid start date'),
+  startTime: z.string().regex(TIME_OF_DAY_REGEX, 'Invalid start time'),
+  timezone: z
+    .string()
+    .min(1)
+    .refine(isValidTimeZone, 'Invalid timezone')
+    .default('UTC'),
+  template: RunSeriesTemplateSchema,
+});
+
 // API response schemas
 export const OpenSkyFlightResponseSchema = z.object({
   icao24: z.string(),
@@ -465,6 +1136,11 @@ export type Notification = z.infer<typeof NotificationSchema>;
 export type NotificationType = z.infer<typeof NotificationTypeSchema>;
 export type Theme = z.infer<typeof ThemeSchema>;
 export type Run = z.infer<typeof RunSchema>;
+export type RunLineItem = z.infer<typeof RunLineItemSchema>;
+export type RunStop = z.infer<typeof RunStopSchema>;
+export type RunPassenger = z.infer<typeof RunPassengerSchema>;
+export type RunFieldChange = z.infer<typeof RunFieldChangeSchema>;
+export type RunEvent = z.infer<typeof RunEventSchema>;
 export type FlightStatus = z.infer<typeof FlightStatusSchema>;
 export type TrafficData = z.infer<typeof TrafficDataSchema>;
 export type NewRunForm = z.infer<typeof NewRunFormSchema>;
@@ -477,7 +1153,36 @@ export type TomTomRouteResponse = z.infer<typeof TomTomRouteResponseSchema>;
 export type ReportTemplate = z.infer<typeof ReportTemplateSchema>;
 export type ReportTemplateForm = z.infer<typeof ReportTemplateFormSchema>;
 export type Report = z.infer<typeof ReportSchema>;
-export type ReportColumnConfig = ReportTemplate['columnConfig'][0];
+export type ReportColumnConfig = z.infer<typeof ReportColumnConfigSchema>;
+export type ComputedColumn = z.infer<typeof ComputedColumnSchema>;
+export type ReportSort = z.infer<typeof ReportSortSchema>;
+export type ReportSchedule = z.infer<typeof ReportScheduleSchema>;
+export type ReportScheduleForm = z.infer<typeof ReportScheduleFormSchema>;
+export type BillingAccount = z.infer<typeof BillingAccountSchema>;
+export type BillingAccountForm = z.infer<typeof BillingAccountFormSchema>;
+export type VehicleType = z.infer<typeof VehicleTypeSchema>;
+export type Vehicle = z.infer<typeof VehicleSchema>;
+export type VehicleForm = z.infer<typeof VehicleFormSchema>;
+export type ApiTokenScope = z.infer<typeof ApiTokenScopeSchema>;
+export type ApiToken = z.infer<typeof ApiTokenSchema>;
+export type ApiTokenForm = z.infer<typeof ApiTokenFormSchema>;
+export type Invoice = z.infer<typeof InvoiceSchema>;
+export type InvoiceLineItem = z.infer<typeof InvoiceLineItemSchema>;
+export type DriverPaySettings = z.infer<typeof DriverPaySettingsSchema>;
+export type DriverPaySettingsForm = z.infer<typeof DriverPaySettingsFormSchema>;
+export type DriverAvailabilityKind = z.infer<
+  typeof DriverAvailabilityKindSchema
+>;
+export type DriverAvailabilityBlock = z.infer<
+  typeof DriverAvailabilityBlockSchema
+>;
+export type DriverAvailabilityBlockForm = z.infer<
+  typeof DriverAvailabilityBlockFormSchema
+>;
+export type RunRecurrenceRule = z.infer<typeof RunRecurrenceRuleSchema>;
+export type RunSeriesTemplate = z.infer<typeof RunSeriesTemplateSchema>;
+export type RunSeries = z.infer<typeof RunSeriesSchema>;
+export type RunSeriesForm = z.infer<typeof RunSeriesFormSchema>;
 
 // Validation helper functions
 export const validateUser = (data: unknown): ClerkUser => {
@@ -514,6 +1219,24 @@ export const validateReportTemplateForm = (
   return ReportTemplateFormSchema.parse(data);
 };
 
+export const validateReportScheduleForm = (
+  data: unknown
+): ReportScheduleForm => {
+  return ReportScheduleFormSchema.parse(data);
+};
+
+export const validateBillingAccountForm = (
+  data: unknown
+): BillingAccountForm => {
+  return BillingAccountFormSchema.parse(data);
+};
+
+export const validateDriverPaySettingsForm = (
+  data: unknown
+): DriverPaySettingsForm => {
+  return DriverPaySettingsFormSchema.parse(data);
+};
+
 // Safe validation functions (return results instead of throwing)
 export const safeValidateUser = (data: unknown) => {
   return ClerkUserSchema.safeParse(data);
@@ -539,6 +1262,34 @@ export const safeValidateReportTemplateForm = (data: unknown) => {
   return ReportTemplateFormSchema.safeParse(data);
 };
 
+export const safeValidateReportScheduleForm = (data: unknown) => {
+  return ReportScheduleFormSchema.safeParse(data);
+};
+
+export const safeValidateBillingAccountForm = (data: unknown) => {
+  return BillingAccountFormSchema.safeParse(data);
+};
+
+export const safeValidateVehicleForm = (data: unknown) => {
+  return VehicleFormSchema.safeParse(data);
+};
+
+export const safeValidateApiTokenForm = (data: unknown) => {
+  return ApiTokenFormSchema.safeParse(data);
+};
+
+export const safeValidateDriverPaySettingsForm = (data: unknown) => {
+  return DriverPaySettingsFormSchema.safeParse(data);
+};
+
+export const safeValidateDriverAvailabilityBlockForm = (data: unknown) => {
+  return DriverAvailabilityBlockFormSchema.safeParse(data);
+};
+
+export const safeValidateRunSeriesForm = (data: unknown) => {
+  return RunSeriesFormSchema.safeParse(data);
+};
+
 // Transform functions for external API data
 export const transformOpenSkyToFlightStatus = (
   openSkyData: OpenSkyFlightResponse,
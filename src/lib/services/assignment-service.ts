@@ -0,0 +1,303 @@
+import {
+  addMinutes,
+  differenceInMinutes,
+  endOfDay,
+  startOfDay,
+  subDays,
+} from 'date-fns';
+import { getDriverAvailabilityBlocks } from '../db/driver-availability';
+import { getRunById, getRuns } from '../db/runs';
+import {
+  canAssignRun,
+  DISPATCH_BOARD_STATUSES,
+  type DriverRecommendation,
+} from '../dispatch';
+import {
+  describeScheduleConflict,
+  getScheduleConflict,
+} from '../driver-availability';
+import { type Run } from '../schema';
+import { getRunWindow } from './driver-availability-service';
+import { getReportOrganizationContext } from './report-service';
+import { getTrafficData, initializeTomTomService } from './tomtom-service';
+
+// Upper bound on the drivers' runs loaded around the run's day
+const MAX_RECOMMENDATION_RUNS = 2000;
+
+// Minutes of slack before a run below which a driver is penalized
+const SLACK_BUFFER_MINUTES = 15;
+
+// Travel time beyond this stops lowering the score any further
+const MAX_TRAVEL_PENALTY_MINUTES = 60;
+
+// Score lost for a driver still out on another run
+const ACTIVE_RUN_PENALTY = 10;
+
+export interface DriverRecommendationRequest {
+  organizationId: string;
+  runId: string;
+}
+
+export type DriverRecommendationResult =
+  | { run: Run; recommendations: DriverRecommendation[] }
+  | { error: string; status: number };
+
+interface RunWindow {
+  run: Run;
+  start: Date;
+  end: Date;
+}
+
+let tomtomInitialized = false;
+
+// Driving time between two addresses in minutes. Routes are looked up once
+// per request; identical addresses need no travel.
+async function estimateTravelMinutes(
+  origin: string,
+  destination: string,
+  cache: Map<string, Promise<number>>
+): Promise<number> {
+  if (origin.trim().toLowerCase() === destination.trim().toLowerCase()) {
+    return 0;
+  }
+
+  if (!tomtomInitialized) {
+    initializeTomTomService();
+    tomtomInitialized = true;
+  }
+
+  const key = `${origin}|${destination}`;
+  if (!cache.has(key)) {
+    cache.set(
+      key,
+      getTrafficData(origin, destination).then(
+        traffic => traffic.durationInTraffic || traffic.duration
+      )
+    );
+  }
+
+  return cache.get(key)!;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Rank the organization's drivers for a scheduled run. A driver can't take
+ * the run when another of their runs overlaps it, it falls outside their
+ * shifts or during their time off, or they can't drive from their previous
+ * dropoff to the pickup (or from this dropoff to their next pickup) in time. Eligible drivers lose points for travel time, a tight
+ * window, being out on another run, and carrying more of the day's work than
+ * the other drivers.
+ */
+export async function recommendDrivers(
+  request: DriverRecommendationRequest
+): Promise<DriverRecommendationResult> {
+  const { memberUserIds, staffUserIds, driverNames } =
+    await getReportOrganizationContext(request.organizationId);
+
+  const run = await getRunById(request.runId);
+  if (!run || run.organizationId !== request.organizationId) {
+    return { error: 'Run not found', status: 404 };
+  }
+
+  if (!canAssignRun(run)) {
+    return {
+      error: `Only scheduled runs can be assigned; this run is ${run.status}`,
+      status: 409,
+    };
+  }
+
+  // Staff hold unassigned runs, so only drivers are suggested
+  const driverIds = memberUserIds.filter(
+    userId => !staffUserIds.includes(userId)
+  );
+  if (driverIds.length === 0) {
+    return { run, recommendations: [] };
+  }
+
+  const now = new Date();
+  const { start, end } = getRunWindow(run, now);
+  const dayStart = startOfDay(start);
+  const dayEnd = endOfDay(start);
+
+  // Runs last at most a day, so this catches runs from the day before that
+  // are still going
+  const [runs, blocks] = await Promise.all([
+    getRuns({
+      organizationId: request.organizationId,
+      userIds: driverIds,
+      status: DISPATCH_BOARD_STATUSES,
+      scheduledFrom: subDays(dayStart, 1),
+      scheduledTo: dayEnd,
+      orderBy: 'scheduled_time',
+      orderDirection: 'ASC',
+      limit: MAX_RECOMMENDATION_RUNS,
+    }),
+    getDriverAvailabilityBlocks({
+      organizationId: request.organizationId,
+      driverIds,
+      from: start,
+      to: end,
+    }),
+  ]);
+
+  const windowsByDriver = new Map<string, RunWindow[]>(
+    driverIds.map(userId => [userId, []])
+  );
+  runs
+    .filter(other => other.id !== run.id)
+    .forEach(other => {
+      windowsByDriver
+        .get(other.userId)
+        ?.push({ run: other, ...getRunWindow(other, now) });
+    });
+
+  const dailyDriveMinutes = (windows: RunWindow[]) =>
+    windows
+      .filter(window => window.start >= dayStart && window.start <= dayEnd)
+      .reduce((total, window) => total + window.run.estimatedDuration, 0);
+
+  const averageDriveMinutes =
+    driverIds.reduce(
+      (total, userId) =>
+        total + dailyDriveMinutes(windowsByDriver.get(userId)!),
+      0
+    ) / driverIds.length;
+
+  const travelCache = new Map<string, Promise<number>>();
+
+  const recommendations = await Promise.all(
+    driverIds.map(async (userId): Promise<DriverRecommendation> => {
+      const windows = windowsByDriver.get(userId)!;
+      const reasons: string[] = [];
+      let isEligible = true;
+      let score = 100;
+
+      const conflicts = windows.filter(
+        window => window.start < end && window.end > start
+      );
+      conflicts.forEach(conflict => {
+        reasons.push(`Overlaps run ${conflict.run.flightNumber}`);
+      });
+      if (conflicts.length > 0) {
+        isEligible = false;
+      }
+
+      const scheduleConflict = getScheduleConflict(
+        blocks.filter(block => block.driverId === userId),
+        start,
+        end
+      );
+      if (scheduleConflict) {
+        isEligible = false;
+        reasons.push(describeScheduleConflict(scheduleConflict));
+      }
+
+      const activeRun = windows.find(window => window.run.status === 'active');
+      if (activeRun && !conflicts.includes(activeRun)) {
+        score -= ACTIVE_RUN_PENALTY;
+        reasons.push(
+          `On run ${activeRun.run.flightNumber}, done in about ${Math.max(differenceInMinutes(activeRun.end, now), 0)} min`
+        );
+      }
+
+      // The run they'll be coming from and the one they'll be going to
+      const previous = windows
+        .filter(window => window.end <= start && window.end >= dayStart)
+        .sort((a, b) => b.end.getTime() - a.end.getTime())[0];
+      const next = windows
+        .filter(window => window.start >= end && window.start <= dayEnd)
+        .sort((a, b) => a.start.getTime() - b.start.getTime())[0];
+
+      let travelMinutes: number | null = null;
+      let slackMinutes: number | null = null;
+
+      if (previous) {
+        travelMinutes = await estimateTravelMinutes(
+          previous.run.dropoffLocation,
+          run.pickupLocation,
+          travelCache
+        );
+        slackMinutes = differenceInMinutes(start, previous.end) - travelMinutes;
+
+        score -= Math.min(travelMinutes, MAX_TRAVEL_PENALTY_MINUTES) / 2;
+        reasons.push(
+          travelMinutes === 0
+            ? `Already at the pickup after run ${previous.run.flightNumber}`
+            : `${travelMinutes} min drive from run ${previous.run.flightNumber}'s dropoff`
+        );
+
+        if (slackMinutes < 0) {
+          isEligible = false;
+          reasons.push(`Would reach the pickup ${-slackMinutes} min late`);
+        } else if (slackMinutes < SLACK_BUFFER_MINUTES) {
+          score -= SLACK_BUFFER_MINUTES - slackMinutes;
+          reasons.push(`Only ${slackMinutes} min to spare before pickup`);
+        }
+      } else {
+        reasons.push('First run of the day');
+      }
+
+      if (next) {
+        const nextTravelMinutes = await estimateTravelMinutes(
+          run.dropoffLocation,
+          next.run.pickupLocation,
+          travelCache
+        );
+        const nextSlackMinutes = differenceInMinutes(
+          next.start,
+          addMinutes(end, nextTravelMinutes)
+        );
+        if (nextSlackMinutes < 0) {
+          isEligible = false;
+          reasons.push(
+            `Would be ${-nextSlackMinutes} min late for run ${next.run.flightNumber}`
+          );
+        } else if (nextSlackMinutes < SLACK_BUFFER_MINUTES) {
+          score -= SLACK_BUFFER_MINUTES - nextSlackMinutes;
+          reasons.push(
+            `Only ${nextSlackMinutes} min to spare before run ${next.run.flightNumber}`
+          );
+        }
+      }
+
+      // Balance the day's work: drivers busier than average lose points and
+      // quieter ones gain a few
+      const driveMinutes = dailyDriveMinutes(windows);
+      const dailyRuns = windows.filter(
+        window => window.start >= dayStart && window.start <= dayEnd
+      );
+      score -= clamp((driveMinutes - averageDriveMinutes) / 10, -10, 30);
+      reasons.push(
+        dailyRuns.length === 0
+          ? 'No other runs that day'
+          : `${dailyRuns.length} other run${dailyRuns.length === 1 ? '' : 's'} that day (${driveMinutes} min)`
+      );
+
+      return {
+        userId,
+        driverName: driverNames[userId] || userId,
+        score: isEligible ? Math.round(clamp(score, 0, 100)) : 0,
+        isEligible,
+        isCurrentDriver: userId === run.userId,
+        activeRunId: activeRun?.run.id ?? null,
+        travelMinutes,
+        slackMinutes,
+        dailyRunCount: dailyRuns.length,
+        dailyDriveMinutes: driveMinutes,
+        reasons,
+      };
+    })
+  );
+
+  recommendations.sort(
+    (a, b) =>
+      Number(b.isEligible) - Number(a.isEligible) ||
+      b.score - a.score ||
+      a.driverName.localeCompare(b.driverName)
+  );
+
+  return { run, recommendations };
+}
@@ -0,0 +1,102 @@
+import { addDays, subHours } from 'date-fns';
+import { assignRun, getRunById, getRuns } from '../db/runs';
+import {
+  canAssignRun,
+  DEFAULT_DISPATCH_DAYS,
+  DISPATCH_BOARD_STATUSES,
+  type DispatchRun,
+} from '../dispatch';
+import { type Run } from '../schema';
+import { getReportOrganizationContext } from './report-service';
+
+// Upper bound on runs listed on the dispatch board
+const MAX_DISPATCH_RUNS = 1000;
+
+// Runs that started or were due this many hours ago stay on the board
+const DISPATCH_LOOKBACK_HOURS = 12;
+
+export interface DispatchBoardRequest {
+  organizationId: string;
+  // Days ahead to include; defaults to DEFAULT_DISPATCH_DAYS
+  days?: number;
+}
+
+export interface AssignRunRequest {
+  organizationId: string;
+  runId: string;
+  driverId: string;
+  // Admin making the assignment
+  actorId: string;
+}
+
+export type AssignRunResult = { run: Run } | { error: string; status: number };
+
+/**
+ * Scheduled and active runs across the organization from a few hours ago up
+ * to the requested number of days ahead, earliest first, with the name of
+ * the driver each run is assigned to.
+ */
+export async function getDispatchBoard(
+  request: DispatchBoardRequest
+): Promise<DispatchRun[]> {
+  const { staffUserIds, driverNames } = await getReportOrganizationContext(
+    request.organizationId
+  );
+
+  const now = new Date();
+  const runs = await getRuns({
+    organizationId: request.organizationId,
+    status: DISPATCH_BOARD_STATUSES,
+    scheduledFrom: subHours(now, DISPATCH_LOOKBACK_HOURS),
+    scheduledTo: addDays(now, request.days ?? DEFAULT_DISPATCH_DAYS),
+    orderBy: 'scheduled_time',
+    orderDirection: 'ASC',
+    limit: MAX_DISPATCH_RUNS,
+  });
+
+  return runs.map(run => ({
+    ...run,
+    driverName: driverNames[run.userId] || run.userId,
+    isAssigned: !staffUserIds.includes(run.userId),
+  }));
+}
+
+// Assign an organization run to one of the organization's members
+export async function assignRunToDriver(
+  request: AssignRunRequest
+): Promise<AssignRunResult> {
+  const { memberUserIds } = await getReportOrganizationContext(
+    request.organizationId
+  );
+
+  if (!memberUserIds.includes(request.driverId)) {
+    return {
+      error: 'Driver is not a member of this organization',
+      status: 400,
+    };
+  }
+
+  const run = await getRunById(request.runId);
+  if (!run || run.organizationId !== request.organizationId) {
+    return { error: 'Run not found', status: 404 };
+  }
+
+  if (!canAssignRun(run)) {
+    return {
+      error: `Only scheduled runs can be assigned; this run is ${run.status}`,
+      status: 409,
+    };
+  }
+
+  const assignedRun = await assignRun(
+    request.runId,
+    request.organizationId,
+    request.driverId,
+    request.actorId
+  );
+  if (!assignedRun) {
+    return { error: 'Failed to assign run', status: 500 };
+  }
+
+  return { run: assignedRun };
+}
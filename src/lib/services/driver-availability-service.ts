@@ -0,0 +1,148 @@
+import { addHours, addMinutes, endOfDay, max, parseISO } from 'date-fns';
+import { getDriverAvailabilityBlocks } from '../db/driver-availability';
+import { getRuns } from '../db/runs';
+import {
+  DISPATCH_BOARD_STATUSES,
+  type DriverAvailabilityFilter,
+} from '../dispatch';
+import { findTimeOff, getScheduleConflict } from '../driver-availability';
+import { type DriverAvailabilityBlock, type Run } from '../schema';
+import { getReportOrganizationContext } from './report-service';
+
+// Upper bound on the scheduled and active runs loaded for an organization
+const MAX_AVAILABILITY_RUNS = 5000;
+
+// Hours a driver must be free for the timed availability filters
+const AVAILABILITY_FILTER_HOURS: Partial<
+  Record<DriverAvailabilityFilter, number>
+> = {
+  'available-1h': 1,
+  'available-2h': 2,
+  'available-4h': 4,
+};
+
+export interface DriverAvailabilityRequest {
+  organizationId: string;
+  filter: DriverAvailabilityFilter;
+}
+
+// When a run occupies its driver. Active runs are timed from when they
+// started and run at least until now if they are running long.
+export function getRunWindow(
+  run: Run,
+  now: Date = new Date()
+): { start: Date; end: Date } {
+  const start =
+    run.status === 'active' && run.activatedAt
+      ? new Date(run.activatedAt)
+      : parseISO(run.scheduledTime);
+  const end = addMinutes(start, run.estimatedDuration);
+
+  return {
+    start,
+    end: run.status === 'active' ? max([end, now]) : end,
+  };
+}
+
+// The driver's next scheduled run that hasn't started yet
+export function getNextScheduledRun(
+  driverRuns: Run[],
+  now: Date = new Date()
+): Run | null {
+  return (
+    driverRuns
+      .filter(
+        run => run.status === 'scheduled' && parseISO(run.scheduledTime) > now
+      )
+      .sort(
+        (a, b) =>
+          parseISO(a.scheduledTime).getTime() -
+          parseISO(b.scheduledTime).getTime()
+      )[0] || null
+  );
+}
+
+/**
+ * Whether a driver matches an availability filter given their runs and
+ * availability calendar. A driver is available when they have no active run,
+ * are on shift and have no time off now and, for the timed filters, no
+ * scheduled run or time off within the window and shifts covering all of it.
+ */
+export function isDriverAvailable(
+  driverRuns: Run[],
+  filter: DriverAvailabilityFilter,
+  now: Date = new Date(),
+  blocks: DriverAvailabilityBlock[] = []
+): boolean {
+  const hasActiveRun = driverRuns.some(run => run.status === 'active');
+  const nextRun = getNextScheduledRun(driverRuns, now);
+  const isFreeUntil = (until: Date) =>
+    !hasActiveRun && (!nextRun || parseISO(nextRun.scheduledTime) > until);
+  const isWorkingNow = () =>
+    !getScheduleConflict(blocks, now, addMinutes(now, 1));
+
+  switch (filter) {
+    case 'available':
+      return !hasActiveRun && isWorkingNow();
+    case 'available-1h':
+    case 'available-2h':
+    case 'available-4h': {
+      const until = addHours(now, AVAILABILITY_FILTER_HOURS[filter]!);
+      return isFreeUntil(until) && !getScheduleConflict(blocks, now, until);
+    }
+    case 'available-today':
+      // Shifts usually end before midnight, so only time off counts against
+      // the rest of the day
+      return (
+        isFreeUntil(endOfDay(now)) &&
+        isWorkingNow() &&
+        !findTimeOff(blocks, now, endOfDay(now))
+      );
+    case 'on-shift':
+      return isWorkingNow();
+    case 'active':
+      return hasActiveRun;
+    case 'scheduled':
+      return driverRuns.some(run => run.status === 'scheduled');
+    case 'all':
+    default:
+      return true;
+  }
+}
+
+// Members of the organization who match an availability filter
+export async function getAvailableDriverIds(
+  request: DriverAvailabilityRequest
+): Promise<string[]> {
+  const { memberUserIds } = await getReportOrganizationContext(
+    request.organizationId
+  );
+
+  if (memberUserIds.length === 0 || request.filter === 'all') {
+    return memberUserIds;
+  }
+
+  const now = new Date();
+  const [runs, blocks] = await Promise.all([
+    getRuns({
+      organizationId: request.organizationId,
+      status: DISPATCH_BOARD_STATUSES,
+      limit: MAX_AVAILABILITY_RUNS,
+    }),
+    getDriverAvailabilityBlocks({
+      organizationId: request.organizationId,
+      driverIds: memberUserIds,
+      from: now,
+      to: endOfDay(now),
+    }),
+  ]);
+
+  return memberUserIds.filter(userId =>
+    isDriverAvailable(
+      runs.filter(run => run.userId === userId),
+      request.filter,
+      now,
+      blocks.filter(block => block.driverId === userId)
+    )
+  );
+}
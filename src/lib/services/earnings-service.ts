@@ -0,0 +1,93 @@
+import { getDriverPaySettings } from '../db/driver-pay-settings';
+import { getRuns } from '../db/runs';
+import { DEFAULT_CURRENCY, getSharedCurrency } from '../money';
+import {
+  buildEarningsStatement,
+  DEFAULT_DRIVER_PAY_SETTINGS,
+  type EarningsStatement,
+} from '../payroll/earnings';
+import { getPayPeriod } from '../payroll/pay-periods';
+import { type DriverPaySettings } from '../schema';
+import { getReportOrganizationContext } from './report-service';
+
+// Upper bound on runs included in a single statement
+const MAX_STATEMENT_RUNS = 10000;
+
+export interface EarningsStatementRequest {
+  organizationId: string;
+  driverId: string;
+  // Any instant inside the pay period; defaults to now
+  periodDate?: Date;
+}
+
+export type EarningsStatementResult =
+  | { statement: EarningsStatement }
+  | { error: string; status: number };
+
+// An organization's saved pay settings, or the defaults when none are saved
+export async function getEffectiveDriverPaySettings(
+  organizationId: string
+): Promise<DriverPaySettings> {
+  const settings = await getDriverPaySettings(organizationId);
+  return settings ?? { ...DEFAULT_DRIVER_PAY_SETTINGS, organizationId };
+}
+
+/**
+ * Build a driver's earnings statement for the pay period containing the
+ * requested date, using the organization's pay settings. Fails when the
+ * driver is not a member of the organization, or when their runs in the
+ * period are in more than one currency since a statement has one set of
+ * totals.
+ */
+export async function getEarningsStatement(
+  request: EarningsStatementRequest
+): Promise<EarningsStatementResult> {
+  const [settings, context] = await Promise.all([
+    getEffectiveDriverPaySettings(request.organizationId),
+    getReportOrganizationContext(request.organizationId),
+  ]);
+
+  if (!context.memberUserIds.includes(request.driverId)) {
+    return { error: 'Driver not found', status: 404 };
+  }
+
+  const period = getPayPeriod(settings, request.periodDate ?? new Date());
+
+  const runs = await getRuns({
+    organizationId: request.organizationId,
+    userId: request.driverId,
+    status: ['completed'],
+    scheduledFrom: period.startDate,
+    scheduledTo: period.endDate,
+    orderBy: 'scheduled_time',
+    orderDirection: 'ASC',
+    limit: MAX_STATEMENT_RUNS,
+  });
+
+  const currency = getSharedCurrency(runs);
+  if (!currency) {
+    const currencies = Array.from(
+      new Set(runs.map(run => run.currency || DEFAULT_CURRENCY))
+    ).sort();
+    return {
+      error: `Runs in this pay period are in more than one currency (${currencies.join(', ')})`,
+      status: 409,
+    };
+  }
+
+  const statement = buildEarningsStatement(runs, {
+    driverId: request.driverId,
+    driverName: context.driverNames[request.driverId] || request.driverId,
+    organizationName: context.organizationName,
+    period,
+    timezone: settings.timezone,
+    payRate: {
+      payType: settings.payType,
+      commissionPercent: settings.commissionPercent,
+      flatRate: settings.flatRate,
+    },
+    currency,
+  });
+
+  return { statement };
+}
@@ -0,0 +1,132 @@
+import { addDays } from 'date-fns';
+import {
+  buildInvoiceLineItems,
+  calculateInvoiceTotals,
+  type InvoiceGenerationResult,
+} from '../billing/invoices';
+import { getBillingAccounts } from '../db/billing-accounts';
+import { createInvoice } from '../db/invoices';
+import { getRuns } from '../db/runs';
+import { DEFAULT_CURRENCY, getSharedCurrency } from '../money';
+import { type BillingAccount, type Invoice } from '../schema';
+
+// Upper bound on the runs billed on one invoice
+const MAX_INVOICE_RUNS = 10000;
+
+export interface GenerateInvoicesRequest {
+  organizationId: string;
+  createdBy: string;
+  periodStart: Date;
+  periodEnd: Date;
+  // Limit generation to these accounts; defaults to every active account
+  billingAccountIds?: string[];
+}
+
+// Invoice one account for its completed, not yet invoiced runs in the period;
+// returns null when there is nothing to bill
+async function generateAccountInvoice(
+  account: BillingAccount,
+  request: GenerateInvoicesRequest
+): Promise<Invoice | null> {
+  const runs = await getRuns({
+    organizationId: request.organizationId,
+    billTo: account.billTo,
+    status: ['completed'],
+    scheduledFrom: request.periodStart,
+    scheduledTo: request.periodEnd,
+    uninvoiced: true,
+    limit: MAX_INVOICE_RUNS,
+  });
+
+  if (runs.length === 0) {
+    return null;
+  }
+
+  // An invoice is billed in one currency, so runs in several can't share one
+  const currency = getSharedCurrency(runs);
+  if (!currency) {
+    const currencies = Array.from(
+      new Set(runs.map(run => run.currency || DEFAULT_CURRENCY))
+    ).sort();
+    throw new Error(
+      `Runs are in more than one currency (${currencies.join(', ')}); they can't be billed on one invoice`
+    );
+  }
+
+  const lineItems = buildInvoiceLineItems(runs, account);
+  const totals = calculateInvoiceTotals(lineItems, account.surchargePercent);
+  const issuedAt = new Date();
+
+  return createInvoice(
+    {
+      organizationId: request.organizationId,
+      billingAccountId: account.id,
+      billTo: account.billTo,
+      customerName: account.name,
+      periodStart: request.periodStart,
+      periodEnd: request.periodEnd,
+      issuedAt,
+      dueAt: addDays(issuedAt, account.paymentTermsDays),
+      runCount: lineItems.length,
+      currency,
+      surchargePercent: account.surchargePercent,
+      ...totals,
+      createdBy: request.createdBy,
+    },
+    lineItems
+  );
+}
+
+/**
+ * Generate one invoice per billing account for the organization's completed
+ * runs in a period. Runs are matched to accounts by bill to code, and runs
+ * already on an invoice are left out, so generating the same period twice
+ * only picks up runs completed since the last invoice.
+ */
+export async function generateInvoices(
+  request: GenerateInvoicesRequest
+): Promise<InvoiceGenerationResult> {
+  const result: InvoiceGenerationResult = {
+    invoices: [],
+    skippedBillTo: [],
+    failed: [],
+  };
+
+  const accounts = (
+    await getBillingAccounts({
+      organizationId: request.organizationId,
+      isActive: true,
+    })
+  ).filter(
+    account =>
+      !request.billingAccountIds ||
+      request.billingAccountIds.includes(account.id)
+  );
+
+  if (accounts.length === 0) {
+    return result;
+  }
+
+  for (const account of accounts) {
+    try {
+      const invoice = await generateAccountInvoice(account, request);
+      if (invoice) {
+        result.invoices.push(invoice);
+      } else {
+        result.skippedBillTo.push(account.billTo);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to invoice account ${account.billTo}:`, error);
+      result.failed.push({
+        billTo: account.billTo,
+        error:
+          error instanceof Error ? error.message : 'Failed to create invoice',
+      });
+    }
+  }
+
+  console.log(
+    `🧾 Generated ${result.invoices.length} invoices for ${request.organizationId}`
+  );
+  return result;
+}
@@ -0,0 +1,214 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { isDevelopmentMode } from '../utils';
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: string | Uint8Array;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  from?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailResponse {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+// A way of delivering mail; swap in a real provider with setMailTransport
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<MailResponse>;
+}
+
+// Sender used when a message does not set one
+function getDefaultSender(): string {
+  return process.env.MAIL_FROM || 'reports@tetontracker.com';
+}
+
+// Base64 encode text or binary content, wrapped at 76 characters for MIME
+function toBase64Lines(content: string | Uint8Array): string {
+  const base64 = Buffer.from(content).toString('base64');
+  return base64.match(/.{1,76}/g)?.join('\r\n') ?? '';
+}
+
+// Header values are single lines: a CR or LF would start a new header
+function stripLineBreaks(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+// Whether a header value can be sent as is (printable US-ASCII)
+function isPrintableAscii(value: string): boolean {
+  return /^[\x20-\x7e]*$/.test(value);
+}
+
+// RFC 2047 encoded words for a header such as Subject. Non-ASCII text is
+// split on character boundaries into UTF-8 base64 words of at most 75
+// characters, folded onto continuation lines.
+function encodeHeaderText(value: string): string {
+  const text = stripLineBreaks(value);
+  if (isPrintableAscii(text)) {
+    return text;
+  }
+
+  // 45 bytes encode to 60 base64 characters, plus 12 for =?UTF-8?B??=
+  const maxBytes = 45;
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of text) {
+    if (Buffer.byteLength(chunk + char) > maxBytes) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+
+  return words
+    .map(word => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`)
+    .join('\r\n ');
+}
+
+// A filename parameter such as name or filename: quoted when it's plain
+// ASCII, otherwise RFC 2231 percent-encoded UTF-8 (e.g. filename*=UTF-8''...)
+function encodeFilenameParameter(parameter: string, filename: string): string {
+  const name = stripLineBreaks(filename);
+  if (isPrintableAscii(name)) {
+    return `${parameter}="${name.replace(/["\\]/g, '\\$&')}"`;
+  }
+
+  const encoded = encodeURIComponent(name).replace(
+    /['()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `${parameter}*=UTF-8''${encoded}`;
+}
+
+/**
+ * Serialize a message as an RFC 822 / MIME document: a multipart/mixed body
+ * with the text part first and one base64 part per attachment.
+ */
+export function buildMimeMessage(
+  message: MailMessage,
+  messageId: string
+): string {
+  const boundary = `----=_Part_${messageId}`;
+  const headers = [
+    `From: ${message.from || getDefaultSender()}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeaderText(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${messageId}@tetontracker>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+  ];
+
+  const parts = [
+    [
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      toBase64Lines(message.text),
+    ].join('\r\n'),
+    ...(message.attachments || []).map(attachment =>
+      [
+        `Content-Type: ${attachment.contentType}; ${encodeFilenameParameter('name', attachment.filename)}`,
+        `Content-Disposition: attachment; ${encodeFilenameParameter('filename', attachment.filename)}`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        toBase64Lines(attachment.content),
+      ].join('\r\n')
+    ),
+  ];
+
+  return [
+    ...headers,
+    '',
+    ...parts.map(part => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * Writes every message as an .eml file to a local outbox directory
+ * (MAIL_OUTBOX_DIR, default ./storage/outbox). Useful for local testing:
+ * the files open in any mail client.
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(
+    private readonly outboxDir: string = process.env.MAIL_OUTBOX_DIR ||
+      join(process.cwd(), 'storage', 'outbox')
+  ) {}
+
+  async send(message: MailMessage): Promise<MailResponse> {
+    try {
+      const messageId = crypto.randomUUID();
+      await mkdir(this.outboxDir, { recursive: true });
+
+      const filePath = join(this.outboxDir, `${messageId}.eml`);
+      await writeFile(filePath, buildMimeMessage(message, messageId));
+
+      console.log(`📧 Mail written to ${filePath}`);
+      return { success: true, messageId };
+    } catch (error) {
+      console.error('❌ Failed to write mail to outbox:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to write mail',
+      };
+    }
+  }
+}
+
+/**
+ * Stand-in for an SMTP relay: logs the envelope it would send to
+ * SMTP_HOST:SMTP_PORT without opening a connection.
+ */
+export class SmtpStubTransport implements MailTransport {
+  readonly name = 'smtp-stub';
+  private readonly host = process.env.SMTP_HOST || 'localhost';
+  private readonly port = Number(process.env.SMTP_PORT) || 25;
+  private debug = isDevelopmentMode();
+
+  async send(message: MailMessage): Promise<MailResponse> {
+    const messageId = crypto.randomUUID();
+    const data = buildMimeMessage(message, messageId);
+
+    console.log(
+      `📧 [SMTP stub] ${this.host}:${this.port} MAIL FROM:<${message.from || getDefaultSender()}> RCPT TO:${message.to.map(to => `<${to}>`).join(',')} DATA ${data.length} bytes`
+    );
+    if (this.debug) {
+      console.log('📧 [SMTP stub] Subject:', message.subject);
+    }
+
+    return { success: true, messageId };
+  }
+}
+
+let mailTransport: MailTransport | null = null;
+
+// Get the configured mail transport (MAIL_TRANSPORT=file|smtp-stub)
+export function getMailTransport(): MailTransport {
+  if (!mailTransport) {
+    mailTransport =
+      process.env.MAIL_TRANSPORT === 'smtp-stub'
+        ? new SmtpStubTransport()
+        : new FileMailTransport();
+  }
+  return mailTransport;
+}
+
+// Replace the mail transport, e.g. with a real SMTP or API-based provider
+export function setMailTransport(transport: MailTransport): void {
+  mailTransport = transport;
+}
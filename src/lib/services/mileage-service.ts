@@ -0,0 +1,95 @@
+import { getRuns, setRunDistanceMiles } from '../db/runs';
+import { getVehicleById } from '../db/vehicles';
+import {
+  buildMileageLog,
+  type MileageLog,
+  metersToMiles,
+} from '../payroll/mileage';
+import { getPayPeriod } from '../payroll/pay-periods';
+import { getRunItinerary } from '../run-stops';
+import { type Run } from '../schema';
+import { getEffectiveDriverPaySettings } from './earnings-service';
+import { getReportOrganizationContext } from './report-service';
+import { getRouteDistance } from './tomtom-service';
+
+// Upper bound on trips included in a single mileage log
+const MAX_MILEAGE_LOG_RUNS = 10000;
+
+// Runs without a distance measured while loading a single log; the rest are
+// picked up the next time the log is loaded
+const MAX_DISTANCES_PER_LOG = 25;
+
+export interface MileageLogRequest {
+  organizationId: string;
+  driverId: string;
+  // Any instant inside the pay period; defaults to now
+  periodDate?: Date;
+}
+
+/**
+ * Measure the miles driven on a run, through its stops, and store them on
+ * the run. Returns the distance, or null when it couldn't be measured.
+ */
+export async function recordRunMileage(run: Run): Promise<number | null> {
+  const vehicle = run.vehicleId ? await getVehicleById(run.vehicleId) : null;
+  const meters = await getRouteDistance(getRunItinerary(run), vehicle?.type);
+  if (meters === null) {
+    console.warn(`⚠️ Could not measure the distance of run: ${run.id}`);
+    return null;
+  }
+
+  const distanceMiles = metersToMiles(meters);
+  await setRunDistanceMiles(run.id, distanceMiles);
+  console.log(`🛣️ Recorded ${distanceMiles} miles for run: ${run.id}`);
+  return distanceMiles;
+}
+
+/**
+ * Build a driver's mileage log for the pay period containing the requested
+ * date, reimbursed at the organization's mileage rate. Completed runs whose
+ * distance wasn't recorded when they finished are measured now. Returns
+ * null when the driver is not a member of the organization.
+ */
+export async function getMileageLog(
+  request: MileageLogRequest
+): Promise<MileageLog | null> {
+  const [settings, context] = await Promise.all([
+    getEffectiveDriverPaySettings(request.organizationId),
+    getReportOrganizationContext(request.organizationId),
+  ]);
+
+  if (!context.memberUserIds.includes(request.driverId)) {
+    return null;
+  }
+
+  const period = getPayPeriod(settings, request.periodDate ?? new Date());
+
+  const runs = await getRuns({
+    organizationId: request.organizationId,
+    userId: request.driverId,
+    status: ['completed'],
+    scheduledFrom: period.startDate,
+    scheduledTo: period.endDate,
+    orderBy: 'scheduled_time',
+    orderDirection: 'ASC',
+    limit: MAX_MILEAGE_LOG_RUNS,
+  });
+
+  const unmeasured = runs
+    .filter(
+      run => run.distanceMiles === null || run.distanceMiles === undefined
+    )
+    .slice(0, MAX_DISTANCES_PER_LOG);
+  for (let index = 0; index < unmeasured.length; index++) {
+    unmeasured[index].distanceMiles = await recordRunMileage(unmeasured[index]);
+  }
+
+  return buildMileageLog(runs, {
+    driverId: request.driverId,
+    driverName: context.driverNames[request.driverId] || request.driverId,
+    organizationName: context.organizationName,
+    period,
+    timezone: settings.timezone,
+    mileageRate: settings.mileageRate,
+  });
+}
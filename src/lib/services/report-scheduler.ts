@@ -0,0 +1,214 @@
+import {
+  claimReportScheduleRun,
+  getDueReportSchedules,
+  recordReportScheduleRun,
+} from '../db/report-schedules';
+import { getReportTemplateById } from '../db/report-templates';
+import { REPORT_FORMATS } from '../reports/formats';
+import {
+  describeReportSchedule,
+  getLatestReportScheduleRun,
+  getNextReportScheduleRun,
+  getScheduledReportRange,
+} from '../reports/schedule';
+import { readReportFile } from '../reports/storage';
+import { formatReportDateRange } from '../reports/summary';
+import { type Report, type ReportSchedule } from '../schema';
+import { getMailTransport } from './mail-transport';
+import {
+  buildReportName,
+  generateReport,
+  getReportOrganizationContext,
+} from './report-service';
+
+export interface ReportSchedulerConfig {
+  // How often due schedules are checked
+  intervalMs: number;
+}
+
+// Email a generated report to the schedule's recipients
+async function deliverScheduledReport(
+  schedule: ReportSchedule,
+  report: Report,
+  organizationName?: string
+): Promise<void> {
+  const formatInfo = REPORT_FORMATS[report.format];
+  const content = await readReportFile(report.id, formatInfo.extension);
+  if (!content) {
+    throw new Error(`Report file for ${report.id} not found`);
+  }
+
+  const dateRange = formatReportDateRange(report.startDate, report.endDate);
+  const result = await getMailTransport().send({
+    to: schedule.recipients,
+    subject: `${report.name}${organizationName ? ` - ${organizationName}` : ''}`,
+    text: [
+      `Your scheduled report "${schedule.name}" for ${dateRange} is attached.`,
+      '',
+      `Schedule: ${describeReportSchedule(schedule)}`,
+    ].join('\n'),
+    attachments: [
+      {
+        filename: `${report.name}.${formatInfo.extension}`,
+        contentType: formatInfo.contentType,
+        content,
+      },
+    ],
+  });
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to send report email');
+  }
+}
+
+/**
+ * Generate the report for one schedule run and email it to the recipients.
+ * scheduledAt is the time the run was due and decides the period covered;
+ * it defaults to the latest due time, so running a schedule by hand sends
+ * the same report the scheduler last sent. The outcome (report ID or error)
+ * is recorded on the schedule.
+ */
+export async function runReportSchedule(
+  schedule: ReportSchedule,
+  scheduledAt: Date = getLatestReportScheduleRun(schedule, new Date())
+): Promise<Report | null> {
+  const runAt = new Date();
+  let report: Report | null = null;
+
+  try {
+    const template = await getReportTemplateById(
+      schedule.templateId,
+      schedule.organizationId
+    );
+    if (!template) {
+      throw new Error('Report template not found');
+    }
+
+    const { startDate, endDate } = getScheduledReportRange(
+      schedule,
+      scheduledAt
+    );
+    const context = await getReportOrganizationContext(schedule.organizationId);
+
+    report = await generateReport({
+      name: buildReportName(schedule.name, startDate, endDate),
+      organizationId: schedule.organizationId,
+      organizationName: context.organizationName,
+      createdBy: schedule.createdBy,
+      template,
+      format: schedule.format,
+      startDate,
+      endDate,
+      driverNames: context.driverNames,
+    });
+
+    if (report.status !== 'completed') {
+      throw new Error('Report generation failed');
+    }
+
+    if (schedule.recipients.length > 0) {
+      await deliverScheduledReport(schedule, report, context.organizationName);
+    }
+
+    await recordReportScheduleRun(schedule.id, {
+      lastRunAt: runAt,
+      lastReportId: report.id,
+    });
+
+    console.log(
+      `⏰ Ran report schedule ${schedule.id}, sent to ${schedule.recipients.length} recipients`
+    );
+  } catch (error) {
+    console.error(`❌ Failed to run report schedule ${schedule.id}:`, error);
+    await recordReportScheduleRun(schedule.id, {
+      lastRunAt: runAt,
+      lastReportId: report?.id,
+      lastError:
+        error instanceof Error ? error.message : 'Failed to run schedule',
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Server-side scheduler that periodically generates reports for due
+ * schedules. Each due schedule is claimed by advancing its next run to the
+ * first future occurrence before generating, so several servers can run the
+ * scheduler side by side and a schedule missed during downtime runs once
+ * rather than once per missed period.
+ */
+export class ReportScheduler {
+  public config: ReportSchedulerConfig;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private isTicking = false;
+
+  constructor(config: Partial<ReportSchedulerConfig> = {}) {
+    this.config = {
+      intervalMs: 60 * 1000, // 1 minute
+      ...config,
+    };
+  }
+
+  /**
+   * Start checking for due schedules
+   */
+  start(): void {
+    if (this.intervalId) {
+      return;
+    }
+
+    this.intervalId = setInterval(
+      () => void this.tick(),
+      this.config.intervalMs
+    );
+    void this.tick();
+
+    console.log(
+      `⏰ Report scheduler started (every ${Math.round(this.config.intervalMs / 1000)}s)`
+    );
+  }
+
+  /**
+   * Stop checking for due schedules
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      console.log('⏰ Report scheduler stopped');
+    }
+  }
+
+  /**
+   * Run every schedule that is due now. Skipped while a previous tick is
+   * still generating reports.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+
+    this.isTicking = true;
+    try {
+      const dueSchedules = await getDueReportSchedules(now);
+
+      for (const schedule of dueSchedules) {
+        const claimed = await claimReportScheduleRun(
+          schedule,
+          getNextReportScheduleRun(schedule, now)
+        );
+        if (claimed) {
+          await runReportSchedule(schedule, schedule.nextRunAt);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Report scheduler tick failed:', error);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+}
+
+// Global instance
+export const reportScheduler = new ReportScheduler();
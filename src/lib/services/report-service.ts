@@ -0,0 +1,234 @@
+import { clerk, getAllOrganizationMemberships } from '../api/clerk-client';
+import { createReport, updateReport } from '../db/reports';
+import { getRuns } from '../db/runs';
+import { getOrganizationRole } from '../permissions';
+import { REPORT_FORMATS, renderReport } from '../reports/formats';
+import { saveReportFile } from '../reports/storage';
+import {
+  type Report,
+  type ReportFormat,
+  type ReportTemplate,
+  ReportType,
+} from '../schema';
+
+// Upper bound on runs rendered into a single report
+const MAX_REPORT_RUNS = 10000;
+
+export interface GenerateReportRequest {
+  name?: string;
+  organizationId: string;
+  // Shown in the header of PDF and XLSX reports
+  organizationName?: string;
+  createdBy: string;
+  template: ReportTemplate;
+  // Defaults to the template's default output format
+  format?: ReportFormat;
+  startDate: Date;
+  endDate: Date;
+  // Display names for driver sections, keyed by user ID
+  driverNames?: Record<string, string>;
+}
+
+// Organization details a report is rendered with
+export interface ReportOrganizationContext {
+  organizationName?: string;
+  memberUserIds: string[];
+  // Members with a staff role (admins, dispatchers, billing and auditors)
+  // rather than drivers
+  staffUserIds: string[];
+  driverNames: Record<string, string>;
+}
+
+// Helper function to get an organization's member user IDs and the display
+// names used to label driver sections in grouped reports
+async function getOrganizationMembers(
+  organizationId: string
+): Promise<
+  Pick<
+    ReportOrganizationContext,
+    'memberUserIds' | 'staffUserIds' | 'driverNames'
+  >
+> {
+  const memberships = await getAllOrganizationMemberships(organizationId);
+
+  const memberUserIds: string[] = [];
+  const staffUserIds: string[] = [];
+  const driverNames: Record<string, string> = {};
+
+  memberships.forEach(membership => {
+    const publicUserData = membership.publicUserData;
+    if (!publicUserData?.userId) {
+      return;
+    }
+
+    memberUserIds.push(publicUserData.userId);
+    if (getOrganizationRole(membership.role) !== 'driver') {
+      staffUserIds.push(publicUserData.userId);
+    }
+    const name = [publicUserData.firstName, publicUserData.lastName]
+      .filter(Boolean)
+      .join(' ');
+    driverNames[publicUserData.userId] = name || publicUserData.identifier;
+  });
+
+  return { memberUserIds, staffUserIds, driverNames };
+}
+
+// Helper function to get an organization's display name for report headers
+async function getOrganizationName(
+  organizationId: string
+): Promise<string | undefined> {
+  try {
+    const organization = await clerk.organizations.getOrganization({
+      organizationId,
+    });
+    return organization.name;
+  } catch (error) {
+    console.error('Error fetching organization name:', error);
+    return undefined;
+  }
+}
+
+// Load the organization name, members and driver names for a report
+export async function getReportOrganizationContext(
+  organizationId: string
+): Promise<ReportOrganizationContext> {
+  const [members, organizationName] = await Promise.all([
+    getOrganizationMembers(organizationId),
+    getOrganizationName(organizationId),
+  ]);
+
+  return { ...members, organizationName };
+}
+
+// Relative URL the client uses to download a generated report
+export function getReportDownloadUrl(reportId: string): string {
+  return `/api/reports/download?id=${reportId}`;
+}
+
+// Report name with its date range, e.g. "Weekly Runs (2025-01-06 to 2025-01-12)"
+export function buildReportName(
+  baseName: string,
+  startDate: Date,
+  endDate: Date
+): string {
+  const from = startDate.toISOString().slice(0, 10);
+  const to = endDate.toISOString().slice(0, 10);
+  return `${baseName} (${from} to ${to})`;
+}
+
+/**
+ * Render the report file and move the report row to completed/failed.
+ * Runs after the report row has been created with status "generating" and
+ * returns the updated report.
+ */
+async function renderAndStoreReport(
+  report: Report,
+  request: GenerateReportRequest
+): Promise<Report> {
+  try {
+    const runs = await getRuns({
+      organizationId: request.organizationId,
+      scheduledFrom: request.startDate,
+      scheduledTo: request.endDate,
+      orderBy: 'scheduled_time',
+      orderDirection: 'ASC',
+      limit: MAX_REPORT_RUNS,
+    });
+
+    const content = await renderReport(
+      report.format,
+      runs,
+      request.template.columnConfig,
+      {
+        title: report.name,
+        organizationName: request.organizationName,
+        startDate: request.startDate,
+        endDate: request.endDate,
+        footerAggregates: request.template.footerAggregates,
+        groupBy: request.template.groupBy,
+        sort: request.template.sort,
+        driverNames: request.driverNames,
+      }
+    );
+    await saveReportFile(
+      report.id,
+      REPORT_FORMATS[report.format].extension,
+      content
+    );
+
+    const completedReport = await updateReport(
+      report.id,
+      {
+        status: 'completed',
+        generatedAt: new Date(),
+        downloadUrl: getReportDownloadUrl(report.id),
+      },
+      report.organizationId
+    );
+
+    console.log(
+      `📄 Generated ${report.format} report ${report.id} with ${runs.length} runs`
+    );
+    return completedReport ?? { ...report, status: 'completed' };
+  } catch (error) {
+    console.error(`❌ Failed to generate report ${report.id}:`, error);
+    const failedReport = await updateReport(
+      report.id,
+      { status: 'failed' },
+      report.organizationId
+    );
+    return failedReport ?? { ...report, status: 'failed' };
+  }
+}
+
+// Create the report row for a generation request
+function createReportForRequest(
+  request: GenerateReportRequest
+): Promise<Report> {
+  return createReport({
+    name:
+      request.name?.trim() ||
+      buildReportName(
+        request.template.name,
+        request.startDate,
+        request.endDate
+      ),
+    organizationId: request.organizationId,
+    createdBy: request.createdBy,
+    templateId: request.template.id,
+    startDate: request.startDate,
+    endDate: request.endDate,
+    reportType: ReportType.run,
+    format: request.format ?? request.template.defaultFormat,
+  });
+}
+
+/**
+ * Create a report row and start generating its file in the background.
+ * Returns the report immediately with status "generating".
+ */
+export async function startReportGeneration(
+  request: GenerateReportRequest
+): Promise<Report> {
+  const report = await createReportForRequest(request);
+
+  // Marking the report failed can itself fail, e.g. when the database is
+  // down, and nothing awaits this promise
+  renderAndStoreReport(report, request).catch(error => {
+    console.error(`❌ Failed to record report ${report.id} status:`, error);
+  });
+
+  return report;
+}
+
+/**
+ * Create a report row and wait for its file to be generated. Returns the
+ * report with status "completed" or "failed".
+ */
+export async function generateReport(
+  request: GenerateReportRequest
+): Promise<Report> {
+  const report = await createReportForRequest(request);
+  return renderAndStoreReport(report, request);
+}
@@ -0,0 +1,209 @@
+import { addDays, parseISO } from 'date-fns';
+import { getUserMembership } from '../access-control';
+import {
+  claimRunSeriesMaterialization,
+  getRunSeriesToMaterialize,
+} from '../db/run-series';
+import {
+  createRunsBatch,
+  getRunConflictMode,
+  getRunConflicts,
+  type NewBatchRun,
+} from '../db/runs';
+import { type RunWithConflicts } from '../run-conflicts';
+import {
+  formatDateOnly,
+  getOccurrenceScheduledTime,
+  getRecurrenceDates,
+  RUN_SERIES_HORIZON_DAYS,
+} from '../run-series';
+import { type RunSeries } from '../schema';
+
+export interface RunSeriesSchedulerConfig {
+  // How often series are topped up with runs
+  intervalMs: number;
+}
+
+function latestDate(...dates: string[]): string {
+  return dates.reduce((latest, date) => (date > latest ? date : latest));
+}
+
+/**
+ * Create the series' runs from where it was last materialized (or from
+ * today for a new series) through the horizon. Past dates are never filled
+ * in. When overlapping runs are blocked, occurrences that would overlap
+ * another of the driver's runs are skipped and logged rather than failing
+ * the whole series.
+ */
+export async function materializeRunSeries(
+  series: RunSeries,
+  now: Date = new Date()
+): Promise<RunWithConflicts[]> {
+  const through = formatDateOnly(addDays(now, RUN_SERIES_HORIZON_DAYS));
+  if (series.materializedThrough && series.materializedThrough >= through) {
+    return [];
+  }
+
+  const from = latestDate(
+    series.startDate,
+    formatDateOnly(now),
+    series.materializedThrough
+      ? formatDateOnly(addDays(parseISO(series.materializedThrough), 1))
+      : series.startDate
+  );
+
+  const claimed = await claimRunSeriesMaterialization(
+    series.id,
+    series.materializedThrough,
+    through
+  );
+  if (!claimed) {
+    return [];
+  }
+
+  try {
+    let runsData: NewBatchRun[] = getRecurrenceDates(series, from, through).map(
+      occurrence => ({
+        ...series.template,
+        scheduledTime: getOccurrenceScheduledTime(
+          occurrence,
+          series.startTime,
+          series.timezone
+        ),
+        seriesId: series.id,
+        seriesOccurrence: occurrence,
+      })
+    );
+
+    if (runsData.length > 0 && getRunConflictMode() === 'block') {
+      const conflicts = await getRunConflicts(
+        series.userId,
+        runsData.map((runData, index) => ({
+          id: `new-${index}`,
+          flightNumber: runData.flightNumber,
+          scheduledTime: runData.scheduledTime,
+          estimatedDuration: runData.estimatedDuration,
+          status: 'scheduled',
+        }))
+      );
+
+      runsData = runsData.filter((runData, index) => {
+        if (conflicts[index].length === 0) {
+          return true;
+        }
+
+        console.warn(
+          `⚠️ Skipped run series ${series.id} occurrence ${runData.seriesOccurrence}: overlaps ${conflicts[index].length} other run(s)`
+        );
+        return false;
+      });
+    }
+
+    if (runsData.length === 0) {
+      return [];
+    }
+
+    // Occurrences join the driver's current organization
+    const membership = await getUserMembership(series.userId);
+    const runs = await createRunsBatch(
+      runsData,
+      series.userId,
+      membership?.organizationId ?? null
+    );
+    console.log(
+      `🔁 Created ${runs.length} runs for run series ${series.id} through ${through}`
+    );
+    return runs;
+  } catch (error) {
+    // Hand the dates back so the next pass tries them again
+    await claimRunSeriesMaterialization(
+      series.id,
+      through,
+      series.materializedThrough
+    );
+    throw error;
+  }
+}
+
+/**
+ * Server-side scheduler that keeps every run series materialized a few
+ * weeks ahead. Series are claimed by moving their materialized date before
+ * runs are created, so several servers can run the scheduler side by side.
+ */
+export class RunSeriesScheduler {
+  public config: RunSeriesSchedulerConfig;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private isTicking = false;
+
+  constructor(config: Partial<RunSeriesSchedulerConfig> = {}) {
+    this.config = {
+      intervalMs: 60 * 60 * 1000, // 1 hour
+      ...config,
+    };
+  }
+
+  /**
+   * Start topping up run series
+   */
+  start(): void {
+    if (this.intervalId) {
+      return;
+    }
+
+    this.intervalId = setInterval(
+      () => void this.tick(),
+      this.config.intervalMs
+    );
+    void this.tick();
+
+    console.log(
+      `🔁 Run series scheduler started (every ${Math.round(this.config.intervalMs / 1000)}s)`
+    );
+  }
+
+  /**
+   * Stop topping up run series
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      console.log('🔁 Run series scheduler stopped');
+    }
+  }
+
+  /**
+   * Materialize every series not yet created through the horizon. Skipped
+   * while a previous tick is still running.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+
+    this.isTicking = true;
+    try {
+      const seriesList = await getRunSeriesToMaterialize(
+        formatDateOnly(addDays(now, RUN_SERIES_HORIZON_DAYS))
+      );
+
+      for (const series of seriesList) {
+        try {
+          await materializeRunSeries(series, now);
+        } catch (error) {
+          console.error(
+            `❌ Failed to materialize run series ${series.id}:`,
+            error
+          );
+        }
+      }
+    } catch (error) {
+      console.error('❌ Run series scheduler tick failed:', error);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+}
+
+// Global instance
+export const runSeriesScheduler = new RunSeriesScheduler();
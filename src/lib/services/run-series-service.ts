@@ -0,0 +1,174 @@
+import { parseISO, subDays } from 'date-fns';
+import {
+  createRunSeries,
+  getRunSeriesById,
+  updateRunSeries,
+} from '../db/run-series';
+import { getRuns, updateRun } from '../db/runs';
+import { RunConflictError, type RunWithConflicts } from '../run-conflicts';
+import {
+  formatDateOnly,
+  getOccurrenceScheduledTime,
+  getRecurrenceDates,
+  getScheduledTimeOfDay,
+  type RunSeriesResult,
+} from '../run-series';
+import {
+  type NewRunForm,
+  type Run,
+  type RunSeries,
+  type RunSeriesForm,
+  RunSeriesTemplateSchema,
+} from '../schema';
+import { materializeRunSeries } from './run-series-scheduler';
+
+// Upper bound on a series' runs loaded when editing or ending it
+const MAX_SERIES_RUNS = 1000;
+
+// The series' runs still to be driven on or after an occurrence date
+async function getScheduledOccurrences(
+  series: RunSeries,
+  fromOccurrence: string
+): Promise<Run[]> {
+  const runs = await getRuns({
+    userId: series.userId,
+    seriesId: series.id,
+    status: ['scheduled'],
+    limit: MAX_SERIES_RUNS,
+  });
+
+  return runs.filter(
+    run => run.seriesOccurrence && run.seriesOccurrence >= fromOccurrence
+  );
+}
+
+// Create a series and its runs for the next few weeks
+export async function createRunSeriesWithRuns(
+  seriesData: RunSeriesForm,
+  userId: string
+): Promise<RunSeriesResult> {
+  const series = await createRunSeries(seriesData, userId);
+  const runs = await materializeRunSeries(series);
+
+  return { series, runs, skippedRunIds: [] };
+}
+
+/**
+ * Apply an edited run to an occurrence and every later one. The series
+ * creates its future runs from the new values, and runs already created for
+ * those dates are updated to match; the run's date only picks which
+ * occurrences change, each keeps its own date with the new time of day.
+ * Runs that are already active, completed or cancelled are left alone.
+ */
+export async function updateFutureOccurrences(
+  seriesId: string,
+  fromOccurrence: string,
+  runData: NewRunForm,
+  userId: string
+): Promise<RunSeriesResult | null> {
+  const existingSeries = await getRunSeriesById(seriesId, userId);
+  if (!existingSeries) {
+    return null;
+  }
+
+  // Parsing drops the run's own fields, leaving what every occurrence shares
+  const template = RunSeriesTemplateSchema.parse(runData);
+  const startTime = getScheduledTimeOfDay(
+    runData.scheduledTime,
+    existingSeries.timezone
+  );
+
+  const series = await updateRunSeries(
+    seriesId,
+    { template, startTime },
+    userId
+  );
+  if (!series) {
+    return null;
+  }
+
+  const runs: RunWithConflicts[] = [];
+  const skippedRunIds: string[] = [];
+
+  for (const run of await getScheduledOccurrences(series, fromOccurrence)) {
+    try {
+      const updatedRun = await updateRun(
+        run.id,
+        {
+          ...template,
+          scheduledTime: getOccurrenceScheduledTime(
+            run.seriesOccurrence!,
+            startTime,
+            series.timezone
+          ),
+        },
+        userId
+      );
+      if (updatedRun) {
+        runs.push(updatedRun);
+      }
+    } catch (error) {
+      if (!(error instanceof RunConflictError)) {
+        throw error;
+      }
+      skippedRunIds.push(run.id);
+    }
+  }
+
+  console.log(
+    `🔁 Updated ${runs.length} runs of run series ${seriesId} from ${fromOccurrence}`
+  );
+  return { series, runs, skippedRunIds };
+}
+
+/**
+ * End a series before an occurrence date: no more runs are created from
+ * that date on, and the scheduled runs already created for it and later
+ * dates are cancelled. Earlier runs are left as they are.
+ */
+export async function endRunSeries(
+  seriesId: string,
+  fromOccurrence: string,
+  userId: string
+): Promise<RunSeriesResult | null> {
+  const existingSeries = await getRunSeriesById(seriesId, userId);
+  if (!existingSeries) {
+    return null;
+  }
+
+  // A series that already ends before the date keeps its rule; otherwise it
+  // now ends the day before
+  const until = formatDateOnly(subDays(parseISO(fromOccurrence), 1));
+  const { rule } = existingSeries;
+  const endsBefore = rule.count
+    ? getRecurrenceDates(
+        { ...existingSeries, exdates: [] },
+        existingSeries.startDate,
+        until
+      ).length >= rule.count
+    : !!rule.until && rule.until <= until;
+
+  const series = endsBefore
+    ? existingSeries
+    : await updateRunSeries(
+        seriesId,
+        { rule: { ...rule, until, count: null } },
+        userId
+      );
+  if (!series) {
+    return null;
+  }
+
+  const runs: RunWithConflicts[] = [];
+  for (const run of await getScheduledOccurrences(series, fromOccurrence)) {
+    const updatedRun = await updateRun(run.id, { status: 'cancelled' }, userId);
+    if (updatedRun) {
+      runs.push(updatedRun);
+    }
+  }
+
+  console.log(
+    `🔁 Ended run series ${seriesId} before ${fromOccurrence}, cancelled ${runs.length} runs`
+  );
+  return { series, runs, skippedRunIds: [] };
+}
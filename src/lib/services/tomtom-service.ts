@@ -2,9 +2,32 @@ import {
   type TrafficData,
   transformTomTomToTrafficData,
   validateTrafficData,
+  type VehicleType,
 } from '../schema';
 import { buildApiUrl, isDevelopmentMode } from '../utils';
 
+// Mean radius of the Earth in meters
+const EARTH_RADIUS_METERS = 6371000;
+
+// Great-circle distance in meters through the points in order
+function getStraightLineDistance(
+  points: Array<{ lat: number; lon: number }>
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+  return points.slice(1).reduce((total, point, index) => {
+    const previous = points[index];
+    const dLat = toRadians(point.lat - previous.lat);
+    const dLon = toRadians(point.lon - previous.lon);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(previous.lat)) *
+        Math.cos(toRadians(point.lat)) *
+        Math.sin(dLon / 2) ** 2;
+    return total + 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+  }, 0);
+}
+
 // TomTom API configuration
 const TOMTOM_BASE_URL = 'https://api.tomtom.com';
 const ROUTING_VERSION = 'v1';
@@ -59,6 +82,7 @@ export interface RouteRequest {
   travelMode?: 'car' | 'truck' | 'taxi' | 'bus' | 'van' | 'motorcycle';
   traffic?: boolean;
   departAt?: string; // ISO 8601 format
+  waypoints?: string[]; // Places called at between origin and destination, in order
 }
 
 // Enhanced interfaces for shuttle service
@@ -67,7 +91,7 @@ export interface ShuttleRouteRequest {
   pickupLocation: string; // Where to pick up passenger
   dropoffLocation: string; // Where to drop off passenger
   departureTime?: string; // When the trip starts (ISO 8601)
-  vehicleType?: 'van' | 'car' | 'bus'; // Shuttle vehicle type
+  vehicleType?: VehicleType; // Shuttle vehicle type
 }
 
 export interface ShuttleRouteResponse {
@@ -79,6 +103,27 @@ export interface ShuttleRouteResponse {
   trafficSummary: TrafficSummary;
 }
 
+// A run calling at several places in order: pickup, stops, dropoff
+export interface MultiStopRouteRequest {
+  locations: string[]; // At least two places, in the order they're driven
+  departureTime?: string; // When the trip starts (ISO 8601)
+  vehicleType?: VehicleType; // Shuttle vehicle type
+}
+
+export interface RouteLeg extends RouteSegment {
+  origin: string;
+  destination: string;
+  estimatedArrival: string; // ISO 8601 arrival at the leg's destination
+}
+
+export interface MultiStopRouteResponse {
+  legs: RouteLeg[]; // One leg between each pair of consecutive locations
+  totalDuration: number; // Total time in seconds
+  totalDistance: number; // Total distance in meters
+  estimatedArrival: string; // ISO 8601 timestamp
+  trafficSummary: TrafficSummary;
+}
+
 export interface RouteSegment {
   duration: number; // Time in seconds
   durationWithTraffic: number; // Time with current traffic
@@ -197,6 +242,155 @@ export class TomTomTrafficService {
     }
   }
 
+  /**
+   * Plan a run with stops as one multi-leg route. TomTom routes through
+   * every location in the given order in a single request and reports a
+   * leg between each pair.
+   */
+  async planMultiStopRoute(
+    request: MultiStopRouteRequest
+  ): Promise<MultiStopRouteResponse> {
+    if (!this.apiKey) {
+      throw new Error('TomTom API key is required for shuttle route planning.');
+    }
+
+    if (request.locations.length < 2) {
+      throw new Error('A route needs at least two locations.');
+    }
+
+    try {
+      const { locations } = request;
+      const route = await this.calculateRoute({
+        origin: locations[0],
+        destination: locations[locations.length - 1],
+        waypoints: locations.slice(1, -1),
+        travelMode: request.vehicleType || 'van',
+        traffic: true,
+        departAt: request.departureTime,
+      });
+
+      const trafficSummary = await this.getTrafficSummary(
+        locations.slice(0, -1).map((origin, index) => ({
+          origin,
+          destination: locations[index + 1],
+        }))
+      );
+
+      const instructions: any[] = route.routes[0].guidance?.instructions || [];
+      let legStartOffset = 0;
+      let elapsed = 0;
+
+      const legs = (route.routes[0].legs as any[]).map((leg, index) => {
+        const summary = leg.summary;
+        const legEndOffset = legStartOffset + summary.lengthInMeters;
+        elapsed += summary.travelTimeInSeconds;
+
+        const routeLeg: RouteLeg = {
+          origin: locations[index],
+          destination: locations[index + 1],
+          duration: summary.travelTimeInSeconds,
+          durationWithTraffic: summary.trafficDelayInSeconds
+            ? summary.travelTimeInSeconds + summary.trafficDelayInSeconds
+            : summary.travelTimeInSeconds,
+          distance: summary.lengthInMeters,
+          trafficDelay: summary.trafficDelayInSeconds || 0,
+          estimatedArrival: this.calculateArrivalTime(
+            request.departureTime,
+            elapsed
+          ),
+          route: {
+            points:
+              leg.points?.map((point: any) => ({
+                lat: point.latitude,
+                lon: point.longitude,
+              })) || [],
+            // Guidance covers the whole route; each leg keeps the
+            // instructions that fall within its stretch of road
+            instructions: instructions
+              .filter(
+                instruction =>
+                  instruction.routeOffsetInMeters >= legStartOffset &&
+                  instruction.routeOffsetInMeters < legEndOffset
+              )
+              .map(instruction => instruction.message),
+          },
+        };
+
+        legStartOffset = legEndOffset;
+        return routeLeg;
+      });
+
+      return {
+        legs,
+        totalDuration: route.routes[0].summary.travelTimeInSeconds,
+        totalDistance: route.routes[0].summary.lengthInMeters,
+        estimatedArrival: this.calculateArrivalTime(
+          request.departureTime,
+          route.routes[0].summary.travelTimeInSeconds
+        ),
+        trafficSummary,
+      };
+    } catch (error) {
+      console.error('❌ TomTom multi-stop route planning failed:', error);
+      throw new Error(
+        `Failed to plan multi-stop route: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Driving distance in meters through the locations in order. When TomTom
+   * can't route the addresses as given, they are geocoded and routed by
+   * coordinates, and failing that the straight-line distance between the
+   * geocoded points is used. Returns null when a location can't be found.
+   */
+  async getRouteDistance(
+    locations: string[],
+    vehicleType?: VehicleType
+  ): Promise<number | null> {
+    if (!this.apiKey) {
+      throw new Error('TomTom API key is required for route distances.');
+    }
+
+    if (locations.length < 2) {
+      throw new Error('A route needs at least two locations.');
+    }
+
+    const routeLength = async (points: string[]) => {
+      const route = await this.calculateRoute({
+        origin: points[0],
+        destination: points[points.length - 1],
+        waypoints: points.slice(1, -1),
+        travelMode: vehicleType || 'van',
+        traffic: false,
+      });
+      return route.routes[0].summary.lengthInMeters as number;
+    };
+
+    try {
+      return await routeLength(locations);
+    } catch (error) {
+      console.warn('⚠️ Routing by address failed, geocoding instead:', error);
+    }
+
+    const positions = await Promise.all(
+      locations.map(location => this.geocodeAddress(location))
+    );
+    if (positions.some(position => position === null)) {
+      return null;
+    }
+
+    const coordinates = positions as { lat: number; lon: number }[];
+    try {
+      return await routeLength(
+        coordinates.map(position => `${position.lat},${position.lon}`)
+      );
+    } catch (error) {
+      console.warn('⚠️ Routing by coordinates failed:', error);
+      return getStraightLineDistance(coordinates);
+    }
+  }
+
   /**
    * Calculate a single route using TomTom Routing API
    */
@@ -274,10 +468,15 @@ export class TomTomTrafficService {
     params.set('sectionType', 'traffic,travelMode,carpool');
     params.set('report', 'effectiveSettings');
 
-    const origin = encodeURIComponent(request.origin);
-    const destination = encodeURIComponent(request.destination);
+    const locations = [
+      request.origin,
+      ...(request.waypoints || []),
+      request.destination,
+    ]
+      .map(location => encodeURIComponent(location))
+      .join(':');
 
-    return `${TOMTOM_BASE_URL}/routing/${ROUTING_VERSION}/calculateRoute/${origin}:${destination}/json?${params.toString()}`;
+    return `${TOMTOM_BASE_URL}/routing/${ROUTING_VERSION}/calculateRoute/${locations}/json?${params.toString()}`;
   }
 
   /**
@@ -453,6 +652,67 @@ export class TomTomTrafficService {
     };
   }
 
+  /**
+   * Generate a mock multi-stop route for development/fallback
+   */
+  getMockMultiStopRoute(
+    request: MultiStopRouteRequest
+  ): MultiStopRouteResponse {
+    const legTime = 12 * 60; // 12 minutes per leg
+    const trafficDelay = 3 * 60; // 3 minutes traffic delay per leg
+    let elapsed = 0;
+
+    const legs = request.locations.slice(0, -1).map((origin, index) => {
+      const destination = request.locations[index + 1];
+      elapsed += legTime + trafficDelay;
+
+      return {
+        origin,
+        destination,
+        duration: legTime,
+        durationWithTraffic: legTime + trafficDelay,
+        distance: 8000, // 8km
+        trafficDelay,
+        estimatedArrival: this.calculateArrivalTime(
+          request.departureTime,
+          elapsed
+        ),
+        route: {
+          points: [
+            { lat: 43.4723, lon: -110.7624 }, // Jackson Hole area
+            { lat: 43.4799, lon: -110.7624 },
+          ],
+          instructions: [
+            `Head toward ${destination}`,
+            `Arrive at ${destination}`,
+          ],
+        },
+      };
+    });
+
+    return {
+      legs,
+      totalDuration: elapsed,
+      totalDistance: legs.length * 8000,
+      estimatedArrival: this.calculateArrivalTime(
+        request.departureTime,
+        elapsed
+      ),
+      trafficSummary: {
+        currentConditions: 'moderate',
+        delayMinutes: Math.floor((trafficDelay * legs.length) / 60),
+        incidents: [
+          {
+            type: 'congestion',
+            description: 'Moderate traffic in Jackson downtown area',
+            severity: 'medium',
+            impact: 'May add 3-5 minutes to travel time',
+          },
+        ],
+      },
+    };
+  }
+
   /**
    * Geocode an address to coordinates (if needed for more precise routing)
    */
@@ -525,12 +785,14 @@ export async function planShuttleRoute(
   currentLocation: string,
   pickupLocation: string,
   dropoffLocation: string,
-  departureTime?: string
+  departureTime?: string,
+  vehicleType?: VehicleType
 ): Promise<ShuttleRouteResponse> {
   return tomtomService
     .getTrafficDataWithFallback({
       origin: currentLocation,
       destination: `${pickupLocation}:${dropoffLocation}`,
+      travelMode: vehicleType || 'van',
     })
     .then(() =>
       tomtomService.getMockShuttleRoute({
@@ -538,10 +800,61 @@ export async function planShuttleRoute(
         pickupLocation,
         dropoffLocation,
         departureTime,
+        vehicleType,
       })
     );
 }
 
+// Route a run with stops through each of its locations in order, falling
+// back to mock data like the other helpers
+export async function planMultiStopRoute(
+  locations: string[],
+  departureTime?: string,
+  vehicleType?: VehicleType
+): Promise<MultiStopRouteResponse> {
+  const request: MultiStopRouteRequest = {
+    locations,
+    departureTime,
+    vehicleType,
+  };
+
+  if (shouldUseMockData() || !tomtomService.hasApiKey()) {
+    return tomtomService.getMockMultiStopRoute(request);
+  }
+
+  try {
+    return await tomtomService.planMultiStopRoute(request);
+  } catch (error) {
+    console.error('❌ TomTom API failed, falling back to mock data:', error);
+    return tomtomService.getMockMultiStopRoute(request);
+  }
+}
+
+// Driving distance in meters through a run's locations, or null when it
+// can't be worked out. Unlike the other helpers there's no mock fallback:
+// distances end up in mileage logs, so made-up ones would be worse than none.
+export async function getRouteDistance(
+  locations: string[],
+  vehicleType?: VehicleType
+): Promise<number | null> {
+  if (shouldUseMockData()) {
+    return null;
+  }
+  if (!tomtomService.hasApiKey()) {
+    console.warn(
+      '⚠️ TomTom API key not configured, route distance not measured'
+    );
+    return null;
+  }
+
+  try {
+    return await tomtomService.getRouteDistance(locations, vehicleType);
+  } catch (error) {
+    console.error('❌ TomTom route distance failed:', error);
+    return null;
+  }
+}
+
 // Legacy function for backward compatibility
 export async function getTrafficData(
   origin: string,
@@ -0,0 +1,34 @@
+import { type RunPassenger, type Vehicle, type VehicleType } from './schema';
+
+export const VEHICLE_TYPE_LABELS: Record<VehicleType, string> = {
+  van: 'Van',
+  car: 'Car',
+  bus: 'Bus',
+};
+
+// Thrown when a run's passengers don't fit in the vehicle assigned to it
+export class VehicleCapacityError extends Error {
+  constructor(
+    public readonly vehicle: Pick<Vehicle, 'id' | 'name' | 'capacity'>,
+    public readonly passengerCount: number
+  ) {
+    super(
+      `${vehicle.name} seats ${vehicle.capacity} passengers but the run has ${passengerCount}.`
+    );
+    this.name = 'VehicleCapacityError';
+  }
+}
+
+// Everyone on a run's manifest, counting each party's size
+export function getManifestPassengerCount(
+  passengers: Pick<RunPassenger, 'count'>[]
+): number {
+  return passengers.reduce((total, passenger) => total + passenger.count, 0);
+}
+
+// e.g. "Van 2 · ABC123 · 12 seats"
+export function describeVehicle(
+  vehicle: Pick<Vehicle, 'name' | 'plate' | 'capacity'>
+): string {
+  return `${vehicle.name} · ${vehicle.plate} · ${vehicle.capacity} seats`;
+}
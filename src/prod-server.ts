@@ -1,17 +1,44 @@
 #!/usr/bin/env bun
+import * as accessSessionsApi from './api/access-sessions';
+import * as apiTokensApi from './api/api-tokens';
 import * as authApi from './api/auth';
+import * as billingAccountsApi from './api/billing-accounts';
 import * as configApi from './api/config';
+import * as dispatchApi from './api/dispatch';
+import * as driverAvailabilityApi from './api/driver-availability';
+import * as driverEarningsApi from './api/driver-earnings';
+import * as driverMileageApi from './api/driver-mileage';
+import * as driverPaySettingsApi from './api/driver-pay-settings';
+import * as invoicesApi from './api/invoices';
 import * as notificationsApi from './api/notifications';
+import * as openApiApi from './api/openapi';
 import * as organizationsApi from './api/organizations';
 import * as preferencesApi from './api/preferences';
+import * as reportSchedulesApi from './api/report-schedules';
 import * as reportTemplatesApi from './api/report-templates';
+import * as reportsApi from './api/reports';
+import * as runPassengersApi from './api/run-passengers';
+import * as runSeriesApi from './api/run-series';
 import * as runsApi from './api/runs';
+import { handleV1Request } from './api/v1';
+import * as vehiclesApi from './api/vehicles';
+import { authenticateApiRequest } from './lib/api/api-token-auth';
+import { authenticateRequest } from './lib/api/session-auth';
+import { reportScheduler } from './lib/services/report-scheduler';
+import { runSeriesScheduler } from './lib/services/run-series-scheduler';
+import { initializeTomTomService } from './lib/services/tomtom-service';
+
+// TomTom measures the miles driven when runs are completed
+initializeTomTomService();
 
 // API route handlers
 const apiRoutes = {
   '/api/config': {
     GET: configApi.GET,
   },
+  '/api/openapi.json': {
+    GET: openApiApi.GET,
+  },
   '/api/auth/validate-password': {
     POST: authApi.passwordValidationHandler,
   },
@@ -21,20 +48,38 @@ const apiRoutes = {
   '/api/auth/logout': {
     POST: authApi.logoutHandler,
   },
+  '/api/access-sessions': {
+    GET: accessSessionsApi.GET,
+    DELETE: accessSessionsApi.DELETE,
+  },
+  '/api/api-tokens': {
+    GET: apiTokensApi.GET,
+    POST: apiTokensApi.POST,
+    DELETE: apiTokensApi.DELETE,
+  },
   '/api/organizations': {
     GET: organizationsApi.GET,
   },
   '/api/runs': {
     GET: runsApi.GET,
     POST: runsApi.POST,
+    PUT: runsApi.PUT,
   },
   '/api/runs/organization': {
     GET: runsApi.getOrganizationRuns,
   },
+  '/api/runs/conflicts': {
+    POST: runsApi.checkConflicts,
+  },
   '/api/runs/:id/status': {
     PUT: runsApi.PUT,
   },
+  '/api/runs/:id/events': {
+    GET: runsApi.getEvents,
+  },
   '/api/runs/:id': {
+    GET: runsApi.getRun,
+    PUT: runsApi.PUT,
     DELETE: runsApi.DELETE,
   },
   '/api/preferences': {
@@ -47,6 +92,85 @@ const apiRoutes = {
     PUT: reportTemplatesApi.PUT,
     DELETE: reportTemplatesApi.DELETE,
   },
+  '/api/report-schedules': {
+    GET: reportSchedulesApi.GET,
+    POST: reportSchedulesApi.POST,
+    PUT: reportSchedulesApi.PUT,
+    DELETE: reportSchedulesApi.DELETE,
+  },
+  '/api/report-schedules/run': {
+    POST: reportSchedulesApi.run,
+  },
+  '/api/billing-accounts': {
+    GET: billingAccountsApi.GET,
+    POST: billingAccountsApi.POST,
+    PUT: billingAccountsApi.PUT,
+    DELETE: billingAccountsApi.DELETE,
+  },
+  '/api/invoices': {
+    GET: invoicesApi.GET,
+    POST: invoicesApi.POST,
+    PUT: invoicesApi.PUT,
+    DELETE: invoicesApi.DELETE,
+  },
+  '/api/invoices/download': {
+    GET: invoicesApi.download,
+  },
+  '/api/driver-pay-settings': {
+    GET: driverPaySettingsApi.GET,
+    PUT: driverPaySettingsApi.PUT,
+  },
+  '/api/driver-earnings': {
+    GET: driverEarningsApi.GET,
+  },
+  '/api/driver-earnings/export': {
+    GET: driverEarningsApi.exportStatement,
+  },
+  '/api/driver-mileage': {
+    GET: driverMileageApi.GET,
+  },
+  '/api/driver-availability': {
+    GET: driverAvailabilityApi.GET,
+    POST: driverAvailabilityApi.POST,
+    DELETE: driverAvailabilityApi.DELETE,
+  },
+  '/api/driver-mileage/export': {
+    GET: driverMileageApi.exportMileageLog,
+  },
+  '/api/dispatch': {
+    GET: dispatchApi.GET,
+    PUT: dispatchApi.PUT,
+  },
+  '/api/dispatch/availability': {
+    GET: dispatchApi.availability,
+  },
+  '/api/dispatch/recommendations': {
+    GET: dispatchApi.recommendations,
+  },
+  '/api/run-series': {
+    GET: runSeriesApi.GET,
+    POST: runSeriesApi.POST,
+    PUT: runSeriesApi.PUT,
+    DELETE: runSeriesApi.DELETE,
+  },
+  '/api/run-passengers': {
+    GET: runPassengersApi.GET,
+    PUT: runPassengersApi.PUT,
+  },
+  '/api/vehicles': {
+    GET: vehiclesApi.GET,
+    POST: vehiclesApi.POST,
+    PUT: vehiclesApi.PUT,
+    DELETE: vehiclesApi.DELETE,
+  },
+  '/api/reports': {
+    GET: reportsApi.GET,
+    POST: reportsApi.POST,
+    DELETE: reportsApi.DELETE,
+  },
+  '/api/reports/download': {
+    GET: reportsApi.download,
+  },
   '/api/notifications': {
     GET: notificationsApi.GET,
     POST: notificationsApi.POST,
@@ -58,6 +182,15 @@ const apiRoutes = {
   },
 };
 
+// Routes anyone can call; every other route needs a Clerk session token
+const publicRoutes = [
+  '/api/config',
+  '/api/openapi.json',
+  '/api/auth/validate-password',
+  '/api/auth/check',
+  '/api/auth/logout',
+];
+
 // Route matcher for parameterized routes
 function matchRoute(pathname: string): {
   handler?: any;
@@ -79,6 +212,14 @@ function matchRoute(pathname: string): {
     };
   }
 
+  if (pathname.startsWith('/api/runs/') && pathname.endsWith('/events')) {
+    const id = pathname.split('/')[3];
+    return {
+      handler: apiRoutes['/api/runs/:id/events'],
+      params: { id },
+    };
+  }
+
   if (pathname.startsWith('/api/runs/') && pathname.split('/').length === 4) {
     const id = pathname.split('/')[3];
     return {
@@ -107,8 +248,11 @@ async function startServer() {
     port: process.env.PORT || 3000,
     hostname: '0.0.0.0', // Listen on all interfaces for Railway
 
-    async fetch(request) {
+    async fetch(request, server) {
       const url = new URL(request.url);
+
+      // The socket address, which the password gate rate limits by
+      (request as any).clientAddress = server.requestIP(request)?.address;
       const pathname = url.pathname;
 
       // Temporarily redirect non-www to www (until main domain DNS is ready)
@@ -121,6 +265,16 @@ async function startServer() {
       //   });
       // }
 
+      // Versioned public API, which also takes organization API tokens
+      if (pathname.startsWith('/api/v1/')) {
+        const authenticated = await authenticateApiRequest(request);
+        if ('response' in authenticated) {
+          return authenticated.response;
+        }
+        (request as any).auth = authenticated;
+        return await handleV1Request(request);
+      }
+
       // Handle API routes
       if (pathname.startsWith('/api/')) {
         const { handler, params } = matchRoute(pathname);
@@ -132,6 +286,15 @@ async function startServer() {
             if (params) {
               (request as any).params = params;
             }
+
+            // Handlers act as the user the verified session token names
+            if (!publicRoutes.includes(pathname)) {
+              const authenticated = await authenticateRequest(request);
+              if ('response' in authenticated) {
+                return authenticated.response;
+              }
+              (request as any).auth = authenticated;
+            }
             return await methodHandler(request);
           }
         }
@@ -164,6 +327,16 @@ async function startServer() {
   });
 
   console.log(`🌐 Server running at http://0.0.0.0:${server.port}`);
+
+  // Generate scheduled reports in the background
+  if (process.env.REPORT_SCHEDULER_ENABLED !== 'false') {
+    reportScheduler.start();
+  }
+
+  // Keep recurring run series created a few weeks ahead
+  if (process.env.RUN_SERIES_SCHEDULER_ENABLED !== 'false') {
+    runSeriesScheduler.start();
+  }
 }
 
 startServer().catch(console.error);
@@ -9,6 +9,7 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root';
+import { Route as VehiclesRouteImport } from './routes/vehicles';
 import { Route as SettingsRouteImport } from './routes/settings';
 import { Route as RunsRouteImport } from './routes/runs';
 import { Route as RequestRunReportRouteImport } from './routes/request-run-report';
@@ -16,14 +17,22 @@ import { Route as ReportsRouteImport } from './routes/reports';
 import { Route as ReportTemplatesRouteImport } from './routes/report-templates';
 import { Route as OrganizationRouteImport } from './routes/organization';
 import { Route as NotificationsRouteImport } from './routes/notifications';
+import { Route as InvoicesRouteImport } from './routes/invoices';
 import { Route as FlightsRouteImport } from './routes/flights';
 import { Route as DriversRouteImport } from './routes/drivers';
+import { Route as DispatchRouteImport } from './routes/dispatch';
 import { Route as CreateRunsRouteImport } from './routes/create-runs';
 import { Route as AddRouteImport } from './routes/add';
+import { Route as ApiDocsRouteImport } from './routes/api-docs';
 import { Route as ActiveRunRouteImport } from './routes/active-run';
 import { Route as IndexRouteImport } from './routes/index';
 import { Route as DriverDriverIdRouteImport } from './routes/driver.$driverId';
 
+const VehiclesRoute = VehiclesRouteImport.update({
+  id: '/vehicles',
+  path: '/vehicles',
+  getParentRoute: () => rootRouteImport,
+} as any);
 const SettingsRoute = SettingsRouteImport.update({
   id: '/settings',
   path: '/settings',
@@ -59,6 +68,11 @@ const NotificationsRoute = NotificationsRouteImport.update({
   path: '/notifications',
   getParentRoute: () => rootRouteImport,
 } as any);
+const InvoicesRoute = InvoicesRouteImport.update({
+  id: '/invoices',
+  path: '/invoices',
+  getParentRoute: () => rootRouteImport,
+} as any);
 const FlightsRoute = FlightsRouteImport.update({
   id: '/flights',
   path: '/flights',
@@ -69,6 +83,11 @@ const DriversRoute = DriversRouteImport.update({
   path: '/drivers',
   getParentRoute: () => rootRouteImport,
 } as any);
+const DispatchRoute = DispatchRouteImport.update({
+  id: '/dispatch',
+  path: '/dispatch',
+  getParentRoute: () => rootRouteImport,
+} as any);
 const CreateRunsRoute = CreateRunsRouteImport.update({
   id: '/create-runs',
   path: '/create-runs',
@@ -79,6 +98,11 @@ const AddRoute = AddRouteImport.update({
   path: '/add',
   getParentRoute: () => rootRouteImport,
 } as any);
+const ApiDocsRoute = ApiDocsRouteImport.update({
+  id: '/api-docs',
+  path: '/api-docs',
+  getParentRoute: () => rootRouteImport,
+} as any);
 const ActiveRunRoute = ActiveRunRouteImport.update({
   id: '/active-run',
   path: '/active-run',
@@ -98,10 +122,13 @@ const DriverDriverIdRoute = DriverDriverIdRouteImport.update({
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute;
   '/active-run': typeof ActiveRunRoute;
+  '/api-docs': typeof ApiDocsRoute;
   '/add': typeof AddRoute;
   '/create-runs': typeof CreateRunsRoute;
+  '/dispatch': typeof DispatchRoute;
   '/drivers': typeof DriversRoute;
   '/flights': typeof FlightsRoute;
+  '/invoices': typeof InvoicesRoute;
   '/notifications': typeof NotificationsRoute;
   '/organization': typeof OrganizationRoute;
   '/report-templates': typeof ReportTemplatesRoute;
@@ -109,15 +136,19 @@ export interface FileRoutesByFullPath {
   '/request-run-report': typeof RequestRunReportRoute;
   '/runs': typeof RunsRoute;
   '/settings': typeof SettingsRoute;
+  '/vehicles': typeof VehiclesRoute;
   '/driver/$driverId': typeof DriverDriverIdRoute;
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute;
   '/active-run': typeof ActiveRunRoute;
+  '/api-docs': typeof ApiDocsRoute;
   '/add': typeof AddRoute;
   '/create-runs': typeof CreateRunsRoute;
+  '/dispatch': typeof DispatchRoute;
   '/drivers': typeof DriversRoute;
   '/flights': typeof FlightsRoute;
+  '/invoices': typeof InvoicesRoute;
   '/notifications': typeof NotificationsRoute;
   '/organization': typeof OrganizationRoute;
   '/report-templates': typeof ReportTemplatesRoute;
@@ -125,16 +156,20 @@ export interface FileRoutesByTo {
   '/request-run-report': typeof RequestRunReportRoute;
   '/runs': typeof RunsRoute;
   '/settings': typeof SettingsRoute;
+  '/vehicles': typeof VehiclesRoute;
   '/driver/$driverId': typeof DriverDriverIdRoute;
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport;
   '/': typeof IndexRoute;
   '/active-run': typeof ActiveRunRoute;
+  '/api-docs': typeof ApiDocsRoute;
   '/add': typeof AddRoute;
   '/create-runs': typeof CreateRunsRoute;
+  '/dispatch': typeof DispatchRoute;
   '/drivers': typeof DriversRoute;
   '/flights': typeof FlightsRoute;
+  '/invoices': typeof InvoicesRoute;
   '/notifications': typeof NotificationsRoute;
   '/organization': typeof OrganizationRoute;
   '/report-templates': typeof ReportTemplatesRoute;
@@ -142,6 +177,7 @@ export interface FileRoutesById {
   '/request-run-report': typeof RequestRunReportRoute;
   '/runs': typeof RunsRoute;
   '/settings': typeof SettingsRoute;
+  '/vehicles': typeof VehiclesRoute;
   '/driver/$driverId': typeof DriverDriverIdRoute;
 }
 export interface FileRouteTypes {
@@ -149,10 +185,13 @@ export interface FileRouteTypes {
   fullPaths:
     | '/'
     | '/active-run'
+    | '/api-docs'
     | '/add'
     | '/create-runs'
+    | '/dispatch'
     | '/drivers'
     | '/flights'
+    | '/invoices'
     | '/notifications'
     | '/organization'
     | '/report-templates'
@@ -160,15 +199,19 @@ export interface FileRouteTypes {
     | '/request-run-report'
     | '/runs'
     | '/settings'
+    | '/vehicles'
     | '/driver/$driverId';
   fileRoutesByTo: FileRoutesByTo;
   to:
     | '/'
     | '/active-run'
+    | '/api-docs'
     | '/add'
     | '/create-runs'
+    | '/dispatch'
     | '/drivers'
     | '/flights'
+    | '/invoices'
     | '/notifications'
     | '/organization'
     | '/report-templates'
@@ -176,15 +219,19 @@ export interface FileRouteTypes {
     | '/request-run-report'
     | '/runs'
     | '/settings'
+    | '/vehicles'
     | '/driver/$driverId';
   id:
     | '__root__'
     | '/'
     | '/active-run'
+    | '/api-docs'
     | '/add'
     | '/create-runs'
+    | '/dispatch'
     | '/drivers'
     | '/flights'
+    | '/invoices'
     | '/notifications'
     | '/organization'
     | '/report-templates'
@@ -192,16 +239,20 @@ export interface FileRouteTypes {
     | '/request-run-report'
     | '/runs'
     | '/settings'
+    | '/vehicles'
     | '/driver/$driverId';
   fileRoutesById: FileRoutesById;
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute;
   ActiveRunRoute: typeof ActiveRunRoute;
+  ApiDocsRoute: typeof ApiDocsRoute;
   AddRoute: typeof AddRoute;
   CreateRunsRoute: typeof CreateRunsRoute;
+  DispatchRoute: typeof DispatchRoute;
   DriversRoute: typeof DriversRoute;
   FlightsRoute: typeof FlightsRoute;
+  InvoicesRoute: typeof InvoicesRoute;
   NotificationsRoute: typeof NotificationsRoute;
   OrganizationRoute: typeof OrganizationRoute;
   ReportTemplatesRoute: typeof ReportTemplatesRoute;
@@ -209,11 +260,19 @@ export interface RootRouteChildren {
   RequestRunReportRoute: typeof RequestRunReportRoute;
   RunsRoute: typeof RunsRoute;
   SettingsRoute: typeof SettingsRoute;
+  VehiclesRoute: typeof VehiclesRoute;
   DriverDriverIdRoute: typeof DriverDriverIdRoute;
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/vehicles': {
+      id: '/vehicles';
+      path: '/vehicles';
+      fullPath: '/vehicles';
+      preLoaderRoute: typeof VehiclesRouteImport;
+      parentRoute: typeof rootRouteImport;
+    };
     '/settings': {
       id: '/settings';
       path: '/settings';
@@ -263,6 +322,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof NotificationsRouteImport;
       parentRoute: typeof rootRouteImport;
     };
+    '/invoices': {
+      id: '/invoices';
+      path: '/invoices';
+      fullPath: '/invoices';
+      preLoaderRoute: typeof InvoicesRouteImport;
+      parentRoute: typeof rootRouteImport;
+    };
     '/flights': {
       id: '/flights';
       path: '/flights';
@@ -277,6 +343,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DriversRouteImport;
       parentRoute: typeof rootRouteImport;
     };
+    '/dispatch': {
+      id: '/dispatch';
+      path: '/dispatch';
+      fullPath: '/dispatch';
+      preLoaderRoute: typeof DispatchRouteImport;
+      parentRoute: typeof rootRouteImport;
+    };
     '/create-runs': {
       id: '/create-runs';
       path: '/create-runs';
@@ -291,6 +364,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AddRouteImport;
       parentRoute: typeof rootRouteImport;
     };
+    '/api-docs': {
+      id: '/api-docs';
+      path: '/api-docs';
+      fullPath: '/api-docs';
+      preLoaderRoute: typeof ApiDocsRouteImport;
+      parentRoute: typeof rootRouteImport;
+    };
     '/active-run': {
       id: '/active-run';
       path: '/active-run';
@@ -318,10 +398,13 @@ declare module '@tanstack/react-router' {
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   ActiveRunRoute: ActiveRunRoute,
+  ApiDocsRoute: ApiDocsRoute,
   AddRoute: AddRoute,
   CreateRunsRoute: CreateRunsRoute,
+  DispatchRoute: DispatchRoute,
   DriversRoute: DriversRoute,
   FlightsRoute: FlightsRoute,
+  InvoicesRoute: InvoicesRoute,
   NotificationsRoute: NotificationsRoute,
   OrganizationRoute: OrganizationRoute,
   ReportTemplatesRoute: ReportTemplatesRoute,
@@ -329,6 +412,7 @@ const rootRouteChildren: RootRouteChildren = {
   RequestRunReportRoute: RequestRunReportRoute,
   RunsRoute: RunsRoute,
   SettingsRoute: SettingsRoute,
+  VehiclesRoute: VehiclesRoute,
   DriverDriverIdRoute: DriverDriverIdRoute,
 };
 export const routeTree = rootRouteImport
@@ -10,10 +10,13 @@ import {
   Bell,
   Building2,
   Car,
+  ClipboardList,
   FileText,
   LayoutTemplate,
   Plane,
   Plus,
+  Receipt,
+  Truck,
   Users,
 } from 'lucide-react';
 import { useEffect } from 'react';
@@ -42,12 +45,10 @@ import {
 import { UserProfilePopover } from '../components/user-profile-popover';
 import { AppContextProvider } from '../lib/AppContextProvider';
 import { isFeatureEnabled } from '../lib/features';
+import { useCan } from '../lib/hooks/use-can';
 import { useCurrentRunsCount } from '../lib/hooks/use-current-runs-count';
 import { useMobile } from '../lib/hooks/use-mobile';
-import {
-  useIsUserAdmin,
-  useUserOrganization,
-} from '../lib/hooks/use-organizations';
+import { useUserOrganization } from '../lib/hooks/use-organizations';
 import { queryClient } from '../lib/react-query-client';
 import { toasts } from '../lib/toast';
 
@@ -125,11 +126,11 @@ function OrganizationDisplay() {
   );
 }
 
+// Organization pages, each shown to the roles allowed to use it
 function AdminNavItems() {
-  const { data: organization } = useUserOrganization();
-  const { isAdmin } = useIsUserAdmin(organization?.id);
+  const { can, role } = useCan();
 
-  if (!isAdmin) {
+  if (!role || role === 'driver') {
     return null;
   }
 
@@ -140,54 +141,104 @@ function AdminNavItems() {
           Administration
         </div>
       </div>
-      <Button asChild variant="ghost" className="w-full justify-start">
-        <MobileAwareNavLink
-          to="/drivers"
-          className="flex items-center gap-2"
-          activeProps={{
-            className: activeNavClass,
-          }}
-        >
-          <Users className="h-4 w-4" />
-          Drivers
-        </MobileAwareNavLink>
-      </Button>
-      <Button asChild variant="ghost" className="w-full justify-start">
-        <MobileAwareNavLink
-          to="/create-runs"
-          className="flex items-center gap-2"
-          activeProps={{
-            className: activeNavClass,
-          }}
-        >
-          <Plus className="h-4 w-4" />
-          Create Runs
-        </MobileAwareNavLink>
-      </Button>
-      <Button asChild variant="ghost" className="w-full justify-start">
-        <MobileAwareNavLink
-          to="/request-run-report"
-          className="flex items-center gap-2"
-          activeProps={{
-            className: activeNavClass,
-          }}
-        >
-          <FileText className="h-4 w-4" />
-          Request Run Report
-        </MobileAwareNavLink>
-      </Button>
-      <Button asChild variant="ghost" className="w-full justify-start">
-        <MobileAwareNavLink
-          to="/report-templates"
-          className="flex items-center gap-2"
-          activeProps={{
-            className: activeNavClass,
-          }}
-        >
-          <LayoutTemplate className="h-4 w-4" />
-          Report Templates
-        </MobileAwareNavLink>
-      </Button>
+      {can('drivers:view') && (
+        <Button asChild variant="ghost" className="w-full justify-start">
+          <MobileAwareNavLink
+            to="/drivers"
+            className="flex items-center gap-2"
+            activeProps={{
+              className: activeNavClass,
+            }}
+          >
+            <Users className="h-4 w-4" />
+            Drivers
+          </MobileAwareNavLink>
+        </Button>
+      )}
+      {can('runs:view') && (
+        <Button asChild variant="ghost" className="w-full justify-start">
+          <MobileAwareNavLink
+            to="/dispatch"
+            className="flex items-center gap-2"
+            activeProps={{
+              className: activeNavClass,
+            }}
+          >
+            <ClipboardList className="h-4 w-4" />
+            Dispatch
+          </MobileAwareNavLink>
+        </Button>
+      )}
+      {can('vehicles:edit') && (
+        <Button asChild variant="ghost" className="w-full justify-start">
+          <MobileAwareNavLink
+            to="/vehicles"
+            className="flex items-center gap-2"
+            activeProps={{
+              className: activeNavClass,
+            }}
+          >
+            <Truck className="h-4 w-4" />
+            Vehicles
+          </MobileAwareNavLink>
+        </Button>
+      )}
+      {can('runs:assign') && (
+        <Button asChild variant="ghost" className="w-full justify-start">
+          <MobileAwareNavLink
+            to="/create-runs"
+            className="flex items-center gap-2"
+            activeProps={{
+              className: activeNavClass,
+            }}
+          >
+            <Plus className="h-4 w-4" />
+            Create Runs
+          </MobileAwareNavLink>
+        </Button>
+      )}
+      {can('reports:generate') && (
+        <Button asChild variant="ghost" className="w-full justify-start">
+          <MobileAwareNavLink
+            to="/request-run-report"
+            className="flex items-center gap-2"
+            activeProps={{
+              className: activeNavClass,
+            }}
+          >
+            <FileText className="h-4 w-4" />
+            Request Run Report
+          </MobileAwareNavLink>
+        </Button>
+      )}
+      {can('templates:edit') && (
+        <Button asChild variant="ghost" className="w-full justify-start">
+          <MobileAwareNavLink
+            to="/report-templates"
+            className="flex items-center gap-2"
+            activeProps={{
+              className: activeNavClass,
+            }}
+          >
+            <LayoutTemplate className="h-4 w-4" />
+            Report Templates
+          </MobileAwareNavLink>
+        </Button>
+      )}
+      {can('billing:view') && (
+        <Button asChild variant="ghost" className="w-full justify-start">
+          <MobileAwareNavLink
+            to="/invoices"
+            className="flex items-center gap-2"
+            activeProps={{
+              className: activeNavClass,
+            }}
+          >
+            <Receipt className="h-4 w-4" />
+            Invoices
+          </MobileAwareNavLink>
+        </Button>
+      )}
     </>
   );
 }
@@ -10,14 +10,18 @@ import {
   AlertTriangle,
   Car,
   CheckCircle,
+  Circle,
   Clock,
   MapPin,
   Navigation,
   Plane,
   Timer,
+  Undo2,
+  Users,
   XCircle,
 } from 'lucide-react';
 import { useEffect, useState } from 'react';
+import { RunPassengerManifest } from '../components/run-passenger-manifest';
 import { Badge } from '../components/ui/badge';
 import { Button } from '../components/ui/button';
 import {
@@ -28,9 +32,21 @@ import {
   CardTitle,
 } from '../components/ui/card';
 import { BackButton } from '../components/ui/navigation-arrow';
-import { runsApi } from '../lib/api/client';
-import { useMultipleRunsData } from '../lib/hooks/use-api-data';
+import { runsApi, vehiclesApi } from '../lib/api/client';
+import {
+  useMultipleRunsData,
+  useMultiStopRoute,
+} from '../lib/hooks/use-api-data';
+import { formatRunPrice } from '../lib/money';
+import {
+  getRunItinerary,
+  getRunStopPassengerCount,
+  getRunStopProgress,
+} from '../lib/run-stops';
+import { type RunStop } from '../lib/schema';
+import { type RouteLeg } from '../lib/services/tomtom-service';
 import { toasts } from '../lib/toast';
+import { describeVehicle, VEHICLE_TYPE_LABELS } from '../lib/vehicles';
 
 export const Route = createFileRoute('/active-run')({
   component: ActiveRunPage,
@@ -137,6 +153,110 @@ function RunTimer({
   );
 }
 
+// The run's stops in order with how far along the driver is. ETAs come from
+// the routed legs; leg i ends at stop i since the route starts at pickup.
+function RunStopsProgress({
+  stops,
+  legs,
+  onToggle,
+  pendingIndex,
+}: {
+  stops: RunStop[];
+  legs?: RouteLeg[];
+  onToggle: (stopIndex: number, completed: boolean) => void;
+  pendingIndex: number | null;
+}) {
+  const progress = getRunStopProgress(stops);
+  const doneCount = progress.filter(state => state === 'done').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {doneCount} of {stops.length} stops done
+        </span>
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <Users className="h-4 w-4" />
+          {getRunStopPassengerCount(stops)} passengers
+        </span>
+      </div>
+
+      <ol className="space-y-2">
+        {stops.map((stop, index) => {
+          const state = progress[index];
+          const eta = legs?.[index]?.estimatedArrival;
+
+          return (
+            <li
+              key={index}
+              className={`flex items-center justify-between gap-3 rounded-md border p-3 ${
+                state === 'next'
+                  ? 'border-blue-300 bg-blue-50 dark:bg-blue-950'
+                  : ''
+              }`}
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                {state === 'done' ? (
+                  <CheckCircle className="h-5 w-5 shrink-0 text-green-600" />
+                ) : (
+                  <Circle
+                    className={`h-5 w-5 shrink-0 ${
+                      state === 'next'
+                        ? 'text-blue-600'
+                        : 'text-muted-foreground'
+                    }`}
+                  />
+                )}
+                <div className="min-w-0">
+                  <div
+                    className={`font-medium truncate ${
+                      state === 'done'
+                        ? 'text-muted-foreground line-through'
+                        : ''
+                    }`}
+                  >
+                    {index + 1}. {stop.location}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {stop.passengerCount} pax
+                    {stop.plannedTime &&
+                      ` · planned ${new Date(stop.plannedTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                    {state === 'done' && stop.completedAt
+                      ? ` · done ${new Date(stop.completedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                      : eta &&
+                        ` · ETA ${new Date(eta).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                  </div>
+                </div>
+              </div>
+              {state === 'done' ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onToggle(index, false)}
+                  disabled={pendingIndex !== null}
+                >
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Undo
+                </Button>
+              ) : (
+                <Button
+                  variant={state === 'next' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onToggle(index, true)}
+                  disabled={pendingIndex !== null}
+                >
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  {pendingIndex === index ? 'Saving...' : 'Done'}
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
 function ActiveRunPage() {
   const search = useSearch({ from: '/active-run' });
   const router = useRouter();
@@ -162,7 +282,7 @@ function ActiveRunPage() {
     },
     onError: error => {
       console.error('Failed to complete run:', error);
-      toasts.error('Error', 'Failed to complete the run. Please try again.');
+      toasts.error('Failed to complete run', error.message);
     },
   });
 
@@ -176,7 +296,27 @@ function ActiveRunPage() {
     },
     onError: error => {
       console.error('Failed to cancel run:', error);
-      toasts.error('Error', 'Failed to cancel the run. Please try again.');
+      toasts.error('Failed to cancel run', error.message);
+    },
+  });
+
+  // Mutation for ticking off one of the run's stops
+  const updateStopMutation = useMutation({
+    mutationFn: ({
+      runId,
+      stopIndex,
+      completed,
+    }: {
+      runId: string;
+      stopIndex: number;
+      completed: boolean;
+    }) => runsApi.updateRunStop(runId, stopIndex, completed),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['runs'] });
+    },
+    onError: error => {
+      console.error('Failed to update stop:', error);
+      toasts.error('Failed to update stop', error.message);
     },
   });
 
@@ -184,6 +324,25 @@ function ActiveRunPage() {
     runs.find(run => run.id === search.id && run.status === 'active') ||
     runs.find(run => run.status === 'active'); // Fallback to any active run
 
+  // The vehicle the run is driven in, if one was assigned
+  const { data: vehicles = [] } = useQuery({
+    queryKey: ['vehicles'],
+    queryFn: () => vehiclesApi.getVehicles(),
+    enabled: !!activeRun?.vehicleId,
+  });
+  const vehicle = vehicles.find(({ id }) => id === activeRun?.vehicleId);
+
+  // Route runs with stops through every stop, timed from when the run started
+  const hasStops = !!activeRun && activeRun.stops?.length > 0;
+  const { data: multiStopRoute } = useMultiStopRoute(
+    activeRun ? getRunItinerary(activeRun) : [],
+    activeRun?.activatedAt
+      ? new Date(activeRun.activatedAt).toISOString()
+      : undefined,
+    vehicle?.type,
+    hasStops
+  );
+
   // Get flight and traffic data
   const { data: runData } = useMultipleRunsData(activeRun ? [activeRun] : []);
   const flightStatus = runData[0]?.flightStatus;
@@ -454,6 +613,55 @@ function ActiveRunPage() {
           </CardContent>
         </Card>
 
+        {/* Stops Card */}
+        {hasStops && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MapPin className="h-5 w-5" />
+                Stops
+              </CardTitle>
+              <CardDescription>
+                Mark each stop done as you leave it
+                {multiStopRoute &&
+                  ` · ${Math.round(multiStopRoute.totalDistance / 1000)} km, dropoff ETA ${new Date(multiStopRoute.estimatedArrival).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RunStopsProgress
+                stops={activeRun.stops}
+                legs={multiStopRoute?.legs}
+                onToggle={(stopIndex, completed) =>
+                  updateStopMutation.mutate({
+                    runId: activeRun.id,
+                    stopIndex,
+                    completed,
+                  })
+                }
+                pendingIndex={
+                  updateStopMutation.isPending
+                    ? (updateStopMutation.variables?.stopIndex ?? null)
+                    : null
+                }
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Passengers Card */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Passengers
+            </CardTitle>
+            <CardDescription>Who is travelling on this run</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RunPassengerManifest runId={activeRun.id} />
+          </CardContent>
+        </Card>
+
         {/* Run Details Card */}
         <Card>
           <CardHeader>
@@ -471,7 +679,9 @@ function ActiveRunPage() {
                 <label className="text-sm font-medium text-muted-foreground">
                   Price
                 </label>
-                <div className="text-lg font-semibold">${activeRun.price}</div>
+                <div className="text-lg font-semibold">
+                  {formatRunPrice(activeRun)}
+                </div>
               </div>
               <div>
                 <label className="text-sm font-medium text-muted-foreground">
@@ -490,6 +700,18 @@ function ActiveRunPage() {
               </div>
             </div>
 
+            {vehicle && (
+              <div>
+                <label className="text-sm font-medium text-muted-foreground">
+                  Vehicle
+                </label>
+                <div className="text-lg">
+                  {VEHICLE_TYPE_LABELS[vehicle.type]} ·{' '}
+                  {describeVehicle(vehicle)}
+                </div>
+              </div>
+            )}
+
             {activeRun.notes && (
               <div>
                 <label className="text-sm font-medium text-muted-foreground">
@@ -10,10 +10,21 @@ import {
   MapPin,
   Plane,
   Plus,
+  Repeat,
   X,
 } from 'lucide-react';
 import { useEffect, useState } from 'react';
-import { useForm } from 'react-hook-form';
+import { useFieldArray, useForm } from 'react-hook-form';
+import {
+  type PendingRunConflicts,
+  RunConflictsDialog,
+} from '../components/run-conflicts-dialog';
+import {
+  DEFAULT_RUN_REPEAT_SETTINGS,
+  getRepeatRule,
+  RunRecurrenceFields,
+  type RunRepeatSettings,
+} from '../components/run-recurrence-fields';
 import { Button } from '../components/ui/button';
 import {
   Card,
@@ -32,11 +43,13 @@ import {
   FormMessage,
 } from '../components/ui/form';
 import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from '../components/ui/popover';
+import { PriceInput } from '../components/ui/price-input';
 import {
   Select,
   SelectContent,
@@ -45,16 +58,31 @@ import {
   SelectValue,
 } from '../components/ui/select';
 import { Textarea } from '../components/ui/textarea';
-import { runsApi } from '../lib/api/client';
+import {
+  runPassengersApi,
+  runSeriesApi,
+  runsApi,
+  vehiclesApi,
+} from '../lib/api/client';
 import { isDebugMode } from '../lib/debug';
+import { DEFAULT_CURRENCY, RUN_LINE_ITEM_TYPE_LABELS } from '../lib/money';
+import { type RunConflictMode } from '../lib/run-conflicts';
+import { type RunSeriesEditScope } from '../lib/run-series';
 import {
   convertParsedRunToForm,
   parseScheduleMessage,
 } from '../lib/schedule-parser';
 import type { FlightStatus } from '../lib/schema';
-import { NewRunFormSchema, type NewRunForm } from '../lib/schema';
+import {
+  MAX_RUN_PASSENGERS,
+  MAX_RUN_STOPS,
+  NewRunFormSchema,
+  RunLineItemType,
+  type NewRunForm,
+} from '../lib/schema';
 import { getFlightServiceWithConfig } from '../lib/services/flight-service';
 import { toasts } from '../lib/toast';
+import { describeVehicle, getManifestPassengerCount } from '../lib/vehicles';
 
 // Flight status state for the form
 interface FlightStatusState {
@@ -134,14 +162,39 @@ function DefaultAddRun() {
     }
   );
 
+  // Run waiting on the user to confirm it despite overlapping other runs
+  const [pendingConflicts, setPendingConflicts] = useState<{
+    data: NewRunForm;
+    mode: RunConflictMode;
+    runs: PendingRunConflicts[];
+  } | null>(null);
+  const [isCheckingConflicts, setIsCheckingConflicts] = useState(false);
+
+  // How a new run repeats, and whether an edit to a recurring run applies
+  // to the rest of its series
+  const [repeat, setRepeat] = useState<RunRepeatSettings>(
+    DEFAULT_RUN_REPEAT_SETTINGS
+  );
+  const [editScope, setEditScope] = useState<RunSeriesEditScope>('occurrence');
+
   // Query for edit mode
   const { data: editingRun } = useQuery({
     queryKey: ['run', search.edit],
-    queryFn: () =>
-      runsApi.getRuns().then(runs => runs.find(run => run.id === search.edit)),
+    queryFn: () => runsApi.getRun(search.edit!),
+    enabled: !!search.edit,
+  });
+
+  const { data: editingPassengers } = useQuery({
+    queryKey: ['run-passengers', search.edit],
+    queryFn: () => runPassengersApi.getPassengers(search.edit!),
     enabled: !!search.edit,
   });
 
+  const { data: vehicles = [] } = useQuery({
+    queryKey: ['vehicles'],
+    queryFn: () => vehiclesApi.getVehicles(),
+  });
+
   // Check sessionStorage for dismissed state on component mount
   useEffect(() => {
     const dismissed = sessionStorage.getItem('snake-river-info-dismissed');
@@ -168,15 +221,37 @@ function DefaultAddRun() {
       scheduledTime: '',
       estimatedDuration: 60,
       type: 'pickup',
-      price: '',
+      priceCents: 0,
+      currency: DEFAULT_CURRENCY,
+      lineItems: [],
+      stops: [],
+      passengers: [],
       notes: '',
     },
   });
 
-  // Effect to populate form when editing run is loaded
+  const lineItemFields = useFieldArray({
+    control: form.control,
+    name: 'lineItems',
+  });
+
+  const stopFields = useFieldArray({
+    control: form.control,
+    name: 'stops',
+  });
+
+  const passengerFields = useFieldArray({
+    control: form.control,
+    name: 'passengers',
+  });
+
+  // Effect to populate form when editing run and its manifest are loaded
   useEffect(() => {
-    if (editingRun) {
+    if (editingRun && editingPassengers) {
       form.reset({
+        reportTemplateId: editingRun.reportTemplateId,
+        reservation_id: editingRun.reservation_id,
+        billTo: editingRun.billTo ?? null,
         flightNumber: editingRun.flightNumber,
         airline: editingRun.airline,
         departure: editingRun.departure,
@@ -186,11 +261,16 @@ function DefaultAddRun() {
         scheduledTime: editingRun.scheduledTime,
         estimatedDuration: editingRun.estimatedDuration,
         type: editingRun.type,
-        price: editingRun.price,
+        priceCents: editingRun.priceCents,
+        currency: editingRun.currency,
+        lineItems: editingRun.lineItems,
+        stops: editingRun.stops || [],
+        passengers: editingPassengers,
+        vehicleId: editingRun.vehicleId ?? null,
         notes: editingRun.notes || '',
       });
     }
-  }, [editingRun, form]);
+  }, [editingRun, editingPassengers, form]);
 
   // Store default form values for undo functionality
   const defaultFormValues: NewRunForm = {
@@ -203,7 +283,11 @@ function DefaultAddRun() {
     scheduledTime: '',
     estimatedDuration: 60,
     type: 'pickup',
-    price: '',
+    priceCents: 0,
+    currency: DEFAULT_CURRENCY,
+    lineItems: [],
+    stops: [],
+    passengers: [],
     notes: '',
     reportTemplateId: '',
     reservation_id: '',
@@ -362,31 +446,88 @@ function DefaultAddRun() {
     };
   }, [form]);
 
+  // Warn before the server turns down a vehicle the manifest doesn't fit in
+  const watchedVehicleId = form.watch('vehicleId');
+  const watchedPassengers = form.watch('passengers');
+  const selectedVehicle = vehicles.find(({ id }) => id === watchedVehicleId);
+  const manifestPassengerCount = getManifestPassengerCount(
+    watchedPassengers ?? []
+  );
+  const exceedsVehicleCapacity =
+    !!selectedVehicle && manifestPassengerCount > selectedVehicle.capacity;
+
   // Watch form values to determine if any field has been filled
   const watchedValues = form.watch();
   const hasFilledFields = Object.values(watchedValues).some(
     value => value !== '' && value !== defaultFormValues.type
   );
 
-  // Mutation for creating/updating a run
+  const isSeriesEdit =
+    !!editingRun?.seriesId &&
+    !!editingRun.seriesOccurrence &&
+    editScope === 'future';
+  const repeatRule = editingRun ? null : getRepeatRule(repeat);
+
+  // Mutation for creating/updating a run, or a recurring run's series.
+  // Resolves to the number of runs saved.
   const createRunMutation = useMutation({
-    mutationFn: (data: NewRunForm) => {
+    mutationFn: async (data: NewRunForm): Promise<number> => {
+      if (editingRun && isSeriesEdit) {
+        const result = await runSeriesApi.updateFutureOccurrences(
+          editingRun.seriesId!,
+          editingRun.seriesOccurrence!,
+          data
+        );
+        if (result.skippedRunIds.length > 0) {
+          toasts.info(
+            'Some runs were not changed',
+            `${result.skippedRunIds.length} run(s) would overlap other runs and were left as they were.`
+          );
+        }
+        return result.runs.length;
+      }
+
       if (editingRun) {
-        return runsApi.updateRun(editingRun.id, data);
-      } else {
-        return runsApi.createRun(data);
+        await runsApi.updateRun(editingRun.id, data);
+        return 1;
+      }
+
+      if (repeatRule) {
+        const { scheduledTime, ...template } = data;
+        const result = await runSeriesApi.createSeries({
+          rule: repeatRule,
+          startDate: scheduledTime.slice(0, 10),
+          startTime: scheduledTime.slice(11, 16),
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+          template,
+        });
+        return result.runs.length;
       }
+
+      await runsApi.createRun(data);
+      return 1;
     },
-    onSuccess: (_, variables) => {
+    onSuccess: (savedCount, variables) => {
+      setPendingConflicts(null);
+
       // Invalidate and refetch runs
       queryClient.invalidateQueries({ queryKey: ['runs'] });
+      queryClient.invalidateQueries({ queryKey: ['run-passengers'] });
 
       // Show success toast
       const action = editingRun ? 'updated' : 'created';
-      toasts.success(
-        `Run ${action} successfully`,
-        `${variables.type === 'pickup' ? 'Pickup' : 'Dropoff'} run for flight ${variables.flightNumber} has been ${action}.`
-      );
+      const runLabel = `${variables.type === 'pickup' ? 'Pickup' : 'Dropoff'} run for flight ${variables.flightNumber}`;
+      if (isSeriesEdit || repeatRule) {
+        toasts.success(
+          `Recurring run ${action} successfully`,
+          `${runLabel} repeats; ${savedCount} upcoming run${savedCount === 1 ? ' has' : 's have'} been ${action}.`
+        );
+      } else {
+        toasts.success(
+          `Run ${action} successfully`,
+          `${runLabel} has been ${action}.`
+        );
+      }
 
       // Reset form
       form.reset();
@@ -399,14 +540,65 @@ function DefaultAddRun() {
         `Failed to ${editingRun ? 'update' : 'create'} run:`,
         error
       );
+      setPendingConflicts(null);
       toasts.error(
         `Failed to ${editingRun ? 'update' : 'create'} run`,
-        'Please check your information and try again.'
+        error.message || 'Please check your information and try again.'
       );
     },
   });
 
-  const onSubmit = (data: NewRunForm) => {
+  // Stop a recurring run's series from this run on
+  const endSeriesMutation = useMutation({
+    mutationFn: () =>
+      runSeriesApi.endSeries(
+        editingRun!.seriesId!,
+        editingRun!.seriesOccurrence!
+      ),
+    onSuccess: result => {
+      queryClient.invalidateQueries({ queryKey: ['runs'] });
+      toasts.success(
+        'Recurring run ended',
+        `${result.runs.length} upcoming run${result.runs.length === 1 ? ' was' : 's were'} cancelled.`
+      );
+      router.navigate({ to: '/runs' });
+    },
+    onError: error => {
+      toasts.error('Failed to end recurring run', error.message);
+    },
+  });
+
+  // Check the run against the driver's other runs first and ask before
+  // saving one that overlaps them
+  const onSubmit = async (data: NewRunForm) => {
+    if (repeat.preset === 'weekly' && repeat.byWeekday.length === 0) {
+      toasts.error('Pick at least one day for the run to repeat on');
+      return;
+    }
+
+    setIsCheckingConflicts(true);
+    try {
+      const { mode, conflicts } = await runsApi.checkRunConflicts(
+        [data],
+        editingRun?.id
+      );
+      if (conflicts[0]?.length > 0) {
+        setPendingConflicts({
+          data,
+          mode,
+          runs: [
+            { label: data.flightNumber || 'This run', conflicts: conflicts[0] },
+          ],
+        });
+        return;
+      }
+    } catch (error) {
+      // The server checks again when saving
+      console.warn('Could not check run conflicts:', error);
+    } finally {
+      setIsCheckingConflicts(false);
+    }
+
     createRunMutation.mutate(data);
   };
 
@@ -844,7 +1036,7 @@ function DefaultAddRun() {
                 />
                 <FormField
                   control={form.control}
-                  name="price"
+                  name="priceCents"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel className="flex items-center gap-2">
@@ -853,7 +1045,14 @@ function DefaultAddRun() {
                         <small className="text-destructive">*</small>
                       </FormLabel>
                       <FormControl>
-                        <Input placeholder="e.g., $100 or 176" {...field} />
+                        <PriceInput
+                          placeholder="e.g., 100 or 176.50"
+                          name={field.name}
+                          ref={field.ref}
+                          value={field.value}
+                          onValueChange={field.onChange}
+                          onBlur={field.onBlur}
+                        />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -861,6 +1060,430 @@ function DefaultAddRun() {
                 />
               </div>
 
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-sm font-medium">Stops</h3>
+                    <p className="text-xs text-muted-foreground">
+                      Places called at between pickup and dropoff, in order
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={stopFields.fields.length >= MAX_RUN_STOPS}
+                    onClick={() =>
+                      stopFields.append({
+                        location: '',
+                        plannedTime: null,
+                        passengerCount: 1,
+                      })
+                    }
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add Stop
+                  </Button>
+                </div>
+                {stopFields.fields.map((stop, index) => (
+                  <div
+                    key={stop.id}
+                    className="grid grid-cols-[1fr_14rem_5rem_auto] items-start gap-2"
+                  >
+                    <FormField
+                      control={form.control}
+                      name={`stops.${index}.location`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              placeholder={`Stop ${index + 1} location`}
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`stops.${index}.plannedTime`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <DateTimePicker
+                              value={field.value ?? ''}
+                              onChange={value => field.onChange(value || null)}
+                              placeholder="Planned time (optional)"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`stops.${index}.passengerCount`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={60}
+                              aria-label="Passengers"
+                              {...field}
+                              onChange={event =>
+                                field.onChange(event.target.valueAsNumber)
+                              }
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => stopFields.remove(index)}
+                      aria-label="Remove stop"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-sm font-medium">Passengers</h3>
+                    <p className="text-xs text-muted-foreground">
+                      The run's manifest: who is travelling, their bags and any
+                      special needs
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={
+                      passengerFields.fields.length >= MAX_RUN_PASSENGERS
+                    }
+                    onClick={() =>
+                      passengerFields.append({
+                        name: '',
+                        phone: '',
+                        count: 1,
+                        luggage: 0,
+                        specialNeeds: '',
+                      })
+                    }
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add Passenger
+                  </Button>
+                </div>
+                {passengerFields.fields.map((passenger, index) => (
+                  <div
+                    key={passenger.id}
+                    className="grid grid-cols-[1fr_10rem_4.5rem_4.5rem_1fr_auto] items-start gap-2"
+                  >
+                    <FormField
+                      control={form.control}
+                      name={`passengers.${index}.name`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input placeholder="Name" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`passengers.${index}.phone`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              type="tel"
+                              placeholder="Phone"
+                              {...field}
+                              value={field.value ?? ''}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`passengers.${index}.count`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              max={60}
+                              aria-label="Passengers in party"
+                              title="Passengers in party"
+                              {...field}
+                              onChange={event =>
+                                field.onChange(event.target.valueAsNumber)
+                              }
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`passengers.${index}.luggage`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={99}
+                              aria-label="Bags"
+                              title="Bags"
+                              {...field}
+                              onChange={event =>
+                                field.onChange(event.target.valueAsNumber)
+                              }
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`passengers.${index}.specialNeeds`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              placeholder="Special needs (optional)"
+                              {...field}
+                              value={field.value ?? ''}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => passengerFields.remove(index)}
+                      aria-label="Remove passenger"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <FormField
+                control={form.control}
+                name="vehicleId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vehicle</FormLabel>
+                    <Select
+                      onValueChange={value =>
+                        field.onChange(value === 'none' ? null : value)
+                      }
+                      value={field.value ?? 'none'}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select vehicle" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No vehicle</SelectItem>
+                        {vehicles
+                          .filter(
+                            vehicle =>
+                              vehicle.isActive || vehicle.id === field.value
+                          )
+                          .map(vehicle => (
+                            <SelectItem key={vehicle.id} value={vehicle.id}>
+                              {describeVehicle(vehicle)}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    {exceedsVehicleCapacity && (
+                      <p className="flex items-center gap-1 text-sm text-destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        {selectedVehicle.name} seats {selectedVehicle.capacity}{' '}
+                        passengers but the manifest has {manifestPassengerCount}
+                        .
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-sm font-medium">Line Items</h3>
+                    <p className="text-xs text-muted-foreground">
+                      Tips, tolls and surcharges billed on top of the price
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      lineItemFields.append({
+                        type: RunLineItemType.tip,
+                        description: '',
+                        amountCents: 0,
+                      })
+                    }
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add Item
+                  </Button>
+                </div>
+                {lineItemFields.fields.map((item, index) => (
+                  <div
+                    key={item.id}
+                    className="grid grid-cols-[8rem_1fr_8rem_auto] items-start gap-2"
+                  >
+                    <FormField
+                      control={form.control}
+                      name={`lineItems.${index}.type`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <Select
+                            onValueChange={field.onChange}
+                            value={field.value}
+                          >
+                            <FormControl>
+                              <SelectTrigger className="w-full">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {Object.values(RunLineItemType).map(type => (
+                                <SelectItem key={type} value={type}>
+                                  {RUN_LINE_ITEM_TYPE_LABELS[type]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`lineItems.${index}.description`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              placeholder="Description (optional)"
+                              {...field}
+                              value={field.value ?? ''}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`lineItems.${index}.amountCents`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <PriceInput
+                              placeholder="Amount"
+                              name={field.name}
+                              ref={field.ref}
+                              value={field.value}
+                              onValueChange={field.onChange}
+                              onBlur={field.onBlur}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => lineItemFields.remove(index)}
+                      aria-label="Remove line item"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              {!editingRun && (
+                <RunRecurrenceFields
+                  value={repeat}
+                  onChange={setRepeat}
+                  scheduledDate={watchedScheduledTime?.slice(0, 10)}
+                />
+              )}
+
+              {editingRun?.seriesId && (
+                <div className="space-y-2 rounded-lg border p-3">
+                  <Label className="flex items-center gap-2">
+                    <Repeat className="h-4 w-4" />
+                    This is a recurring run
+                  </Label>
+                  <Select
+                    value={editScope}
+                    onValueChange={scope =>
+                      setEditScope(scope as RunSeriesEditScope)
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="occurrence">
+                        Save changes to this run only
+                      </SelectItem>
+                      <SelectItem value="future">
+                        Save changes to this and future runs
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="w-full text-red-600"
+                    onClick={() => endSeriesMutation.mutate()}
+                    disabled={endSeriesMutation.isPending}
+                  >
+                    Cancel this and all future runs
+                  </Button>
+                </div>
+              )}
+
               <FormField
                 control={form.control}
                 name="notes"
@@ -891,7 +1514,7 @@ function DefaultAddRun() {
                 <Button
                   type="submit"
                   className="bg-green-600 text-white hover:bg-green-700"
-                  disabled={createRunMutation.isPending}
+                  disabled={createRunMutation.isPending || isCheckingConflicts}
                 >
                   {createRunMutation.isPending ? (
                     <>
@@ -910,6 +1533,16 @@ function DefaultAddRun() {
           </Form>
         </CardContent>
       </Card>
+
+      <RunConflictsDialog
+        pending={pendingConflicts?.runs || []}
+        mode={pendingConflicts?.mode || 'warn'}
+        isSaving={createRunMutation.isPending}
+        onConfirm={() =>
+          pendingConflicts && createRunMutation.mutate(pendingConflicts.data)
+        }
+        onOpenChange={open => !open && setPendingConflicts(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,315 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { createFileRoute } from '@tanstack/react-router';
+import { BookOpen, Play } from 'lucide-react';
+import { useState } from 'react';
+import { Badge } from '../components/ui/badge';
+import { Button } from '../components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Textarea } from '../components/ui/textarea';
+import { apiDocsApi } from '../lib/api/client';
+import { type OperationObject } from '../lib/openapi/document';
+
+export const Route = createFileRoute('/api-docs')({
+  component: ApiDocsPage,
+});
+
+const METHOD_COLORS: Record<string, string> = {
+  get: 'bg-blue-100 text-blue-800',
+  post: 'bg-green-100 text-green-800',
+  put: 'bg-amber-100 text-amber-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+// A documented route, flattened out of the document's paths
+interface DocumentedOperation {
+  method: string;
+  path: string;
+  operation: OperationObject;
+}
+
+function SchemaBlock({ schema }: { schema: unknown }) {
+  return (
+    <pre className="max-h-80 overflow-auto rounded-md bg-muted p-3 text-xs">
+      {JSON.stringify(schema, null, 2)}
+    </pre>
+  );
+}
+
+// One route: its parameters, request and response schemas, and a form to
+// call it
+function OperationCard({
+  method,
+  path,
+  operation,
+  apiToken,
+}: DocumentedOperation & { apiToken: string }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [params, setParams] = useState<Record<string, string>>({});
+  const [body, setBody] = useState('{}');
+
+  const parameters = operation.parameters || [];
+  const requestSchema =
+    operation.requestBody?.content?.['application/json']?.schema;
+  const successStatus = Object.keys(operation.responses || {})[0];
+  const responseSchema =
+    operation.responses?.[successStatus]?.content?.['application/json']?.schema;
+
+  const sendMutation = useMutation({
+    mutationFn: () => {
+      let url = path;
+      const query = new URLSearchParams();
+      parameters.forEach(parameter => {
+        const value = params[parameter.name];
+        if (!value) {
+          return;
+        }
+        if (parameter.in === 'path') {
+          url = url.replace(`{${parameter.name}}`, encodeURIComponent(value));
+        } else {
+          query.append(parameter.name, value);
+        }
+      });
+      if (query.toString()) {
+        url += `?${query}`;
+      }
+
+      return apiDocsApi.sendRequest(
+        method.toUpperCase(),
+        url,
+        requestSchema ? body : undefined,
+        apiToken.trim() || undefined
+      );
+    },
+  });
+
+  return (
+    <div className="rounded-md border">
+      <button
+        type="button"
+        className="flex w-full items-center gap-3 p-3 text-left"
+        onClick={() => setIsOpen(open => !open)}
+      >
+        <span
+          className={`w-16 shrink-0 rounded px-2 py-1 text-center text-xs font-semibold uppercase ${METHOD_COLORS[method] || ''}`}
+        >
+          {method}
+        </span>
+        <span className="font-mono text-sm">{path}</span>
+        <span className="hidden truncate text-sm text-muted-foreground sm:inline">
+          {operation.summary}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="space-y-4 border-t p-3 text-sm">
+          {operation.description && (
+            <p className="text-muted-foreground">{operation.description}</p>
+          )}
+          {(operation.security || []).some((entry: any) => entry.apiToken) && (
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">API token scope:</span>
+              {operation.security
+                .filter((entry: any) => entry.apiToken)
+                .flatMap((entry: any) => entry.apiToken)
+                .map((scope: string) => (
+                  <Badge key={scope} variant="secondary">
+                    {scope}
+                  </Badge>
+                ))}
+            </div>
+          )}
+
+          {parameters.length > 0 && (
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              {parameters.map(parameter => (
+                <div key={parameter.name} className="space-y-1">
+                  <Label htmlFor={`${method}-${path}-${parameter.name}`}>
+                    {parameter.name}
+                    <span className="text-xs font-normal text-muted-foreground">
+                      {parameter.in}
+                      {parameter.required ? ', required' : ''}
+                    </span>
+                  </Label>
+                  <Input
+                    id={`${method}-${path}-${parameter.name}`}
+                    placeholder={
+                      parameter.description ||
+                      parameter.schema?.enum?.join(' | ') ||
+                      parameter.schema?.type
+                    }
+                    value={params[parameter.name] || ''}
+                    onChange={event =>
+                      setParams(current => ({
+                        ...current,
+                        [parameter.name]: event.target.value,
+                      }))
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {requestSchema && (
+            <div className="space-y-2">
+              <div className="font-medium">Request body</div>
+              <SchemaBlock schema={requestSchema} />
+              <Textarea
+                className="font-mono text-xs"
+                rows={6}
+                value={body}
+                onChange={event => setBody(event.target.value)}
+              />
+            </div>
+          )}
+
+          {responseSchema && (
+            <div className="space-y-2">
+              <div className="font-medium">Response {successStatus}</div>
+              <SchemaBlock schema={responseSchema} />
+            </div>
+          )}
+
+          <Button
+            size="sm"
+            onClick={() => sendMutation.mutate()}
+            disabled={sendMutation.isPending}
+          >
+            <Play className="h-4 w-4 mr-2" />
+            Send Request
+          </Button>
+
+          {sendMutation.data && (
+            <div className="space-y-2">
+              <div className="font-medium">
+                Status {sendMutation.data.status}
+              </div>
+              <pre className="max-h-80 overflow-auto rounded-md bg-muted p-3 text-xs">
+                {sendMutation.data.body}
+              </pre>
+            </div>
+          )}
+          {sendMutation.error && (
+            <div className="text-red-600">{sendMutation.error.message}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Interactive reference for the API, built from /api/openapi.json
+function ApiDocsPage() {
+  const [apiToken, setApiToken] = useState('');
+
+  const {
+    data: document,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['openapi-document'],
+    queryFn: () => apiDocsApi.getOpenApiDocument(),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 text-muted-foreground">
+        Loading API reference...
+      </div>
+    );
+  }
+
+  if (error || !document) {
+    return (
+      <div className="container mx-auto px-4 py-8 text-muted-foreground">
+        Failed to load the API reference.
+      </div>
+    );
+  }
+
+  // Group routes by tag, in the order they're documented
+  const operationsByTag = new Map<string, DocumentedOperation[]>();
+  Object.entries(document.paths).forEach(([path, methods]) => {
+    Object.entries(methods).forEach(([method, operation]) => {
+      const tag = operation.tags?.[0] || 'Other';
+      operationsByTag.set(tag, [
+        ...(operationsByTag.get(tag) || []),
+        { method, path, operation },
+      ]);
+    });
+  });
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+            <BookOpen className="h-5 w-5" />
+            {document.info.title}
+            <Badge variant="secondary">{document.info.version}</Badge>
+          </CardTitle>
+          <CardDescription>{document.info.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <p className="text-muted-foreground">
+            Requests are sent as you. To try a /api/v1 route as an API token,
+            paste it here. The raw document is at{' '}
+            <span className="font-mono">/api/openapi.json</span>.
+          </p>
+          <Input
+            type="password"
+            placeholder="tt_..."
+            value={apiToken}
+            onChange={event => setApiToken(event.target.value)}
+            className="max-w-md font-mono"
+          />
+        </CardContent>
+      </Card>
+
+      {Array.from(operationsByTag.entries()).map(([tag, operations]) => (
+        <Card key={tag}>
+          <CardHeader>
+            <CardTitle className="text-lg">{tag}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {operations.map(({ method, path, operation }) => (
+              <OperationCard
+                key={`${method} ${path}`}
+                method={method}
+                path={path}
+                operation={operation}
+                apiToken={apiToken}
+              />
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Schemas</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {Object.entries(document.components.schemas).map(([name, schema]) => (
+            <details key={name}>
+              <summary className="cursor-pointer font-mono text-sm">
+                {name}
+              </summary>
+              <div className="mt-2">
+                <SchemaBlock schema={schema} />
+              </div>
+            </details>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
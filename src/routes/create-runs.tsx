@@ -32,7 +32,7 @@ import {
   SelectValue,
 } from '../components/ui/select';
 import { reportTemplatesApi } from '../lib/api/client';
-import { useNonAdminRedirect } from '../lib/hooks/use-non-admin-redirect';
+import { useRequireCapability } from '../lib/hooks/use-can';
 import { cn } from '../lib/utils';
 
 export const Route = createFileRoute('/create-runs')({
@@ -40,13 +40,13 @@ export const Route = createFileRoute('/create-runs')({
 });
 
 function CreateRunsPage() {
-  const { isAdmin } = useNonAdminRedirect('/runs');
+  const { isAllowed } = useRequireCapability('runs:assign', '/runs');
 
   // Fetch templates using the same API client as report-templates.tsx
   const { data: templates = [], isLoading: templatesLoading } = useQuery({
     queryKey: ['report-templates'],
     queryFn: () => reportTemplatesApi.getReportTemplates(),
-    enabled: !!isAdmin,
+    enabled: isAllowed,
   });
 
   const [selectedTemplate, setSelectedTemplate] = useState<string>('');
@@ -87,8 +87,8 @@ function CreateRunsPage() {
     });
   };
 
-  // Show loading or nothing while redirecting non-admin users
-  if (!isAdmin) {
+  // Show nothing while redirecting users who can't assign runs
+  if (!isAllowed) {
     return null;
   }
 
@@ -0,0 +1,415 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createFileRoute } from '@tanstack/react-router';
+import { ClipboardList, Plane, Sparkles, UserCheck, UserX } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Badge } from '../components/ui/badge';
+import { Button } from '../components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '../components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../components/ui/select';
+import { useAppContext } from '../lib/AppContextProvider';
+import { dispatchApi, organizationsApi } from '../lib/api/client';
+import {
+  canAssignRun,
+  DEFAULT_DISPATCH_DAYS,
+  type DispatchRun,
+  type DriverRecommendation,
+} from '../lib/dispatch';
+import { useRequireCapability } from '../lib/hooks/use-can';
+import { useTimezoneFormatters } from '../lib/hooks/use-timezone';
+import {
+  getOrganizationRole,
+  ORGANIZATION_ROLE_LABELS,
+} from '../lib/permissions';
+import { RUN_STATUS_LABELS } from '../lib/run-status';
+import { toasts } from '../lib/toast';
+
+export const Route = createFileRoute('/dispatch')({
+  component: DispatchPage,
+});
+
+// How far ahead the board can look
+const DISPATCH_DAY_OPTIONS = [1, 3, 7, 14, 30];
+
+interface DispatchMember {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+}
+
+// Label a member in the driver picker with their role unless they drive
+function getMemberLabel(member: DispatchMember): string {
+  const name = `${member.firstName} ${member.lastName}`;
+  const role = getOrganizationRole(member.role);
+  return role === 'driver'
+    ? name
+    : `${name} (${ORGANIZATION_ROLE_LABELS[role].toLowerCase()})`;
+}
+
+// A single run on the board with its driver picker, read-only for roles
+// that can view runs but not assign them
+function DispatchRunRow({
+  run,
+  members,
+  canAssign,
+  isAssigning,
+  onAssign,
+  onSuggest,
+}: {
+  run: DispatchRun;
+  members: DispatchMember[];
+  canAssign: boolean;
+  isAssigning: boolean;
+  onAssign: (run: DispatchRun, driverId: string) => void;
+  onSuggest: (run: DispatchRun) => void;
+}) {
+  const { formatScheduleTime } = useTimezoneFormatters();
+  const assignable = canAssign && canAssignRun(run);
+
+  return (
+    <div className="flex flex-col gap-3 p-3 bg-muted rounded-lg text-sm sm:flex-row sm:items-center sm:justify-between">
+      <div className="min-w-0 space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">
+            {formatScheduleTime(run.scheduledTime)}
+          </span>
+          <Badge variant="outline" className="capitalize">
+            {run.type}
+          </Badge>
+          {run.status === 'active' && (
+            <Badge variant="secondary">{RUN_STATUS_LABELS[run.status]}</Badge>
+          )}
+        </div>
+        <p className="flex items-center gap-1 text-muted-foreground">
+          <Plane className="h-3 w-3 shrink-0" />
+          <span className="font-mono">{run.flightNumber}</span>
+          <span className="truncate">
+            • {run.pickupLocation} → {run.dropoffLocation}
+          </span>
+        </p>
+      </div>
+
+      <div className="flex items-start gap-2 sm:w-64 shrink-0">
+        {assignable && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-9 w-9 shrink-0"
+            onClick={() => onSuggest(run)}
+            aria-label="Suggest drivers"
+          >
+            <Sparkles className="h-4 w-4" />
+          </Button>
+        )}
+        <div className="flex-1 min-w-0">
+          <Select
+            value={run.userId}
+            onValueChange={driverId => onAssign(run, driverId)}
+            disabled={!assignable || isAssigning}
+          >
+            <SelectTrigger aria-label="Assign driver">
+              <SelectValue placeholder="Assign driver">
+                {run.isAssigned ? run.driverName : 'Unassigned'}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {members.map(member => (
+                <SelectItem key={member.userId} value={member.userId}>
+                  {getMemberLabel(member)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {canAssign && !assignable && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Active runs can't be reassigned
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Drivers ranked for a run, with the reasons behind each ranking
+function DriverSuggestionsDialog({
+  run,
+  isAssigning,
+  onAssign,
+  onOpenChange,
+}: {
+  run: DispatchRun | null;
+  isAssigning: boolean;
+  onAssign: (run: DispatchRun, driverId: string) => void;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { formatScheduleTime } = useTimezoneFormatters();
+
+  const {
+    data: recommendations = [],
+    isLoading,
+    isError,
+    error,
+  } = useQuery({
+    queryKey: ['driver-recommendations', run?.id],
+    queryFn: () => dispatchApi.getRecommendations(run!.id),
+    enabled: !!run,
+  });
+
+  const renderRecommendation = (recommendation: DriverRecommendation) => (
+    <div
+      key={recommendation.userId}
+      className="flex items-start justify-between gap-3 p-3 bg-muted rounded-lg text-sm"
+    >
+      <div className="min-w-0 space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{recommendation.driverName}</span>
+          {recommendation.isEligible ? (
+            <Badge variant="secondary">{recommendation.score}</Badge>
+          ) : (
+            <Badge variant="outline">unavailable</Badge>
+          )}
+          {recommendation.isCurrentDriver && (
+            <Badge variant="outline">current</Badge>
+          )}
+        </div>
+        <ul className="text-xs text-muted-foreground space-y-0.5">
+          {recommendation.reasons.map(reason => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      </div>
+      <Button
+        size="sm"
+        variant={recommendation.isEligible ? 'default' : 'secondary'}
+        onClick={() => run && onAssign(run, recommendation.userId)}
+        disabled={isAssigning || recommendation.isCurrentDriver}
+      >
+        Assign
+      </Button>
+    </div>
+  );
+
+  return (
+    <Dialog open={!!run} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Suggested Drivers</DialogTitle>
+          <DialogDescription>
+            {run
+              ? `Best fits for ${run.flightNumber} (${formatScheduleTime(run.scheduledTime)}) by availability, travel from their last dropoff and the day's workload`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Ranking drivers...</p>
+        ) : isError ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error
+              ? error.message
+              : 'Failed to load driver suggestions.'}
+          </p>
+        ) : recommendations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No drivers in your organization to suggest.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {recommendations.map(renderRecommendation)}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DispatchPage() {
+  const { currentUser } = useAppContext();
+  const { isAllowed, isLoading, can, organization } = useRequireCapability(
+    'runs:view',
+    '/runs'
+  );
+  const canAssign = can('runs:assign');
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState(DEFAULT_DISPATCH_DAYS);
+  const [suggestionsRun, setSuggestionsRun] = useState<DispatchRun | null>(
+    null
+  );
+
+  const { data: membersData } = useQuery({
+    queryKey: ['organization-members', organization?.id],
+    queryFn: () => organizationsApi.getOrganizationMembers(organization!.id),
+    enabled: !!organization?.id && !!currentUser?.id,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  const { data: runs = [], isLoading: runsLoading } = useQuery({
+    queryKey: ['dispatch-board', days],
+    queryFn: () => dispatchApi.getBoard(days),
+    enabled: isAllowed,
+    refetchInterval: 1000 * 60, // 1 minute
+  });
+
+  const members: DispatchMember[] = membersData?.members || [];
+
+  const { unassignedRuns, assignedRuns } = useMemo(
+    () => ({
+      unassignedRuns: runs.filter(run => !run.isAssigned),
+      assignedRuns: runs.filter(run => run.isAssigned),
+    }),
+    [runs]
+  );
+
+  const assignRunMutation = useMutation({
+    mutationFn: ({ run, driverId }: { run: DispatchRun; driverId: string }) =>
+      dispatchApi.assignRun(run.id, driverId),
+    onSuccess: (_, { run, driverId }) => {
+      setSuggestionsRun(null);
+      queryClient.invalidateQueries({ queryKey: ['dispatch-board'] });
+      queryClient.invalidateQueries({ queryKey: ['driver-recommendations'] });
+      queryClient.invalidateQueries({ queryKey: ['organization-runs'] });
+      queryClient.invalidateQueries({ queryKey: ['runs'] });
+      const driver = members.find(member => member.userId === driverId);
+      toasts.success(
+        'Run assigned',
+        `${run.flightNumber} • ${driver ? `${driver.firstName} ${driver.lastName}` : 'driver'}`
+      );
+    },
+    onError: error => {
+      console.error('Failed to assign run:', error);
+      toasts.error('Failed to assign run', error.message);
+    },
+  });
+
+  const handleAssign = (run: DispatchRun, driverId: string) => {
+    if (driverId !== run.userId) {
+      assignRunMutation.mutate({ run, driverId });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading dispatch board...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const renderRuns = (sectionRuns: DispatchRun[], emptyMessage: string) => (
+    <>
+      {runsLoading && (
+        <p className="text-sm text-muted-foreground">Loading runs...</p>
+      )}
+      {!runsLoading && sectionRuns.length === 0 && (
+        <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+      )}
+      {sectionRuns.map(run => (
+        <DispatchRunRow
+          key={run.id}
+          run={run}
+          members={members}
+          canAssign={canAssign}
+          isAssigning={
+            assignRunMutation.isPending &&
+            assignRunMutation.variables?.run.id === run.id
+          }
+          onAssign={handleAssign}
+          onSuggest={setSuggestionsRun}
+        />
+      ))}
+    </>
+  );
+
+  return (
+    <div className="container mx-auto py-6 max-w-4xl px-4 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <ClipboardList className="h-6 w-6" />
+            Dispatch
+          </h1>
+          <p className="text-muted-foreground text-sm">
+            Assign upcoming runs to drivers in your organization.
+          </p>
+        </div>
+        <Select
+          value={String(days)}
+          onValueChange={value => setDays(Number(value))}
+        >
+          <SelectTrigger className="w-36" aria-label="Days ahead">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DISPATCH_DAY_OPTIONS.map(option => (
+              <SelectItem key={option} value={String(option)}>
+                Next {option} {option === 1 ? 'day' : 'days'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserX className="h-4 w-4" />
+            Unassigned ({unassignedRuns.length})
+          </CardTitle>
+          <CardDescription>
+            Runs still held by a dispatcher or other staff member
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {renderRuns(unassignedRuns, 'Every upcoming run has a driver.')}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserCheck className="h-4 w-4" />
+            Assigned ({assignedRuns.length})
+          </CardTitle>
+          <CardDescription>
+            Pick another driver to reassign a run that hasn't started
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {renderRuns(assignedRuns, 'No runs are assigned to drivers yet.')}
+        </CardContent>
+      </Card>
+
+      <DriverSuggestionsDialog
+        run={suggestionsRun}
+        isAssigning={assignRunMutation.isPending}
+        onAssign={handleAssign}
+        onOpenChange={open => !open && setSuggestionsRun(null)}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { createFileRoute, Link } from '@tanstack/react-router';
+import { formatInTimeZone } from 'date-fns-tz';
 import {
   Activity,
   AlertCircle,
@@ -8,14 +9,19 @@ import {
   Car,
   Clock,
   DollarSign,
+  Download,
   Filter,
+  Gauge,
   MapPin,
   MessageCircle,
   Search,
   Send,
+  Settings,
   Users,
+  Wallet,
 } from 'lucide-react';
 import { useMemo, useState } from 'react';
+import { DriverAvailabilityCalendar } from '../components/driver-availability-calendar';
 import { Badge } from '../components/ui/badge';
 import { Button } from '../components/ui/button';
 import {
@@ -25,6 +31,14 @@ import {
   CardHeader,
   CardTitle,
 } from '../components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
 import {
   ExpandableActionsDrawer,
   type DrawerAction,
@@ -39,10 +53,36 @@ import {
   SelectTrigger,
   SelectValue,
 } from '../components/ui/select';
-import { organizationsApi, runsApi } from '../lib/api/client';
+import { TimezoneCombobox } from '../components/ui/timezone-combobox';
+import timezonesData from '../data/timezones.json';
+import {
+  driverEarningsApi,
+  driverMileageApi,
+  driverPaySettingsApi,
+  organizationsApi,
+  runsApi,
+} from '../lib/api/client';
 import { useAppContext } from '../lib/AppContextProvider';
-import { useNonAdminRedirect } from '../lib/hooks/use-non-admin-redirect';
-import { type Run } from '../lib/schema';
+import { downloadBlob } from '../lib/download';
+import { useCan, useRequireCapability } from '../lib/hooks/use-can';
+import { formatCents, formatRunPrice } from '../lib/money';
+import {
+  DRIVER_PAY_TYPE_LABELS,
+  describePayRate,
+} from '../lib/payroll/earnings';
+import {
+  getRecentPayPeriods,
+  PAY_PERIOD_FREQUENCY_LABELS,
+  type PayPeriod,
+} from '../lib/payroll/pay-periods';
+import { formatReportCurrency } from '../lib/reports/summary';
+import {
+  type DriverPaySettings,
+  DriverPayType,
+  PayPeriodFrequency,
+  ReportFormat,
+  type Run,
+} from '../lib/schema';
 import { toasts } from '../lib/toast';
 
 export const Route = createFileRoute('/driver/$driverId')({
@@ -73,6 +113,619 @@ async function sendStatusRequestSMS(
   console.log('✅ Status request SMS sent successfully');
 }
 
+// Number of pay periods offered in the statement period picker
+const STATEMENT_PERIOD_COUNT = 12;
+
+// Pay period dates in the organization's pay timezone, e.g. "Jan 6 - Jan 12, 2025"
+function formatPayPeriod(period: PayPeriod, timezone: string): string {
+  return `${formatInTimeZone(period.startDate, timezone, 'MMM d')} - ${formatInTimeZone(period.endDate, timezone, 'MMM d, yyyy')}`;
+}
+
+// Form state for the pay settings dialog; numeric fields are kept as text
+// while editing
+interface PaySettingsFormState {
+  payType: DriverPayType;
+  commissionPercent: string;
+  flatRate: string;
+  payPeriod: PayPeriodFrequency;
+  periodAnchor: string;
+  timezone: string;
+  mileageRate: string;
+}
+
+// Dialog for editing the organization-wide driver pay settings
+function PaySettingsDialog({
+  open,
+  onOpenChange,
+  settings,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: DriverPaySettings;
+}) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<PaySettingsFormState>(() => ({
+    payType: settings.payType,
+    commissionPercent: String(settings.commissionPercent),
+    flatRate: String(settings.flatRate),
+    payPeriod: settings.payPeriod,
+    periodAnchor: settings.periodAnchor,
+    timezone: settings.timezone,
+    mileageRate: String(settings.mileageRate),
+  }));
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: () =>
+      driverPaySettingsApi.updateSettings({
+        payType: form.payType,
+        commissionPercent: Number(form.commissionPercent) || 0,
+        flatRate: Number(form.flatRate) || 0,
+        payPeriod: form.payPeriod,
+        periodAnchor: form.periodAnchor,
+        timezone: form.timezone,
+        mileageRate: Number(form.mileageRate) || 0,
+      }),
+    onSuccess: savedSettings => {
+      queryClient.invalidateQueries({ queryKey: ['driver-pay-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['driver-earnings'] });
+      queryClient.invalidateQueries({ queryKey: ['driver-mileage'] });
+      toasts.success('Pay settings saved', describePayRate(savedSettings));
+      onOpenChange(false);
+    },
+    onError: error => {
+      console.error('Failed to save pay settings:', error);
+      toasts.error('Failed to save pay settings', error.message);
+    },
+  });
+
+  const updateForm = (changes: Partial<PaySettingsFormState>) =>
+    setForm(prev => ({ ...prev, ...changes }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Driver Pay Settings</DialogTitle>
+          <DialogDescription>
+            These settings apply to every driver in the organization
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Pay Type</Label>
+              <Select
+                value={form.payType}
+                onValueChange={value =>
+                  updateForm({ payType: value as DriverPayType })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(DriverPayType).map(payType => (
+                    <SelectItem key={payType} value={payType}>
+                      {DRIVER_PAY_TYPE_LABELS[payType]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.payType === DriverPayType.commission ? (
+              <div className="space-y-2">
+                <Label htmlFor="payCommission">Commission (%)</Label>
+                <Input
+                  id="payCommission"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  value={form.commissionPercent}
+                  onChange={event =>
+                    updateForm({ commissionPercent: event.target.value })
+                  }
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="payFlatRate">Rate per Run ($)</Label>
+                <Input
+                  id="payFlatRate"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.flatRate}
+                  onChange={event =>
+                    updateForm({ flatRate: event.target.value })
+                  }
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Pay Period</Label>
+              <Select
+                value={form.payPeriod}
+                onValueChange={value =>
+                  updateForm({ payPeriod: value as PayPeriodFrequency })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(PayPeriodFrequency).map(payPeriod => (
+                    <SelectItem key={payPeriod} value={payPeriod}>
+                      {PAY_PERIOD_FREQUENCY_LABELS[payPeriod]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.payPeriod !== PayPeriodFrequency.monthly && (
+              <div className="space-y-2">
+                <Label htmlFor="payPeriodAnchor">A Period Starts On</Label>
+                <Input
+                  id="payPeriodAnchor"
+                  type="date"
+                  value={form.periodAnchor}
+                  onChange={event =>
+                    updateForm({ periodAnchor: event.target.value })
+                  }
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Timezone</Label>
+            <TimezoneCombobox
+              timezones={timezonesData.timezones}
+              value={form.timezone}
+              onValueChange={timezone => updateForm({ timezone })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payMileageRate">Mileage Rate ($ per mile)</Label>
+            <Input
+              id="payMileageRate"
+              type="number"
+              min="0"
+              max="10"
+              step="0.001"
+              value={form.mileageRate}
+              onChange={event =>
+                updateForm({ mileageRate: event.target.value })
+              }
+            />
+            <p className="text-xs text-muted-foreground">
+              Reimbursement for drivers using their own vehicles.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveSettingsMutation.mutate()}
+            disabled={!form.periodAnchor || saveSettingsMutation.isPending}
+          >
+            Save Settings
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Card showing a driver's earnings for a selected pay period, with exports
+function EarningsStatementCard({ driverId }: { driverId: string }) {
+  const { can } = useCan();
+  const [periodIndex, setPeriodIndex] = useState('0');
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ReportFormat | null>(
+    null
+  );
+
+  const { data: settings } = useQuery({
+    queryKey: ['driver-pay-settings'],
+    queryFn: () => driverPaySettingsApi.getSettings(),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  const periods = useMemo(
+    () =>
+      settings ? getRecentPayPeriods(settings, STATEMENT_PERIOD_COUNT) : [],
+    [settings]
+  );
+  const selectedPeriod = periods[Number(periodIndex)] ?? periods[0];
+
+  const {
+    data: statement,
+    isLoading: statementLoading,
+    isError: statementError,
+    error: statementErrorDetails,
+  } = useQuery({
+    queryKey: [
+      'driver-earnings',
+      driverId,
+      selectedPeriod?.startDate.toISOString(),
+    ],
+    queryFn: () =>
+      driverEarningsApi.getStatement(driverId, selectedPeriod!.startDate),
+    enabled: !!selectedPeriod,
+  });
+
+  const handleExport = async (statementFormat: ReportFormat) => {
+    if (!selectedPeriod) {
+      return;
+    }
+
+    setExportingFormat(statementFormat);
+    try {
+      const { blob, filename } = await driverEarningsApi.exportStatement(
+        driverId,
+        statementFormat,
+        selectedPeriod.startDate
+      );
+      downloadBlob(blob, filename || `earnings.${statementFormat}`);
+    } catch (error) {
+      console.error('Failed to export statement:', error);
+      toasts.error(
+        'Failed to export statement',
+        error instanceof Error ? error.message : undefined
+      );
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="h-5 w-5" />
+              Earnings
+            </CardTitle>
+            <CardDescription>
+              {settings
+                ? `${describePayRate(settings)} • ${PAY_PERIOD_FREQUENCY_LABELS[settings.payPeriod]} pay periods`
+                : 'Completed runs and pay for each pay period'}
+            </CardDescription>
+          </div>
+          {can('payroll:edit') && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSettingsOpen(true)}
+              disabled={!settings}
+            >
+              <Settings className="h-4 w-4" />
+              Pay Settings
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="flex-1">
+            <Select value={periodIndex} onValueChange={setPeriodIndex}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a pay period..." />
+              </SelectTrigger>
+              <SelectContent>
+                {settings &&
+                  periods.map((period, index) => (
+                    <SelectItem
+                      key={period.startDate.toISOString()}
+                      value={String(index)}
+                    >
+                      {formatPayPeriod(period, settings.timezone)}
+                      {index === 0 ? ' (current)' : ''}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            {[ReportFormat.csv, ReportFormat.pdf].map(statementFormat => (
+              <Button
+                key={statementFormat}
+                variant="outline"
+                onClick={() => handleExport(statementFormat)}
+                disabled={!statement || exportingFormat !== null}
+              >
+                <Download className="h-4 w-4" />
+                {statementFormat.toUpperCase()}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {statementLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Loading statement...
+          </p>
+        ) : statementError || !statement ? (
+          <p className="text-sm text-destructive text-center py-4">
+            {statementErrorDetails?.message ||
+              'Failed to load earnings statement'}
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+              <div>
+                <div className="text-xs font-medium text-muted-foreground">
+                  Completed Runs
+                </div>
+                <div className="text-lg font-bold">{statement.runCount}</div>
+              </div>
+              <div>
+                <div className="text-xs font-medium text-muted-foreground">
+                  Run Revenue
+                </div>
+                <div className="text-lg font-bold">
+                  {formatCents(statement.grossRevenueCents, statement.currency)}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs font-medium text-muted-foreground">
+                  Tips
+                </div>
+                <div className="text-lg font-bold">
+                  {formatCents(statement.totalTipsCents, statement.currency)}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs font-medium text-muted-foreground">
+                  Earnings
+                </div>
+                <div className="text-lg font-bold text-green-600">
+                  {formatCents(
+                    statement.totalEarningsCents,
+                    statement.currency
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {statement.lines.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No completed runs in this pay period
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {statement.lines.map(line => (
+                  <div
+                    key={line.runId}
+                    className="flex items-center justify-between gap-3 p-2 bg-muted rounded-lg text-sm"
+                  >
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">
+                        {line.description}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatInTimeZone(
+                          line.scheduledTime,
+                          statement.timezone,
+                          'MMM d, h:mm a'
+                        )}{' '}
+                        • {formatCents(line.priceCents, statement.currency)}
+                        {line.tipsCents > 0 &&
+                          ` • ${formatCents(line.tipsCents, statement.currency)} tip`}
+                      </div>
+                    </div>
+                    <span className="font-medium">
+                      {formatCents(line.earningsCents, statement.currency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      {settingsOpen && settings && (
+        <PaySettingsDialog
+          open={settingsOpen}
+          onOpenChange={setSettingsOpen}
+          settings={settings}
+        />
+      )}
+    </Card>
+  );
+}
+
+// Card showing a driver's business miles for a selected pay period and the
+// reimbursement owed for them
+function MileageLogCard({ driverId }: { driverId: string }) {
+  const [periodIndex, setPeriodIndex] = useState('0');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: settings } = useQuery({
+    queryKey: ['driver-pay-settings'],
+    queryFn: () => driverPaySettingsApi.getSettings(),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  const periods = useMemo(
+    () =>
+      settings ? getRecentPayPeriods(settings, STATEMENT_PERIOD_COUNT) : [],
+    [settings]
+  );
+  const selectedPeriod = periods[Number(periodIndex)] ?? periods[0];
+
+  const {
+    data: log,
+    isLoading: logLoading,
+    isError: logError,
+  } = useQuery({
+    queryKey: [
+      'driver-mileage',
+      driverId,
+      selectedPeriod?.startDate.toISOString(),
+    ],
+    queryFn: () =>
+      driverMileageApi.getMileageLog(driverId, selectedPeriod!.startDate),
+    enabled: !!selectedPeriod,
+  });
+
+  const handleExport = async () => {
+    if (!selectedPeriod) {
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const { blob, filename } = await driverMileageApi.exportMileageLog(
+        driverId,
+        selectedPeriod.startDate
+      );
+      downloadBlob(blob, filename || 'mileage.csv');
+    } catch (error) {
+      console.error('Failed to export mileage log:', error);
+      toasts.error(
+        'Failed to export mileage log',
+        error instanceof Error ? error.message : undefined
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Mileage
+        </CardTitle>
+        <CardDescription>
+          {settings
+            ? `Completed runs reimbursed at ${formatReportCurrency(settings.mileageRate)} per mile`
+            : 'Miles driven on completed runs for each pay period'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="flex-1">
+            <Select value={periodIndex} onValueChange={setPeriodIndex}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a pay period..." />
+              </SelectTrigger>
+              <SelectContent>
+                {settings &&
+                  periods.map((period, index) => (
+                    <SelectItem
+                      key={period.startDate.toISOString()}
+                      value={String(index)}
+                    >
+                      {formatPayPeriod(period, settings.timezone)}
+                      {index === 0 ? ' (current)' : ''}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            disabled={!log || isExporting}
+          >
+            <Download className="h-4 w-4" />
+            CSV
+          </Button>
+        </div>
+
+        {logLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Loading mileage log...
+          </p>
+        ) : logError || !log ? (
+          <p className="text-sm text-destructive text-center py-4">
+            Failed to load mileage log
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <div className="text-xs font-medium text-muted-foreground">
+                  Trips
+                </div>
+                <div className="text-lg font-bold">{log.tripCount}</div>
+              </div>
+              <div>
+                <div className="text-xs font-medium text-muted-foreground">
+                  Miles
+                </div>
+                <div className="text-lg font-bold">
+                  {log.totalMiles.toFixed(1)}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs font-medium text-muted-foreground">
+                  Reimbursement
+                </div>
+                <div className="text-lg font-bold text-green-600">
+                  {formatReportCurrency(log.reimbursement)}
+                </div>
+              </div>
+            </div>
+
+            {log.unmeasuredTripCount > 0 && (
+              <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                <AlertCircle className="h-3 w-3" />
+                {log.unmeasuredTripCount} trip
+                {log.unmeasuredTripCount === 1 ? '' : 's'} couldn't be measured
+                and {log.unmeasuredTripCount === 1 ? "isn't" : "aren't"}{' '}
+                included.
+              </p>
+            )}
+
+            {log.trips.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No completed runs in this pay period
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {log.trips.map(trip => (
+                  <div
+                    key={trip.runId}
+                    className="flex items-center justify-between gap-3 p-2 bg-muted rounded-lg text-sm"
+                  >
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{trip.purpose}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {formatInTimeZone(trip.date, log.timezone, 'MMM d')} •{' '}
+                        {trip.from} → {trip.to}
+                      </div>
+                    </div>
+                    <span className="font-medium shrink-0">
+                      {trip.miles === null
+                        ? '—'
+                        : `${trip.miles.toFixed(1)} mi`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function DriverDetailPage() {
   const { driverId } = Route.useParams();
   const { currentUser } = useAppContext();
@@ -83,17 +736,16 @@ function DriverDetailPage() {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedLocations, setSelectedLocations] = useState<string[]>([]);
 
-  const { isAdmin, organization } = useNonAdminRedirect('/runs');
+  const { isAllowed, can, organization } = useRequireCapability(
+    'drivers:view',
+    '/runs'
+  );
 
   // Fetch organization members to get driver information
   const { data: membersData, isLoading: membersLoading } = useQuery({
     queryKey: ['organization-members', organization?.id],
-    queryFn: () =>
-      organizationsApi.getOrganizationMembers(
-        organization!.id,
-        currentUser!.id
-      ),
-    enabled: !!organization?.id && !!currentUser?.id && isAdmin,
+    queryFn: () => organizationsApi.getOrganizationMembers(organization!.id),
+    enabled: !!organization?.id && !!currentUser?.id && isAllowed,
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 
@@ -114,7 +766,7 @@ function DriverDetailPage() {
     queryKey: ['organization-runs'],
     queryFn: () => runsApi.getOrganizationRuns(),
     staleTime: 1000 * 60 * 2, // 2 minutes
-    enabled: !!organization?.id && isAdmin,
+    enabled: !!organization?.id && isAllowed,
   });
 
   // Filter runs for this specific driver
@@ -475,6 +1127,18 @@ function DriverDetailPage() {
         </Card>
       )}
 
+      <DriverAvailabilityCalendar
+        driverId={driverId}
+        description="Declared shifts, days off and blackout times, used when filtering and recommending drivers"
+        canEdit={can('drivers:schedule')}
+      />
+      {can('payroll:view') && (
+        <>
+          <EarningsStatementCard driverId={driverId} />
+          <MileageLogCard driverId={driverId} />
+        </>
+      )}
+
       {/* Driver Runs List */}
       <Card>
         <CardContent>
@@ -550,7 +1214,7 @@ function DriverDetailPage() {
                     <div className="flex items-center gap-2">
                       <span className="font-medium flex items-center gap-2">
                         <DollarSign className="size-4 min-w-4" />
-                        {run.price}
+                        {formatRunPrice(run)}
                       </span>
                     </div>
                   </div>
@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
 import { createFileRoute, Link } from '@tanstack/react-router';
+import { addMinutes, endOfDay } from 'date-fns';
 import { Car, Clock, Filter, MapPin, Search, Users } from 'lucide-react';
 import { useMemo, useState } from 'react';
 import { Badge } from '../components/ui/badge';
@@ -24,30 +25,32 @@ import {
   SelectTrigger,
   SelectValue,
 } from '../components/ui/select';
-import { organizationsApi, runsApi } from '../lib/api/client';
+import {
+  dispatchApi,
+  driverAvailabilityApi,
+  organizationsApi,
+  runsApi,
+} from '../lib/api/client';
 import { useAppContext } from '../lib/AppContextProvider';
-import { useNonAdminRedirect } from '../lib/hooks/use-non-admin-redirect';
+import {
+  DRIVER_AVAILABILITY_FILTERS,
+  type DriverAvailabilityFilter,
+} from '../lib/dispatch';
+import {
+  describeScheduleConflict,
+  getScheduleConflict,
+} from '../lib/driver-availability';
+import { useRequireCapability } from '../lib/hooks/use-can';
 
 export const Route = createFileRoute('/drivers')({
   component: DriversPage,
 });
 
-// Availability filter options
-const AVAILABILITY_FILTERS = [
-  { value: 'all', label: 'All Drivers' },
-  { value: 'available', label: 'Now' },
-  { value: 'available-1h', label: 'in 1 Hour' },
-  { value: 'available-2h', label: 'in 2 Hours' },
-  { value: 'available-4h', label: 'in 4 Hours' },
-  { value: 'available-today', label: 'Today' },
-  { value: 'active', label: 'Currently Active' },
-  { value: 'scheduled', label: 'Has Scheduled Runs' },
-];
-
 function DriversPage() {
   const { currentUser } = useAppContext();
-  const { isAdmin, organization } = useNonAdminRedirect();
-  const [availabilityFilter, setAvailabilityFilter] = useState('all');
+  const { isAllowed, organization } = useRequireCapability('drivers:view');
+  const [availabilityFilter, setAvailabilityFilter] =
+    useState<DriverAvailabilityFilter>('all');
   const [searchTerm, setSearchTerm] = useState('');
 
   // Fetch organization members
@@ -57,11 +60,7 @@ function DriversPage() {
     error: membersError,
   } = useQuery({
     queryKey: ['organization-members', organization?.id],
-    queryFn: () =>
-      organizationsApi.getOrganizationMembers(
-        organization!.id,
-        currentUser!.id
-      ),
+    queryFn: () => organizationsApi.getOrganizationMembers(organization!.id),
     enabled: !!organization?.id && !!currentUser?.id,
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
@@ -71,7 +70,21 @@ function DriversPage() {
     queryKey: ['organization-runs'],
     queryFn: runsApi.getOrganizationRuns,
     staleTime: 1000 * 60 * 2, // 2 minutes
-    enabled: !!organization?.id && !!currentUser?.id && isAdmin,
+    enabled: !!organization?.id && !!currentUser?.id && isAllowed,
+  });
+
+  // Every driver's shifts and today's time off, for their status badges
+  const { data: availabilityBlocks = [] } = useQuery({
+    queryKey: ['driver-availability-blocks', 'organization'],
+    queryFn: () => {
+      const now = new Date();
+      return driverAvailabilityApi.getBlocks(undefined, {
+        from: now,
+        to: endOfDay(now),
+      });
+    },
+    enabled: !!organization?.id && !!currentUser?.id && isAllowed,
+    staleTime: 1000 * 60 * 2, // 2 minutes
   });
 
   // Filter out the admin user to show only drivers
@@ -83,64 +96,13 @@ function DriversPage() {
     );
   }, [membersData, currentUser?.id]);
 
-  // Helper function to check driver availability based on runs
-  const getDriverAvailability = (
-    driver: { userId: string },
-    filter: string
-  ) => {
-    const driverRuns = allRuns.filter(run => run.userId === driver.userId);
-    const now = new Date();
-
-    const activeRuns = driverRuns.filter(run => run.status === 'active');
-    const scheduledRuns = driverRuns.filter(run => run.status === 'scheduled');
-
-    // Get the next scheduled run
-    const upcomingRuns = scheduledRuns
-      .map(run => ({ ...run, scheduledDate: new Date(run.scheduledTime) }))
-      .filter(run => run.scheduledDate > now)
-      .sort((a, b) => a.scheduledDate.getTime() - b.scheduledDate.getTime());
-
-    const nextRun = upcomingRuns[0];
-
-    switch (filter) {
-      case 'available':
-        return activeRuns.length === 0;
-      case 'available-1h':
-        return (
-          activeRuns.length === 0 &&
-          (!nextRun ||
-            nextRun.scheduledDate.getTime() - now.getTime() > 60 * 60 * 1000)
-        );
-      case 'available-2h':
-        return (
-          activeRuns.length === 0 &&
-          (!nextRun ||
-            nextRun.scheduledDate.getTime() - now.getTime() >
-              2 * 60 * 60 * 1000)
-        );
-      case 'available-4h':
-        return (
-          activeRuns.length === 0 &&
-          (!nextRun ||
-            nextRun.scheduledDate.getTime() - now.getTime() >
-              4 * 60 * 60 * 1000)
-        );
-      case 'available-today':
-        const endOfDay = new Date(now);
-        endOfDay.setHours(23, 59, 59, 999);
-        return (
-          activeRuns.length === 0 &&
-          (!nextRun || nextRun.scheduledDate > endOfDay)
-        );
-      case 'active':
-        return activeRuns.length > 0;
-      case 'scheduled':
-        return scheduledRuns.length > 0;
-      case 'all':
-      default:
-        return true;
-    }
-  };
+  // Drivers matching the availability filter, worked out by the server
+  const { data: availableDriverIds } = useQuery({
+    queryKey: ['driver-availability', organization?.id, availabilityFilter],
+    queryFn: () => dispatchApi.getAvailableDriverIds(availabilityFilter),
+    enabled: isAllowed && availabilityFilter !== 'all',
+    staleTime: 1000 * 60, // 1 minute
+  });
 
   // Filter drivers based on search and availability
   const filteredDrivers = useMemo(() => {
@@ -155,12 +117,14 @@ function DriversPage() {
     }
 
     // Apply availability filter
-    filtered = filtered.filter((driver: { userId: string }) =>
-      getDriverAvailability(driver, availabilityFilter)
-    );
+    if (availabilityFilter !== 'all') {
+      filtered = filtered.filter((driver: { userId: string }) =>
+        availableDriverIds?.includes(driver.userId)
+      );
+    }
 
     return filtered;
-  }, [allDrivers, searchTerm, availabilityFilter, allRuns]);
+  }, [allDrivers, searchTerm, availabilityFilter, availableDriverIds]);
 
   // Clear all filters
   const clearFilters = () => {
@@ -225,13 +189,15 @@ function DriversPage() {
             </Label>
             <Select
               value={availabilityFilter}
-              onValueChange={setAvailabilityFilter}
+              onValueChange={value =>
+                setAvailabilityFilter(value as DriverAvailabilityFilter)
+              }
             >
               <SelectTrigger className="w-full">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {AVAILABILITY_FILTERS.map(option => (
+                {DRIVER_AVAILABILITY_FILTERS.map(option => (
                   <SelectItem key={option.value} value={option.value}>
                     {option.label}
                   </SelectItem>
@@ -243,7 +209,7 @@ function DriversPage() {
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">
                 Filtering by{' '}
-                {AVAILABILITY_FILTERS.find(
+                {DRIVER_AVAILABILITY_FILTERS.find(
                   f => f.value === availabilityFilter
                 )?.label.toLowerCase()}
               </span>
@@ -271,8 +237,20 @@ function DriversPage() {
       return { text: 'Active', variant: 'default' as const };
     }
 
+    const now = new Date();
+    const scheduleConflict = getScheduleConflict(
+      availabilityBlocks.filter(block => block.driverId === driver.userId),
+      now,
+      addMinutes(now, 1)
+    );
+    if (scheduleConflict) {
+      return {
+        text: describeScheduleConflict(scheduleConflict),
+        variant: 'secondary' as const,
+      };
+    }
+
     if (scheduledRuns.length > 0) {
-      const now = new Date();
       const upcomingRuns = scheduledRuns
         .map(run => ({ ...run, scheduledDate: new Date(run.scheduledTime) }))
         .filter(run => run.scheduledDate > now)
@@ -0,0 +1,890 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createFileRoute } from '@tanstack/react-router';
+import {
+  endOfDay,
+  endOfMonth,
+  format,
+  isBefore,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  subMonths,
+} from 'date-fns';
+import {
+  CheckCircle2,
+  Download,
+  Eye,
+  Pencil,
+  Plus,
+  Receipt,
+  RotateCcw,
+  Trash2,
+  Wallet,
+} from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Badge } from '../components/ui/badge';
+import { Button } from '../components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '../components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../components/ui/select';
+import { billingAccountsApi, invoicesApi } from '../lib/api/client';
+import { INVOICE_STATUS_LABELS } from '../lib/billing/invoices';
+import { downloadBlob } from '../lib/download';
+import { useRequireCapability } from '../lib/hooks/use-can';
+import {
+  formatCents,
+  formatCurrencyTotals,
+  sumCentsByCurrency,
+} from '../lib/money';
+import {
+  formatReportCurrency,
+  formatReportDateRange,
+} from '../lib/reports/summary';
+import {
+  type BillingAccount,
+  type BillingAccountForm,
+  type Invoice,
+  InvoiceStatus,
+} from '../lib/schema';
+import { toasts } from '../lib/toast';
+
+export const Route = createFileRoute('/invoices')({
+  component: InvoicesPage,
+});
+
+// Select value for showing invoices of every status
+const ALL_STATUSES = 'all';
+
+const invoiceStatusBadgeClass: Record<InvoiceStatus | 'overdue', string> = {
+  [InvoiceStatus.unpaid]: 'bg-yellow-300/10 text-yellow-500 border-yellow-300',
+  [InvoiceStatus.paid]: 'bg-green-300/10 text-green-500 border-green-300',
+  overdue: 'bg-red-300/10 text-red-500 border-red-300',
+};
+
+// An unpaid invoice past its due date
+function isInvoiceOverdue(invoice: Invoice): boolean {
+  return (
+    invoice.status === InvoiceStatus.unpaid &&
+    isBefore(new Date(invoice.dueAt), new Date())
+  );
+}
+
+// Form state for the billing account dialog; numeric fields are kept as
+// text while editing
+interface BillingAccountFormState {
+  billTo: string;
+  name: string;
+  contactEmail: string;
+  ratePerRun: string;
+  surchargePercent: string;
+  paymentTermsDays: string;
+  isActive: boolean;
+}
+
+function getBillingAccountFormState(
+  account: BillingAccount | null
+): BillingAccountFormState {
+  return {
+    billTo: account?.billTo || '',
+    name: account?.name || '',
+    contactEmail: account?.contactEmail || '',
+    ratePerRun:
+      account?.ratePerRun !== undefined ? String(account.ratePerRun) : '',
+    surchargePercent: String(account?.surchargePercent ?? 0),
+    paymentTermsDays: String(account?.paymentTermsDays ?? 30),
+    isActive: account?.isActive ?? true,
+  };
+}
+
+// Convert dialog form state to the API's billing account fields
+function toBillingAccountData(
+  form: BillingAccountFormState
+): Omit<BillingAccountForm, 'organizationId' | 'createdBy'> {
+  return {
+    billTo: form.billTo.trim().toUpperCase(),
+    name: form.name.trim(),
+    contactEmail: form.contactEmail.trim() || undefined,
+    ratePerRun: form.ratePerRun.trim() ? Number(form.ratePerRun) : undefined,
+    surchargePercent: Number(form.surchargePercent) || 0,
+    paymentTermsDays: Number(form.paymentTermsDays) || 0,
+    isActive: form.isActive,
+  };
+}
+
+// Dialog for creating or editing a billing account
+function BillingAccountDialog({
+  open,
+  onOpenChange,
+  account,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: BillingAccount | null;
+}) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<BillingAccountFormState>(() =>
+    getBillingAccountFormState(account)
+  );
+
+  const saveAccountMutation = useMutation({
+    mutationFn: () => {
+      const accountData = toBillingAccountData(form);
+      return account
+        ? billingAccountsApi.updateBillingAccount(account.id, accountData)
+        : billingAccountsApi.createBillingAccount(accountData);
+    },
+    onSuccess: savedAccount => {
+      queryClient.invalidateQueries({ queryKey: ['billing-accounts'] });
+      toasts.success(
+        account ? 'Billing account updated' : 'Billing account created',
+        `${savedAccount.billTo} • ${savedAccount.name}`
+      );
+      onOpenChange(false);
+    },
+    onError: error => {
+      console.error('Failed to save billing account:', error);
+      toasts.error('Failed to save billing account', error.message);
+    },
+  });
+
+  const updateForm = (changes: Partial<BillingAccountFormState>) =>
+    setForm(prev => ({ ...prev, ...changes }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {account ? 'Edit Billing Account' : 'New Billing Account'}
+          </DialogTitle>
+          <DialogDescription>
+            Completed runs with this bill to code are invoiced to the customer
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-2 sm:grid-cols-[6rem_1fr]">
+            <div className="space-y-2">
+              <Label htmlFor="accountBillTo">Bill To</Label>
+              <Input
+                id="accountBillTo"
+                value={form.billTo}
+                onChange={event =>
+                  updateForm({ billTo: event.target.value.toUpperCase() })
+                }
+                maxLength={2}
+                placeholder="AB"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="accountName">Customer Name</Label>
+              <Input
+                id="accountName"
+                value={form.name}
+                onChange={event => updateForm({ name: event.target.value })}
+                placeholder="e.g. Alpine Lodge"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="accountEmail">Billing Email</Label>
+            <Input
+              id="accountEmail"
+              type="email"
+              value={form.contactEmail}
+              onChange={event =>
+                updateForm({ contactEmail: event.target.value })
+              }
+              placeholder="accounts@example.com"
+            />
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="accountRate">Rate per Run ($)</Label>
+              <Input
+                id="accountRate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.ratePerRun}
+                onChange={event =>
+                  updateForm({ ratePerRun: event.target.value })
+                }
+                placeholder="Run price"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="accountSurcharge">Surcharge (%)</Label>
+              <Input
+                id="accountSurcharge"
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                value={form.surchargePercent}
+                onChange={event =>
+                  updateForm({ surchargePercent: event.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="accountTerms">Terms (days)</Label>
+              <Input
+                id="accountTerms"
+                type="number"
+                min="0"
+                max="365"
+                step="1"
+                value={form.paymentTermsDays}
+                onChange={event =>
+                  updateForm({ paymentTermsDays: event.target.value })
+                }
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Leave the rate empty to bill each run at its own price.
+          </p>
+
+          <label className="flex items-center gap-2 cursor-pointer text-sm">
+            <input
+              type="checkbox"
+              checked={form.isActive}
+              onChange={event => updateForm({ isActive: event.target.checked })}
+              className="rounded"
+            />
+            Active
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveAccountMutation.mutate()}
+            disabled={
+              form.billTo.trim().length !== 2 ||
+              !form.name.trim() ||
+              saveAccountMutation.isPending
+            }
+          >
+            {account ? 'Save Changes' : 'Create Account'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Card listing the bill to codes the organization invoices, read-only unless
+// the user can edit billing
+function BillingAccountsCard({
+  isAllowed,
+  canEdit,
+}: {
+  isAllowed: boolean;
+  canEdit: boolean;
+}) {
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<BillingAccount | null>(
+    null
+  );
+
+  const { data: accounts = [], isLoading } = useQuery({
+    queryKey: ['billing-accounts'],
+    queryFn: () => billingAccountsApi.getBillingAccounts(),
+    enabled: isAllowed,
+  });
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: (id: string) => billingAccountsApi.deleteBillingAccount(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['billing-accounts'] });
+      toasts.success('Billing account deleted');
+    },
+    onError: error => {
+      console.error('Failed to delete billing account:', error);
+      toasts.error('Failed to delete billing account', error.message);
+    },
+  });
+
+  const openDialog = (account: BillingAccount | null) => {
+    setEditingAccount(account);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="h-4 w-4" />
+              Billing Accounts
+            </CardTitle>
+            <CardDescription>
+              Map bill to codes to customers and the rates they are billed at
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={() => openDialog(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Account
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading && (
+          <p className="text-sm text-muted-foreground">Loading accounts...</p>
+        )}
+
+        {!isLoading && accounts.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No billing accounts yet. Add one for each bill to code you invoice.
+          </p>
+        )}
+
+        {accounts.map(account => (
+          <div
+            key={account.id}
+            className="flex items-center justify-between gap-3 p-2 bg-muted rounded-lg text-sm"
+          >
+            <div className="min-w-0">
+              <p className="font-medium truncate">
+                <span className="font-mono">{account.billTo}</span> •{' '}
+                {account.name}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {account.ratePerRun !== undefined
+                  ? `${formatReportCurrency(account.ratePerRun)} per run`
+                  : 'Billed at run price'}
+                {account.surchargePercent > 0 &&
+                  ` • ${account.surchargePercent}% surcharge`}
+                {` • net ${account.paymentTermsDays}`}
+                {account.contactEmail && ` • ${account.contactEmail}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              {!account.isActive && <Badge variant="outline">inactive</Badge>}
+              {canEdit && (
+                <>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => openDialog(account)}
+                    aria-label="Edit billing account"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-red-600 hover:text-red-700"
+                    onClick={() => deleteAccountMutation.mutate(account.id)}
+                    disabled={deleteAccountMutation.isPending}
+                    aria-label="Delete billing account"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      {dialogOpen && (
+        <BillingAccountDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          account={editingAccount}
+        />
+      )}
+    </Card>
+  );
+}
+
+// Card for generating invoices over a billing period (last month by default)
+function GenerateInvoicesCard() {
+  const queryClient = useQueryClient();
+  const lastMonth = subMonths(new Date(), 1);
+  const [periodStart, setPeriodStart] = useState(
+    format(startOfMonth(lastMonth), 'yyyy-MM-dd')
+  );
+  const [periodEnd, setPeriodEnd] = useState(
+    format(endOfMonth(lastMonth), 'yyyy-MM-dd')
+  );
+
+  const generateInvoicesMutation = useMutation({
+    mutationFn: () =>
+      invoicesApi.generateInvoices({
+        periodStart: startOfDay(parseISO(periodStart)),
+        periodEnd: endOfDay(parseISO(periodEnd)),
+      }),
+    onSuccess: result => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+
+      if (result.invoices.length > 0) {
+        const totals = sumCentsByCurrency(
+          result.invoices,
+          invoice => invoice.totalCents
+        );
+        toasts.success(
+          `Generated ${result.invoices.length} invoice${result.invoices.length === 1 ? '' : 's'}`,
+          `${formatCurrencyTotals(totals)} billed`
+        );
+      } else if (result.failed.length === 0) {
+        toasts.success(
+          'Nothing to invoice',
+          'No uninvoiced completed runs in this period'
+        );
+      }
+
+      result.failed.forEach(failure =>
+        toasts.error(`Failed to invoice ${failure.billTo}`, failure.error)
+      );
+    },
+    onError: error => {
+      console.error('Failed to generate invoices:', error);
+      toasts.error('Failed to generate invoices', error.message);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="h-4 w-4" />
+          Generate Invoices
+        </CardTitle>
+        <CardDescription>
+          Creates one invoice per active billing account for completed runs in
+          the period that haven't been invoiced yet
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="periodStart">From</Label>
+            <Input
+              id="periodStart"
+              type="date"
+              value={periodStart}
+              onChange={event => setPeriodStart(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="periodEnd">To</Label>
+            <Input
+              id="periodEnd"
+              type="date"
+              value={periodEnd}
+              onChange={event => setPeriodEnd(event.target.value)}
+            />
+          </div>
+          <Button
+            onClick={() => generateInvoicesMutation.mutate()}
+            disabled={
+              !periodStart ||
+              !periodEnd ||
+              periodEnd < periodStart ||
+              generateInvoicesMutation.isPending
+            }
+          >
+            {generateInvoicesMutation.isPending
+              ? 'Generating...'
+              : 'Generate Invoices'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Dialog showing an invoice's billed runs
+function InvoiceDetailsDialog({
+  invoiceId,
+  onOpenChange,
+}: {
+  invoiceId: string;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { data: invoice, isLoading } = useQuery({
+    queryKey: ['invoices', invoiceId],
+    queryFn: () => invoicesApi.getInvoice(invoiceId),
+  });
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {invoice ? `Invoice ${invoice.invoiceNumber}` : 'Invoice'}
+          </DialogTitle>
+          {invoice && (
+            <DialogDescription>
+              {invoice.customerName} ({invoice.billTo}) •{' '}
+              {formatReportDateRange(
+                new Date(invoice.periodStart),
+                new Date(invoice.periodEnd)
+              )}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {isLoading && (
+          <p className="text-sm text-muted-foreground">Loading invoice...</p>
+        )}
+
+        {invoice && (
+          <div className="space-y-1 text-sm">
+            {invoice.lineItems?.map(item => (
+              <div
+                key={item.id}
+                className="flex items-start justify-between gap-3 py-1 border-b"
+              >
+                <div className="min-w-0">
+                  <p className="truncate">{item.description}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(item.serviceDate), 'PP')}
+                    {!item.runId && ' • run deleted'}
+                  </p>
+                </div>
+                <span className="shrink-0 tabular-nums">
+                  {formatCents(item.amountCents, invoice.currency)}
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between pt-2">
+              <span className="text-muted-foreground">Subtotal</span>
+              <span className="tabular-nums">
+                {formatCents(invoice.subtotalCents, invoice.currency)}
+              </span>
+            </div>
+            {invoice.surchargeCents > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  Surcharge ({invoice.surchargePercent}%)
+                </span>
+                <span className="tabular-nums">
+                  {formatCents(invoice.surchargeCents, invoice.currency)}
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold">
+              <span>Total</span>
+              <span className="tabular-nums">
+                {formatCents(invoice.totalCents, invoice.currency)}
+              </span>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Card listing invoices with paid/unpaid actions for users who can edit
+// billing
+function InvoicesCard({
+  isAllowed,
+  canEdit,
+}: {
+  isAllowed: boolean;
+  canEdit: boolean;
+}) {
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<
+    InvoiceStatus | typeof ALL_STATUSES
+  >(ALL_STATUSES);
+  const [viewingInvoiceId, setViewingInvoiceId] = useState<string | null>(null);
+
+  const { data: invoices = [], isLoading } = useQuery({
+    queryKey: ['invoices', { status: statusFilter }],
+    queryFn: () =>
+      invoicesApi.getInvoices(
+        statusFilter === ALL_STATUSES ? undefined : statusFilter
+      ),
+    enabled: isAllowed,
+  });
+
+  const outstandingTotal = useMemo(
+    () =>
+      sumCentsByCurrency(
+        invoices.filter(invoice => invoice.status === InvoiceStatus.unpaid),
+        invoice => invoice.totalCents
+      ),
+    [invoices]
+  );
+
+  const updateStatusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: InvoiceStatus }) =>
+      invoicesApi.updateInvoiceStatus(id, status),
+    onSuccess: invoice => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      toasts.success(
+        `Invoice ${invoice.invoiceNumber} marked ${INVOICE_STATUS_LABELS[invoice.status].toLowerCase()}`
+      );
+    },
+    onError: error => {
+      console.error('Failed to update invoice:', error);
+      toasts.error('Failed to update invoice', error.message);
+    },
+  });
+
+  const deleteInvoiceMutation = useMutation({
+    mutationFn: (id: string) => invoicesApi.deleteInvoice(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      toasts.success('Invoice deleted', 'Its runs can be invoiced again');
+    },
+    onError: error => {
+      console.error('Failed to delete invoice:', error);
+      toasts.error('Failed to delete invoice', error.message);
+    },
+  });
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      const { blob, filename } = await invoicesApi.downloadInvoice(invoice.id);
+      downloadBlob(blob, filename || `${invoice.invoiceNumber}.pdf`);
+    } catch (error) {
+      console.error('Failed to download invoice:', error);
+      toasts.error(
+        'Failed to download invoice',
+        error instanceof Error ? error.message : undefined
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-4 w-4" />
+              Invoices
+            </CardTitle>
+            <CardDescription>
+              {formatCurrencyTotals(outstandingTotal)} outstanding
+            </CardDescription>
+          </div>
+          <Select
+            value={statusFilter}
+            onValueChange={(value: InvoiceStatus | typeof ALL_STATUSES) =>
+              setStatusFilter(value)
+            }
+          >
+            <SelectTrigger className="w-32" aria-label="Status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>All</SelectItem>
+              {Object.values(InvoiceStatus).map(status => (
+                <SelectItem key={status} value={status}>
+                  {INVOICE_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading && (
+          <p className="text-sm text-muted-foreground">Loading invoices...</p>
+        )}
+
+        {!isLoading && invoices.length === 0 && (
+          <p className="text-sm text-muted-foreground">No invoices yet</p>
+        )}
+
+        {invoices.map(invoice => {
+          const overdue = isInvoiceOverdue(invoice);
+
+          return (
+            <div
+              key={invoice.id}
+              className="flex items-center justify-between gap-3 p-2 bg-muted rounded-lg text-sm"
+            >
+              <div className="min-w-0">
+                <p className="font-medium truncate">
+                  {invoice.invoiceNumber}
+                  <span className="text-muted-foreground font-normal">
+                    {' '}
+                    • {invoice.customerName} ({invoice.billTo})
+                  </span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatReportDateRange(
+                    new Date(invoice.periodStart),
+                    new Date(invoice.periodEnd)
+                  )}{' '}
+                  • {invoice.runCount} run{invoice.runCount === 1 ? '' : 's'} •{' '}
+                  <span className="font-medium text-foreground">
+                    {formatCents(invoice.totalCents, invoice.currency)}
+                  </span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {invoice.paidAt
+                    ? `Paid ${format(new Date(invoice.paidAt), 'PP')}`
+                    : `Due ${format(new Date(invoice.dueAt), 'PP')}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Badge
+                  variant="outline"
+                  className={
+                    invoiceStatusBadgeClass[
+                      overdue ? 'overdue' : invoice.status
+                    ]
+                  }
+                >
+                  {overdue ? 'overdue' : invoice.status}
+                </Badge>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  onClick={() => setViewingInvoiceId(invoice.id)}
+                  aria-label="View invoice"
+                >
+                  <Eye className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  onClick={() => handleDownload(invoice)}
+                  aria-label="Download invoice"
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+                {canEdit && (
+                  <>
+                    {invoice.status === InvoiceStatus.unpaid ? (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-green-600 hover:text-green-700"
+                        onClick={() =>
+                          updateStatusMutation.mutate({
+                            id: invoice.id,
+                            status: InvoiceStatus.paid,
+                          })
+                        }
+                        disabled={updateStatusMutation.isPending}
+                        aria-label="Mark invoice paid"
+                      >
+                        <CheckCircle2 className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        onClick={() =>
+                          updateStatusMutation.mutate({
+                            id: invoice.id,
+                            status: InvoiceStatus.unpaid,
+                          })
+                        }
+                        disabled={updateStatusMutation.isPending}
+                        aria-label="Mark invoice unpaid"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-red-600 hover:text-red-700"
+                      onClick={() => deleteInvoiceMutation.mutate(invoice.id)}
+                      disabled={
+                        invoice.status === InvoiceStatus.paid ||
+                        deleteInvoiceMutation.isPending
+                      }
+                      aria-label="Delete invoice"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+
+      {viewingInvoiceId && (
+        <InvoiceDetailsDialog
+          invoiceId={viewingInvoiceId}
+          onOpenChange={open => !open && setViewingInvoiceId(null)}
+        />
+      )}
+    </Card>
+  );
+}
+
+function InvoicesPage() {
+  const { isAllowed, isLoading, can } = useRequireCapability(
+    'billing:view',
+    '/runs'
+  );
+  const canEdit = can('billing:edit');
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading invoices...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-6 max-w-4xl px-4 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Invoices</h1>
+        <p className="text-muted-foreground text-sm">
+          Bill customers for completed runs by their bill to code.
+        </p>
+      </div>
+
+      {canEdit && <GenerateInvoicesCard />}
+      <InvoicesCard isAllowed={isAllowed} canEdit={canEdit} />
+      <BillingAccountsCard isAllowed={isAllowed} canEdit={canEdit} />
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ import { createFileRoute, Link } from '@tanstack/react-router';
 import { ArrowLeft, Building2, Settings, Users } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { useEffect } from 'react';
+import { AccessSessionsCard } from '../components/access-sessions-card';
+import { ApiTokensCard } from '../components/api-tokens-card';
 import { Button } from '../components/ui/button';
 import {
   Card,
@@ -17,11 +19,12 @@ import {
   CardHeader,
   CardTitle,
 } from '../components/ui/card';
+import { useCan } from '../lib/hooks/use-can';
 import {
   useActiveOrganization,
-  useIsUserAdmin,
   useUserOrganization,
 } from '../lib/hooks/use-organizations';
+import { ORGANIZATION_ROLE_LABELS } from '../lib/permissions';
 
 export const Route = createFileRoute('/organization')({
   component: OrganizationPage,
@@ -34,9 +37,8 @@ function OrganizationPage() {
     useOrganization();
   const { setActive, isLoaded: orgListLoaded } = useOrganizationList();
   const { data: organization, isLoading: orgsLoading } = useUserOrganization();
-  const { activeOrganization, isLoading: activeOrgLoading } =
-    useActiveOrganization();
-  const { isAdmin } = useIsUserAdmin(activeOrganization?.id);
+  const { isLoading: activeOrgLoading } = useActiveOrganization();
+  const { role, can } = useCan();
 
   // Automatically set the user's organization as active
   useEffect(() => {
@@ -141,9 +143,9 @@ function OrganizationPage() {
                   <span className="truncate">{organization.name}</span>
                 </CardTitle>
                 <CardDescription className="mt-1">
-                  {isAdmin && (
+                  {role && role !== 'driver' && (
                     <span className="ml-2 text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded-full">
-                      Administrator
+                      {ORGANIZATION_ROLE_LABELS[role]}
                     </span>
                   )}
                 </CardDescription>
@@ -158,7 +160,13 @@ function OrganizationPage() {
               </div>
               <div className="flex items-center gap-2 text-muted-foreground">
                 <Settings className="h-4 w-4 shrink-0" />
-                <span>{isAdmin ? 'Full Access' : 'Limited Access'}</span>
+                <span>
+                  {role === 'admin'
+                    ? 'Full Access'
+                    : role === 'auditor'
+                      ? 'Read-only Access'
+                      : 'Limited Access'}
+                </span>
               </div>
               <div className="text-muted-foreground sm:col-span-2 lg:col-span-1">
                 Joined:{' '}
@@ -171,6 +179,16 @@ function OrganizationPage() {
         </Card>
       </div>
 
+      {/* API tokens, for admins to manage */}
+      {can('organization:manage') && (
+        <div className="mb-6 sm:mb-8">
+          <ApiTokensCard />
+        </div>
+      )}
+
+      {/* Password gate sessions; the card only shows for platform admins */}
+      <AccessSessionsCard />
+
       {/* Clerk Organization Profile Component */}
       <div className="rounded-lg border bg-card overflow-hidden">
         <div className="w-full max-w-full overflow-x-auto">
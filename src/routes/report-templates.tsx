@@ -71,9 +71,21 @@ import {
 import { Textarea } from '../components/ui/textarea';
 import { reportTemplatesApi } from '../lib/api/client';
 import { useAppContext } from '../lib/AppContextProvider';
-import { useNonAdminRedirect } from '../lib/hooks/use-non-admin-redirect';
+import { useRequireCapability } from '../lib/hooks/use-can';
+import { REPORT_AGGREGATES } from '../lib/reports/aggregates';
+import { COMPUTED_COLUMNS } from '../lib/reports/computed';
+import { REPORT_FORMATS } from '../lib/reports/formats';
 import {
+  DEFAULT_REPORT_SORT,
+  REPORT_GROUP_BY_LABELS,
+  REPORT_SORT_FIELDS,
+} from '../lib/reports/grouping';
+import {
+  ComputedColumnType,
+  ReportAggregateType,
   type ReportColumnConfig,
+  ReportFormat,
+  ReportGroupBy,
   type ReportTemplate,
   type ReportTemplateForm,
   ReportType,
@@ -92,7 +104,10 @@ const runTypeToBadgeColor: { [key in ReportType]: string } = {
 };
 
 function ReportTemplatesPage() {
-  const { isAdmin, organization } = useNonAdminRedirect('/runs');
+  const { isAllowed, organization } = useRequireCapability(
+    'templates:edit',
+    '/runs'
+  );
   const [selectedTemplate, setSelectedTemplate] =
     useState<ReportTemplate | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -104,12 +119,15 @@ function ReportTemplatesPage() {
   const { data: templates = [], isLoading: isLoadingTemplates } = useQuery({
     queryKey: ['report-templates'],
     queryFn: () => reportTemplatesApi.getReportTemplates(),
-    enabled: !!isAdmin,
+    enabled: isAllowed,
   });
 
   // Get all existing column configurations from organization templates
   const existingColumnConfigs = useMemo(() => {
-    const allColumns = templates.flatMap(template => template.columnConfig);
+    // Computed columns are added from their own section, not as raw fields
+    const allColumns = templates
+      .flatMap(template => template.columnConfig)
+      .filter(col => !col.computed);
 
     // Deduplicate by field name and create a map with the most descriptive label
     const uniqueColumns = new Map<
@@ -414,6 +432,15 @@ interface SortableColumnItemProps {
   onRemove: (field: string) => void;
 }
 
+// Parse an optional numeric input, leaving empty inputs undefined
+function parseOptionalNumber(value: string): number | undefined {
+  if (value === '' || value === null || value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  return isNaN(number) ? undefined : number;
+}
+
 // Sortable item component for drag and drop
 function SortableColumnItem({
   column,
@@ -479,20 +506,80 @@ function SortableColumnItem({
             )}
           </div>
 
-          <div className="flex items-center space-x-2">
-            <input
-              type="checkbox"
-              id={`required-${column.field}`}
-              {...register(`columnConfig.${index}.required`)}
-              className="rounded"
-            />
-            <Label
-              htmlFor={`required-${column.field}`}
-              className="text-sm text-muted-foreground"
-            >
-              Required field for drivers
-            </Label>
-          </div>
+          {column.computed ? (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Badge
+                  variant="outline"
+                  className="text-xs bg-purple-400/10 text-purple-400"
+                >
+                  Computed
+                </Badge>
+                <span className="text-xs text-muted-foreground">
+                  {COMPUTED_COLUMNS[column.computed.type].description}
+                </span>
+              </div>
+              {column.computed.type ===
+                ComputedColumnType.priceWithSurcharges && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label
+                      htmlFor={`surcharge-percent-${column.field}`}
+                      className="text-xs text-muted-foreground"
+                    >
+                      Surcharge (%)
+                    </Label>
+                    <Input
+                      id={`surcharge-percent-${column.field}`}
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="0.1"
+                      className="text-sm"
+                      {...register(
+                        `columnConfig.${index}.computed.surchargePercent`,
+                        { setValueAs: parseOptionalNumber }
+                      )}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label
+                      htmlFor={`surcharge-amount-${column.field}`}
+                      className="text-xs text-muted-foreground"
+                    >
+                      Flat surcharge ($)
+                    </Label>
+                    <Input
+                      id={`surcharge-amount-${column.field}`}
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      className="text-sm"
+                      {...register(
+                        `columnConfig.${index}.computed.surchargeAmount`,
+                        { setValueAs: parseOptionalNumber }
+                      )}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id={`required-${column.field}`}
+                {...register(`columnConfig.${index}.required`)}
+                className="rounded"
+              />
+              <Label
+                htmlFor={`required-${column.field}`}
+                className="text-sm text-muted-foreground"
+              >
+                Required field for drivers
+              </Label>
+            </div>
+          )}
         </div>
 
         <Button
@@ -532,6 +619,12 @@ function TemplateFormDialog({
       name: template?.name || '',
       description: template?.description || '',
       reportType: template?.reportType || ReportType.run,
+      defaultFormat: template?.defaultFormat || ReportFormat.csv,
+      footerAggregates: template?.footerAggregates || [
+        ReportAggregateType.sumPrice,
+      ],
+      groupBy: template?.groupBy || ReportGroupBy.none,
+      sort: template?.sort || DEFAULT_REPORT_SORT,
       isDefault: template?.isDefault || false,
       columnConfig: template?.columnConfig || [],
       organizationId,
@@ -553,6 +646,8 @@ function TemplateFormDialog({
   });
 
   const columnConfig = watch('columnConfig');
+  const footerAggregates = watch('footerAggregates');
+  const sort = watch('sort');
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -617,6 +712,25 @@ function TemplateFormDialog({
     });
   };
 
+  const addComputedColumn = (type: ComputedColumnType) => {
+    append({
+      field: type,
+      label: COMPUTED_COLUMNS[type].label,
+      order: columnConfig.length,
+      required: false,
+      computed: { type },
+    });
+  };
+
+  const toggleFooterAggregate = (type: ReportAggregateType) => {
+    setValue(
+      'footerAggregates',
+      footerAggregates.includes(type)
+        ? footerAggregates.filter(aggregate => aggregate !== type)
+        : [...footerAggregates, type]
+    );
+  };
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
 
@@ -690,6 +804,27 @@ function TemplateFormDialog({
               </p>
             )}
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="defaultFormat">Default Output Format</Label>
+            <Select
+              value={watch('defaultFormat')}
+              onValueChange={(value: ReportFormat) =>
+                setValue('defaultFormat', value)
+              }
+            >
+              <SelectTrigger id="defaultFormat">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(ReportFormat).map(reportFormat => (
+                  <SelectItem key={reportFormat} value={reportFormat}>
+                    {REPORT_FORMATS[reportFormat].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
         <div className="space-y-2">
@@ -738,6 +873,31 @@ function TemplateFormDialog({
             onAddColumn={addColumn}
           />
 
+          {/* Computed columns that haven't been added yet */}
+          {Object.values(ComputedColumnType).some(
+            type => !columnConfig.some(col => col.computed?.type === type)
+          ) && (
+            <div className="flex flex-wrap gap-2">
+              {Object.values(ComputedColumnType)
+                .filter(
+                  type => !columnConfig.some(col => col.computed?.type === type)
+                )
+                .map(type => (
+                  <Button
+                    key={type}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => addComputedColumn(type)}
+                    title={COMPUTED_COLUMNS[type].description}
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    {COMPUTED_COLUMNS[type].label}
+                  </Button>
+                ))}
+            </div>
+          )}
+
           {/* Show message when all available fields have been added */}
           {existingColumns.length > 0 &&
             existingColumns.filter(
@@ -785,6 +945,84 @@ function TemplateFormDialog({
             </div>
           )}
         </div>
+
+        <div className="space-y-2">
+          <Label className="text-base">Footer Totals</Label>
+          <div className="space-y-2">
+            {Object.values(ReportAggregateType).map(type => (
+              <label
+                key={type}
+                className="flex items-center gap-2 cursor-pointer text-sm"
+              >
+                <input
+                  type="checkbox"
+                  checked={footerAggregates.includes(type)}
+                  onChange={() => toggleFooterAggregate(type)}
+                  className="rounded"
+                />
+                <span>{REPORT_AGGREGATES[type].label}</span>
+                <span className="text-xs text-muted-foreground">
+                  {REPORT_AGGREGATES[type].description}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-base">Grouping and Sort</Label>
+          <p className="text-xs text-muted-foreground">
+            Grouped reports get a heading and subtotal row for each group
+          </p>
+          <div className="grid gap-2 sm:grid-cols-3">
+            <Select
+              value={watch('groupBy')}
+              onValueChange={(value: ReportGroupBy) =>
+                setValue('groupBy', value)
+              }
+            >
+              <SelectTrigger aria-label="Group by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(ReportGroupBy).map(groupBy => (
+                  <SelectItem key={groupBy} value={groupBy}>
+                    {REPORT_GROUP_BY_LABELS[groupBy]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={sort.field}
+              onValueChange={field => setValue('sort', { ...sort, field })}
+            >
+              <SelectTrigger aria-label="Sort by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPORT_SORT_FIELDS.map(option => (
+                  <SelectItem key={option.field} value={option.field}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={sort.direction}
+              onValueChange={(direction: 'asc' | 'desc') =>
+                setValue('sort', { ...sort, direction })
+              }
+            >
+              <SelectTrigger aria-label="Sort direction">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="asc">Ascending</SelectItem>
+                <SelectItem value="desc">Descending</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
       </div>
 
       <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
@@ -878,6 +1116,19 @@ function TemplatePreview({ template }: { template: ReportTemplate }) {
                 fields
               </span>
             </div>
+            {template.footerAggregates.length > 0 && (
+              <div className="mt-1">
+                Footer:{' '}
+                {template.footerAggregates
+                  .map(aggregate => REPORT_AGGREGATES[aggregate].label)
+                  .join(', ')}
+              </div>
+            )}
+            {template.groupBy !== ReportGroupBy.none && (
+              <div className="mt-1">
+                Grouped by {REPORT_GROUP_BY_LABELS[template.groupBy]}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -1,4 +1,4 @@
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { createFileRoute } from '@tanstack/react-router';
 import {
   endOfDay,
@@ -9,9 +9,19 @@ import {
   startOfDay,
   startOfToday,
 } from 'date-fns';
-import { Download } from 'lucide-react';
+import {
+  CalendarClock,
+  Download,
+  FileText,
+  Pencil,
+  Plus,
+  Send,
+  Server,
+  Trash2,
+} from 'lucide-react';
 import { useMemo, useState } from 'react';
 import type { DateRange } from 'react-day-picker';
+import { Badge } from '../components/ui/badge';
 import { Button } from '../components/ui/button';
 import { Calendar as CalendarComponent } from '../components/ui/calendar';
 import {
@@ -21,82 +31,892 @@ import {
   CardHeader,
   CardTitle,
 } from '../components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from '../components/ui/popover';
-import { runsApi } from '../lib/api/client';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../components/ui/select';
+import { Textarea } from '../components/ui/textarea';
+import { TimezoneCombobox } from '../components/ui/timezone-combobox';
+import timezonesData from '../data/timezones.json';
+import {
+  reportSchedulesApi,
+  reportsApi,
+  reportTemplatesApi,
+  runsApi,
+} from '../lib/api/client';
+import { downloadBlob } from '../lib/download';
+import { useCan } from '../lib/hooks/use-can';
+import {
+  useOrganizationMembers,
+  useUserOrganization,
+} from '../lib/hooks/use-organizations';
+import {
+  formatCurrencyTotals,
+  formatRunPrice,
+  getRunTotalCents,
+  sumCentsByCurrency,
+} from '../lib/money';
+import { REPORT_FORMATS, renderReport } from '../lib/reports/formats';
+import {
+  buildReportSections,
+  DEFAULT_REPORT_SORT,
+  groupRunsByDate,
+  isGroupedLayout,
+  REPORT_GROUP_BY_LABELS,
+  REPORT_SORT_FIELDS,
+} from '../lib/reports/grouping';
+import {
+  describeReportSchedule,
+  REPORT_SCHEDULE_FREQUENCY_LABELS,
+  WEEKDAY_LABELS,
+} from '../lib/reports/schedule';
+import { formatSubtotalLabel, getRunPriceCents } from '../lib/reports/summary';
 import {
   defaultReportTemplateFields,
   type DefaultReportConfigFields,
+  type Report,
+  ReportAggregateType,
+  type ReportColumnConfig,
+  ReportFormat,
+  ReportGroupBy,
+  type ReportSchedule,
+  type ReportScheduleForm,
+  ReportScheduleFrequency,
+  type ReportSort,
+  type ReportTemplate,
   type Run,
 } from '../lib/schema';
 import { toasts } from '../lib/toast';
 
-// Helper function to group runs by date
-function groupRunsByDate(runs: Run[]): Record<string, Run[]> {
-  const groups: Record<string, Run[]> = {};
+// Column label for a default report field
+function getDefaultFieldLabel(field: DefaultReportConfigFields): string {
+  switch (field) {
+    case 'flightNumber':
+      return 'Flight Number';
+    case 'airline':
+      return 'Airline';
+    case 'departure':
+      return 'Departure';
+    case 'arrival':
+      return 'Arrival';
+    case 'pickupLocation':
+      return 'Pickup Location';
+    case 'type':
+      return 'Type';
+    case 'dropoffLocation':
+      return 'Dropoff Location';
+    case 'price':
+      return 'Price';
+    default:
+      return field;
+  }
+}
 
-  runs.forEach(run => {
-    const date = format(parseISO(run.scheduledTime), 'yyyy-MM-dd');
-    if (!groups[date]) {
-      groups[date] = [];
-    }
-    groups[date].push(run);
+// Build report columns from the fields selected for a client-side export
+function getExportColumns(
+  fields: DefaultReportConfigFields[]
+): ReportColumnConfig[] {
+  return defaultReportTemplateFields
+    .filter(field => fields.includes(field))
+    .map((field, index) => ({
+      field,
+      label: getDefaultFieldLabel(field),
+      order: index,
+      required: false,
+    }));
+}
+
+// Helper function to download rendered report content
+function downloadReportContent(
+  content: string | Uint8Array,
+  reportFormat: ReportFormat,
+  filename: string
+) {
+  const blob = new Blob([content as BlobPart], {
+    type: REPORT_FORMATS[reportFormat].contentType,
   });
+  downloadBlob(blob, filename);
+}
 
-  return groups;
+const reportStatusBadgeClass: Record<Report['status'], string> = {
+  generating: 'bg-yellow-300/10 text-yellow-500 border-yellow-300',
+  completed: 'bg-green-300/10 text-green-500 border-green-300',
+  failed: 'bg-red-300/10 text-red-500 border-red-300',
+};
+
+// Select value standing in for "use the template's default format"
+const TEMPLATE_DEFAULT_FORMAT = 'template';
+
+// Select for choosing the output format of a report
+function ReportFormatSelect({
+  value,
+  onValueChange,
+  className,
+}: {
+  value: ReportFormat;
+  onValueChange: (value: ReportFormat) => void;
+  className?: string;
+}) {
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className={className} aria-label="Report format">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.values(ReportFormat).map(reportFormat => (
+          <SelectItem key={reportFormat} value={reportFormat}>
+            {REPORT_FORMATS[reportFormat].label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
 }
 
-// Helper function to generate CSV content
-function generateCSV(runs: Run[], fields: DefaultReportConfigFields[]): string {
-  const headers = fields.map(field => {
-    switch (field) {
-      case 'flightNumber':
-        return 'Flight Number';
-      case 'airline':
-        return 'Airline';
-      case 'departure':
-        return 'Departure';
-      case 'arrival':
-        return 'Arrival';
-      case 'pickupLocation':
-        return 'Pickup Location';
-      case 'type':
-        return 'Type';
-      case 'dropoffLocation':
-        return 'Dropoff Location';
-      case 'price':
-        return 'Price';
-      default:
-        return field;
-    }
+// Selects for grouping and sorting the runs in a report
+function ReportLayoutSelects({
+  groupBy,
+  onGroupByChange,
+  sort,
+  onSortChange,
+}: {
+  groupBy: ReportGroupBy;
+  onGroupByChange: (value: ReportGroupBy) => void;
+  sort: ReportSort;
+  onSortChange: (value: ReportSort) => void;
+}) {
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <Select value={groupBy} onValueChange={onGroupByChange}>
+        <SelectTrigger aria-label="Group by">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(ReportGroupBy).map(option => (
+            <SelectItem key={option} value={option}>
+              {REPORT_GROUP_BY_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={sort.field}
+        onValueChange={field => onSortChange({ ...sort, field })}
+      >
+        <SelectTrigger aria-label="Sort by">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {REPORT_SORT_FIELDS.map(option => (
+            <SelectItem key={option.field} value={option.field}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={sort.direction}
+        onValueChange={direction =>
+          onSortChange({ ...sort, direction: direction as 'asc' | 'desc' })
+        }
+      >
+        <SelectTrigger aria-label="Sort direction">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="asc">Ascending</SelectItem>
+          <SelectItem value="desc">Descending</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// Admin-only card for generating reports on the server and re-downloading them
+function SavedReportsCard({ selectedRange }: { selectedRange?: DateRange }) {
+  const queryClient = useQueryClient();
+  const { can } = useCan();
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
+  const [selectedFormat, setSelectedFormat] = useState<ReportFormat | null>(
+    null
+  );
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['report-templates'],
+    queryFn: () => reportTemplatesApi.getReportTemplates(),
   });
 
-  const rows = runs.map(run => {
-    return fields.map(field => {
-      const value = run[field];
-      // Handle any commas in the data by wrapping in quotes
-      const stringValue = String(value || '');
-      return stringValue.includes(',') ? `"${stringValue}"` : stringValue;
-    });
+  const { data: reports = [], isLoading: reportsLoading } = useQuery({
+    queryKey: ['reports'],
+    queryFn: () => reportsApi.getReports(),
+    // Poll while any report is still being generated
+    refetchInterval: query =>
+      query.state.data?.some(report => report.status === 'generating')
+        ? 3000
+        : false,
   });
 
-  return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+  const templateId =
+    selectedTemplateId ||
+    templates.find(template => template.isDefault)?.id ||
+    '';
+
+  // Use the template's default output format unless one was picked
+  const reportFormat =
+    selectedFormat ||
+    templates.find(template => template.id === templateId)?.defaultFormat ||
+    ReportFormat.csv;
+
+  const generateReportMutation = useMutation({
+    mutationFn: () => {
+      if (!selectedRange?.from) {
+        throw new Error('Select a date range first');
+      }
+
+      return reportsApi.generateReport({
+        templateId,
+        startDate: startOfDay(selectedRange.from),
+        endDate: endOfDay(selectedRange.to || selectedRange.from),
+        format: reportFormat,
+      });
+    },
+    onSuccess: report => {
+      queryClient.invalidateQueries({ queryKey: ['reports'] });
+      toasts.success('Report generation started', report.name);
+    },
+    onError: error => {
+      console.error('Failed to generate report:', error);
+      toasts.error('Failed to generate report', error.message);
+    },
+  });
+
+  const deleteReportMutation = useMutation({
+    mutationFn: (id: string) => reportsApi.deleteReport(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reports'] });
+      toasts.success('Report deleted');
+    },
+    onError: error => {
+      console.error('Failed to delete report:', error);
+      toasts.error('Failed to delete report', error.message);
+    },
+  });
+
+  const handleDownload = async (report: Report) => {
+    try {
+      const { blob, filename } = await reportsApi.downloadReport(report.id);
+      downloadBlob(
+        blob,
+        filename || `${report.name}.${REPORT_FORMATS[report.format].extension}`
+      );
+    } catch (error) {
+      console.error('Failed to download report:', error);
+      toasts.error(
+        'Failed to download report',
+        error instanceof Error ? error.message : undefined
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Server className="h-4 w-4" />
+          Saved Reports
+        </CardTitle>
+        <CardDescription>
+          Generate organization-wide reports from a template on the server and
+          download them again later
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {can('reports:generate') && (
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Select
+              value={templateId}
+              onValueChange={value => {
+                setSelectedTemplateId(value);
+                setSelectedFormat(null);
+              }}
+            >
+              <SelectTrigger className="sm:flex-1">
+                <SelectValue placeholder="Select template..." />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ReportFormatSelect
+              value={reportFormat}
+              onValueChange={setSelectedFormat}
+              className="sm:w-40"
+            />
+            <Button
+              onClick={() => generateReportMutation.mutate()}
+              disabled={
+                !selectedRange?.from ||
+                !templateId ||
+                generateReportMutation.isPending
+              }
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              Generate Report
+            </Button>
+          </div>
+        )}
+
+        {can('reports:generate') && !selectedRange?.from && (
+          <p className="text-xs text-muted-foreground">
+            Select a date range on the calendar to generate a report
+          </p>
+        )}
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {reportsLoading && (
+            <p className="text-sm text-muted-foreground">Loading reports...</p>
+          )}
+
+          {!reportsLoading && reports.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No reports have been generated yet
+            </p>
+          )}
+
+          {reports.map(report => (
+            <div
+              key={report.id}
+              className="flex items-center justify-between gap-3 p-2 bg-muted rounded-lg text-sm"
+            >
+              <div className="min-w-0">
+                <p className="font-medium truncate">{report.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(report.startDate), 'MMM d, yyyy')} -{' '}
+                  {format(new Date(report.endDate), 'MMM d, yyyy')}
+                  {report.generatedAt &&
+                    ` • generated ${format(new Date(report.generatedAt), 'PPp')}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Badge variant="outline" className="uppercase">
+                  {REPORT_FORMATS[report.format].extension}
+                </Badge>
+                <Badge
+                  variant="outline"
+                  className={reportStatusBadgeClass[report.status]}
+                >
+                  {report.status}
+                </Badge>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  onClick={() => handleDownload(report)}
+                  disabled={report.status !== 'completed'}
+                  aria-label="Download report"
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+                {can('reports:delete') && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-red-600 hover:text-red-700"
+                    onClick={() => deleteReportMutation.mutate(report.id)}
+                    disabled={deleteReportMutation.isPending}
+                    aria-label="Delete report"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
 }
 
-// Helper function to download CSV
-function downloadCSV(content: string, filename: string) {
-  const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  const url = URL.createObjectURL(blob);
-  link.setAttribute('href', url);
-  link.setAttribute('download', filename);
-  link.style.visibility = 'hidden';
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+// Form state for the report schedule dialog
+type ReportScheduleFormState = Omit<
+  ReportScheduleForm,
+  'organizationId' | 'createdBy'
+>;
+
+// Blank schedule: weekly on Monday at 06:00 in the browser's timezone
+function getDefaultScheduleForm(templateId: string): ReportScheduleFormState {
+  return {
+    name: '',
+    templateId,
+    frequency: ReportScheduleFrequency.weekly,
+    dayOfWeek: 1,
+    dayOfMonth: 1,
+    hour: 6,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    format: undefined,
+    recipients: [],
+    isActive: true,
+  };
+}
+
+// Dialog for creating or editing a report schedule
+function ReportScheduleDialog({
+  open,
+  onOpenChange,
+  schedule,
+  templates,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schedule: ReportSchedule | null;
+  templates: ReportTemplate[];
+}) {
+  const queryClient = useQueryClient();
+  const defaultTemplateId =
+    templates.find(template => template.isDefault)?.id ||
+    templates[0]?.id ||
+    '';
+  const [form, setForm] = useState<ReportScheduleFormState>(() =>
+    schedule ? { ...schedule } : getDefaultScheduleForm(defaultTemplateId)
+  );
+  const [recipientsText, setRecipientsText] = useState(
+    schedule?.recipients.join(', ') || ''
+  );
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: () => {
+      const scheduleData = {
+        ...form,
+        recipients: recipientsText
+          .split(/[\s,;]+/)
+          .map(recipient => recipient.trim())
+          .filter(Boolean),
+      };
+      return schedule
+        ? reportSchedulesApi.updateReportSchedule(schedule.id, scheduleData)
+        : reportSchedulesApi.createReportSchedule(scheduleData);
+    },
+    onSuccess: savedSchedule => {
+      queryClient.invalidateQueries({ queryKey: ['report-schedules'] });
+      toasts.success(
+        schedule ? 'Schedule updated' : 'Schedule created',
+        describeReportSchedule(savedSchedule)
+      );
+      onOpenChange(false);
+    },
+    onError: error => {
+      console.error('Failed to save report schedule:', error);
+      toasts.error('Failed to save schedule', error.message);
+    },
+  });
+
+  const updateForm = (changes: Partial<ReportScheduleFormState>) =>
+    setForm(prev => ({ ...prev, ...changes }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {schedule ? 'Edit Schedule' : 'New Report Schedule'}
+          </DialogTitle>
+          <DialogDescription>
+            The report covers the previous week or month and is emailed to every
+            recipient
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="scheduleName">Name</Label>
+            <Input
+              id="scheduleName"
+              value={form.name}
+              onChange={event => updateForm({ name: event.target.value })}
+              placeholder="e.g. Weekly Runs"
+            />
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Template</Label>
+              <Select
+                value={form.templateId}
+                onValueChange={templateId => updateForm({ templateId })}
+              >
+                <SelectTrigger aria-label="Template">
+                  <SelectValue placeholder="Select template..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select
+                value={form.format || TEMPLATE_DEFAULT_FORMAT}
+                onValueChange={value =>
+                  updateForm({
+                    format:
+                      value === TEMPLATE_DEFAULT_FORMAT
+                        ? undefined
+                        : (value as ReportFormat),
+                  })
+                }
+              >
+                <SelectTrigger aria-label="Format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={TEMPLATE_DEFAULT_FORMAT}>
+                    Template default
+                  </SelectItem>
+                  {Object.values(ReportFormat).map(reportFormat => (
+                    <SelectItem key={reportFormat} value={reportFormat}>
+                      {REPORT_FORMATS[reportFormat].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Frequency</Label>
+              <Select
+                value={form.frequency}
+                onValueChange={(frequency: ReportScheduleFrequency) =>
+                  updateForm({ frequency })
+                }
+              >
+                <SelectTrigger aria-label="Frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(ReportScheduleFrequency).map(frequency => (
+                    <SelectItem key={frequency} value={frequency}>
+                      {REPORT_SCHEDULE_FREQUENCY_LABELS[frequency]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Day</Label>
+              {form.frequency === ReportScheduleFrequency.monthly ? (
+                <Select
+                  value={String(form.dayOfMonth)}
+                  onValueChange={value =>
+                    updateForm({ dayOfMonth: Number(value) })
+                  }
+                >
+                  <SelectTrigger aria-label="Day of month">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 28 }, (_, index) => index + 1).map(
+                      day => (
+                        <SelectItem key={day} value={String(day)}>
+                          {day}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Select
+                  value={String(form.dayOfWeek)}
+                  onValueChange={value =>
+                    updateForm({ dayOfWeek: Number(value) })
+                  }
+                >
+                  <SelectTrigger aria-label="Day of week">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <SelectItem key={day} value={String(day)}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Time</Label>
+              <Select
+                value={String(form.hour)}
+                onValueChange={value => updateForm({ hour: Number(value) })}
+              >
+                <SelectTrigger aria-label="Hour">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 24 }, (_, hour) => hour).map(hour => (
+                    <SelectItem key={hour} value={String(hour)}>
+                      {`${String(hour).padStart(2, '0')}:00`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Timezone</Label>
+            <TimezoneCombobox
+              timezones={timezonesData.timezones}
+              value={form.timezone}
+              onValueChange={timezone => updateForm({ timezone })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="scheduleRecipients">Recipients</Label>
+            <Textarea
+              id="scheduleRecipients"
+              value={recipientsText}
+              onChange={event => setRecipientsText(event.target.value)}
+              placeholder="dispatch@example.com, billing@example.com"
+              rows={2}
+            />
+            <p className="text-xs text-muted-foreground">
+              Separate addresses with commas. Without recipients the report is
+              only stored under Saved Reports.
+            </p>
+          </div>
+
+          <label className="flex items-center gap-2 cursor-pointer text-sm">
+            <input
+              type="checkbox"
+              checked={form.isActive}
+              onChange={event => updateForm({ isActive: event.target.checked })}
+              className="rounded"
+            />
+            Active
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveScheduleMutation.mutate()}
+            disabled={
+              !form.name.trim() ||
+              !form.templateId ||
+              saveScheduleMutation.isPending
+            }
+          >
+            {schedule ? 'Save Changes' : 'Create Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Admin-only card for managing recurring reports generated by the server
+function ReportSchedulesCard() {
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<ReportSchedule | null>(
+    null
+  );
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['report-templates'],
+    queryFn: () => reportTemplatesApi.getReportTemplates(),
+  });
+
+  const { data: schedules = [], isLoading } = useQuery({
+    queryKey: ['report-schedules'],
+    queryFn: () => reportSchedulesApi.getReportSchedules(),
+  });
+
+  const runScheduleMutation = useMutation({
+    mutationFn: (id: string) => reportSchedulesApi.runReportSchedule(id),
+    onSuccess: ({ schedule }) => {
+      queryClient.invalidateQueries({ queryKey: ['report-schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['reports'] });
+      if (schedule.lastError) {
+        toasts.error('Scheduled report failed', schedule.lastError);
+      } else {
+        toasts.success(
+          'Scheduled report sent',
+          `${schedule.recipients.length} recipient${schedule.recipients.length === 1 ? '' : 's'}`
+        );
+      }
+    },
+    onError: error => {
+      console.error('Failed to run report schedule:', error);
+      toasts.error('Failed to run schedule', error.message);
+    },
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: (id: string) => reportSchedulesApi.deleteReportSchedule(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report-schedules'] });
+      toasts.success('Schedule deleted');
+    },
+    onError: error => {
+      console.error('Failed to delete report schedule:', error);
+      toasts.error('Failed to delete schedule', error.message);
+    },
+  });
+
+  const openDialog = (schedule: ReportSchedule | null) => {
+    setEditingSchedule(schedule);
+    setDialogOpen(true);
+  };
+
+  const getTemplateName = (templateId: string) =>
+    templates.find(template => template.id === templateId)?.name ||
+    'Unknown template';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-4 w-4" />
+              Scheduled Reports
+            </CardTitle>
+            <CardDescription>
+              Generate a report every week or month and email it to your team
+            </CardDescription>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => openDialog(null)}
+            disabled={templates.length === 0}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Schedule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading && (
+          <p className="text-sm text-muted-foreground">Loading schedules...</p>
+        )}
+
+        {!isLoading && schedules.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No reports are scheduled yet
+          </p>
+        )}
+
+        {schedules.map(schedule => (
+          <div
+            key={schedule.id}
+            className="flex items-center justify-between gap-3 p-2 bg-muted rounded-lg text-sm"
+          >
+            <div className="min-w-0">
+              <p className="font-medium truncate">
+                {schedule.name}
+                <span className="text-muted-foreground font-normal">
+                  {' '}
+                  • {getTemplateName(schedule.templateId)}
+                </span>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {describeReportSchedule(schedule)} •{' '}
+                {schedule.recipients.length} recipient
+                {schedule.recipients.length === 1 ? '' : 's'}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {schedule.isActive
+                  ? `Next run ${format(new Date(schedule.nextRunAt), 'PPp')}`
+                  : 'Paused'}
+                {schedule.lastRunAt &&
+                  ` • last run ${format(new Date(schedule.lastRunAt), 'PPp')}`}
+              </p>
+              {schedule.lastError && (
+                <p className="text-xs text-destructive truncate">
+                  {schedule.lastError}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              {!schedule.isActive && <Badge variant="outline">paused</Badge>}
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                onClick={() => runScheduleMutation.mutate(schedule.id)}
+                disabled={runScheduleMutation.isPending}
+                aria-label="Run schedule now"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                onClick={() => openDialog(schedule)}
+                aria-label="Edit schedule"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-red-600 hover:text-red-700"
+                onClick={() => deleteScheduleMutation.mutate(schedule.id)}
+                disabled={deleteScheduleMutation.isPending}
+                aria-label="Delete schedule"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      {dialogOpen && (
+        <ReportScheduleDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          schedule={editingSchedule}
+          templates={templates}
+        />
+      )}
+    </Card>
+  );
 }
 
 function Reports() {
@@ -106,7 +926,41 @@ function Reports() {
   const [selectedFields, setSelectedFields] = useState<
     DefaultReportConfigFields[]
   >(defaultReportTemplateFields);
+  const [exportFormat, setExportFormat] = useState<ReportFormat>(
+    ReportFormat.csv
+  );
+  const [isExporting, setIsExporting] = useState(false);
+  const [selectedGroupBy, setSelectedGroupBy] = useState<ReportGroupBy | null>(
+    null
+  );
+  const [selectedSort, setSelectedSort] = useState<ReportSort | null>(null);
   const [selectedRunIds, setSelectedRunIds] = useState<Set<string>>(new Set());
+  const { data: organization } = useUserOrganization();
+  const { can } = useCan();
+  const { data: membersData } = useOrganizationMembers(organization?.id || '');
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['report-templates'],
+    queryFn: () => reportTemplatesApi.getReportTemplates(),
+  });
+
+  // Use the default template's grouping and sort unless one was picked
+  const defaultTemplate = templates.find(template => template.isDefault);
+  const groupBy =
+    selectedGroupBy || defaultTemplate?.groupBy || ReportGroupBy.none;
+  const sort = selectedSort || defaultTemplate?.sort || DEFAULT_REPORT_SORT;
+
+  // Display names for driver sections, keyed by user ID
+  const driverNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    membersData?.members.forEach((member: any) => {
+      const name = [member.firstName, member.lastName]
+        .filter(Boolean)
+        .join(' ');
+      names[member.userId] = name || member.email || member.userId;
+    });
+    return names;
+  }, [membersData]);
 
   // Fetch all runs
   const {
@@ -155,6 +1009,23 @@ function Reports() {
     return filteredRuns.filter(run => selectedRunIds.has(run.id));
   }, [filteredRuns, selectedRunIds]);
 
+  // Preview sections in report order, capped at the first 20 runs
+  const previewSections = useMemo(() => {
+    let remaining = 20;
+    return buildReportSections(filteredRuns, { groupBy, sort, driverNames })
+      .map(section => {
+        const visibleRuns = section.runs.slice(0, Math.max(remaining, 0));
+        remaining -= visibleRuns.length;
+        return {
+          ...section,
+          visibleRuns,
+          selectedRuns: section.runs.filter(run => selectedRunIds.has(run.id)),
+        };
+      })
+      .filter(section => section.visibleRuns.length > 0);
+  }, [filteredRuns, groupBy, sort, driverNames, selectedRunIds]);
+  const previewGrouped = isGroupedLayout({ groupBy });
+
   // Calculate stats
   const totalRuns = pastRuns.length;
 
@@ -169,10 +1040,7 @@ function Reports() {
         )
       : 0;
 
-  const totalPrice = pastRuns.reduce(
-    (sum, run) => sum + parseInt(run.price),
-    0
-  );
+  const totalPriceByCurrency = sumCentsByCurrency(pastRuns, getRunTotalCents);
 
   // Handle field selection toggle
   const toggleField = (field: DefaultReportConfigFields) => {
@@ -203,8 +1071,8 @@ function Reports() {
     }
   };
 
-  // Handle CSV export with selected fields and runs
-  const handleExportCSV = () => {
+  // Handle export with selected fields, runs and format
+  const handleExport = async () => {
     if (selectedRuns.length === 0) {
       toasts.error('No runs selected for export');
       return;
@@ -215,17 +1083,44 @@ function Reports() {
       return;
     }
 
-    const csvContent = generateCSV(selectedRuns, selectedFields);
     const fromDate = selectedRange?.from
       ? format(selectedRange.from, 'yyyy-MM-dd')
       : 'unknown';
     const toDate = selectedRange?.to
       ? format(selectedRange.to, 'yyyy-MM-dd')
       : fromDate;
-    const filename = `runs-report-${fromDate}-to-${toDate}.csv`;
+    const filename = `runs-report-${fromDate}-to-${toDate}.${REPORT_FORMATS[exportFormat].extension}`;
+
+    setIsExporting(true);
+    try {
+      const rangeStart = selectedRange?.from ?? new Date();
+      const content = await renderReport(
+        exportFormat,
+        selectedRuns,
+        getExportColumns(selectedFields),
+        {
+          title: 'Runs Report',
+          organizationName: organization?.name,
+          startDate: rangeStart,
+          endDate: selectedRange?.to ?? rangeStart,
+          footerAggregates: [ReportAggregateType.sumPrice],
+          groupBy,
+          sort,
+          driverNames,
+        }
+      );
 
-    downloadCSV(csvContent, filename);
-    toasts.success(`Exported ${selectedRuns.length} runs to ${filename}`);
+      downloadReportContent(content, exportFormat, filename);
+      toasts.success(`Exported ${selectedRuns.length} runs to ${filename}`);
+    } catch (error) {
+      console.error('Failed to export report:', error);
+      toasts.error(
+        'Failed to export report',
+        error instanceof Error ? error.message : undefined
+      );
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   // Custom day renderer with run indicators and click handlers
@@ -336,7 +1231,7 @@ function Reports() {
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold">
-                  ${totalPrice.toLocaleString()}
+                  {formatCurrencyTotals(totalPriceByCurrency)}
                 </div>
                 <p className="text-xs text-muted-foreground">Total Price</p>
               </div>
@@ -422,7 +1317,7 @@ function Reports() {
                                 </span>
                               </div>
                               <span className="text-sm text-muted-foreground">
-                                ${run.price}
+                                {formatRunPrice(run)}
                               </span>
                             </div>
                             <div className="mt-1 text-sm text-muted-foreground">
@@ -462,7 +1357,8 @@ function Reports() {
             <CardHeader>
               <CardTitle>Generate Report</CardTitle>
               <CardDescription>
-                Export detailed CSV reports for the selected date range
+                Export detailed CSV, PDF or Excel reports for the selected date
+                range
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -495,13 +1391,33 @@ function Reports() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Format:</h4>
+                <ReportFormatSelect
+                  value={exportFormat}
+                  onValueChange={setExportFormat}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Group and sort:</h4>
+                <ReportLayoutSelects
+                  groupBy={groupBy}
+                  onGroupByChange={setSelectedGroupBy}
+                  sort={sort}
+                  onSortChange={setSelectedSort}
+                />
+              </div>
+
               <Button
-                onClick={handleExportCSV}
-                disabled={exportDisabled}
+                onClick={handleExport}
+                disabled={exportDisabled || isExporting}
                 className="w-full bg-primary"
               >
                 <Download className="h-4 w-4 mr-2" />
-                Export CSV Report
+                {isExporting
+                  ? 'Exporting...'
+                  : `Export ${REPORT_FORMATS[exportFormat].label} Report`}
               </Button>
 
               {!selectedRange?.from && (
@@ -526,6 +1442,14 @@ function Reports() {
         )}
       </div>
 
+      {/* Server-generated reports */}
+      {can('reports:read') && (
+        <SavedReportsCard selectedRange={selectedRange} />
+      )}
+
+      {/* Recurring server-generated reports */}
+      {can('reports:schedule') && <ReportSchedulesCard />}
+
       {/* Selected Runs Preview */}
       {filteredRuns.length > 0 && (
         <Card>
@@ -547,32 +1471,57 @@ function Reports() {
           </CardHeader>
           <CardContent>
             <div className="space-y-2 max-h-60 overflow-y-auto">
-              {filteredRuns.slice(0, 20).map(run => (
-                <label
-                  key={run.id}
-                  className="flex items-center gap-3 p-2 bg-muted rounded-lg text-sm cursor-pointer hover:bg-muted/80 transition-colors"
-                >
-                  <input
-                    type="checkbox"
-                    checked={selectedRunIds.has(run.id)}
-                    onChange={() => toggleRun(run.id)}
-                    className="rounded border-border text-primary focus:ring-primary focus:ring-offset-0"
-                  />
-                  <div className="flex items-center justify-start gap-3 flex-1">
-                    <div className="flex items-center gap-3">
-                      <span className="font-mono bg-primary/10 text-primary px-2 py-1 rounded">
-                        {run.flightNumber}
+              {previewSections.map(section => (
+                <div key={section.key} className="space-y-2">
+                  {previewGrouped && (
+                    <h4 className="text-sm font-medium pt-2">
+                      {section.label}
+                    </h4>
+                  )}
+                  {section.visibleRuns.map(run => (
+                    <label
+                      key={run.id}
+                      className="flex items-center gap-3 p-2 bg-muted rounded-lg text-sm cursor-pointer hover:bg-muted/80 transition-colors"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedRunIds.has(run.id)}
+                        onChange={() => toggleRun(run.id)}
+                        className="rounded border-border text-primary focus:ring-primary focus:ring-offset-0"
+                      />
+                      <div className="flex items-center justify-start gap-3 flex-1">
+                        <div className="flex items-center gap-3">
+                          <span className="font-mono bg-primary/10 text-primary px-2 py-1 rounded">
+                            {run.flightNumber}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-3 text-muted-foreground">
+                          <span>{run.type}</span>
+                          <span>{formatRunPrice(run)}</span>
+                          <span>
+                            {format(parseISO(run.scheduledTime), 'MMM d')}
+                          </span>
+                        </div>
+                      </div>
+                    </label>
+                  ))}
+                  {previewGrouped && (
+                    <div className="flex items-center justify-between px-2 text-xs font-medium text-muted-foreground">
+                      <span>
+                        {formatSubtotalLabel(section.selectedRuns.length)}{' '}
+                        selected
                       </span>
-                    </div>
-                    <div className="flex items-center gap-3 text-muted-foreground">
-                      <span>{run.type}</span>
-                      <span>${run.price}</span>
                       <span>
-                        {format(parseISO(run.scheduledTime), 'MMM d')}
+                        {formatCurrencyTotals(
+                          sumCentsByCurrency(
+                            section.selectedRuns,
+                            getRunPriceCents
+                          )
+                        )}
                       </span>
                     </div>
-                  </div>
-                </label>
+                  )}
+                </div>
               ))}
               {filteredRuns.length > 20 && (
                 <p className="text-sm text-muted-foreground text-center pt-2">
@@ -33,7 +33,13 @@ import {
 } from '../components/ui/popover';
 import { useAppContext } from '../lib/AppContextProvider';
 import { runsApi } from '../lib/api/client';
-import { useNonAdminRedirect } from '../lib/hooks/use-non-admin-redirect';
+import { useRequireCapability } from '../lib/hooks/use-can';
+import {
+  formatCurrencyTotals,
+  formatRunPrice,
+  getRunTotalCents,
+  sumCentsByCurrency,
+} from '../lib/money';
 import { type Run } from '../lib/schema';
 import { toasts } from '../lib/toast';
 
@@ -89,7 +95,10 @@ async function sendReportRequestToDrivers(
 
 function RequestRunReportPage() {
   const { currentUser } = useAppContext();
-  const { isAdmin, organization } = useNonAdminRedirect('/runs');
+  const { isAllowed, organization } = useRequireCapability(
+    'reports:generate',
+    '/runs'
+  );
   const [selectedRange, setSelectedRange] = useState<DateRange | undefined>();
   const [popoverOpen, setPopoverOpen] = useState(false);
   const [selectedDay, setSelectedDay] = useState<Date | null>(null);
@@ -127,7 +136,7 @@ function RequestRunReportPage() {
   } = useQuery({
     queryKey: ['organization-runs'],
     queryFn: runsApi.getOrganizationRuns,
-    enabled: !!currentUser?.id && !!organization?.id && isAdmin,
+    enabled: !!currentUser?.id && !!organization?.id && isAllowed,
   });
 
   // Group runs by date for calendar indicators
@@ -160,9 +169,9 @@ function RequestRunReportPage() {
   const completedDriverRuns = driverRuns.filter(
     run => run.status === 'completed'
   );
-  const totalRevenue = driverRuns.reduce(
-    (sum, run) => sum + parseInt(run.price),
-    0
+  const totalRevenueByCurrency = sumCentsByCurrency(
+    driverRuns,
+    getRunTotalCents
   );
   const uniqueDrivers = new Set(driverRuns.map(run => run.userId)).size;
 
@@ -344,7 +353,7 @@ function RequestRunReportPage() {
                   </span>
                 </div>
                 <div className="text-sm font-bold">
-                  ${totalRevenue.toLocaleString()}
+                  {formatCurrencyTotals(totalRevenueByCurrency)}
                 </div>
               </div>
             </div>
@@ -423,7 +432,7 @@ function RequestRunReportPage() {
                                 </span>
                               </div>
                               <span className="text-sm text-muted-foreground">
-                                ${run.price}
+                                {formatRunPrice(run)}
                               </span>
                             </div>
                             <div className="mt-1 text-sm text-muted-foreground">
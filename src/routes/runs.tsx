@@ -11,11 +11,14 @@ import {
   Edit,
   FileText,
   Filter,
+  History,
   MapPin,
   Navigation,
   Plane,
   Plus,
+  Repeat,
   Search,
+  ShieldAlert,
   Trash2,
   X,
 } from 'lucide-react';
@@ -56,8 +59,16 @@ import {
 import airlinesData from '../data/airlines.json';
 import { runsApi } from '../lib/api/client';
 import { useMultipleRunsData } from '../lib/hooks/use-api-data';
+import { useCan } from '../lib/hooks/use-can';
 import { useTimezoneFormatters } from '../lib/hooks/use-timezone';
-import { type Run, type RunStatus } from '../lib/schema';
+import { formatRunPrice } from '../lib/money';
+import {
+  formatRunFieldValue,
+  getRunFieldLabel,
+  RUN_EVENT_TYPE_LABELS,
+} from '../lib/run-history';
+import { RUN_STATUS_LABELS } from '../lib/run-status';
+import { type Run, RunEventType, type RunStatus } from '../lib/schema';
 import { toasts } from '../lib/toast';
 
 // Convert the airlines data for compatibility
@@ -67,6 +78,7 @@ function Runs() {
   const queryClient = useQueryClient();
   const { formatScheduleTime } = useTimezoneFormatters();
   const navigate = useNavigate();
+  const { can } = useCan();
 
   // Tab state
   const [activeTab, setActiveTab] = useState<'current' | 'past'>('current');
@@ -75,6 +87,13 @@ function Runs() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [runToDelete, setRunToDelete] = useState<string | null>(null);
 
+  // Run whose change history is open
+  const [historyRun, setHistoryRun] = useState<Run | null>(null);
+
+  // Run an admin is setting the status of outside the transition rules
+  const [overrideRun, setOverrideRun] = useState<Run | null>(null);
+  const [overrideStatus, setOverrideStatus] = useState<RunStatus>('scheduled');
+
   // Search and filter state
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [selectedAirline, setSelectedAirline] = useState<string>('');
@@ -158,8 +177,8 @@ function Runs() {
           bValue = b.completedAt || new Date(0);
           break;
         case 'price':
-          aValue = parseInt(a.price);
-          bValue = parseInt(b.price);
+          aValue = a.priceCents;
+          bValue = b.priceCents;
           break;
         case 'estimatedDuration':
           aValue = a.estimatedDuration;
@@ -222,8 +241,15 @@ function Runs() {
 
   // Mutation for updating run status
   const updateStatusMutation = useMutation({
-    mutationFn: ({ id, status }: { id: string; status: RunStatus }) =>
-      runsApi.updateRunStatus(id, status),
+    mutationFn: ({
+      id,
+      status,
+      override,
+    }: {
+      id: string;
+      status: RunStatus;
+      override?: boolean;
+    }) => runsApi.updateRunStatus(id, status, { override }),
     onSuccess: async (updatedRun: Run | null) => {
       if (updatedRun) {
         // Update the cache immediately with the updated run data
@@ -239,6 +265,7 @@ function Runs() {
     },
     onError: error => {
       console.error('Failed to update run status:', error);
+      toasts.error('Failed to update run status', error.message);
     },
   });
 
@@ -263,20 +290,50 @@ function Runs() {
     queryClient.invalidateQueries({ queryKey: ['runs'] });
   };
 
-  const handleUpdateStatus = (id: string, status: RunStatus) => {
-    updateStatusMutation.mutate({ id, status });
+  const handleUpdateStatus = (
+    id: string,
+    status: RunStatus,
+    onSuccess?: () => void
+  ) => {
+    updateStatusMutation.mutate({ id, status }, { onSuccess });
   };
 
   const handleStartRun = (run: Run) => {
-    handleUpdateStatus(run.id, 'active');
-    toasts.success('Run started', `${run.flightNumber} run is now active.`);
+    handleUpdateStatus(run.id, 'active', () =>
+      toasts.success('Run started', `${run.flightNumber} run is now active.`)
+    );
   };
 
   const handleStopRun = (run: Run) => {
-    handleUpdateStatus(run.id, 'completed');
-    toasts.success(
-      'Run completed',
-      `${run.flightNumber} run has been completed.`
+    handleUpdateStatus(run.id, 'completed', () =>
+      toasts.success(
+        'Run completed',
+        `${run.flightNumber} run has been completed.`
+      )
+    );
+  };
+
+  const handleOverrideStatus = (run: Run) => {
+    setOverrideRun(run);
+    setOverrideStatus(run.status);
+  };
+
+  const confirmOverrideStatus = () => {
+    if (!overrideRun) {
+      return;
+    }
+
+    updateStatusMutation.mutate(
+      { id: overrideRun.id, status: overrideStatus, override: true },
+      {
+        onSuccess: () => {
+          toasts.success(
+            'Run status changed',
+            `${overrideRun.flightNumber} is now ${RUN_STATUS_LABELS[overrideStatus].toLowerCase()}.`
+          );
+          setOverrideRun(null);
+        },
+      }
     );
   };
 
@@ -759,6 +816,25 @@ function Runs() {
                           <CardDescription>{run.airline}</CardDescription>
                         </div>
                         <div className="flex items-center gap-1">
+                          {run.seriesId && (
+                            <Badge
+                              variant="outline"
+                              className="mr-1"
+                              title="Recurring run"
+                            >
+                              <Repeat className="h-3 w-3" />
+                            </Badge>
+                          )}
+                          {run.stops?.length > 0 && (
+                            <Badge
+                              variant="outline"
+                              className="mr-1"
+                              title={`${run.stops.length} stops between pickup and dropoff`}
+                            >
+                              <MapPin className="h-3 w-3 mr-1" />
+                              {run.stops.length}
+                            </Badge>
+                          )}
                           <Badge
                             className={`${getStatusColor(run.status)} mr-2`}
                           >
@@ -796,6 +872,32 @@ function Runs() {
                             </Button>
                           )}
 
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={e => {
+                              e.stopPropagation();
+                              setHistoryRun(run);
+                            }}
+                            className="text-muted-foreground"
+                            title="Run history"
+                          >
+                            <History className="size-4" />
+                          </Button>
+                          {can('runs:manage') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={e => {
+                                e.stopPropagation();
+                                handleOverrideStatus(run);
+                              }}
+                              className="text-muted-foreground"
+                              title="Override status"
+                            >
+                              <ShieldAlert className="size-4" />
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="sm"
@@ -847,7 +949,9 @@ function Runs() {
                           </div>
                           <div className="flex items-start gap-2">
                             <DollarSignIcon className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
-                            <span className="text-sm">{run.price}</span>
+                            <span className="text-sm">
+                              {formatRunPrice(run)}
+                            </span>
                           </div>
                           {run.notes && (
                             <div className="flex items-start gap-2">
@@ -983,6 +1087,32 @@ function Runs() {
                           >
                             {run.status}
                           </Badge>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={e => {
+                              e.stopPropagation();
+                              setHistoryRun(run);
+                            }}
+                            className="text-muted-foreground"
+                            title="Run history"
+                          >
+                            <History className="size-4" />
+                          </Button>
+                          {can('runs:manage') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={e => {
+                                e.stopPropagation();
+                                handleOverrideStatus(run);
+                              }}
+                              className="text-muted-foreground"
+                              title="Override status"
+                            >
+                              <ShieldAlert className="size-4" />
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="sm"
@@ -1049,7 +1179,7 @@ function Runs() {
                         <div className="space-y-3">
                           <div className="flex items-center gap-2">
                             <span className="text-sm font-semibold">
-                              ${run.price}
+                              {formatRunPrice(run)}
                             </span>
                           </div>
                         </div>
@@ -1062,6 +1192,57 @@ function Runs() {
         </TabsContent>
       </Tabs>
 
+      <RunHistoryDialog
+        run={historyRun}
+        onOpenChange={open => !open && setHistoryRun(null)}
+      />
+
+      {/* Admin Status Override Dialog */}
+      <Dialog
+        open={!!overrideRun}
+        onOpenChange={open => !open && setOverrideRun(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Override Run Status</DialogTitle>
+            <DialogDescription>
+              Set any status on {overrideRun?.flightNumber}, including ones the
+              normal run flow doesn't allow such as reopening a completed run.
+              The change is recorded in the run's history.
+            </DialogDescription>
+          </DialogHeader>
+          <Select
+            value={overrideStatus}
+            onValueChange={value => setOverrideStatus(value as RunStatus)}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RUN_STATUS_LABELS) as RunStatus[]).map(status => (
+                <SelectItem key={status} value={status}>
+                  {RUN_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOverrideRun(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={confirmOverrideStatus}
+              disabled={
+                updateStatusMutation.isPending ||
+                overrideStatus === overrideRun?.status
+              }
+            >
+              {updateStatusMutation.isPending ? 'Saving...' : 'Set Status'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
@@ -1093,6 +1274,103 @@ function Runs() {
   );
 }
 
+// Timeline of the changes made to a run, oldest first
+function RunHistoryDialog({
+  run,
+  onOpenChange,
+}: {
+  run: Run | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { formatDateTime, formatScheduleTime } = useTimezoneFormatters();
+
+  const {
+    data: events = [],
+    isLoading,
+    isError,
+  } = useQuery({
+    queryKey: ['run-events', run?.id],
+    queryFn: () => runsApi.getRunEvents(run!.id),
+    enabled: !!run,
+  });
+
+  const formatValue = (field: string, value: unknown) =>
+    field === 'scheduledTime' && typeof value === 'string'
+      ? formatScheduleTime(value)
+      : formatRunFieldValue(field, value, run?.currency);
+
+  return (
+    <Dialog open={!!run} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Run History</DialogTitle>
+          <DialogDescription>
+            {run
+              ? `Changes made to ${run.flightNumber} (${formatScheduleTime(run.scheduledTime)})`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : isError ? (
+          <p className="text-sm text-destructive">
+            Failed to load the run's history.
+          </p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No changes have been recorded for this run yet.
+          </p>
+        ) : (
+          <ol className="relative space-y-4 border-l border-border pl-4">
+            {events.map(event => (
+              <li key={event.id} className="space-y-1">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                <div className="flex items-center justify-between gap-3 text-sm">
+                  <span className="font-medium">
+                    {RUN_EVENT_TYPE_LABELS[event.type]}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDateTime(event.createdAt)}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  by {event.actorName || event.actorId}
+                </p>
+                {event.type !== RunEventType.created &&
+                  event.changes.length > 0 && (
+                    <ul className="space-y-1">
+                      {event.changes.map(change => (
+                        <li
+                          key={change.field}
+                          className="p-2 bg-muted rounded-lg text-sm"
+                        >
+                          <span className="font-medium">
+                            {getRunFieldLabel(change.field)}:
+                          </span>{' '}
+                          {event.type === RunEventType.deleted ? (
+                            formatValue(change.field, change.from)
+                          ) : (
+                            <>
+                              <span className="text-muted-foreground line-through">
+                                {formatValue(change.field, change.from)}
+                              </span>{' '}
+                              → {formatValue(change.field, change.to)}
+                            </>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export const Route = createFileRoute('/runs')({
   component: Runs,
 });
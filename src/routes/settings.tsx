@@ -18,6 +18,7 @@ import {
 } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { useEffect, useState } from 'react';
+import { DriverAvailabilityCalendar } from '../components/driver-availability-calendar';
 import { AirportCombobox } from '../components/ui/airport-combobox';
 import { Button } from '../components/ui/button';
 import {
@@ -45,6 +46,7 @@ import { useAppContext } from '../lib/AppContextProvider';
 import { type UpdatePreferencesData } from '../lib/db/preferences';
 import { isDebugMode } from '../lib/debug';
 import { isFeatureEnabled } from '../lib/features';
+import { useCan } from '../lib/hooks/use-can';
 import {
   notifications,
   type NotificationPermissionState,
@@ -73,6 +75,7 @@ function Settings() {
   const { theme, setTheme } = useTheme();
   const queryClient = useQueryClient();
   const { currentUser } = useAppContext();
+  const { role } = useCan();
   const [notificationPermission, setNotificationPermission] =
     useState<NotificationPermissionState>({
       permission: 'default',
@@ -265,7 +268,7 @@ function Settings() {
       if (!currentUser?.id) {
         throw new Error('User ID is required');
       }
-      return seedApi.generateData(currentUser.id);
+      return seedApi.generateData();
     },
     onSuccess: result => {
       // Invalidate all queries to refresh the UI
@@ -290,7 +293,7 @@ function Settings() {
       if (!currentUser?.id) {
         throw new Error('User ID is required');
       }
-      return seedApi.clearUserData(currentUser.id);
+      return seedApi.clearUserData();
     },
     onSuccess: result => {
       // Invalidate all queries to refresh the UI
@@ -411,6 +414,14 @@ function Settings() {
         </CardContent>
       </Card>
 
+      {/* Availability calendar for drivers in an organization */}
+      {role === 'driver' && (
+        <DriverAvailabilityCalendar
+          driverId={currentUser.id}
+          description="Your shifts, days off and blackout times. Dispatch only assigns you runs when you're available."
+        />
+      )}
+
       {/* Home Airport */}
       <Card>
         <CardHeader>
@@ -0,0 +1,359 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createFileRoute } from '@tanstack/react-router';
+import { Pencil, Plus, Trash2, Truck } from 'lucide-react';
+import { useState } from 'react';
+import { Badge } from '../components/ui/badge';
+import { Button } from '../components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '../components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../components/ui/select';
+import { vehiclesApi } from '../lib/api/client';
+import { useRequireCapability } from '../lib/hooks/use-can';
+import {
+  type Vehicle,
+  type VehicleForm,
+  type VehicleType,
+  VehicleTypeSchema,
+} from '../lib/schema';
+import { toasts } from '../lib/toast';
+import { describeVehicle, VEHICLE_TYPE_LABELS } from '../lib/vehicles';
+
+export const Route = createFileRoute('/vehicles')({
+  component: VehiclesPage,
+});
+
+// Form state for the vehicle dialog; capacity is kept as text while editing
+interface VehicleFormState {
+  name: string;
+  plate: string;
+  capacity: string;
+  type: VehicleType;
+  isActive: boolean;
+}
+
+function getVehicleFormState(vehicle: Vehicle | null): VehicleFormState {
+  return {
+    name: vehicle?.name || '',
+    plate: vehicle?.plate || '',
+    capacity: String(vehicle?.capacity ?? 12),
+    type: vehicle?.type || 'van',
+    isActive: vehicle?.isActive ?? true,
+  };
+}
+
+// Convert dialog form state to the API's vehicle fields
+function toVehicleData(
+  form: VehicleFormState
+): Omit<VehicleForm, 'organizationId'> {
+  return {
+    name: form.name.trim(),
+    plate: form.plate.trim().toUpperCase(),
+    capacity: Number(form.capacity) || 0,
+    type: form.type,
+    isActive: form.isActive,
+  };
+}
+
+// Dialog for adding or editing a vehicle
+function VehicleDialog({
+  open,
+  onOpenChange,
+  vehicle,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicle: Vehicle | null;
+}) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<VehicleFormState>(() =>
+    getVehicleFormState(vehicle)
+  );
+
+  const saveVehicleMutation = useMutation({
+    mutationFn: () => {
+      const vehicleData = toVehicleData(form);
+      return vehicle
+        ? vehiclesApi.updateVehicle(vehicle.id, vehicleData)
+        : vehiclesApi.createVehicle(vehicleData);
+    },
+    onSuccess: savedVehicle => {
+      queryClient.invalidateQueries({ queryKey: ['vehicles'] });
+      toasts.success(
+        vehicle ? 'Vehicle updated' : 'Vehicle added',
+        describeVehicle(savedVehicle)
+      );
+      onOpenChange(false);
+    },
+    onError: error => {
+      console.error('Failed to save vehicle:', error);
+      toasts.error('Failed to save vehicle', error.message);
+    },
+  });
+
+  const updateForm = (changes: Partial<VehicleFormState>) =>
+    setForm(prev => ({ ...prev, ...changes }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{vehicle ? 'Edit Vehicle' : 'New Vehicle'}</DialogTitle>
+          <DialogDescription>
+            Runs assigned to this vehicle can't carry more passengers than it
+            seats
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="vehicleName">Name</Label>
+            <Input
+              id="vehicleName"
+              value={form.name}
+              onChange={event => updateForm({ name: event.target.value })}
+              placeholder="e.g. Van 2"
+            />
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="vehiclePlate">Plate</Label>
+              <Input
+                id="vehiclePlate"
+                value={form.plate}
+                onChange={event =>
+                  updateForm({ plate: event.target.value.toUpperCase() })
+                }
+                maxLength={15}
+                placeholder="ABC123"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vehicleCapacity">Seats</Label>
+              <Input
+                id="vehicleCapacity"
+                type="number"
+                min="1"
+                max="60"
+                step="1"
+                value={form.capacity}
+                onChange={event => updateForm({ capacity: event.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vehicleType">Type</Label>
+              <Select
+                value={form.type}
+                onValueChange={value =>
+                  updateForm({ type: value as VehicleType })
+                }
+              >
+                <SelectTrigger id="vehicleType" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VehicleTypeSchema.options.map(type => (
+                    <SelectItem key={type} value={type}>
+                      {VEHICLE_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 cursor-pointer text-sm">
+            <input
+              type="checkbox"
+              checked={form.isActive}
+              onChange={event => updateForm({ isActive: event.target.checked })}
+              className="rounded"
+            />
+            Active
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveVehicleMutation.mutate()}
+            disabled={
+              !form.name.trim() ||
+              !form.plate.trim() ||
+              !(Number(form.capacity) > 0) ||
+              saveVehicleMutation.isPending
+            }
+          >
+            {vehicle ? 'Save Changes' : 'Add Vehicle'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Card listing the organization's vehicles
+function VehiclesCard({ isAllowed }: { isAllowed: boolean }) {
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingVehicle, setEditingVehicle] = useState<Vehicle | null>(null);
+
+  const { data: vehicles = [], isLoading } = useQuery({
+    queryKey: ['vehicles'],
+    queryFn: () => vehiclesApi.getVehicles(),
+    enabled: isAllowed,
+  });
+
+  const deleteVehicleMutation = useMutation({
+    mutationFn: (id: string) => vehiclesApi.deleteVehicle(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vehicles'] });
+      queryClient.invalidateQueries({ queryKey: ['runs'] });
+      toasts.success('Vehicle deleted');
+    },
+    onError: error => {
+      console.error('Failed to delete vehicle:', error);
+      toasts.error('Failed to delete vehicle', error.message);
+    },
+  });
+
+  const openDialog = (vehicle: Vehicle | null) => {
+    setEditingVehicle(vehicle);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Truck className="h-4 w-4" />
+              Fleet
+            </CardTitle>
+            <CardDescription>
+              Vans, cars and buses drivers can be assigned to runs in
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Vehicle
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading && (
+          <p className="text-sm text-muted-foreground">Loading vehicles...</p>
+        )}
+
+        {!isLoading && vehicles.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No vehicles yet. Add the vehicles your drivers use for runs.
+          </p>
+        )}
+
+        {vehicles.map(vehicle => (
+          <div
+            key={vehicle.id}
+            className="flex items-center justify-between gap-3 p-2 bg-muted rounded-lg text-sm"
+          >
+            <div className="min-w-0">
+              <p className="font-medium truncate">{vehicle.name}</p>
+              <p className="text-xs text-muted-foreground">
+                <span className="font-mono">{vehicle.plate}</span>
+                {` • ${VEHICLE_TYPE_LABELS[vehicle.type]}`}
+                {` • ${vehicle.capacity} seats`}
+              </p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              {!vehicle.isActive && <Badge variant="outline">inactive</Badge>}
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                onClick={() => openDialog(vehicle)}
+                aria-label="Edit vehicle"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-red-600 hover:text-red-700"
+                onClick={() => deleteVehicleMutation.mutate(vehicle.id)}
+                disabled={deleteVehicleMutation.isPending}
+                aria-label="Delete vehicle"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      {dialogOpen && (
+        <VehicleDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          vehicle={editingVehicle}
+        />
+      )}
+    </Card>
+  );
+}
+
+function VehiclesPage() {
+  const { isAllowed, isLoading } = useRequireCapability(
+    'vehicles:edit',
+    '/runs'
+  );
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading vehicles...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-6 max-w-4xl px-4 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Vehicles</h1>
+        <p className="text-muted-foreground text-sm">
+          Manage the fleet and how many passengers each vehicle seats.
+        </p>
+      </div>
+
+      <VehiclesCard isAllowed={isAllowed} />
+    </div>
+  );
+}